@@ -4,65 +4,100 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider } from "@/contexts/AuthContext";
+import { PasswordChangeGate } from "@/components/auth/PasswordChangeGate";
+import { useSessionAutoClose } from "@/hooks/use-session-auto-close";
 import Index from "./pages/Index";
 import Login from "./pages/Login";
 import Register from "./pages/Register";
 import Dashboard from "./pages/Dashboard";
+import ChangePassword from "./pages/ChangePassword";
 import NotFound from "./pages/NotFound";
 import { UserManagement } from "./components/admin/UserManagement";
 import { AdminProfile } from "./components/admin/AdminProfile";
 import { CreateCourse } from "./pages/instructor/CreateCourse";
 import { SetQuiz } from "./pages/instructor/SetQuiz";
+import { QuestionBanks } from "./pages/instructor/QuestionBanks";
+import { QuestionTemplates } from "./pages/instructor/QuestionTemplates";
 import { ScheduleCourse } from "./pages/instructor/ScheduleCourse";
+import { SessionSeries } from "./pages/instructor/SessionSeries";
+import { ManageSessions } from "./pages/instructor/ManageSessions";
 import { Complaints } from "./pages/instructor/Complaints";
 import { ApproveEdits } from "./pages/instructor/ApproveEdits";
+import { LiveSession } from "./pages/instructor/LiveSession";
+import { SessionRoster } from "./pages/instructor/SessionRoster";
+import { Enrollments } from "./pages/instructor/Enrollments";
+import { GradingQueue } from "./pages/instructor/GradingQueue";
+import { FlaggedAttempts } from "./pages/instructor/FlaggedAttempts";
 import { QuickCheckIn } from "./pages/student/QuickCheckIn";
 import { Progress } from "./pages/student/Progress";
 import { Schedule } from "./pages/student/Schedule";
+import { Enroll } from "./pages/student/Enroll";
+import { TakeQuiz } from "./pages/student/TakeQuiz";
 import { StudentProfile } from "./pages/student/Profile";
 import { Analytics } from "./pages/instructor/Analytics";
+import { ItemAnalysis } from "./pages/instructor/ItemAnalysis";
 import { InstructorProfile } from "./pages/instructor/InstructorProfile";
 import { SystemSettings } from "./pages/admin/SystemSettings";
 import { AdminAnalytics } from "./pages/admin/AdminAnalytics";
 import { SecuritySettings } from "./pages/admin/SecuritySettings";
+import { Rooms } from "./pages/admin/Rooms";
 
 const queryClient = new QueryClient();
 
-const App = () => (
-  <QueryClientProvider client={queryClient}>
-    <TooltipProvider>
-      <AuthProvider>
-        <Toaster />
-        <Sonner />
-        <BrowserRouter>
-          <Routes>
-            <Route path="/" element={<Index />} />
-            <Route path="/login" element={<Login />} />
-            <Route path="/register" element={<Register />} />
-            <Route path="/dashboard" element={<Dashboard />} />
-            <Route path="/user-management" element={<UserManagement />} />
-            <Route path="/admin-profile" element={<AdminProfile />} />
-            <Route path="/instructor/create-course" element={<CreateCourse />} />
-            <Route path="/instructor/set-quiz" element={<SetQuiz />} />
-            <Route path="/instructor/schedule-course" element={<ScheduleCourse />} />
-            <Route path="/instructor/complaints" element={<Complaints />} />
-            <Route path="/instructor/approve-edits" element={<ApproveEdits />} />
-            <Route path="/instructor/analytics" element={<Analytics />} />
-            <Route path="/instructor/profile" element={<InstructorProfile />} />
-            <Route path="/student/quick-checkin" element={<QuickCheckIn />} />
-            <Route path="/student/progress" element={<Progress />} />
-            <Route path="/student/schedule" element={<Schedule />} />
-            <Route path="/student/profile" element={<StudentProfile />} />
-            <Route path="/admin/system-settings" element={<SystemSettings />} />
-            <Route path="/admin/analytics" element={<AdminAnalytics />} />
-            <Route path="/security" element={<SecuritySettings />} />
-            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-            <Route path="*" element={<NotFound />} />
-          </Routes>
-        </BrowserRouter>
-      </AuthProvider>
-    </TooltipProvider>
-  </QueryClientProvider>
-);
+const App = () => {
+  useSessionAutoClose();
+
+  return (
+    <QueryClientProvider client={queryClient}>
+      <TooltipProvider>
+        <AuthProvider>
+          <Toaster />
+          <Sonner />
+          <BrowserRouter>
+            <PasswordChangeGate />
+            <Routes>
+              <Route path="/" element={<Index />} />
+              <Route path="/login" element={<Login />} />
+              <Route path="/register" element={<Register />} />
+              <Route path="/dashboard" element={<Dashboard />} />
+              <Route path="/change-password" element={<ChangePassword />} />
+              <Route path="/user-management" element={<UserManagement />} />
+              <Route path="/admin-profile" element={<AdminProfile />} />
+              <Route path="/instructor/create-course" element={<CreateCourse />} />
+              <Route path="/instructor/set-quiz" element={<SetQuiz />} />
+              <Route path="/instructor/question-banks" element={<QuestionBanks />} />
+              <Route path="/instructor/question-templates" element={<QuestionTemplates />} />
+              <Route path="/instructor/schedule-course" element={<ScheduleCourse />} />
+              <Route path="/instructor/session-series" element={<SessionSeries />} />
+              <Route path="/instructor/sessions" element={<ManageSessions />} />
+              <Route path="/instructor/complaints" element={<Complaints />} />
+              <Route path="/instructor/approve-edits" element={<ApproveEdits />} />
+              <Route path="/instructor/live-session" element={<LiveSession />} />
+              <Route path="/instructor/session-roster" element={<SessionRoster />} />
+              <Route path="/instructor/enrollments" element={<Enrollments />} />
+              <Route path="/instructor/grading" element={<GradingQueue />} />
+              <Route path="/instructor/flagged-attempts" element={<FlaggedAttempts />} />
+              <Route path="/instructor/analytics" element={<Analytics />} />
+              <Route path="/instructor/item-analysis" element={<ItemAnalysis />} />
+              <Route path="/instructor/profile" element={<InstructorProfile />} />
+              <Route path="/student/quick-checkin" element={<QuickCheckIn />} />
+              <Route path="/student/progress" element={<Progress />} />
+              <Route path="/student/schedule" element={<Schedule />} />
+              <Route path="/student/enroll" element={<Enroll />} />
+              <Route path="/student/quiz/:id" element={<TakeQuiz />} />
+              <Route path="/student/profile" element={<StudentProfile />} />
+              <Route path="/admin/system-settings" element={<SystemSettings />} />
+              <Route path="/admin/analytics" element={<AdminAnalytics />} />
+              <Route path="/admin/rooms" element={<Rooms />} />
+              <Route path="/security" element={<SecuritySettings />} />
+              {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+              <Route path="*" element={<NotFound />} />
+            </Routes>
+          </BrowserRouter>
+        </AuthProvider>
+      </TooltipProvider>
+    </QueryClientProvider>
+  );
+};
 
 export default App;
@@ -8,6 +8,7 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { Textarea } from '@/components/ui/textarea';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { db, User, Message, Ban } from '@/lib/database';
+import { deleteUserAndData } from '@/lib/userDeletion';
 import { toast } from '@/hooks/use-toast';
 import { 
   Users, 
@@ -62,7 +63,7 @@ export const UserManagement: React.FC = () => {
               const sessionDate = new Date(session.date);
               const threeMonthsAgo = new Date();
               threeMonthsAgo.setMonth(threeMonthsAgo.getMonth() - 3);
-              return sessionDate >= threeMonthsAgo;
+              return sessionDate >= threeMonthsAgo && !session.cancelledAt;
             })
             .count();
 
@@ -179,31 +180,7 @@ export const UserManagement: React.FC = () => {
     }
 
     try {
-      await db.transaction('rw', [
-        db.users, 
-        db.attendanceRecords, 
-        db.quizSubmissions, 
-        db.messages, 
-        db.courseEnrollments, 
-        db.bans,
-        db.courses,
-        db.classSessions
-      ], async () => {
-        // Delete related records
-        await db.attendanceRecords.where('studentId').equals(userId).delete();
-        await db.quizSubmissions.where('studentId').equals(userId).delete();
-        await db.messages.where('senderId').equals(userId).delete();
-        await db.messages.where('receiverId').equals(userId).delete();
-        await db.courseEnrollments.where('studentId').equals(userId).delete();
-        await db.bans.where('userId').equals(userId).delete();
-        
-        // For instructors, also delete their courses and sessions
-        await db.courses.where('instructorId').equals(userId).delete();
-        await db.classSessions.where('instructorId').equals(userId).delete();
-        
-        // Delete user
-        await db.users.delete(userId);
-      });
+      await deleteUserAndData(userId);
 
       toast({
         title: "User Deleted",
@@ -0,0 +1,173 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Camera, CameraOff, ImageUp } from 'lucide-react';
+import { decodeQrFromFile, decodeQrFromSource, isCameraSupported } from '@/lib/qrDecode';
+import { toast } from '@/hooks/use-toast';
+
+interface QrScannerProps {
+  onDecode: (payload: string) => void;
+  // While paused the camera stays open but decoded frames are ignored
+  paused?: boolean;
+}
+
+// Minimum gap between decode attempts and before the same code is reported again
+const SCAN_INTERVAL_MS = 250;
+const REPEAT_COOLDOWN_MS = 3000;
+
+export const QrScanner: React.FC<QrScannerProps> = ({ onDecode, paused = false }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const onDecodeRef = useRef(onDecode);
+  const pausedRef = useRef(paused);
+  const [cameraState, setCameraState] = useState<'starting' | 'active' | 'unavailable'>('starting');
+  const [cameraError, setCameraError] = useState('');
+
+  onDecodeRef.current = onDecode;
+  pausedRef.current = paused;
+
+  useEffect(() => {
+    if (!isCameraSupported()) {
+      setCameraState('unavailable');
+      setCameraError('Camera access is not supported on this device');
+      return;
+    }
+
+    const canvas = document.createElement('canvas');
+    let stream: MediaStream | null = null;
+    let frameRequest = 0;
+    let stopped = false;
+    let lastScanAt = 0;
+    let lastPayload = '';
+    let lastPayloadAt = 0;
+
+    const scanFrame = (timestamp: number) => {
+      if (stopped) return;
+      frameRequest = requestAnimationFrame(scanFrame);
+
+      const video = videoRef.current;
+      if (!video || video.readyState < video.HAVE_ENOUGH_DATA) return;
+      if (pausedRef.current || timestamp - lastScanAt < SCAN_INTERVAL_MS) return;
+      lastScanAt = timestamp;
+
+      const payload = decodeQrFromSource(video, video.videoWidth, video.videoHeight, canvas);
+      if (!payload) return;
+
+      const now = Date.now();
+      if (payload === lastPayload && now - lastPayloadAt < REPEAT_COOLDOWN_MS) return;
+      lastPayload = payload;
+      lastPayloadAt = now;
+      onDecodeRef.current(payload);
+    };
+
+    const startCamera = async () => {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({
+          video: { facingMode: 'environment' },
+          audio: false
+        });
+
+        if (stopped || !videoRef.current) {
+          stream.getTracks().forEach(track => track.stop());
+          return;
+        }
+
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+        setCameraState('active');
+        frameRequest = requestAnimationFrame(scanFrame);
+      } catch (error) {
+        console.error('Error starting camera:', error);
+        if (stopped) return;
+        setCameraState('unavailable');
+        setCameraError(
+          error instanceof DOMException && error.name === 'NotAllowedError'
+            ? 'Camera permission was denied'
+            : 'No camera could be started on this device'
+        );
+      }
+    };
+
+    startCamera();
+
+    return () => {
+      stopped = true;
+      cancelAnimationFrame(frameRequest);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, []);
+
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const payload = await decodeQrFromFile(file);
+      if (!payload) {
+        toast({
+          title: "No QR Code Found",
+          description: "Could not find a QR code in the selected image",
+          variant: "destructive"
+        });
+        return;
+      }
+      onDecodeRef.current(payload);
+    } catch (error) {
+      console.error('Error decoding image:', error);
+      toast({
+        title: "Image Error",
+        description: error instanceof Error ? error.message : "Unable to read the selected image",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-gray-900 p-4 rounded-2xl mx-auto w-fit">
+        <div className="relative w-64 h-64 rounded-lg overflow-hidden flex items-center justify-center">
+          <video
+            ref={videoRef}
+            muted
+            playsInline
+            className={`absolute inset-0 w-full h-full object-cover ${cameraState === 'active' ? '' : 'hidden'}`}
+          />
+          {cameraState === 'active' && (
+            <div className="absolute inset-6 border-2 border-dashed border-white/70 rounded-lg pointer-events-none" />
+          )}
+          {cameraState === 'starting' && (
+            <div className="text-center text-white">
+              <div className="animate-spin rounded-full h-12 w-12 border-2 border-white border-t-transparent mx-auto mb-4"></div>
+              <p>Starting camera...</p>
+            </div>
+          )}
+          {cameraState === 'unavailable' && (
+            <div className="text-center text-gray-400 px-4">
+              <CameraOff size={48} className="mx-auto mb-2" />
+              <p className="text-sm">{cameraError}</p>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="flex items-center justify-center space-x-2 text-sm text-muted-foreground">
+        <Camera size={14} />
+        <span>{cameraState === 'active' ? 'Hold the QR code inside the frame' : 'Upload a photo of the QR code instead'}</span>
+      </div>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="image/*"
+        className="hidden"
+        onChange={handleFileSelected}
+      />
+      <div className="flex justify-center">
+        <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+          <ImageUp size={14} />
+          Upload Image
+        </Button>
+      </div>
+    </div>
+  );
+};
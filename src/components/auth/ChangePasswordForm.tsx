@@ -0,0 +1,129 @@
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Link, useNavigate } from 'react-router-dom';
+import { Eye, EyeOff, KeyRound } from 'lucide-react';
+import { PasswordStrengthMeter } from '@/components/auth/PasswordStrengthMeter';
+import { DEFAULT_PASSWORD_POLICY, getPasswordPolicy, PasswordPolicy, validatePassword } from '@/lib/passwordPolicy';
+
+export const ChangePasswordForm: React.FC = () => {
+  const { user, changePassword, passwordChangeRequired } = useAuth();
+  const navigate = useNavigate();
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [showPasswords, setShowPasswords] = useState(false);
+  const [policy, setPolicy] = useState<PasswordPolicy>(DEFAULT_PASSWORD_POLICY);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    getPasswordPolicy()
+      .then(setPolicy)
+      .catch(error => console.error('Error loading password policy:', error));
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+
+    const success = await changePassword(currentPassword, newPassword);
+    if (success) {
+      navigate('/dashboard');
+    }
+
+    setIsLoading(false);
+  };
+
+  const isValid = !validatePassword(newPassword, policy) && newPassword === confirmPassword && currentPassword !== '';
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      {passwordChangeRequired && (
+        <p className="text-sm text-warning">
+          Your password is more than {policy.changeIntervalDays} days old. Choose a new one to continue.
+        </p>
+      )}
+
+      <div className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="currentPassword" className="text-glass-foreground font-medium">Current Password</Label>
+          <div className="relative">
+            <Input
+              id="currentPassword"
+              type={showPasswords ? 'text' : 'password'}
+              value={currentPassword}
+              onChange={(e) => setCurrentPassword(e.target.value)}
+              placeholder="••••••••"
+              required
+              className="glass border-glass-border/30 bg-glass/5 text-glass-foreground placeholder:text-muted-foreground pr-10"
+            />
+            <button
+              type="button"
+              onClick={() => setShowPasswords(!showPasswords)}
+              className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-glass-foreground transition-colors"
+            >
+              {showPasswords ? <EyeOff size={16} /> : <Eye size={16} />}
+            </button>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="newPassword" className="text-glass-foreground font-medium">New Password</Label>
+          <Input
+            id="newPassword"
+            type={showPasswords ? 'text' : 'password'}
+            value={newPassword}
+            onChange={(e) => setNewPassword(e.target.value)}
+            placeholder="••••••••"
+            required
+            className="glass border-glass-border/30 bg-glass/5 text-glass-foreground placeholder:text-muted-foreground"
+          />
+          <PasswordStrengthMeter
+            password={newPassword}
+            policy={policy}
+            personalInfo={user ? [user.firstName, user.lastName, user.email.split('@')[0]] : []}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="confirmNewPassword" className="text-glass-foreground font-medium">Confirm New Password</Label>
+          <Input
+            id="confirmNewPassword"
+            type={showPasswords ? 'text' : 'password'}
+            value={confirmPassword}
+            onChange={(e) => setConfirmPassword(e.target.value)}
+            placeholder="••••••••"
+            required
+            className={`glass border-glass-border/30 bg-glass/5 text-glass-foreground placeholder:text-muted-foreground ${
+              confirmPassword && newPassword !== confirmPassword ? 'border-destructive/50' : ''
+            }`}
+          />
+          {confirmPassword && newPassword !== confirmPassword && (
+            <p className="text-xs text-destructive">Passwords do not match</p>
+          )}
+        </div>
+      </div>
+
+      <Button type="submit" variant="primary" size="lg" disabled={isLoading || !isValid} className="w-full">
+        {isLoading ? (
+          <div className="animate-spin rounded-full h-4 w-4 border-2 border-primary-foreground border-t-transparent" />
+        ) : (
+          <>
+            <KeyRound size={16} />
+            Change Password
+          </>
+        )}
+      </Button>
+
+      {!passwordChangeRequired && (
+        <div className="text-center">
+          <Link to="/dashboard" className="text-sm text-muted-foreground hover:text-glass-foreground transition-colors">
+            Back to Dashboard
+          </Link>
+        </div>
+      )}
+    </form>
+  );
+};
@@ -0,0 +1,14 @@
+import React from 'react';
+import { Navigate, useLocation } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+
+// Sends signed-in users whose password has expired to the change form, whatever page they open
+export const PasswordChangeGate: React.FC = () => {
+  const { user, passwordChangeRequired } = useAuth();
+  const location = useLocation();
+
+  if (user && passwordChangeRequired && location.pathname !== '/change-password') {
+    return <Navigate to="/change-password" replace />;
+  }
+  return null;
+};
@@ -0,0 +1,44 @@
+import React from 'react';
+import { Check, X } from 'lucide-react';
+import { getPasswordRequirements, getPasswordStrength, PasswordPolicy } from '@/lib/passwordPolicy';
+
+interface PasswordStrengthMeterProps {
+  password: string;
+  policy: PasswordPolicy;
+  personalInfo?: string[];
+}
+
+const barColors = ['bg-destructive', 'bg-destructive', 'bg-warning', 'bg-success', 'bg-success'];
+
+export const PasswordStrengthMeter: React.FC<PasswordStrengthMeterProps> = ({ password, policy, personalInfo = [] }) => {
+  const strength = getPasswordStrength(password, personalInfo);
+  const requirements = getPasswordRequirements(password, policy);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center space-x-2">
+        <div className="flex flex-1 space-x-1">
+          {[1, 2, 3, 4].map((level) => (
+            <div
+              key={level}
+              className={`h-1.5 flex-1 rounded-full ${password && strength.score >= level ? barColors[strength.score] : 'bg-glass/20'}`}
+            />
+          ))}
+        </div>
+        {password && <span className="text-xs text-muted-foreground w-16 text-right">{strength.label}</span>}
+      </div>
+
+      <ul className="grid grid-cols-2 gap-1">
+        {requirements.map((requirement) => (
+          <li
+            key={requirement.label}
+            className={`flex items-center text-xs ${requirement.met ? 'text-success' : 'text-muted-foreground'}`}
+          >
+            {requirement.met ? <Check size={12} className="mr-1" /> : <X size={12} className="mr-1" />}
+            {requirement.label}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -7,6 +7,8 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Link, useNavigate } from 'react-router-dom';
 import { Eye, EyeOff, UserPlus } from 'lucide-react';
 import { validateEmail } from '@/lib/emailValidation';
+import { DEFAULT_PASSWORD_POLICY, getPasswordPolicy, PasswordPolicy, validatePassword } from '@/lib/passwordPolicy';
+import { PasswordStrengthMeter } from '@/components/auth/PasswordStrengthMeter';
 import { db } from '@/lib/database';
 import { toast } from '@/hooks/use-toast';
 
@@ -24,6 +26,7 @@ export const RegisterForm: React.FC = () => {
   const [showConfirmPassword, setShowConfirmPassword] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [departments, setDepartments] = useState<string[]>([]);
+  const [passwordPolicy, setPasswordPolicy] = useState<PasswordPolicy>(DEFAULT_PASSWORD_POLICY);
   const { register } = useAuth();
   const navigate = useNavigate();
 
@@ -38,6 +41,10 @@ export const RegisterForm: React.FC = () => {
       }
     };
     loadDepartments();
+
+    getPasswordPolicy()
+      .then(setPasswordPolicy)
+      .catch(error => console.error('Error loading password policy:', error));
   }, []);
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -64,6 +71,16 @@ export const RegisterForm: React.FC = () => {
       return;
     }
 
+    const passwordProblem = validatePassword(formData.password, passwordPolicy);
+    if (passwordProblem) {
+      toast({
+        title: "Weak Password",
+        description: passwordProblem,
+        variant: "destructive"
+      });
+      return;
+    }
+
     if (formData.password !== formData.confirmPassword) {
       toast({
         title: "Password Mismatch",
@@ -189,6 +206,11 @@ export const RegisterForm: React.FC = () => {
               {showPassword ? <EyeOff size={16} /> : <Eye size={16} />}
             </button>
           </div>
+          <PasswordStrengthMeter
+            password={formData.password}
+            policy={passwordPolicy}
+            personalInfo={[formData.firstName, formData.lastName, formData.email.split('@')[0]]}
+          />
         </div>
 
         <div className="space-y-2">
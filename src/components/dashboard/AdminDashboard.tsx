@@ -2,7 +2,7 @@ import React from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { GlassCard } from '@/components/ui/glass-card';
 import { Button } from '@/components/ui/button';
-import { Users, School, Settings, BarChart3, Shield, Bell } from 'lucide-react';
+import { Users, School, Settings, BarChart3, Shield, Bell, DoorOpen } from 'lucide-react';
 import { Link } from 'react-router-dom';
 import { db } from '@/lib/database';
 
@@ -25,7 +25,7 @@ export const AdminDashboard: React.FC = () => {
       const activeCourses = await db.courses.count();
       
       const today = new Date().toISOString().split('T')[0];
-      const sessionsToday = await db.classSessions.where('date').equals(today).count();
+      const sessionsToday = await db.classSessions.where('date').equals(today).and(session => !session.cancelledAt).count();
       
       const pendingApprovals = await db.users
         .where('role').equals('instructor')
@@ -55,6 +55,7 @@ export const AdminDashboard: React.FC = () => {
     { label: 'System Settings', icon: Settings, href: '/admin/system-settings' },
     { label: 'Analytics', icon: BarChart3, href: '/admin/analytics' },
     { label: 'Security', icon: Shield, href: '/security' },
+    { label: 'Rooms', icon: DoorOpen, href: '/admin/rooms' },
   ];
 
   return (
@@ -2,9 +2,11 @@ import React from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { GlassCard } from '@/components/ui/glass-card';
 import { Button } from '@/components/ui/button';
-import { Calendar, Users, BookOpen, Plus, BarChart3, Clock, MessageSquare, UserCheck, ClipboardList, MapPin } from 'lucide-react';
+import { Calendar, Users, BookOpen, Plus, BarChart3, Clock, MessageSquare, UserCheck, ClipboardList, MapPin, QrCode, ClipboardCheck, UserPlus, PenLine, Library, ShieldAlert, CalendarClock } from 'lucide-react';
 import { Link } from 'react-router-dom';
 import { db } from '@/lib/database';
+import { countsAsAttended, countsTowardRate } from '@/lib/attendancePolicy';
+import { getPendingAnswers } from '@/lib/quizGrading';
 
 export const InstructorDashboard: React.FC = () => {
   const { user, logout } = useAuth();
@@ -14,7 +16,9 @@ export const InstructorDashboard: React.FC = () => {
     sessionsThisWeek: 0,
     avgAttendance: 0,
     pendingComplaints: 0,
-    pendingEditRequests: 0
+    pendingEditRequests: 0,
+    pendingEnrollments: 0,
+    pendingGrading: 0
   });
 
   React.useEffect(() => {
@@ -42,24 +46,27 @@ export const InstructorDashboard: React.FC = () => {
         .where('instructorId').equals(user.id)
         .and(session => {
           const sessionDate = new Date(session.date);
-          return sessionDate >= weekStart && sessionDate <= weekEnd;
+          return sessionDate >= weekStart && sessionDate <= weekEnd && !session.cancelledAt;
         })
         .count();
 
       // Calculate average attendance
-      const allSessions = await db.classSessions.where('instructorId').equals(user.id).toArray();
+      const allSessions = await db.classSessions.where('instructorId').equals(user.id).and(session => !session.cancelledAt).toArray();
       let totalAttendanceRate = 0;
       let sessionCount = 0;
 
       for (const session of allSessions) {
-        const totalRecords = await db.attendanceRecords.where('sessionId').equals(session.id!).count();
-        const presentRecords = await db.attendanceRecords
+        const totalRecords = await db.attendanceRecords
           .where('sessionId').equals(session.id!)
-          .and(record => record.status === 'present')
+          .and(record => countsTowardRate(record.status))
+          .count();
+        const attendedRecords = await db.attendanceRecords
+          .where('sessionId').equals(session.id!)
+          .and(record => countsAsAttended(record.status))
           .count();
         
         if (totalRecords > 0) {
-          totalAttendanceRate += (presentRecords / totalRecords) * 100;
+          totalAttendanceRate += (attendedRecords / totalRecords) * 100;
           sessionCount++;
         }
       }
@@ -78,13 +85,24 @@ export const InstructorDashboard: React.FC = () => {
         .and(msg => msg.status === 'pending' && msg.type === 'profile_edit_request')
         .count();
 
+      // Get pending enrollment requests for this instructor's courses
+      const pendingEnrollments = await db.enrollmentRequests
+        .where('courseId').anyOf(courseIds)
+        .and(request => request.status === 'pending')
+        .count();
+
+      // Short answers waiting for a manual grade
+      const pendingGrading = (await getPendingAnswers(user.id)).length;
+
       setStats({
         activeCourses,
         totalStudents,
         sessionsThisWeek,
         avgAttendance,
         pendingComplaints,
-        pendingEditRequests
+        pendingEditRequests,
+        pendingEnrollments,
+        pendingGrading
       });
     } catch (error) {
       console.error('Error loading stats:', error);
@@ -101,7 +119,14 @@ export const InstructorDashboard: React.FC = () => {
   const quickActions = [
     { label: 'Create Course', icon: Plus, href: '/instructor/create-course', color: 'bg-gradient-primary' },
     { label: 'Set Quiz', icon: ClipboardList, href: '/instructor/set-quiz', color: 'bg-gradient-secondary' },
+    { label: 'Question Banks', icon: Library, href: '/instructor/question-banks', color: 'bg-accent' },
     { label: 'Schedule Course', icon: Calendar, href: '/instructor/schedule-course', color: 'bg-accent' },
+    { label: 'Manage Sessions', icon: CalendarClock, href: '/instructor/sessions', color: 'bg-gradient-secondary' },
+    { label: 'Live Session', icon: QrCode, href: '/instructor/live-session', color: 'bg-gradient-primary' },
+    { label: 'Attendance Roster', icon: ClipboardCheck, href: '/instructor/session-roster', color: 'bg-gradient-secondary' },
+    { label: 'Enrollments', icon: UserPlus, href: '/instructor/enrollments', color: 'bg-accent', badge: stats.pendingEnrollments },
+    { label: 'Grading', icon: PenLine, href: '/instructor/grading', color: 'bg-gradient-primary', badge: stats.pendingGrading },
+    { label: 'Flagged Attempts', icon: ShieldAlert, href: '/instructor/flagged-attempts', color: 'bg-warning' },
     { label: 'Analytics', icon: BarChart3, href: '/instructor/analytics', color: 'bg-success' },
     { label: 'Complaints', icon: MessageSquare, href: '/instructor/complaints', color: 'bg-warning', badge: stats.pendingComplaints },
     { label: 'Approve Edits', icon: UserCheck, href: '/instructor/approve-edits', color: 'bg-destructive', badge: stats.pendingEditRequests },
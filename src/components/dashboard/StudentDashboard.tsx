@@ -2,9 +2,12 @@ import React from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { GlassCard } from '@/components/ui/glass-card';
 import { Button } from '@/components/ui/button';
-import { Calendar, BookOpen, Trophy, CheckCircle, Clock, MapPin, BarChart3, Users } from 'lucide-react';
+import { Calendar, BookOpen, Trophy, CheckCircle, Clock, MapPin, BarChart3, Users, UserPlus, ClipboardList } from 'lucide-react';
 import { Link } from 'react-router-dom';
-import { db } from '@/lib/database';
+import { db, Quiz } from '@/lib/database';
+import { calculateAttendanceRate, getAttendancePolicy, isCheckInOpen } from '@/lib/attendancePolicy';
+import { excludeCancelledRecords } from '@/lib/sessionChanges';
+import { getQuizWindow, hasAttemptsRemaining, isScoreVisible } from '@/lib/quizAttempt';
 
 export const StudentDashboard: React.FC = () => {
   const { user, logout } = useAuth();
@@ -16,6 +19,7 @@ export const StudentDashboard: React.FC = () => {
   });
   const [upcomingClasses, setUpcomingClasses] = React.useState<any[]>([]);
   const [recentActivity, setRecentActivity] = React.useState<any[]>([]);
+  const [availableQuizzes, setAvailableQuizzes] = React.useState<(Quiz & { courseName: string; questionCount: number })[]>([]);
 
   React.useEffect(() => {
     loadStudentData();
@@ -36,9 +40,8 @@ export const StudentDashboard: React.FC = () => {
         .count();
 
       // Calculate attendance rate
-      const attendanceRecords = await db.attendanceRecords.where('studentId').equals(user.id).toArray();
-      const presentRecords = attendanceRecords.filter(record => record.status === 'present').length;
-      const attendanceRate = attendanceRecords.length > 0 ? Math.round((presentRecords / attendanceRecords.length) * 100) : 0;
+      const attendanceRecords = await excludeCancelledRecords(await db.attendanceRecords.where('studentId').equals(user.id).toArray());
+      const attendanceRate = calculateAttendanceRate(attendanceRecords);
 
       // Get upcoming classes (next 7 days)
       const today = new Date();
@@ -52,20 +55,18 @@ export const StudentDashboard: React.FC = () => {
       // Filter sessions for enrolled courses
       const enrolledCourseIds = enrollments.map(e => e.courseId);
       const relevantSessions = upcomingSessions.filter(session => 
-        enrolledCourseIds.includes(session.courseId)
+        enrolledCourseIds.includes(session.courseId) && !session.cancelledAt
       );
 
       // Get course and instructor details for upcoming sessions
+      const policy = await getAttendancePolicy();
       const upcomingWithDetails = await Promise.all(
         relevantSessions.slice(0, 3).map(async (session) => {
           const course = await db.courses.get(session.courseId);
           const instructor = await db.users.get(session.instructorId);
           
-          // Check if student can check in (within 30 minutes of start time)
-          const sessionDateTime = new Date(`${session.date}T${session.startTime}`);
-          const now = new Date();
-          const timeDiff = sessionDateTime.getTime() - now.getTime();
-          const canCheckIn = timeDiff <= 30 * 60 * 1000 && timeDiff >= -15 * 60 * 1000; // 30 min before to 15 min after
+          // Check if student can check in (from shortly before start until the late threshold)
+          const canCheckIn = session.isActive && isCheckInOpen(session, new Date(), policy);
 
           return {
             ...session,
@@ -99,7 +100,7 @@ export const StudentDashboard: React.FC = () => {
         activityItems.push({
           type: 'attendance',
           course: course?.name || 'Unknown Course',
-          status: record.status === 'present' ? 'Present' : record.status === 'late' ? 'Late' : 'Absent',
+          status: record.status === 'present' ? 'Present' : record.status === 'late' ? 'Late' : record.status === 'excused' ? 'Excused' : 'Absent',
           time: new Date(record.createdAt).toLocaleDateString(),
           icon: record.status === 'present' ? CheckCircle : Clock
         });
@@ -107,19 +108,44 @@ export const StudentDashboard: React.FC = () => {
 
       for (const quiz of recentQuizzes) {
         const quizData = await db.quizzes.get(quiz.quizId);
-        const session = quizData ? await db.classSessions.get(quizData.sessionId) : null;
-        const course = session ? await db.courses.get(session.courseId) : null;
+        const course = quizData ? await db.courses.get(quizData.courseId) : null;
         const percentage = quiz.maxScore > 0 ? Math.round((quiz.totalScore || 0) / quiz.maxScore * 100) : 0;
         
         activityItems.push({
           type: 'quiz',
           course: course?.name || 'Unknown Course',
-          status: `Completed - ${percentage}%`,
+          status: quizData && isScoreVisible(quizData) ? `Completed - ${percentage}%` : 'Completed',
           time: new Date(quiz.createdAt).toLocaleDateString(),
           icon: Trophy
         });
       }
 
+      // Active quizzes in enrolled courses that still have attempts left
+      const submittedQuizIds = (await db.quizSubmissions
+        .where('studentId').equals(user.id)
+        .and(submission => submission.isCompleted)
+        .toArray()).map(submission => submission.quizId);
+
+      const activeQuizzes = await db.quizzes
+        .filter(quiz => quiz.isActive && hasAttemptsRemaining(quiz, submittedQuizIds.filter(id => id === quiz.id).length))
+        .toArray();
+      const quizzesWithDetails: (Quiz & { courseName: string; questionCount: number })[] = [];
+      for (const quiz of activeQuizzes) {
+        if (!enrolledCourseIds.includes(quiz.courseId)) continue;
+        const quizWindow = await getQuizWindow(quiz);
+        // Hide quizzes that have closed or open more than a week from now
+        if (quizWindow.closesAt && quizWindow.closesAt < today) continue;
+        if (quizWindow.opensAt && quizWindow.opensAt > nextWeek) continue;
+        const course = await db.courses.get(quiz.courseId);
+        quizzesWithDetails.push({
+          ...quiz,
+          opensAt: quizWindow.opensAt?.toISOString(),
+          closesAt: quizWindow.closesAt?.toISOString(),
+          courseName: course?.name || 'Unknown Course',
+          questionCount: quiz.questions.length
+        });
+      }
+
       // Sort by date and take most recent
       activityItems.sort((a, b) => new Date(b.time).getTime() - new Date(a.time).getTime());
 
@@ -131,6 +157,7 @@ export const StudentDashboard: React.FC = () => {
       });
       setUpcomingClasses(upcomingWithDetails);
       setRecentActivity(activityItems.slice(0, 4));
+      setAvailableQuizzes(quizzesWithDetails);
     } catch (error) {
       console.error('Error loading student data:', error);
     }
@@ -147,6 +174,7 @@ export const StudentDashboard: React.FC = () => {
     { label: 'Quick Check In', icon: MapPin, href: '/student/quick-checkin', color: 'bg-gradient-primary' },
     { label: 'My Progress', icon: BarChart3, href: '/student/progress', color: 'bg-gradient-secondary' },
     { label: 'Schedule', icon: Calendar, href: '/student/schedule', color: 'bg-accent' },
+    { label: 'Enroll in Courses', icon: UserPlus, href: '/student/enroll', color: 'bg-success' },
   ];
 
   return (
@@ -187,7 +215,7 @@ export const StudentDashboard: React.FC = () => {
       </div>
 
       {/* Quick Actions */}
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
         {quickActions.map((action, index) => (
           <Link key={index} to={action.href}>
             <GlassCard variant="glow" className="glass-hover cursor-pointer">
@@ -206,6 +234,36 @@ export const StudentDashboard: React.FC = () => {
         ))}
       </div>
 
+      {/* Available Quizzes */}
+      {availableQuizzes.length > 0 && (
+        <GlassCard variant="intense" className="mb-8">
+          <h2 className="text-xl font-semibold text-glass-foreground mb-4 flex items-center">
+            <ClipboardList className="mr-2" size={20} />
+            Available Quizzes
+          </h2>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {availableQuizzes.map((quiz) => (
+              <div key={quiz.id} className="p-4 glass rounded-lg flex items-center justify-between">
+                <div>
+                  <h3 className="font-semibold text-glass-foreground text-sm">{quiz.title}</h3>
+                  <p className="text-xs text-muted-foreground">
+                    {quiz.courseName} · {quiz.questionCount} questions · {quiz.timeLimit} min
+                  </p>
+                  {quiz.opensAt && new Date(quiz.opensAt) > new Date() ? (
+                    <p className="text-xs text-warning">Opens {new Date(quiz.opensAt).toLocaleString()}</p>
+                  ) : quiz.closesAt && (
+                    <p className="text-xs text-muted-foreground">Closes {new Date(quiz.closesAt).toLocaleString()}</p>
+                  )}
+                </div>
+                <Link to={`/student/quiz/${quiz.id}`}>
+                  <Button variant="primary" size="sm">Take Quiz</Button>
+                </Link>
+              </div>
+            ))}
+          </div>
+        </GlassCard>
+      )}
+
       {/* Upcoming Classes & Recent Activity */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         <GlassCard variant="intense">
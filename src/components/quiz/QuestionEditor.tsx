@@ -0,0 +1,138 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { QuestionDraft } from '@/lib/questionBank';
+
+interface QuestionEditorProps {
+  question: QuestionDraft;
+  onChange: (question: QuestionDraft) => void;
+}
+
+export const QuestionEditor: React.FC<QuestionEditorProps> = ({ question, onChange }) => {
+  const update = <K extends keyof QuestionDraft>(field: K, value: QuestionDraft[K]) => {
+    onChange({ ...question, [field]: value });
+  };
+
+  const changeType = (type: QuestionDraft['type']) => {
+    onChange({
+      ...question,
+      type,
+      options: type === 'multiple_choice'
+        ? (question.options?.length === 4 ? question.options : ['', '', '', ''])
+        : type === 'true_false' ? ['True', 'False'] : undefined,
+      correctAnswer: ''
+    });
+  };
+
+  const updateOption = (optionIndex: number, value: string) => {
+    const options = [...(question.options || [])];
+    const previous = options[optionIndex];
+    options[optionIndex] = value;
+    onChange({
+      ...question,
+      options,
+      // Keep the correct answer pointing at the edited option
+      correctAnswer: question.correctAnswer === previous ? value : question.correctAnswer
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label className="text-glass-foreground font-medium">Question Type</Label>
+          <Select value={question.type} onValueChange={changeType}>
+            <SelectTrigger className="glass border-glass-border/30 bg-glass/5 text-glass-foreground">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="glass border-glass-border/30 bg-glass text-glass-foreground">
+              <SelectItem value="multiple_choice">Multiple Choice</SelectItem>
+              <SelectItem value="true_false">True/False</SelectItem>
+              <SelectItem value="short_answer">Short Answer</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-glass-foreground font-medium">Points</Label>
+          <Input
+            type="number"
+            value={question.points}
+            onChange={(e) => update('points', parseInt(e.target.value))}
+            min="1"
+            max="10"
+            className="glass border-glass-border/30 bg-glass/5 text-glass-foreground"
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-glass-foreground font-medium">Question</Label>
+        <Textarea
+          value={question.question}
+          onChange={(e) => update('question', e.target.value)}
+          placeholder="Enter your question here..."
+          className="glass border-glass-border/30 bg-glass/5 text-glass-foreground"
+          rows={2}
+        />
+      </div>
+
+      {question.type === 'multiple_choice' && (
+        <div className="space-y-2">
+          <Label className="text-glass-foreground font-medium">Options</Label>
+          {question.options?.map((option, optionIndex) => (
+            <div key={optionIndex} className="flex items-center space-x-2">
+              <span className="text-glass-foreground font-medium w-8">
+                {String.fromCharCode(65 + optionIndex)}.
+              </span>
+              <Input
+                value={option}
+                onChange={(e) => updateOption(optionIndex, e.target.value)}
+                placeholder={`Option ${String.fromCharCode(65 + optionIndex)}`}
+                className="glass border-glass-border/30 bg-glass/5 text-glass-foreground"
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label className="text-glass-foreground font-medium">Correct Answer</Label>
+        {question.type === 'multiple_choice' ? (
+          <Select value={question.correctAnswer} onValueChange={(value) => update('correctAnswer', value)}>
+            <SelectTrigger className="glass border-glass-border/30 bg-glass/5 text-glass-foreground">
+              <SelectValue placeholder="Select correct answer" />
+            </SelectTrigger>
+            <SelectContent className="glass border-glass-border/30 bg-glass text-glass-foreground">
+              {question.options?.filter(option => option.trim() !== '').map((option, optionIndex) => (
+                <SelectItem key={optionIndex} value={option}>
+                  {String.fromCharCode(65 + optionIndex)}. {option}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        ) : question.type === 'true_false' ? (
+          <Select value={question.correctAnswer} onValueChange={(value) => update('correctAnswer', value)}>
+            <SelectTrigger className="glass border-glass-border/30 bg-glass/5 text-glass-foreground">
+              <SelectValue placeholder="Select correct answer" />
+            </SelectTrigger>
+            <SelectContent className="glass border-glass-border/30 bg-glass text-glass-foreground">
+              <SelectItem value="True">True</SelectItem>
+              <SelectItem value="False">False</SelectItem>
+            </SelectContent>
+          </Select>
+        ) : (
+          <Textarea
+            value={question.correctAnswer}
+            onChange={(e) => update('correctAnswer', e.target.value)}
+            placeholder="Enter the correct answer or key points..."
+            className="glass border-glass-border/30 bg-glass/5 text-glass-foreground"
+            rows={2}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
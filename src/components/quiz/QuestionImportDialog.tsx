@@ -0,0 +1,158 @@
+import React, { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertTriangle, FileUp, Upload } from 'lucide-react';
+import { QuestionDraft } from '@/lib/questionBank';
+import { QuestionFormat, detectFormat, parseQuestions, questionFormats } from '@/lib/questionFormats';
+import { toast } from '@/hooks/use-toast';
+
+interface QuestionImportDialogProps {
+  open: boolean;
+  bankName: string;
+  onOpenChange: (open: boolean) => void;
+  onImport: (questions: QuestionDraft[]) => Promise<boolean>;
+}
+
+export const QuestionImportDialog: React.FC<QuestionImportDialogProps> = ({ open, bankName, onOpenChange, onImport }) => {
+  const [format, setFormat] = useState<QuestionFormat>('gift');
+  const [source, setSource] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const result = source.trim() ? parseQuestions(source, format) : null;
+
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      setFormat(detectFormat(file.name) || format);
+      setSource(await file.text());
+    } catch (error) {
+      console.error('Error reading import file:', error);
+      toast({
+        title: "Error",
+        description: "Could not read the selected file",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleImport = async () => {
+    if (!result || result.questions.length === 0) return;
+
+    setIsImporting(true);
+    try {
+      const isImported = await onImport(result.questions.map(imported => imported.question));
+      if (isImported) setSource('');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="glass border-glass-border/30 max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-glass-foreground">Import Questions into {bankName}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-end space-x-3">
+            <div className="space-y-2 flex-1">
+              <Label className="text-glass-foreground font-medium">Format</Label>
+              <Select value={format} onValueChange={(value: QuestionFormat) => setFormat(value)}>
+                <SelectTrigger className="glass border-glass-border/30 bg-glass/5 text-glass-foreground">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="glass border-glass-border/30 bg-glass text-glass-foreground">
+                  {questionFormats.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".gift,.txt,.xml,.qti,.csv"
+              className="hidden"
+              onChange={handleFileSelected}
+            />
+            <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+              <FileUp size={16} />
+              Choose File
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="importSource" className="text-glass-foreground font-medium">File Contents</Label>
+            <Textarea
+              id="importSource"
+              value={source}
+              onChange={(e) => setSource(e.target.value)}
+              placeholder={format === 'csv'
+                ? 'type,question,options,correct_answer,points\nmultiple_choice,What is 2 + 2?,3|4|5,4,1'
+                : 'Choose a file or paste its contents here'}
+              className="glass border-glass-border/30 bg-glass/5 text-glass-foreground font-mono text-xs"
+              rows={8}
+            />
+          </div>
+
+          {result && (
+            <div className="space-y-3">
+              <h3 className="font-semibold text-glass-foreground">
+                Preview · {result.questions.length} ready, {result.errors.length} with errors
+              </h3>
+
+              {result.errors.length > 0 && (
+                <div className="space-y-1 p-3 rounded-lg border border-destructive/40">
+                  {result.errors.map((error, index) => (
+                    <p key={index} className="text-sm text-destructive flex items-start">
+                      <AlertTriangle size={14} className="mr-2 mt-0.5 shrink-0" />
+                      Line {error.line}: {error.message}
+                    </p>
+                  ))}
+                </div>
+              )}
+
+              <div className="space-y-2 max-h-64 overflow-y-auto">
+                {result.questions.map(({ line, question }, index) => (
+                  <div key={index} className="glass p-3 rounded-lg">
+                    <div className="flex items-center space-x-2 mb-1">
+                      <Badge variant="outline">{question.type.replace('_', ' ')}</Badge>
+                      <span className="text-xs text-muted-foreground">Line {line} · {question.points} pts</span>
+                    </div>
+                    <p className="text-sm text-glass-foreground">{question.question}</p>
+                    {question.correctAnswer && (
+                      <p className="text-xs text-muted-foreground mt-1">Answer: {question.correctAnswer}</p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-3">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button
+              variant="primary"
+              onClick={handleImport}
+              disabled={isImporting || !result || result.questions.length === 0}
+            >
+              <Upload size={16} />
+              Import {result?.questions.length || 0} Questions
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
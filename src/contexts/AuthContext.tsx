@@ -1,5 +1,9 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { db, User, Ban } from '@/lib/database';
+import { hashPassword, needsRehash, verifyPassword } from '@/lib/password';
+import { getPasswordPolicy, isPasswordChangeDue, validatePassword } from '@/lib/passwordPolicy';
+import { clearFailedLogins, formatUnlockTime, getLockedUntil, recordFailedLogin } from '@/lib/loginThrottle';
+import { deleteUserAndData } from '@/lib/userDeletion';
 import { toast } from '@/hooks/use-toast';
 
 interface AuthContextType {
@@ -10,6 +14,8 @@ interface AuthContextType {
   loading: boolean;
   updateProfile: (updates: Partial<User>) => Promise<boolean>;
   deleteAccount: (password: string) => Promise<boolean>;
+  changePassword: (currentPassword: string, newPassword: string) => Promise<boolean>;
+  passwordChangeRequired: boolean;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -29,6 +35,7 @@ interface AuthProviderProps {
 export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
+  const [passwordChangeRequired, setPasswordChangeRequired] = useState(false);
 
   // Check for stored session on mount
   useEffect(() => {
@@ -39,6 +46,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
           const storedUser = await db.users.get(parseInt(storedUserId));
           if (storedUser) {
             setUser(storedUser);
+            setPasswordChangeRequired(isPasswordChangeDue(storedUser, await getPasswordPolicy()));
           } else {
             localStorage.removeItem('attendanceUserId');
           }
@@ -83,16 +91,41 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         return false;
       }
 
-      // Simple password check (in production, use proper hashing)
-      if (foundUser.password !== password) {
+      // Locked accounts are rejected before the password is checked so guessing cannot continue
+      const lockedUntil = getLockedUntil(foundUser);
+      if (lockedUntil) {
         toast({
-          title: "Login Failed",
-          description: "Invalid email or password",
+          title: "Account Locked",
+          description: `Too many failed login attempts. Try again after ${formatUnlockTime(lockedUntil)}.`,
           variant: "destructive"
         });
         return false;
       }
 
+      if (!(await verifyPassword(password, foundUser.password))) {
+        const result = await recordFailedLogin(foundUser.id!);
+        if (result.lockedUntil) {
+          toast({
+            title: "Account Locked",
+            description: `Too many failed login attempts. Try again after ${formatUnlockTime(result.lockedUntil)}.`,
+            variant: "destructive"
+          });
+        } else {
+          toast({
+            title: "Login Failed",
+            description: result.attemptsRemaining <= 2
+              ? `Invalid email or password. ${result.attemptsRemaining} attempt${result.attemptsRemaining === 1 ? '' : 's'} left before your account is locked.`
+              : "Invalid email or password",
+            variant: "destructive"
+          });
+        }
+        return false;
+      }
+
+      if (foundUser.failedLoginAttempts || foundUser.lockedUntil) {
+        await clearFailedLogins(foundUser.id!);
+      }
+
       // Check if instructor is approved
       if (foundUser.role === 'instructor' && !foundUser.isApproved) {
         toast({
@@ -114,7 +147,14 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         return false;
       }
 
+      // Upgrade plaintext or outdated hashes now that we know the password
+      if (needsRehash(foundUser.password)) {
+        foundUser.password = await hashPassword(password);
+        await db.users.update(foundUser.id!, { password: foundUser.password });
+      }
+
       setUser(foundUser);
+      setPasswordChangeRequired(isPasswordChangeDue(foundUser, await getPasswordPolicy()));
       localStorage.setItem('attendanceUserId', foundUser.id!.toString());
       
       toast({
@@ -147,11 +187,23 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         return false;
       }
 
+      const passwordProblem = validatePassword(userData.password, await getPasswordPolicy());
+      if (passwordProblem) {
+        toast({
+          title: "Weak Password",
+          description: passwordProblem,
+          variant: "destructive"
+        });
+        return false;
+      }
+
       // For instructors, require admin approval
       const isApproved = userData.role !== 'instructor';
 
       const newUser: Omit<User, 'id'> = {
         ...userData,
+        password: await hashPassword(userData.password),
+        passwordChangedAt: new Date().toISOString(),
         isApproved,
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString()
@@ -223,8 +275,9 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     if (!user?.id) return false;
 
     try {
-      // Verify password
-      if (user.password !== password) {
+      // Verify against the stored hash, which may have been upgraded since this session began
+      const storedUser = await db.users.get(user.id);
+      if (!storedUser || !(await verifyPassword(password, storedUser.password))) {
         toast({
           title: "Delete Failed",
           description: "Incorrect password",
@@ -233,19 +286,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         return false;
       }
 
-      // Delete user and related data
-      await db.transaction('rw', [db.users, db.attendanceRecords, db.quizSubmissions, db.messages, db.courseEnrollments, db.bans], async () => {
-        // Delete related records
-        await db.attendanceRecords.where('studentId').equals(user.id!).delete();
-        await db.quizSubmissions.where('studentId').equals(user.id!).delete();
-        await db.messages.where('senderId').equals(user.id!).delete();
-        await db.messages.where('receiverId').equals(user.id!).delete();
-        await db.courseEnrollments.where('studentId').equals(user.id!).delete();
-        await db.bans.where('userId').equals(user.id!).delete();
-        
-        // Delete user
-        await db.users.delete(user.id!);
-      });
+      await deleteUserAndData(user.id);
 
       logout();
       toast({
@@ -265,8 +306,57 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
+  const changePassword = async (currentPassword: string, newPassword: string): Promise<boolean> => {
+    if (!user?.id) return false;
+
+    try {
+      const storedUser = await db.users.get(user.id);
+      if (!storedUser || !(await verifyPassword(currentPassword, storedUser.password))) {
+        toast({
+          title: "Change Failed",
+          description: "Current password is incorrect",
+          variant: "destructive"
+        });
+        return false;
+      }
+
+      const passwordProblem = validatePassword(newPassword, await getPasswordPolicy());
+      if (passwordProblem || newPassword === currentPassword) {
+        toast({
+          title: "Weak Password",
+          description: passwordProblem || "Choose a password different from your current one",
+          variant: "destructive"
+        });
+        return false;
+      }
+
+      const changes = {
+        password: await hashPassword(newPassword),
+        passwordChangedAt: new Date().toISOString()
+      };
+      await db.users.update(user.id, changes);
+      setUser({ ...storedUser, ...changes });
+      setPasswordChangeRequired(false);
+
+      toast({
+        title: "Password Changed",
+        description: "Your password has been updated successfully",
+      });
+      return true;
+    } catch (error) {
+      console.error('Password change error:', error);
+      toast({
+        title: "Change Error",
+        description: "An error occurred while changing your password",
+        variant: "destructive"
+      });
+      return false;
+    }
+  };
+
   const logout = () => {
     setUser(null);
+    setPasswordChangeRequired(false);
     localStorage.removeItem('attendanceUserId');
     toast({
       title: "Logged Out",
@@ -281,7 +371,9 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     register,
     loading,
     updateProfile,
-    deleteAccount
+    deleteAccount,
+    changePassword,
+    passwordChangeRequired
   };
 
   return (
@@ -0,0 +1,27 @@
+import * as React from "react"
+import { closeEndedSessions } from "@/lib/sessionClose"
+
+const CHECK_INTERVAL_MS = 60 * 1000
+
+// Closes sessions whose end time has passed, on startup and then every minute while the app is open
+export function useSessionAutoClose() {
+  React.useEffect(() => {
+    let running = false
+
+    const check = async () => {
+      if (running) return
+      running = true
+      try {
+        await closeEndedSessions()
+      } catch (error) {
+        console.error("Error closing ended sessions:", error)
+      } finally {
+        running = false
+      }
+    }
+
+    check()
+    const interval = setInterval(check, CHECK_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [])
+}
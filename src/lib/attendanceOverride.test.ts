@@ -0,0 +1,76 @@
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { db } from '@/lib/database';
+import { getSessionOverrides, overrideAttendance } from '@/lib/attendanceOverride';
+
+const request = (overrides = {}) => ({
+  sessionId: 1,
+  studentId: 10,
+  status: 'excused' as const,
+  reason: 'Doctor\'s note',
+  changedBy: 2,
+  ...overrides
+});
+
+beforeEach(async () => {
+  await Promise.all(db.tables.map(table => table.clear()));
+  const courseId = await db.courses.add({ name: 'Analysis', code: 'MATH101', instructorId: 2, createdAt: '', updatedAt: '' });
+  await db.classSessions.add({
+    id: 1,
+    courseId,
+    instructorId: 2,
+    title: 'Lecture',
+    date: '2026-10-19',
+    startTime: '09:00',
+    endTime: '10:00',
+    checkInMethod: 'qr',
+    isActive: false,
+    createdAt: '',
+    updatedAt: ''
+  });
+});
+
+describe('overrideAttendance', () => {
+  it('changes an existing record and audits the previous status', async () => {
+    const recordId = await db.attendanceRecords.add({
+      sessionId: 1,
+      studentId: 10,
+      status: 'absent',
+      isManualOverride: false,
+      createdAt: '',
+      updatedAt: ''
+    });
+
+    const record = await overrideAttendance(request());
+
+    expect(record).toMatchObject({ id: recordId, status: 'excused', isManualOverride: true });
+    expect(await db.attendanceRecords.get(recordId)).toMatchObject({ status: 'excused', isManualOverride: true });
+    expect(await getSessionOverrides(1)).toMatchObject([
+      { recordId, studentId: 10, previousStatus: 'absent', newStatus: 'excused', reason: 'Doctor\'s note', changedBy: 2 }
+    ]);
+  });
+
+  it('creates a manual record for students who never checked in', async () => {
+    const record = await overrideAttendance(request({ status: 'present' }));
+
+    expect(record).toMatchObject({ checkInMethod: 'manual', status: 'present', isManualOverride: true });
+    expect(record.checkInTime).toBeDefined();
+    expect((await getSessionOverrides(1))[0].previousStatus).toBeNull();
+  });
+
+  it('requires a reason and a real change', async () => {
+    await expect(overrideAttendance(request({ reason: '  ' }))).rejects.toThrow('A reason is required');
+
+    await overrideAttendance(request());
+    await expect(overrideAttendance(request())).rejects.toThrow('This student is already marked excused');
+    expect(await db.attendanceOverrides.count()).toBe(1);
+  });
+
+  it('only lets the course instructor change attendance', async () => {
+    await expect(overrideAttendance(request({ changedBy: 3 })))
+      .rejects.toThrow('Only the instructor of this course can change its attendance');
+    await expect(overrideAttendance(request({ sessionId: 99 }))).rejects.toThrow('Session not found');
+    expect(await db.attendanceRecords.count()).toBe(0);
+    expect(await db.attendanceOverrides.count()).toBe(0);
+  });
+});
@@ -0,0 +1,82 @@
+import { db, AttendanceRecord, AttendanceOverride } from '@/lib/database';
+
+// Manual attendance changes made by instructors. Only the instructor who owns the
+// session's course may make them. Every change is written to attendanceOverrides
+// alongside the record so disputes can be traced later.
+
+export interface OverrideRequest {
+  sessionId: number;
+  studentId: number;
+  status: AttendanceRecord['status'];
+  reason: string;
+  changedBy: number;
+}
+
+export const overrideAttendance = async (request: OverrideRequest): Promise<AttendanceRecord> => {
+  const reason = request.reason.trim();
+  if (!reason) {
+    throw new Error('A reason is required for manual attendance changes');
+  }
+
+  return db.transaction('rw', [db.classSessions, db.courses, db.attendanceRecords, db.attendanceOverrides], async () => {
+    const session = await db.classSessions.get(request.sessionId);
+    if (!session) {
+      throw new Error('Session not found');
+    }
+    const course = await db.courses.get(session.courseId);
+    if (course?.instructorId !== request.changedBy) {
+      throw new Error('Only the instructor of this course can change its attendance');
+    }
+
+    const now = new Date().toISOString();
+    const existing = await db.attendanceRecords
+      .where('sessionId').equals(request.sessionId)
+      .and(record => record.studentId === request.studentId)
+      .first();
+
+    if (existing?.status === request.status) {
+      throw new Error(`This student is already marked ${request.status}`);
+    }
+
+    let record: AttendanceRecord;
+    if (existing) {
+      await db.attendanceRecords.update(existing.id!, {
+        status: request.status,
+        isManualOverride: true,
+        updatedAt: now
+      });
+      record = { ...existing, status: request.status, isManualOverride: true, updatedAt: now };
+    } else {
+      record = {
+        sessionId: request.sessionId,
+        studentId: request.studentId,
+        status: request.status,
+        checkInTime: request.status === 'present' || request.status === 'late' ? now : undefined,
+        checkInMethod: 'manual',
+        isManualOverride: true,
+        createdAt: now,
+        updatedAt: now
+      };
+      record.id = await db.attendanceRecords.add(record);
+    }
+
+    await db.attendanceOverrides.add({
+      recordId: record.id!,
+      sessionId: request.sessionId,
+      studentId: request.studentId,
+      previousStatus: existing ? existing.status : null,
+      newStatus: request.status,
+      reason,
+      changedBy: request.changedBy,
+      createdAt: now
+    });
+
+    return record;
+  });
+};
+
+// Newest first
+export const getSessionOverrides = async (sessionId: number): Promise<AttendanceOverride[]> => {
+  const overrides = await db.attendanceOverrides.where('sessionId').equals(sessionId).toArray();
+  return overrides.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
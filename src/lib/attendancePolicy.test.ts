@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { calculateAttendanceRate, EARLY_CHECK_IN_MINUTES, evaluateCheckIn } from '@/lib/attendancePolicy';
+
+const session = { date: '2026-10-19', startTime: '09:00' };
+const policy = { gracePeriodMinutes: 15, lateThresholdMinutes: 30 };
+
+const at = (minutesAfterStart: number) => new Date(new Date('2026-10-19T09:00').getTime() + minutesAfterStart * 60 * 1000);
+
+describe('evaluateCheckIn', () => {
+  it('rejects check-ins before the early window opens', () => {
+    expect(evaluateCheckIn(session, at(-EARLY_CHECK_IN_MINUTES - 1), policy).decision).toBe('rejected');
+    expect(evaluateCheckIn(session, at(-EARLY_CHECK_IN_MINUTES), policy).decision).toBe('present');
+  });
+
+  it('marks present up to the end of the grace period', () => {
+    expect(evaluateCheckIn(session, at(15), policy).decision).toBe('present');
+  });
+
+  it('marks late between the grace period and the late threshold', () => {
+    const evaluation = evaluateCheckIn(session, at(20), policy);
+    expect(evaluation.decision).toBe('late');
+    expect(evaluation.minutesAfterStart).toBe(20);
+    expect(evaluateCheckIn(session, at(30), policy).decision).toBe('late');
+  });
+
+  it('rejects check-ins after the late threshold', () => {
+    const evaluation = evaluateCheckIn(session, at(31), policy);
+    expect(evaluation.decision).toBe('rejected');
+    expect(evaluation.message).toMatch(/30 minutes/);
+  });
+});
+
+describe('calculateAttendanceRate', () => {
+  it('counts late as attended and leaves excused records out', () => {
+    expect(calculateAttendanceRate([
+      { status: 'present' },
+      { status: 'late' },
+      { status: 'absent' },
+      { status: 'excused' }
+    ])).toBe(67);
+  });
+
+  it('is 0 when nothing counts toward the rate', () => {
+    expect(calculateAttendanceRate([])).toBe(0);
+    expect(calculateAttendanceRate([{ status: 'excused' }])).toBe(0);
+  });
+});
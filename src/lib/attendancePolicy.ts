@@ -0,0 +1,96 @@
+import { AttendanceRecord, ClassSession } from '@/lib/database';
+import { getNumericSetting } from '@/lib/settings';
+
+// Decides how a check-in counts, based on when it happens relative to the session start.
+//   up to the grace period after start  -> present
+//   up to the late threshold after start -> late
+//   after the late threshold             -> rejected (the student will be marked absent)
+// Check-ins open a fixed window before the session starts.
+
+const DEFAULT_GRACE_PERIOD_MINUTES = 15;
+const DEFAULT_LATE_THRESHOLD_MINUTES = 30;
+export const EARLY_CHECK_IN_MINUTES = 30;
+
+const MINUTE_MS = 60 * 1000;
+
+export interface AttendancePolicy {
+  gracePeriodMinutes: number;
+  lateThresholdMinutes: number;
+}
+
+export type CheckInDecision = 'present' | 'late' | 'rejected';
+
+export interface CheckInEvaluation {
+  decision: CheckInDecision;
+  minutesAfterStart: number;
+  message?: string;
+}
+
+export const getAttendancePolicy = async (): Promise<AttendancePolicy> => {
+  const gracePeriodMinutes = Math.max(await getNumericSetting('attendance_grace_period', DEFAULT_GRACE_PERIOD_MINUTES), 0);
+  const lateThresholdMinutes = await getNumericSetting('late_threshold', DEFAULT_LATE_THRESHOLD_MINUTES);
+
+  // A threshold inside the grace period simply means there is no late window
+  return {
+    gracePeriodMinutes,
+    lateThresholdMinutes: Math.max(lateThresholdMinutes, gracePeriodMinutes)
+  };
+};
+
+// Session dates and times are stored as local wall-clock values
+export const getSessionStart = (session: Pick<ClassSession, 'date' | 'startTime'>): Date =>
+  new Date(`${session.date}T${session.startTime}`);
+
+export const getSessionEnd = (session: Pick<ClassSession, 'date' | 'endTime'>): Date =>
+  new Date(`${session.date}T${session.endTime}`);
+
+export const evaluateCheckIn = (
+  session: Pick<ClassSession, 'date' | 'startTime'>,
+  checkInTime: Date,
+  policy: AttendancePolicy
+): CheckInEvaluation => {
+  const minutesAfterStart = (checkInTime.getTime() - getSessionStart(session).getTime()) / MINUTE_MS;
+
+  if (minutesAfterStart < -EARLY_CHECK_IN_MINUTES) {
+    return {
+      decision: 'rejected',
+      minutesAfterStart,
+      message: `Check-in opens ${EARLY_CHECK_IN_MINUTES} minutes before the session starts`
+    };
+  }
+
+  if (minutesAfterStart <= policy.gracePeriodMinutes) {
+    return { decision: 'present', minutesAfterStart };
+  }
+
+  if (minutesAfterStart <= policy.lateThresholdMinutes) {
+    return { decision: 'late', minutesAfterStart };
+  }
+
+  return {
+    decision: 'rejected',
+    minutesAfterStart,
+    message: `Check-in closed ${policy.lateThresholdMinutes} minutes after the session started`
+  };
+};
+
+export const isCheckInOpen = (
+  session: Pick<ClassSession, 'date' | 'startTime'>,
+  now: Date,
+  policy: AttendancePolicy
+): boolean => evaluateCheckIn(session, now, policy).decision !== 'rejected';
+
+// Late arrivals still attended the session
+export const countsAsAttended = (status: AttendanceRecord['status']): boolean =>
+  status === 'present' || status === 'late';
+
+// Excused absences are left out of attendance rates entirely
+export const countsTowardRate = (status: AttendanceRecord['status']): boolean => status !== 'excused';
+
+// Percentage of rated records that count as attended, 0 when there are none
+export const calculateAttendanceRate = (records: Pick<AttendanceRecord, 'status'>[]): number => {
+  const rated = records.filter(record => countsTowardRate(record.status));
+  return rated.length > 0
+    ? Math.round((rated.filter(record => countsAsAttended(record.status)).length / rated.length) * 100)
+    : 0;
+};
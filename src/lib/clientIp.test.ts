@@ -0,0 +1,56 @@
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { db } from '@/lib/database';
+import { saveSetting } from '@/lib/settings';
+import {
+  createHttpIpResolver,
+  createStaticIpResolver,
+  isIpLookupConfigured,
+  resolveClientIp,
+  setClientIpResolver
+} from '@/lib/clientIp';
+
+beforeEach(async () => {
+  await Promise.all(db.tables.map(table => table.clear()));
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('createHttpIpResolver', () => {
+  it('makes no request until an admin configures a lookup', async () => {
+    const fetch = vi.fn();
+    vi.stubGlobal('fetch', fetch);
+
+    expect(await createHttpIpResolver()()).toBeNull();
+    expect(await isIpLookupConfigured()).toBe(false);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('reads plain-text and JSON answers from the configured lookup', async () => {
+    await saveSetting('ip_lookup_url', 'https://ip.campus.example/');
+    const fetch = vi.fn()
+      .mockResolvedValueOnce(new Response('10.1.2.3\n'))
+      .mockResolvedValueOnce(new Response('{"ip":"10.1.2.4"}'));
+    vi.stubGlobal('fetch', fetch);
+
+    expect(await createHttpIpResolver()()).toBe('10.1.2.3');
+    expect(await createHttpIpResolver()()).toBe('10.1.2.4');
+    expect(fetch).toHaveBeenCalledWith('https://ip.campus.example/', expect.anything());
+    expect(await isIpLookupConfigured()).toBe(true);
+  });
+});
+
+describe('resolveClientIp', () => {
+  it('passes on null and rejects answers that are not addresses', async () => {
+    setClientIpResolver(async () => null);
+    expect(await resolveClientIp()).toBeNull();
+
+    setClientIpResolver(createStaticIpResolver('not an address'));
+    await expect(resolveClientIp()).rejects.toThrow('Your network address could not be determined');
+
+    setClientIpResolver(createStaticIpResolver(' 2001:db8::1 '));
+    expect(await resolveClientIp()).toBe('2001:db8::1');
+  });
+});
@@ -0,0 +1,71 @@
+import { getSetting } from '@/lib/settings';
+import { parseIpAddress } from '@/lib/ipRange';
+
+// Resolves the address the client is connecting from for IP-based check-in.
+// A browser cannot read its own public address, so the default resolver asks the lookup
+// endpoint an admin configures (setting `ip_lookup_url`). There is no built-in endpoint:
+// students' addresses are only sent to a service the institution chose.
+// Deployments behind a campus proxy can plug in their own resolver.
+
+// Resolves to null when no lookup is configured
+export type ClientIpResolver = () => Promise<string | null>;
+
+const LOOKUP_TIMEOUT_MS = 5000;
+
+// Expects either a plain-text address or JSON with an `ip` field
+export const createHttpIpResolver = (url?: string): ClientIpResolver => async () => {
+  const lookupUrl = (url || await getSetting('ip_lookup_url', '')).trim();
+  if (!lookupUrl) return null;
+
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), LOOKUP_TIMEOUT_MS);
+
+  try {
+    const response = await fetch(lookupUrl, { signal: controller.signal, cache: 'no-store' });
+    if (!response.ok) {
+      throw new Error(`IP lookup failed with status ${response.status}`);
+    }
+
+    const body = (await response.text()).trim();
+    if (body.startsWith('{')) {
+      return String(JSON.parse(body).ip ?? '');
+    }
+    return body;
+  } finally {
+    clearTimeout(timeout);
+  }
+};
+
+// Always reports the same address; used for local development and tests
+export const createStaticIpResolver = (ip: string): ClientIpResolver => async () => ip;
+
+const staticIp = import.meta.env.VITE_STATIC_CLIENT_IP as string | undefined;
+const defaultResolver = staticIp ? createStaticIpResolver(staticIp) : createHttpIpResolver();
+let activeResolver: ClientIpResolver = defaultResolver;
+
+export const setClientIpResolver = (resolver: ClientIpResolver) => {
+  activeResolver = resolver;
+};
+
+// Null means IP checks cannot be made here, which callers should surface rather than treat as a failure
+export const resolveClientIp = async (): Promise<string | null> => {
+  let ip: string | null;
+  try {
+    ip = await activeResolver();
+  } catch (error) {
+    console.error('Error resolving client IP:', error);
+    throw new Error('Your network address could not be determined');
+  }
+
+  if (ip === null) return null;
+
+  ip = ip.trim();
+  if (!parseIpAddress(ip)) {
+    throw new Error('Your network address could not be determined');
+  }
+  return ip;
+};
+
+// False when no lookup is set up, so pages can warn before anyone tries IP check-in
+export const isIpLookupConfigured = async (): Promise<boolean> =>
+  !!staticIp || activeResolver !== defaultResolver || !!(await getSetting('ip_lookup_url', '')).trim();
@@ -1,10 +1,15 @@
-import Dexie, { Table } from 'dexie';
+import Dexie, { Table, Transaction } from 'dexie';
+import { hashPassword } from '@/lib/password';
 
 // User Types
 export interface User {
   id?: number;
   email: string;
-  password: string; // In production, this would be hashed
+  password: string; // PBKDF2 hash, see lib/password; plaintext until the user's next login
+  passwordChangedAt?: string; // Unset until the first change; the policy then counts from createdAt
+  failedLoginAttempts?: number; // Consecutive wrong passwords, reset on a successful login or lockout
+  lockedUntil?: string; // Set when failed attempts reach max_login_attempts
+  qrNonce?: string; // Nonce of the student's latest check-in QR code, cleared once it is scanned
   role: 'admin' | 'instructor' | 'student';
   firstName: string;
   lastName: string;
@@ -22,6 +27,8 @@ export interface Course {
   description?: string;
   instructorId: number;
   departmentId?: number;
+  capacity?: number; // maximum enrolled students, unlimited when unset
+  joinCode?: string; // students holding this code enroll without approval
   createdAt: string;
   updatedAt: string;
 }
@@ -44,6 +51,7 @@ export interface ClassSession {
   date: string;
   startTime: string;
   endTime: string;
+  location?: string;
   checkInMethod: 'qr' | 'gps' | 'ip';
   attendanceZone?: {
     latitude?: number;
@@ -53,6 +61,43 @@ export interface ClassSession {
   };
   qrToken?: string;
   qrExpiry?: string;
+  previousQrToken?: string; // Still accepted until its own expiry, for scans that started before a rotation
+  isActive: boolean;
+  seriesId?: number; // Set when the session was generated from a recurring series
+  originalDate?: string; // Series date of an occurrence that was moved to another day
+  roomId?: number;
+  cancelledAt?: string; // Cancelled sessions stay visible but no longer count toward attendance
+  cancellationReason?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Weekly recurrence that generated a set of ClassSessions
+export interface SessionSeries {
+  id?: number;
+  courseId: number;
+  instructorId: number;
+  title: string;
+  weekdays: number[]; // 0 = Sunday, as returned by Date.getDay()
+  startDate: string;
+  endDate: string;
+  skipDates: string[]; // Holidays and cancelled occurrences
+  startTime: string;
+  endTime: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Bookable teaching room with the check-in zone sessions held there default to
+export interface Room {
+  id?: number;
+  name: string;
+  building: string;
+  capacity?: number;
+  latitude?: number;
+  longitude?: number;
+  radius?: number; // in meters
+  ipRanges?: string[];
   isActive: boolean;
   createdAt: string;
   updatedAt: string;
@@ -63,7 +108,7 @@ export interface AttendanceRecord {
   id?: number;
   sessionId: number;
   studentId: number;
-  status: 'present' | 'absent' | 'late';
+  status: 'present' | 'absent' | 'late' | 'excused';
   checkInTime?: string;
   checkInMethod?: 'qr' | 'gps' | 'ip' | 'manual';
   location?: {
@@ -76,12 +121,26 @@ export interface AttendanceRecord {
   updatedAt: string;
 }
 
+// Audit trail of manual attendance changes; rows are never edited or removed
+export interface AttendanceOverride {
+  id?: number;
+  recordId: number;
+  sessionId: number;
+  studentId: number;
+  previousStatus: AttendanceRecord['status'] | null; // null when no record existed
+  newStatus: AttendanceRecord['status'];
+  reason: string;
+  changedBy: number;
+  createdAt: string;
+}
+
 // Question Bank Types
 export interface QuestionBank {
   id?: number;
   instructorId: number;
   name: string;
   description?: string;
+  tags?: string[];
   createdAt: string;
   updatedAt: string;
 }
@@ -99,21 +158,57 @@ export interface Question {
   updatedAt: string;
 }
 
+// Question Template Types
+export interface TemplateVariable {
+  name: string;
+  min: number;
+  max: number;
+  step: number;
+}
+
+export interface QuestionTemplate {
+  id?: number;
+  instructorId: number;
+  name: string;
+  type: 'multiple_choice' | 'short_answer';
+  text: string; // {{expression}} placeholders are filled in from the variables
+  variables: TemplateVariable[];
+  answer: string; // Formula for the correct answer
+  decimals?: number;
+  distractors?: string[]; // Formulas for wrong options; generated when omitted
+  points: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
 // Quiz Types
 export interface Quiz {
   id?: number;
-  sessionId: number;
+  courseId: number;
+  sessionId?: number; // Set when the quiz runs during a scheduled session
+  opensAt?: string; // Course-level availability window
+  closesAt?: string;
   instructorId: number;
   title: string;
   timeLimit: number; // in minutes
   isRandomized: boolean;
   isActive: boolean;
+  maxAttempts?: number; // 0 allows unlimited attempts; defaults to 1
+  showScore?: boolean; // Whether students see their score after submitting; defaults to true
+  revealAnswers?: 'never' | 'after_submission' | 'after_close'; // Defaults to after_submission
   questions: number[]; // Question IDs
   createdAt: string;
   updatedAt: string;
 }
 
 // Quiz Submission Types
+export interface QuizIntegrityEvent {
+  type: 'focus_lost' | 'focus_returned' | 'paste';
+  at: string;
+  questionId?: number;
+  detail?: string; // e.g. how many characters were pasted
+}
+
 export interface QuizSubmission {
   id?: number;
   quizId: number;
@@ -123,7 +218,17 @@ export interface QuizSubmission {
     answer: string;
     isCorrect?: boolean;
     points?: number;
+    // Set when an instructor grades the answer by hand
+    feedback?: string;
+    gradedBy?: number;
+    gradedAt?: string;
   }[];
+  // Order the questions and options were shown in, fixed when the attempt starts
+  questionOrder?: number[];
+  optionOrder?: { [questionId: number]: string[] };
+  attemptNumber?: number;
+  // Logged by the quiz player while the attempt runs
+  integrityEvents?: QuizIntegrityEvent[];
   startedAt: string;
   submittedAt?: string;
   totalScore?: number;
@@ -167,6 +272,19 @@ export interface CourseEnrollment {
   updatedAt: string;
 }
 
+// Enrollment Request Types
+export interface EnrollmentRequest {
+  id?: number;
+  courseId: number;
+  studentId: number;
+  status: 'pending' | 'approved' | 'rejected';
+  message?: string;
+  decidedBy?: number;
+  decidedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
 // Ban Types
 export interface Ban {
   id?: number;
@@ -180,20 +298,55 @@ export interface Ban {
 }
 
 // Database Class
+// SetQuiz used to create a throwaway 09:00-10:00 session for every quiz just to get a
+// sessionId. Move those quizzes to course level and delete the placeholder sessions.
+const migrateQuizPlaceholderSessions = async (tx: Transaction) => {
+  const quizzes = await tx.table<Quiz>('quizzes').toArray();
+
+  for (const quiz of quizzes) {
+    const session = quiz.sessionId ? await tx.table<ClassSession>('classSessions').get(quiz.sessionId) : undefined;
+    if (!session) continue;
+
+    const isPlaceholder = session.title === quiz.title &&
+      session.instructorId === quiz.instructorId &&
+      session.startTime === '09:00' &&
+      session.endTime === '10:00' &&
+      !session.attendanceZone &&
+      session.date === quiz.createdAt.split('T')[0];
+
+    const records = await tx.table<AttendanceRecord>('attendanceRecords').where('sessionId').equals(session.id!).toArray();
+    // Keep anything students actually checked in to
+    if (!isPlaceholder || records.some(record => record.status !== 'absent')) {
+      await tx.table<Quiz>('quizzes').update(quiz.id!, { courseId: session.courseId });
+      continue;
+    }
+
+    await tx.table<AttendanceRecord>('attendanceRecords').where('sessionId').equals(session.id!).delete();
+    await tx.table<AttendanceOverride>('attendanceOverrides').where('sessionId').equals(session.id!).delete();
+    await tx.table<ClassSession>('classSessions').delete(session.id!);
+    await tx.table<Quiz>('quizzes').update(quiz.id!, { courseId: session.courseId, sessionId: undefined });
+  }
+};
+
 export class AttendanceDB extends Dexie {
   users!: Table<User>;
   courses!: Table<Course>;
   departments!: Table<Department>;
   classSessions!: Table<ClassSession>;
   attendanceRecords!: Table<AttendanceRecord>;
+  attendanceOverrides!: Table<AttendanceOverride>;
   questionBanks!: Table<QuestionBank>;
   questions!: Table<Question>;
+  questionTemplates!: Table<QuestionTemplate>;
   quizzes!: Table<Quiz>;
   quizSubmissions!: Table<QuizSubmission>;
   settings!: Table<Settings>;
   messages!: Table<Message>;
   courseEnrollments!: Table<CourseEnrollment>;
+  enrollmentRequests!: Table<EnrollmentRequest>;
   bans!: Table<Ban>;
+  sessionSeries!: Table<SessionSeries>;
+  rooms!: Table<Room>;
 
   constructor() {
     super('AttendanceDB');
@@ -214,6 +367,38 @@ export class AttendanceDB extends Dexie {
       bans: '++id, userId, bannedBy, isActive, expiresAt, createdAt'
     });
 
+    this.version(3).stores({
+      attendanceOverrides: '++id, recordId, sessionId, studentId, changedBy, createdAt'
+    });
+
+    this.version(4).stores({
+      courses: '++id, code, instructorId, departmentId, joinCode, createdAt',
+      enrollmentRequests: '++id, courseId, studentId, status, createdAt'
+    });
+
+    this.version(5).stores({
+      questionBanks: '++id, instructorId, *tags, createdAt',
+      quizzes: '++id, sessionId, instructorId, isActive, *questions, createdAt'
+    });
+
+    this.version(6).stores({
+      quizzes: '++id, courseId, sessionId, instructorId, isActive, *questions, createdAt'
+    }).upgrade(migrateQuizPlaceholderSessions);
+
+    this.version(7).stores({
+      questionTemplates: '++id, instructorId, createdAt'
+    });
+
+    this.version(8).stores({
+      classSessions: '++id, courseId, instructorId, seriesId, date, isActive, createdAt',
+      sessionSeries: '++id, courseId, instructorId, createdAt'
+    });
+
+    this.version(9).stores({
+      classSessions: '++id, courseId, instructorId, seriesId, roomId, date, isActive, createdAt',
+      rooms: '++id, name, building, isActive, createdAt'
+    });
+
     // Hook to automatically add timestamps
     this.users.hook('creating', (primKey, obj, trans) => {
       obj.createdAt = new Date().toISOString();
@@ -226,8 +411,8 @@ export class AttendanceDB extends Dexie {
 
     // Similar hooks for other tables
     [this.courses, this.departments, this.classSessions, this.attendanceRecords, 
-     this.questionBanks, this.questions, this.quizzes, this.quizSubmissions,
-     this.messages, this.courseEnrollments, this.bans].forEach(table => {
+     this.questionBanks, this.questions, this.questionTemplates, this.quizzes, this.quizSubmissions,
+     this.messages, this.courseEnrollments, this.enrollmentRequests, this.bans, this.sessionSeries, this.rooms].forEach(table => {
       table.hook('creating', (primKey, obj, trans) => {
         obj.createdAt = new Date().toISOString();
         obj.updatedAt = new Date().toISOString();
@@ -238,6 +423,10 @@ export class AttendanceDB extends Dexie {
       });
     });
 
+    this.attendanceOverrides.hook('creating', (primKey, obj, trans) => {
+      obj.createdAt = new Date().toISOString();
+    });
+
     this.settings.hook('creating', (primKey, obj, trans) => {
       obj.updatedAt = new Date().toISOString();
     });
@@ -252,10 +441,11 @@ export class AttendanceDB extends Dexie {
     const userCount = await this.users.count();
     
     if (userCount === 0) {
-      // Create default admin user
+      // Create default admin user. waitFor keeps the hashing inside the ready hook's zone;
+      // awaiting WebCrypto directly would queue the add behind the open it is part of.
       await this.users.add({
         email: 'admin@attendance.local',
-        password: 'admin123', // In production, this would be hashed
+        password: await Dexie.waitFor(hashPassword('admin123')),
         role: 'admin',
         firstName: 'System',
         lastName: 'Administrator',
@@ -0,0 +1,24 @@
+// Save generated text (exports, reports, calendars) as a file in the browser
+export const downloadFile = (filename: string, content: string, mimeType = 'text/plain') => {
+  const blob = new Blob([content], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  URL.revokeObjectURL(url);
+};
+
+// Strip characters that are not allowed in file names on common platforms
+export const toFileName = (name: string) =>
+  name.replace(/[\\/:*?"<>|]+/g, '').replace(/\s+/g, '_') || 'export';
+
+const escapeCsv = (value: string) => /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// One line per row with quoting where needed, ending in a newline
+export const toCsv = (rows: (string | number)[][]): string =>
+  rows.map(row => row.map(value => escapeCsv(String(value))).join(',')).join('\n') + '\n';
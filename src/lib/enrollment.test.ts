@@ -0,0 +1,108 @@
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { db } from '@/lib/database';
+import {
+  approveEnrollmentRequest,
+  generateJoinCode,
+  joinCourseWithCode,
+  normalizeJoinCode,
+  rejectEnrollmentRequest,
+  requestEnrollment
+} from '@/lib/enrollment';
+
+const addCourse = (overrides = {}) =>
+  db.courses.add({ name: 'Analysis', code: 'MATH101', instructorId: 1, createdAt: '', updatedAt: '', ...overrides });
+
+const enroll = (studentId: number, courseId: number) =>
+  db.courseEnrollments.add({ studentId, courseId, enrolledAt: '', attendanceRate: 0, createdAt: '', updatedAt: '' });
+
+const messagesTo = (studentId: number) => db.messages.where('receiverId').equals(studentId).toArray();
+
+beforeEach(async () => {
+  await Promise.all(db.tables.map(table => table.clear()));
+});
+
+describe('join codes', () => {
+  it('generates readable codes without look-alike characters', () => {
+    const code = generateJoinCode();
+    expect(code).toMatch(/^[A-HJ-NP-Z2-9]{6}$/);
+  });
+
+  it('normalizes case, spaces and dashes', () => {
+    expect(normalizeJoinCode(' ab3-d 9k ')).toBe('AB3D9K');
+  });
+
+  it('enrolls immediately and settles a pending request', async () => {
+    const courseId = await addCourse({ joinCode: 'AB3D9K' });
+    const request = await requestEnrollment(10, courseId);
+
+    const course = await joinCourseWithCode(10, 'ab3-d9k');
+
+    expect(course.id).toBe(courseId);
+    expect(await db.courseEnrollments.where('studentId').equals(10).count()).toBe(1);
+    expect((await db.enrollmentRequests.get(request.id!))!.status).toBe('approved');
+  });
+
+  it('rejects unknown codes, repeat joins and full courses', async () => {
+    const courseId = await addCourse({ joinCode: 'AB3D9K', capacity: 1 });
+
+    await expect(joinCourseWithCode(10, 'ZZZZZZ')).rejects.toThrow('This join code is not valid');
+    await joinCourseWithCode(10, 'AB3D9K');
+    await expect(joinCourseWithCode(10, 'AB3D9K')).rejects.toThrow('You are already enrolled in Analysis');
+    await expect(joinCourseWithCode(11, 'AB3D9K')).rejects.toThrow('Analysis is full');
+    expect(await db.courseEnrollments.where('courseId').equals(courseId).count()).toBe(1);
+  });
+});
+
+describe('enrollment requests', () => {
+  it('allows one pending request per course', async () => {
+    const courseId = await addCourse();
+    const request = await requestEnrollment(10, courseId, '  Please  ');
+
+    expect(request).toMatchObject({ status: 'pending', message: 'Please' });
+    await expect(requestEnrollment(10, courseId)).rejects.toThrow('You already have a pending request for Analysis');
+  });
+
+  it('enrolls and notifies the student on approval', async () => {
+    const courseId = await addCourse();
+    const request = await requestEnrollment(10, courseId);
+
+    await approveEnrollmentRequest(request.id!, 1);
+
+    expect(await db.enrollmentRequests.get(request.id!)).toMatchObject({ status: 'approved', decidedBy: 1 });
+    expect(await db.courseEnrollments.where('studentId').equals(10).count()).toBe(1);
+    expect((await messagesTo(10)).map(message => message.subject)).toEqual(['Enrollment Approved']);
+    await expect(approveEnrollmentRequest(request.id!, 1)).rejects.toThrow('This request has already been handled');
+  });
+
+  it('approves a request from a student who joined with a code in the meantime', async () => {
+    const courseId = await addCourse({ joinCode: 'AB3D9K' });
+    const request = await requestEnrollment(10, courseId);
+    await enroll(10, courseId);
+
+    await approveEnrollmentRequest(request.id!, 1);
+
+    expect(await db.courseEnrollments.where('studentId').equals(10).count()).toBe(1);
+  });
+
+  it('refuses approval once the course has filled up', async () => {
+    const courseId = await addCourse({ capacity: 1 });
+    const request = await requestEnrollment(10, courseId);
+    await enroll(11, courseId);
+
+    await expect(approveEnrollmentRequest(request.id!, 1)).rejects.toThrow('Analysis is full');
+    expect((await db.enrollmentRequests.get(request.id!))!.status).toBe('pending');
+  });
+
+  it('tells the student why a request was declined', async () => {
+    const courseId = await addCourse();
+    const request = await requestEnrollment(10, courseId);
+
+    await rejectEnrollmentRequest(request.id!, 1, 'Prerequisites missing');
+
+    expect((await db.enrollmentRequests.get(request.id!))!.status).toBe('rejected');
+    const [message] = await messagesTo(10);
+    expect(message.content).toContain('Reason: Prerequisites missing');
+    expect(await db.courseEnrollments.count()).toBe(0);
+  });
+});
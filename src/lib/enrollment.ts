@@ -0,0 +1,216 @@
+import { db, Course, CourseEnrollment, EnrollmentRequest } from '@/lib/database';
+
+// Course enrollment: students either request to join (instructor approves)
+// or enter an instructor-issued join code (enrolled immediately).
+// Both paths respect the course's optional capacity.
+
+// No 0/O or 1/I so codes can be read aloud or off a projector
+const JOIN_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const JOIN_CODE_LENGTH = 6;
+
+export const generateJoinCode = (): string =>
+  Array.from(crypto.getRandomValues(new Uint8Array(JOIN_CODE_LENGTH)))
+    .map(byte => JOIN_CODE_ALPHABET[byte % JOIN_CODE_ALPHABET.length])
+    .join('');
+
+export const normalizeJoinCode = (code: string): string => code.trim().toUpperCase().replace(/[\s-]/g, '');
+
+export const getEnrolledCount = (courseId: number): Promise<number> =>
+  db.courseEnrollments.where('courseId').equals(courseId).count();
+
+export const isCourseFull = async (course: Course): Promise<boolean> =>
+  !!course.capacity && (await getEnrolledCount(course.id!)) >= course.capacity;
+
+// Courses created before departments were recorded inherit the instructor's department
+export const getCourseDepartment = async (course: Course): Promise<string | undefined> => {
+  if (course.departmentId) {
+    const department = await db.departments.get(course.departmentId);
+    if (department) return department.name;
+  }
+  const instructor = await db.users.get(course.instructorId);
+  return instructor?.department;
+};
+
+const findEnrollment = (studentId: number, courseId: number) =>
+  db.courseEnrollments
+    .where('studentId').equals(studentId)
+    .and(enrollment => enrollment.courseId === courseId)
+    .first();
+
+const findPendingRequest = (studentId: number, courseId: number) =>
+  db.enrollmentRequests
+    .where('studentId').equals(studentId)
+    .and(request => request.courseId === courseId && request.status === 'pending')
+    .first();
+
+const notifyStudent = (senderId: number, studentId: number, subject: string, content: string) =>
+  db.messages.add({
+    senderId,
+    receiverId: studentId,
+    type: 'general',
+    subject,
+    content,
+    status: 'pending',
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString()
+  });
+
+// Send the same message to everyone enrolled in a course
+export const notifyEnrolledStudents = async (courseId: number, senderId: number, subject: string, content: string) => {
+  const enrollments = await db.courseEnrollments.where('courseId').equals(courseId).toArray();
+  const now = new Date().toISOString();
+  await db.messages.bulkAdd(enrollments.map(enrollment => ({
+    senderId,
+    receiverId: enrollment.studentId,
+    type: 'general' as const,
+    subject,
+    content,
+    status: 'pending' as const,
+    createdAt: now,
+    updatedAt: now
+  })));
+};
+
+// Must run inside a transaction covering courses and courseEnrollments
+const enrollStudent = async (studentId: number, course: Course): Promise<CourseEnrollment> => {
+  if (await findEnrollment(studentId, course.id!)) {
+    throw new Error(`You are already enrolled in ${course.name}`);
+  }
+
+  if (await isCourseFull(course)) {
+    throw new Error(`${course.name} is full`);
+  }
+
+  const now = new Date().toISOString();
+  const enrollment: CourseEnrollment = {
+    studentId,
+    courseId: course.id!,
+    enrolledAt: now,
+    attendanceRate: 0,
+    createdAt: now,
+    updatedAt: now
+  };
+  enrollment.id = await db.courseEnrollments.add(enrollment);
+  return enrollment;
+};
+
+export const requestEnrollment = async (studentId: number, courseId: number, message?: string): Promise<EnrollmentRequest> => {
+  return db.transaction('rw', [db.courses, db.courseEnrollments, db.enrollmentRequests], async () => {
+    const course = await db.courses.get(courseId);
+    if (!course) {
+      throw new Error('Course not found');
+    }
+
+    if (await findEnrollment(studentId, courseId)) {
+      throw new Error(`You are already enrolled in ${course.name}`);
+    }
+
+    if (await findPendingRequest(studentId, courseId)) {
+      throw new Error(`You already have a pending request for ${course.name}`);
+    }
+
+    if (await isCourseFull(course)) {
+      throw new Error(`${course.name} is full`);
+    }
+
+    const now = new Date().toISOString();
+    const request: EnrollmentRequest = {
+      courseId,
+      studentId,
+      status: 'pending',
+      message: message?.trim() || undefined,
+      createdAt: now,
+      updatedAt: now
+    };
+    request.id = await db.enrollmentRequests.add(request);
+    return request;
+  });
+};
+
+export const joinCourseWithCode = async (studentId: number, code: string): Promise<Course> => {
+  const joinCode = normalizeJoinCode(code);
+  if (!joinCode) {
+    throw new Error('Please enter a join code');
+  }
+
+  return db.transaction('rw', [db.courses, db.courseEnrollments, db.enrollmentRequests], async () => {
+    const course = await db.courses.where('joinCode').equals(joinCode).first();
+    if (!course) {
+      throw new Error('This join code is not valid');
+    }
+
+    await enrollStudent(studentId, course);
+
+    // A code supersedes any request still waiting in the queue
+    const pending = await findPendingRequest(studentId, course.id!);
+    if (pending) {
+      await db.enrollmentRequests.update(pending.id!, {
+        status: 'approved',
+        decidedAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString()
+      });
+    }
+
+    return course;
+  });
+};
+
+export const approveEnrollmentRequest = async (requestId: number, instructorId: number): Promise<void> => {
+  await db.transaction('rw', [db.courses, db.courseEnrollments, db.enrollmentRequests, db.messages], async () => {
+    const request = await db.enrollmentRequests.get(requestId);
+    if (!request || request.status !== 'pending') {
+      throw new Error('This request has already been handled');
+    }
+
+    const course = await db.courses.get(request.courseId);
+    if (!course) {
+      throw new Error('Course not found');
+    }
+
+    try {
+      await enrollStudent(request.studentId, course);
+    } catch (error) {
+      // The student may have joined with a code in the meantime
+      if (!(await findEnrollment(request.studentId, course.id!))) throw error;
+    }
+
+    await db.enrollmentRequests.update(requestId, {
+      status: 'approved',
+      decidedBy: instructorId,
+      decidedAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString()
+    });
+
+    await notifyStudent(
+      instructorId,
+      request.studentId,
+      'Enrollment Approved',
+      `Your request to join ${course.name} (${course.code}) has been approved.`
+    );
+  });
+};
+
+export const rejectEnrollmentRequest = async (requestId: number, instructorId: number, reason?: string): Promise<void> => {
+  await db.transaction('rw', [db.courses, db.enrollmentRequests, db.messages], async () => {
+    const request = await db.enrollmentRequests.get(requestId);
+    if (!request || request.status !== 'pending') {
+      throw new Error('This request has already been handled');
+    }
+
+    const course = await db.courses.get(request.courseId);
+
+    await db.enrollmentRequests.update(requestId, {
+      status: 'rejected',
+      decidedBy: instructorId,
+      decidedAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString()
+    });
+
+    await notifyStudent(
+      instructorId,
+      request.studentId,
+      'Enrollment Request Declined',
+      `Your request to join ${course ? `${course.name} (${course.code})` : 'the course'} was declined.${reason?.trim() ? `\n\nReason: ${reason.trim()}` : ''}`
+    );
+  });
+};
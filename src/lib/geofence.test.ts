@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { checkGeofence, DEFAULT_ZONE_RADIUS, formatDistance, hasGeofence, haversineDistance, MAX_ACCEPTED_ACCURACY } from '@/lib/geofence';
+
+const zone = { latitude: 51.5007, longitude: -0.1246, radius: 50 };
+
+describe('haversineDistance', () => {
+  it('is zero for the same point', () => {
+    expect(haversineDistance(zone, zone)).toBe(0);
+  });
+
+  it('measures one degree of latitude as about 111 km', () => {
+    expect(haversineDistance({ latitude: 0, longitude: 0 }, { latitude: 1, longitude: 0 })).toBeCloseTo(111195, -2);
+  });
+});
+
+describe('hasGeofence', () => {
+  it('treats missing, out-of-range and 0/0 placeholder zones as unset', () => {
+    expect(hasGeofence(undefined)).toBe(false);
+    expect(hasGeofence({ latitude: 91, longitude: 0 })).toBe(false);
+    expect(hasGeofence({ latitude: 0, longitude: 0 })).toBe(false);
+    expect(hasGeofence(zone)).toBe(true);
+  });
+});
+
+describe('checkGeofence', () => {
+  it('accepts a reading at the zone centre', () => {
+    expect(checkGeofence({ ...zone, accuracy: 10 }, zone).isInside).toBe(true);
+  });
+
+  it('lets the accuracy circle reach into the zone', () => {
+    // About 80 m north of the centre
+    const position = { latitude: zone.latitude + 0.00072, longitude: zone.longitude };
+    expect(checkGeofence({ ...position, accuracy: 10 }, zone).isInside).toBe(false);
+    expect(checkGeofence({ ...position, accuracy: 40 }, zone).isInside).toBe(true);
+  });
+
+  it('rejects readings less precise than the accepted accuracy', () => {
+    const result = checkGeofence({ ...zone, accuracy: MAX_ACCEPTED_ACCURACY + 1 }, zone);
+    expect(result.isInside).toBe(false);
+    expect(result.message).toMatch(/too imprecise/);
+  });
+
+  it('falls back to the default radius when the zone has none', () => {
+    expect(checkGeofence(zone, { latitude: zone.latitude, longitude: zone.longitude }).radius).toBe(DEFAULT_ZONE_RADIUS);
+  });
+});
+
+describe('formatDistance', () => {
+  it('switches to kilometres from 1000 m', () => {
+    expect(formatDistance(999.4)).toBe('999 m');
+    expect(formatDistance(1250)).toBe('1.3 km');
+  });
+});
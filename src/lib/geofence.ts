@@ -0,0 +1,108 @@
+import { ClassSession } from '@/lib/database';
+
+// Geofence checks for GPS check-in against ClassSession.attendanceZone
+
+const EARTH_RADIUS_METERS = 6371000;
+export const DEFAULT_ZONE_RADIUS = 100;
+// Readings less precise than this cannot place a student in a single room
+export const MAX_ACCEPTED_ACCURACY = 150;
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+export interface GeofenceResult {
+  isInside: boolean;
+  distance: number; // meters from the zone centre
+  radius: number;
+  accuracy: number;
+  message?: string;
+}
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Great-circle distance in meters
+export const haversineDistance = (from: Coordinates, to: Coordinates): number => {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_METERS * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+export const isValidCoordinates = (latitude: number, longitude: number): boolean =>
+  Number.isFinite(latitude) && Number.isFinite(longitude) &&
+  latitude >= -90 && latitude <= 90 && longitude >= -180 && longitude <= 180;
+
+// Older sessions were saved with a 0/0 placeholder, which is treated as "no zone set"
+export const hasGeofence = (zone: ClassSession['attendanceZone']): boolean =>
+  !!zone &&
+  typeof zone.latitude === 'number' &&
+  typeof zone.longitude === 'number' &&
+  isValidCoordinates(zone.latitude, zone.longitude) &&
+  !(zone.latitude === 0 && zone.longitude === 0);
+
+export const formatDistance = (meters: number): string =>
+  meters >= 1000 ? `${(meters / 1000).toFixed(1)} km` : `${Math.round(meters)} m`;
+
+// A reading counts as inside when its accuracy circle reaches the zone
+export const checkGeofence = (
+  position: Coordinates & { accuracy?: number },
+  zone: NonNullable<ClassSession['attendanceZone']>
+): GeofenceResult => {
+  const radius = zone.radius && zone.radius > 0 ? zone.radius : DEFAULT_ZONE_RADIUS;
+  const accuracy = position.accuracy && position.accuracy > 0 ? position.accuracy : 0;
+  const distance = haversineDistance(position, { latitude: zone.latitude!, longitude: zone.longitude! });
+
+  if (accuracy > MAX_ACCEPTED_ACCURACY) {
+    return {
+      isInside: false,
+      distance,
+      radius,
+      accuracy,
+      message: `Your GPS reading is too imprecise (±${formatDistance(accuracy)}). Move near a window or enable high-accuracy location and try again`
+    };
+  }
+
+  const isInside = distance <= radius + accuracy;
+
+  return {
+    isInside,
+    distance,
+    radius,
+    accuracy,
+    message: isInside
+      ? undefined
+      : `You are ${formatDistance(distance)} from the classroom, outside the allowed ${formatDistance(radius)} radius (GPS accuracy ±${formatDistance(accuracy)})`
+  };
+};
+
+export const getCurrentPosition = (): Promise<GeolocationPosition> =>
+  new Promise<GeolocationPosition>((resolve, reject) => {
+    if (!navigator.geolocation) {
+      reject(new Error('Location services are not available on this device'));
+      return;
+    }
+
+    const handleError = (error: GeolocationPositionError) => {
+      switch (error.code) {
+        case error.PERMISSION_DENIED:
+          reject(new Error('Location permission was denied'));
+          break;
+        case error.TIMEOUT:
+          reject(new Error('Timed out while reading your location'));
+          break;
+        default:
+          reject(new Error('Your location could not be determined'));
+      }
+    };
+
+    navigator.geolocation.getCurrentPosition(resolve, handleError, {
+      enableHighAccuracy: true,
+      timeout: 10000,
+      maximumAge: 60000
+    });
+  });
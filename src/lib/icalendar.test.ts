@@ -0,0 +1,87 @@
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { ClassSession, db } from '@/lib/database';
+import { buildCalendar } from '@/lib/icalendar';
+
+let courseId: number;
+let instructorId: number;
+
+const session = (overrides: Partial<ClassSession>): ClassSession => ({
+  courseId,
+  instructorId,
+  title: 'Lecture',
+  date: '2024-06-03',
+  startTime: '09:00',
+  endTime: '10:30',
+  checkInMethod: 'qr',
+  isActive: false,
+  createdAt: '2024-05-01T00:00:00Z',
+  updatedAt: '2024-05-01T00:00:00Z',
+  ...overrides
+});
+
+// Joins folded continuation lines back together
+const unfold = (calendar: string) => calendar.replace(/\r\n /g, '').split('\r\n');
+
+beforeEach(async () => {
+  await Promise.all(db.tables.map(table => table.clear()));
+  instructorId = await db.users.add({
+    email: 'ada@example.com',
+    password: '',
+    role: 'instructor',
+    firstName: 'Ada',
+    lastName: 'Lovelace',
+    isApproved: true,
+    createdAt: '',
+    updatedAt: ''
+  });
+  courseId = await db.courses.add({ name: 'Analysis', code: 'MATH101', instructorId, createdAt: '', updatedAt: '' });
+});
+
+describe('buildCalendar', () => {
+  it('writes single sessions with escaped text and folded lines', async () => {
+    const title = 'Limits, continuity; and a very long title that does not fit on one calendar line';
+    const calendar = await buildCalendar('My Classes', [session({ id: 7, title })]);
+
+    expect(calendar.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(calendar.split('\r\n').every(line => new TextEncoder().encode(line).length <= 75)).toBe(true);
+
+    const lines = unfold(calendar);
+    expect(lines).toContain('UID:session-7@glass-flow-attend');
+    expect(lines).toContain('DTSTART:20240603T090000');
+    expect(lines).toContain('DTEND:20240603T103000');
+    expect(lines).toContain('SUMMARY:MATH101 - Limits\\, continuity\\; and a very long title that does not fit on one calendar line');
+    expect(lines).toContain('DESCRIPTION:Analysis (MATH101)\\nInstructor: Ada Lovelace');
+    expect(lines).toContain('ORGANIZER;CN="Ada Lovelace":mailto:ada@example.com');
+  });
+
+  it('writes a series as one recurring event with exceptions and overrides', async () => {
+    const seriesId = await db.sessionSeries.add({
+      courseId,
+      instructorId,
+      title: 'Lecture',
+      weekdays: [1],
+      startDate: '2024-06-03',
+      endDate: '2024-06-24',
+      skipDates: ['2024-06-24'],
+      startTime: '09:00',
+      endTime: '10:30',
+      createdAt: '2024-05-01T00:00:00Z',
+      updatedAt: '2024-05-01T00:00:00Z'
+    });
+    const sessions = [
+      session({ id: 1, seriesId, date: '2024-06-03' }),
+      session({ id: 2, seriesId, date: '2024-06-10', cancelledAt: '2024-06-01T00:00:00Z' }),
+      session({ id: 3, seriesId, date: '2024-06-17', startTime: '11:00', endTime: '12:30' })
+    ];
+
+    const lines = unfold(await buildCalendar('Teaching Schedule', sessions));
+
+    expect(lines.filter(line => line === `UID:series-${seriesId}@glass-flow-attend`)).toHaveLength(2);
+    expect(lines).toContain('RRULE:FREQ=WEEKLY;BYDAY=MO;UNTIL=20240624T235900');
+    expect(lines).toContain('EXDATE:20240610T090000,20240624T090000');
+    expect(lines).toContain('RECURRENCE-ID:20240617T090000');
+    expect(lines).toContain('DTSTART:20240617T110000');
+    expect(lines.some(line => line.startsWith('UID:session-'))).toBe(false);
+  });
+});
@@ -0,0 +1,186 @@
+import { db, ClassSession, Course, SessionSeries, User } from '@/lib/database';
+import { getOccurrenceDates } from '@/lib/sessionSeries';
+
+// RFC 5545 calendars of class sessions. Everything lives in the browser, so there is no
+// URL to subscribe to; instead every event keeps a stable UID and an increasing SEQUENCE,
+// which lets calendar apps replace events on re-import instead of duplicating them.
+//
+// Times are written as floating local times (no TZID), so a weekly class stays at the
+// same wall-clock time across daylight saving changes.
+
+const PRODUCT_ID = '-//Glass Flow Attend//Class Schedule//EN';
+const UID_DOMAIN = 'glass-flow-attend';
+
+const icsWeekdays = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 octets are folded onto continuation lines starting with a space
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const formatLocal = (date: string, time: string) => `${date.replace(/-/g, '')}T${time.replace(':', '')}00`;
+
+const formatUtc = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// Seconds between a fixed point (Nov 2023) and the last change, so every edit bumps the sequence
+const toSequence = (updatedAt: string) => Math.max(0, Math.floor(new Date(updatedAt).getTime() / 1000) - 1700000000);
+
+export interface CalendarContext {
+  courses: Map<number, Course>;
+  instructors: Map<number, User>;
+}
+
+const describeSession = (session: ClassSession, context: CalendarContext) => {
+  const course = context.courses.get(session.courseId);
+  const instructor = context.instructors.get(session.instructorId);
+  return {
+    summary: course ? `${course.code} - ${session.title}` : session.title,
+    description: [
+      course ? `${course.name} (${course.code})` : null,
+      instructor ? `Instructor: ${instructor.firstName} ${instructor.lastName}` : null
+    ].filter(Boolean).join('\n'),
+    organizer: instructor
+      ? `ORGANIZER;CN="${`${instructor.firstName} ${instructor.lastName}`.replace(/"/g, "'")}":mailto:${instructor.email}`
+      : null
+  };
+};
+
+const buildEvent = (
+  uid: string,
+  session: ClassSession,
+  context: CalendarContext,
+  stamp: string,
+  extra: string[] = []
+): string[] => {
+  const { summary, description, organizer } = describeSession(session, context);
+  return [
+    'BEGIN:VEVENT',
+    `UID:${uid}`,
+    `DTSTAMP:${stamp}`,
+    `SEQUENCE:${toSequence(session.updatedAt)}`,
+    `LAST-MODIFIED:${formatUtc(new Date(session.updatedAt))}`,
+    `DTSTART:${formatLocal(session.date, session.startTime)}`,
+    `DTEND:${formatLocal(session.date, session.endTime)}`,
+    ...(session.cancelledAt ? ['STATUS:CANCELLED'] : []),
+    ...extra,
+    `SUMMARY:${escapeText(summary)}`,
+    ...(description ? [`DESCRIPTION:${escapeText(description)}`] : []),
+    ...(session.location ? [`LOCATION:${escapeText(session.location)}`] : []),
+    ...(organizer ? [organizer] : []),
+    'END:VEVENT'
+  ];
+};
+
+const sessionUid = (session: ClassSession) => `session-${session.id}@${UID_DOMAIN}`;
+const seriesUid = (series: SessionSeries) => `series-${series.id}@${UID_DOMAIN}`;
+
+// A series becomes one recurring event. Occurrences that were changed become overrides
+// (RECURRENCE-ID), skipped, cancelled or moved-away dates become EXDATEs, and occurrences
+// moved to a date outside the rule are written as standalone events.
+const buildSeriesEvents = (
+  series: SessionSeries,
+  allSessions: ClassSession[],
+  context: CalendarContext,
+  stamp: string
+): string[] => {
+  // The RRULE knows nothing about skip dates, so they are left in and excluded again below
+  const ruleDates = getOccurrenceDates({ ...series, skipDates: [] });
+  const sessions = allSessions.filter(session => !session.cancelledAt);
+  if (ruleDates.length === 0) {
+    return sessions.flatMap(session => buildEvent(sessionUid(session), session, context, stamp));
+  }
+
+  const byDate = new Map(sessions.filter(session => ruleDates.includes(session.date)).map(session => [session.date, session]));
+  const latestUpdate = [series.updatedAt, ...allSessions.map(session => session.updatedAt)].sort().pop()!;
+  const master: ClassSession = {
+    ...(byDate.get(ruleDates[0]) || allSessions[0]),
+    cancelledAt: undefined,
+    title: series.title,
+    date: ruleDates[0],
+    startTime: series.startTime,
+    endTime: series.endTime,
+    updatedAt: latestUpdate
+  };
+  const exceptions = ruleDates.filter(date => !byDate.has(date));
+  const isUnchanged = (session: ClassSession) =>
+    session.title === series.title && session.startTime === series.startTime && session.endTime === series.endTime &&
+    session.location === master.location;
+
+  const lines = buildEvent(seriesUid(series), master, context, stamp, [
+    `RRULE:FREQ=WEEKLY;BYDAY=${series.weekdays.map(day => icsWeekdays[day]).join(',')};UNTIL=${formatLocal(ruleDates[ruleDates.length - 1], '23:59')}`,
+    ...(exceptions.length > 0 ? [`EXDATE:${exceptions.map(date => formatLocal(date, series.startTime)).join(',')}`] : [])
+  ]);
+
+  for (const session of sessions) {
+    if (!ruleDates.includes(session.date)) {
+      lines.push(...buildEvent(sessionUid(session), session, context, stamp));
+    } else if (!isUnchanged(session)) {
+      lines.push(...buildEvent(seriesUid(series), session, context, stamp, [
+        `RECURRENCE-ID:${formatLocal(session.date, series.startTime)}`
+      ]));
+    }
+  }
+  return lines;
+};
+
+export const buildCalendar = async (name: string, sessions: ClassSession[]): Promise<string> => {
+  const courseIds = Array.from(new Set(sessions.map(session => session.courseId)));
+  const instructorIds = Array.from(new Set(sessions.map(session => session.instructorId)));
+  const seriesIds = Array.from(new Set(sessions.map(session => session.seriesId).filter((id): id is number => !!id)));
+
+  const context: CalendarContext = {
+    courses: new Map((await db.courses.bulkGet(courseIds)).filter((c): c is Course => !!c).map(c => [c.id!, c])),
+    instructors: new Map((await db.users.bulkGet(instructorIds)).filter((u): u is User => !!u).map(u => [u.id!, u]))
+  };
+  const seriesList = (await db.sessionSeries.bulkGet(seriesIds)).filter((s): s is SessionSeries => !!s);
+
+  const stamp = formatUtc(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    `X-WR-TIMEZONE:${Intl.DateTimeFormat().resolvedOptions().timeZone}`
+  ];
+
+  for (const series of seriesList) {
+    lines.push(...buildSeriesEvents(series, sessions.filter(session => session.seriesId === series.id), context, stamp));
+  }
+  for (const session of sessions) {
+    if (!session.seriesId || !seriesList.some(series => series.id === session.seriesId)) {
+      lines.push(...buildEvent(sessionUid(session), session, context, stamp));
+    }
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+export const buildStudentCalendar = async (studentId: number): Promise<string> => {
+  const enrollments = await db.courseEnrollments.where('studentId').equals(studentId).toArray();
+  const sessions = await db.classSessions.where('courseId').anyOf(enrollments.map(e => e.courseId)).toArray();
+  return buildCalendar('My Classes', sessions);
+};
+
+export const buildInstructorCalendar = async (instructorId: number): Promise<string> => {
+  const courses = await db.courses.where('instructorId').equals(instructorId).toArray();
+  const sessions = await db.classSessions.where('courseId').anyOf(courses.map(c => c.id!)).toArray();
+  return buildCalendar('Teaching Schedule', sessions);
+};
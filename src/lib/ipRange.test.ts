@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { isIpInRange, isIpInRanges, isValidIpRange, parseIpAddress } from '@/lib/ipRange';
+
+describe('parseIpAddress', () => {
+  it('parses IPv4 and rejects out-of-range octets', () => {
+    expect(parseIpAddress('192.168.1.20')).toEqual({ version: 4, value: 0xc0a80114n });
+    expect(parseIpAddress('256.1.1.1')).toBeNull();
+    expect(parseIpAddress('1.2.3')).toBeNull();
+  });
+
+  it('expands compressed IPv6 and drops zone indexes and brackets', () => {
+    expect(parseIpAddress('2001:db8::1')).toEqual({ version: 6, value: 0x20010db8000000000000000000000001n });
+    expect(parseIpAddress('[fe80::1%eth0]')).toEqual({ version: 6, value: 0xfe800000000000000000000000000001n });
+    expect(parseIpAddress('1::2::3')).toBeNull();
+    expect(parseIpAddress('1:2:3:4:5:6:7:8:9')).toBeNull();
+  });
+
+  it('treats IPv4-mapped IPv6 addresses as IPv4', () => {
+    expect(parseIpAddress('::ffff:10.0.0.1')).toEqual(parseIpAddress('10.0.0.1'));
+  });
+});
+
+describe('isValidIpRange', () => {
+  it('accepts addresses and CIDR blocks within the address size', () => {
+    expect(isValidIpRange('10.0.0.0/8')).toBe(true);
+    expect(isValidIpRange('10.0.0.1')).toBe(true);
+    expect(isValidIpRange('2001:db8::/32')).toBe(true);
+    expect(isValidIpRange('10.0.0.0/33')).toBe(false);
+    expect(isValidIpRange('10.0.0.0/8/1')).toBe(false);
+    expect(isValidIpRange('10.0.0.0/x')).toBe(false);
+  });
+
+  it('reads IPv4-mapped prefixes as IPv6 prefixes and rejects those below /96', () => {
+    expect(isValidIpRange('::ffff:10.0.0.0/104')).toBe(true);
+    expect(isValidIpRange('::ffff:0:0/96')).toBe(true);
+    expect(isValidIpRange('::ffff:0:0/95')).toBe(false);
+  });
+});
+
+describe('isIpInRange', () => {
+  it('matches addresses inside a CIDR block', () => {
+    expect(isIpInRange('10.20.30.40', '10.20.0.0/16')).toBe(true);
+    expect(isIpInRange('10.21.0.1', '10.20.0.0/16')).toBe(false);
+    expect(isIpInRange('2001:db8:42::7', '2001:db8:42::/48')).toBe(true);
+    expect(isIpInRange('2001:db8:43::7', '2001:db8:42::/48')).toBe(false);
+  });
+
+  it('matches a single address exactly and /0 everything', () => {
+    expect(isIpInRange('10.0.0.1', '10.0.0.1')).toBe(true);
+    expect(isIpInRange('10.0.0.2', '10.0.0.1')).toBe(false);
+    expect(isIpInRange('8.8.8.8', '0.0.0.0/0')).toBe(true);
+  });
+
+  it('never matches across address families', () => {
+    expect(isIpInRange('10.0.0.1', '::/0')).toBe(false);
+  });
+
+  it('matches mapped addresses against plain and mapped IPv4 ranges', () => {
+    expect(isIpInRange('::ffff:10.1.2.3', '10.0.0.0/8')).toBe(true);
+    expect(isIpInRange('10.1.2.3', '::ffff:10.0.0.0/104')).toBe(true);
+    expect(isIpInRange('11.1.2.3', '::ffff:10.0.0.0/104')).toBe(false);
+  });
+});
+
+describe('isIpInRanges', () => {
+  it('matches any range and ignores invalid entries', () => {
+    expect(isIpInRanges('192.168.1.5', ['not a range', '192.168.1.0/24'])).toBe(true);
+    expect(isIpInRanges('192.168.1.5')).toBe(false);
+  });
+});
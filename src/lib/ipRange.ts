@@ -0,0 +1,114 @@
+// IPv4/IPv6 address parsing and CIDR matching for IP-based check-in
+
+interface ParsedAddress {
+  version: 4 | 6;
+  value: bigint;
+}
+
+interface ParsedRange extends ParsedAddress {
+  prefixLength: number;
+}
+
+const parseIPv4 = (address: string): bigint | null => {
+  const octets = address.split('.');
+  if (octets.length !== 4) return null;
+
+  let value = 0n;
+  for (const octet of octets) {
+    if (!/^\d{1,3}$/.test(octet)) return null;
+    const n = Number(octet);
+    if (n > 255) return null;
+    value = (value << 8n) | BigInt(n);
+  }
+  return value;
+};
+
+const parseIPv6 = (address: string): bigint | null => {
+  // Drop a zone index such as fe80::1%eth0
+  let text = address.split('%')[0];
+
+  // An embedded IPv4 tail (::ffff:192.0.2.1) becomes two hextets
+  const lastColon = text.lastIndexOf(':');
+  if (text.includes('.', lastColon)) {
+    const ipv4 = parseIPv4(text.slice(lastColon + 1));
+    if (ipv4 === null) return null;
+    text = `${text.slice(0, lastColon + 1)}${(ipv4 >> 16n).toString(16)}:${(ipv4 & 0xffffn).toString(16)}`;
+  }
+
+  const halves = text.split('::');
+  if (halves.length > 2) return null;
+
+  const head = halves[0] ? halves[0].split(':') : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - tail.length;
+
+  if (halves.length === 1 ? missing !== 0 : missing < 1) return null;
+
+  const hextets = [...head, ...Array(halves.length === 2 ? missing : 0).fill('0'), ...tail];
+  let value = 0n;
+  for (const hextet of hextets) {
+    if (!/^[0-9a-f]{1,4}$/i.test(hextet)) return null;
+    value = (value << 16n) | BigInt(parseInt(hextet, 16));
+  }
+  return value;
+};
+
+const IPV4_MAPPED_PREFIX = 0xffffn << 32n;
+
+export const parseIpAddress = (address: string): ParsedAddress | null => {
+  const trimmed = address.trim().replace(/^\[|\]$/g, '');
+  if (!trimmed) return null;
+
+  if (!trimmed.includes(':')) {
+    const value = parseIPv4(trimmed);
+    return value === null ? null : { version: 4, value };
+  }
+
+  const value = parseIPv6(trimmed);
+  if (value === null) return null;
+
+  // Treat IPv4-mapped IPv6 addresses (::ffff:a.b.c.d) as plain IPv4
+  if (value >> 32n === 0xffffn) {
+    return { version: 4, value: value - IPV4_MAPPED_PREFIX };
+  }
+  return { version: 6, value };
+};
+
+// Accepts a CIDR block ("10.0.0.0/8", "2001:db8::/32") or a single address
+export const parseIpRange = (range: string): ParsedRange | null => {
+  const [address, prefix, ...rest] = range.trim().split('/');
+  if (rest.length > 0) return null;
+
+  const parsed = parseIpAddress(address);
+  if (!parsed) return null;
+
+  const maxPrefix = parsed.version === 4 ? 32 : 128;
+  if (prefix === undefined) {
+    return { ...parsed, prefixLength: maxPrefix };
+  }
+
+  if (!/^\d{1,3}$/.test(prefix)) return null;
+
+  // An IPv4-mapped block is written with an IPv6 prefix (::ffff:10.0.0.0/104 is 10.0.0.0/8).
+  // Prefixes below 96 reach past the mapped space and are not valid IPv4 ranges.
+  const isMapped = parsed.version === 4 && address.includes(':');
+  const prefixLength = isMapped ? Number(prefix) - 96 : Number(prefix);
+  if (prefixLength < 0 || prefixLength > maxPrefix) return null;
+
+  return { ...parsed, prefixLength };
+};
+
+export const isValidIpRange = (range: string): boolean => parseIpRange(range) !== null;
+
+export const isIpInRange = (address: string, range: string): boolean => {
+  const ip = parseIpAddress(address);
+  const block = parseIpRange(range);
+  if (!ip || !block || ip.version !== block.version) return false;
+
+  const bits = BigInt(block.version === 4 ? 32 : 128);
+  const hostBits = bits - BigInt(block.prefixLength);
+  return ip.value >> hostBits === block.value >> hostBits;
+};
+
+export const isIpInRanges = (address: string, ranges: string[] = []): boolean =>
+  ranges.some(range => isIpInRange(address, range));
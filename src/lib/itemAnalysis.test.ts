@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { Question, Quiz, QuizSubmission } from '@/lib/database';
+import { computeItemAnalysis, cronbachAlpha } from '@/lib/itemAnalysis';
+
+const quiz: Quiz = {
+  id: 1,
+  courseId: 1,
+  instructorId: 1,
+  title: 'Quiz',
+  timeLimit: 10,
+  isRandomized: false,
+  isActive: true,
+  questions: [1, 2],
+  createdAt: '',
+  updatedAt: ''
+};
+
+const questions: Question[] = [
+  { id: 1, bankId: 1, type: 'multiple_choice', question: 'Pick A', options: ['A', 'B', 'C'], correctAnswer: 'A', points: 1, createdAt: '', updatedAt: '' },
+  { id: 2, bankId: 1, type: 'short_answer', question: 'Explain', correctAnswer: 'Because', points: 2, createdAt: '', updatedAt: '' }
+];
+
+const submission = (studentId: number, choice: string, written: string, writtenPoints: number | undefined, submittedAt = '2024-06-01T10:00:00Z'): QuizSubmission => {
+  const choicePoints = choice === 'A' ? 1 : 0;
+  return {
+    quizId: 1,
+    studentId,
+    answers: [
+      { questionId: 1, answer: choice, isCorrect: choice === 'A', points: choicePoints },
+      { questionId: 2, answer: written, points: writtenPoints }
+    ],
+    startedAt: submittedAt,
+    submittedAt,
+    totalScore: choicePoints + (writtenPoints || 0),
+    maxScore: 3,
+    isCompleted: true,
+    createdAt: '',
+    updatedAt: ''
+  };
+};
+
+describe('cronbachAlpha', () => {
+  it('is 1 when every item ranks students the same way', () => {
+    expect(cronbachAlpha([[1, 1], [0, 0]])).toBe(1);
+  });
+
+  it('is null without enough students, items or variation', () => {
+    expect(cronbachAlpha([[1, 1]])).toBeNull();
+    expect(cronbachAlpha([[1], [0]])).toBeNull();
+    expect(cronbachAlpha([[1, 1], [1, 1]])).toBeNull();
+  });
+});
+
+describe('computeItemAnalysis', () => {
+  const analysis = computeItemAnalysis(quiz, questions, [
+    submission(1, 'A', 'Because', 2),
+    // A later retake by the same student is left out
+    submission(1, 'B', '', 0, '2024-06-02T10:00:00Z'),
+    submission(2, 'B', 'Because', 2),
+    submission(3, 'A', 'No idea', 0),
+    submission(4, 'C', '', 0),
+    // Still waiting for its short answer to be graded
+    submission(5, 'A', 'Maybe', undefined)
+  ]);
+
+  it('uses first graded attempts only', () => {
+    expect(analysis.students).toBe(4);
+    expect(analysis.pendingGrading).toBe(1);
+    expect(analysis.meanScore).toBe(50);
+  });
+
+  it('computes difficulty and discrimination per item', () => {
+    expect(analysis.items.map(item => item.difficulty)).toEqual([50, 50]);
+    expect(analysis.items.map(item => item.discrimination)).toEqual([1, 1]);
+  });
+
+  it('counts choices and omitted answers', () => {
+    expect(analysis.items[0].options).toEqual([
+      { option: 'A', count: 2, isCorrect: true },
+      { option: 'B', count: 1, isCorrect: false },
+      { option: 'C', count: 1, isCorrect: false }
+    ]);
+    expect(analysis.items[1].options).toEqual([]);
+    expect(analysis.items[1].omitted).toBe(1);
+  });
+});
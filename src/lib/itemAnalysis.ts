@@ -0,0 +1,149 @@
+import { db, Question, Quiz, QuizSubmission } from '@/lib/database';
+import { getQuestionOptions, getQuizQuestions } from '@/lib/quizAttempt';
+import { toCsv } from '@/lib/download';
+
+// Classical item analysis for a quiz: difficulty and discrimination per question,
+// distractor counts for choice questions, and Cronbach's alpha for the whole quiz.
+
+// Share of students in each of the top and bottom groups used for discrimination
+const GROUP_FRACTION = 0.27;
+
+export interface OptionStatistics {
+  option: string;
+  count: number;
+  isCorrect: boolean;
+}
+
+export interface ItemStatistics {
+  question: Question;
+  difficulty: number; // Percent of available points earned, so percent correct for objective items
+  discrimination: number | null; // Top group minus bottom group, from -1 to 1
+  options: OptionStatistics[]; // Empty for short answers
+  omitted: number;
+}
+
+export interface QuizItemAnalysis {
+  quiz: Quiz;
+  students: number;
+  pendingGrading: number; // Attempts left out until their short answers are graded
+  meanScore: number; // Percent
+  alpha: number | null;
+  items: ItemStatistics[];
+}
+
+const mean = (values: number[]) => values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+const variance = (values: number[]) => {
+  const average = mean(values);
+  return mean(values.map(value => (value - average) ** 2));
+};
+
+const getItemScore = (submission: QuizSubmission, question: Question): number => {
+  const answer = submission.answers.find(a => a.questionId === question.id);
+  return question.points > 0 ? (answer?.points || 0) / question.points : 0;
+};
+
+export const cronbachAlpha = (itemScores: number[][]): number | null => {
+  const itemCount = itemScores[0]?.length || 0;
+  if (itemScores.length < 2 || itemCount < 2) return null;
+
+  const totalVariance = variance(itemScores.map(scores => scores.reduce((sum, score) => sum + score, 0)));
+  if (totalVariance === 0) return null;
+
+  const itemVariance = Array.from({ length: itemCount }, (_, item) => variance(itemScores.map(scores => scores[item])))
+    .reduce((sum, value) => sum + value, 0);
+  return (itemCount / (itemCount - 1)) * (1 - itemVariance / totalVariance);
+};
+
+export const computeItemAnalysis = (quiz: Quiz, questions: Question[], submissions: QuizSubmission[]): QuizItemAnalysis => {
+  // One attempt per student: the first, so practice on retakes does not inflate the statistics
+  const firstAttempts = new Map<number, QuizSubmission>();
+  [...submissions]
+    .sort((a, b) => (a.submittedAt || '').localeCompare(b.submittedAt || ''))
+    .forEach(submission => {
+      if (!firstAttempts.has(submission.studentId)) firstAttempts.set(submission.studentId, submission);
+    });
+
+  const attempts = Array.from(firstAttempts.values());
+  const graded = attempts.filter(submission => submission.answers.every(answer => answer.points !== undefined));
+
+  const itemScores = graded.map(submission => questions.map(question => getItemScore(submission, question)));
+  const totals = graded.map(submission => submission.totalScore || 0);
+
+  // Rank by total score for the top and bottom groups
+  const ranked = graded.map((_, index) => index).sort((a, b) => totals[b] - totals[a]);
+  const groupSize = Math.max(1, Math.round(graded.length * GROUP_FRACTION));
+  const topGroup = ranked.slice(0, groupSize);
+  const bottomGroup = ranked.slice(-groupSize);
+
+  const items = questions.map((question, item): ItemStatistics => {
+    const scores = itemScores.map(scores => scores[item]);
+    const answers = graded.map(submission => submission.answers.find(a => a.questionId === question.id)?.answer?.trim() || '');
+
+    const options = question.type === 'short_answer' ? [] : getQuestionOptions(question).map(option => ({
+      option,
+      count: answers.filter(answer => answer === option.trim()).length,
+      isCorrect: option.trim().toLowerCase() === question.correctAnswer.trim().toLowerCase()
+    }));
+
+    return {
+      question,
+      difficulty: Math.round(mean(scores) * 100),
+      discrimination: graded.length >= 2
+        ? Number((mean(topGroup.map(index => scores[index])) - mean(bottomGroup.map(index => scores[index]))).toFixed(2))
+        : null,
+      options,
+      omitted: answers.filter(answer => answer === '').length
+    };
+  });
+
+  const alpha = cronbachAlpha(itemScores);
+  return {
+    quiz,
+    students: graded.length,
+    pendingGrading: attempts.length - graded.length,
+    meanScore: Math.round(mean(graded.map(submission =>
+      submission.maxScore > 0 ? (submission.totalScore || 0) / submission.maxScore * 100 : 0
+    ))),
+    alpha: alpha === null ? null : Number(alpha.toFixed(2)),
+    items
+  };
+};
+
+export const analyzeQuiz = async (quizId: number): Promise<QuizItemAnalysis> => {
+  const quiz = await db.quizzes.get(quizId);
+  if (!quiz) {
+    throw new Error('Quiz not found');
+  }
+
+  const questions = await getQuizQuestions(quiz);
+  const submissions = await db.quizSubmissions
+    .where('quizId').equals(quizId)
+    .and(submission => submission.isCompleted)
+    .toArray();
+
+  return computeItemAnalysis(quiz, questions, submissions);
+};
+
+export const itemAnalysisToCsv = (analysis: QuizItemAnalysis): string => {
+  const rows: (string | number)[][] = [
+    ['item', 'question', 'type', 'points', 'difficulty_percent', 'discrimination', 'omitted', 'option_counts']
+  ];
+
+  analysis.items.forEach((item, index) => rows.push([
+    index + 1,
+    item.question.question,
+    item.question.type,
+    item.question.points,
+    item.difficulty,
+    item.discrimination ?? '',
+    item.omitted,
+    item.options.map(option => `${option.isCorrect ? '*' : ''}${option.option}=${option.count}`).join('|')
+  ]));
+
+  rows.push([]);
+  rows.push(['students', analysis.students]);
+  rows.push(['mean_score_percent', analysis.meanScore]);
+  rows.push(['cronbach_alpha', analysis.alpha ?? '']);
+  return toCsv(rows);
+};
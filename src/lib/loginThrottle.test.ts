@@ -0,0 +1,75 @@
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { db } from '@/lib/database';
+import { clearFailedLogins, getLockedAccounts, getLockedUntil, recordFailedLogin } from '@/lib/loginThrottle';
+import { saveSetting } from '@/lib/settings';
+
+const now = new Date('2024-06-01T12:00:00Z');
+
+const addUser = () =>
+  db.users.add({
+    email: 'user@example.com',
+    password: '',
+    role: 'student',
+    firstName: 'Sam',
+    lastName: 'Student',
+    isApproved: true,
+    createdAt: '',
+    updatedAt: ''
+  });
+
+beforeEach(async () => {
+  await Promise.all(db.tables.map(table => table.clear()));
+  await saveSetting('max_login_attempts', '3');
+  await saveSetting('account_lockout_duration', '15');
+});
+
+describe('recordFailedLogin', () => {
+  it('counts down and locks the account at the limit', async () => {
+    const userId = await addUser();
+
+    expect(await recordFailedLogin(userId, now)).toEqual({ lockedUntil: null, attemptsRemaining: 2 });
+    expect(await recordFailedLogin(userId, now)).toEqual({ lockedUntil: null, attemptsRemaining: 1 });
+
+    const { lockedUntil } = await recordFailedLogin(userId, now);
+    expect(lockedUntil).toEqual(new Date('2024-06-01T12:15:00Z'));
+
+    const user = await db.users.get(userId);
+    expect(user).toMatchObject({ failedLoginAttempts: 0, lockedUntil: '2024-06-01T12:15:00.000Z' });
+    expect(getLockedUntil(user!, now)).toEqual(lockedUntil);
+  });
+
+  it('never locks when the limit is 0', async () => {
+    await saveSetting('max_login_attempts', '0');
+    const userId = await addUser();
+
+    for (let i = 0; i < 5; i++) {
+      expect((await recordFailedLogin(userId, now)).lockedUntil).toBeNull();
+    }
+    expect((await db.users.get(userId))!.lockedUntil).toBeUndefined();
+  });
+});
+
+describe('getLockedUntil', () => {
+  it('treats past locks as unlocked', () => {
+    expect(getLockedUntil({ lockedUntil: '2024-06-01T11:59:00Z' }, now)).toBeNull();
+    expect(getLockedUntil({}, now)).toBeNull();
+  });
+});
+
+describe('clearFailedLogins', () => {
+  it('resets the count and removes the lock', async () => {
+    const userId = await addUser();
+    await recordFailedLogin(userId, now);
+    await recordFailedLogin(userId, now);
+    await recordFailedLogin(userId, now);
+    expect(await getLockedAccounts(now)).toHaveLength(1);
+
+    await clearFailedLogins(userId);
+
+    const user = await db.users.get(userId);
+    expect(user!.failedLoginAttempts).toBe(0);
+    expect(user!.lockedUntil).toBeUndefined();
+    expect(await getLockedAccounts(now)).toEqual([]);
+  });
+});
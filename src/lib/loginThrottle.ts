@@ -0,0 +1,71 @@
+import { db, User } from '@/lib/database';
+import { getNumericSetting } from '@/lib/settings';
+
+// Locking accounts after repeated wrong passwords, driven by the max_login_attempts and
+// account_lockout_duration security settings. A limit of 0 turns lockout off.
+
+export interface LockoutPolicy {
+  maxAttempts: number;
+  lockoutMinutes: number;
+}
+
+export interface FailedLoginResult {
+  lockedUntil: Date | null;
+  attemptsRemaining: number;
+}
+
+export const DEFAULT_LOCKOUT_POLICY: LockoutPolicy = {
+  maxAttempts: 5,
+  lockoutMinutes: 30
+};
+
+export const getLockoutPolicy = async (): Promise<LockoutPolicy> => ({
+  maxAttempts: Math.max(0, Math.round(await getNumericSetting('max_login_attempts', DEFAULT_LOCKOUT_POLICY.maxAttempts))),
+  lockoutMinutes: Math.max(0, await getNumericSetting('account_lockout_duration', DEFAULT_LOCKOUT_POLICY.lockoutMinutes))
+});
+
+// The time the lock ends, or null when the account is not locked right now
+export const getLockedUntil = (user: Pick<User, 'lockedUntil'>, now = new Date()): Date | null => {
+  if (!user.lockedUntil) return null;
+  const lockedUntil = new Date(user.lockedUntil);
+  return lockedUntil > now ? lockedUntil : null;
+};
+
+export const formatUnlockTime = (lockedUntil: Date) =>
+  lockedUntil.toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+// Counts a wrong password and locks the account once the limit is reached. The count
+// starts again after a lock so each lockout needs a fresh run of failures.
+export const recordFailedLogin = async (userId: number, now = new Date()): Promise<FailedLoginResult> => {
+  const policy = await getLockoutPolicy();
+  if (policy.maxAttempts <= 0 || policy.lockoutMinutes <= 0) {
+    return { lockedUntil: null, attemptsRemaining: Infinity };
+  }
+
+  return db.transaction('rw', db.users, async () => {
+    const user = await db.users.get(userId);
+    if (!user) return { lockedUntil: null, attemptsRemaining: 0 };
+
+    const attempts = (user.failedLoginAttempts || 0) + 1;
+    if (attempts < policy.maxAttempts) {
+      await db.users.update(userId, { failedLoginAttempts: attempts });
+      return { lockedUntil: null, attemptsRemaining: policy.maxAttempts - attempts };
+    }
+
+    const lockedUntil = new Date(now.getTime() + policy.lockoutMinutes * 60 * 1000);
+    await db.users.update(userId, { failedLoginAttempts: 0, lockedUntil: lockedUntil.toISOString() });
+    return { lockedUntil, attemptsRemaining: 0 };
+  });
+};
+
+// Called after a correct password and by admins unlocking an account by hand
+export const clearFailedLogins = async (userId: number): Promise<void> => {
+  await db.users.update(userId, { failedLoginAttempts: 0, lockedUntil: undefined });
+};
+
+export const getLockedAccounts = async (now = new Date()): Promise<User[]> => {
+  const users = await db.users.toArray();
+  return users
+    .filter(user => getLockedUntil(user, now))
+    .sort((a, b) => a.lockedUntil!.localeCompare(b.lockedUntil!));
+};
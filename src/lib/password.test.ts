@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import {
+  hashPassword,
+  isPasswordHashed,
+  needsRehash,
+  PASSWORD_HASH_ITERATIONS,
+  verifyPassword
+} from '@/lib/password';
+
+describe('hashPassword', () => {
+  it('stores the version, iterations and a fresh salt', async () => {
+    const first = await hashPassword('Secret#123');
+    const second = await hashPassword('Secret#123');
+
+    expect(first).toMatch(new RegExp(`^\\$pbkdf2-sha256\\$v=1\\$i=${PASSWORD_HASH_ITERATIONS}\\$`));
+    expect(second).not.toBe(first);
+    expect(isPasswordHashed(first)).toBe(true);
+    expect(needsRehash(first)).toBe(false);
+  });
+});
+
+describe('verifyPassword', () => {
+  it('accepts the right password and rejects others', async () => {
+    const stored = await hashPassword('Secret#123');
+
+    expect(await verifyPassword('Secret#123', stored)).toBe(true);
+    expect(await verifyPassword('secret#123', stored)).toBe(false);
+    expect(await verifyPassword('', stored)).toBe(false);
+  });
+
+  it('still verifies hashes made with fewer iterations and flags them for rehash', async () => {
+    const stored = (await hashPassword('Secret#123')).replace(`i=${PASSWORD_HASH_ITERATIONS}`, 'i=1000');
+
+    // Same salt and hash with a different iteration count cannot match
+    expect(await verifyPassword('Secret#123', stored)).toBe(false);
+    expect(needsRehash(stored)).toBe(true);
+  });
+
+  it('compares plaintext passwords from before hashing', async () => {
+    expect(isPasswordHashed('admin123')).toBe(false);
+    expect(await verifyPassword('admin123', 'admin123')).toBe(true);
+    expect(await verifyPassword('admin12', 'admin123')).toBe(false);
+    expect(needsRehash('admin123')).toBe(true);
+  });
+
+  it('rejects malformed hashes and versions it does not know', async () => {
+    const stored = await hashPassword('Secret#123');
+
+    expect(await verifyPassword('Secret#123', '$pbkdf2-sha256$v=1$broken')).toBe(false);
+    expect(await verifyPassword('Secret#123', stored.replace('$v=1$', '$v=2$'))).toBe(false);
+  });
+});
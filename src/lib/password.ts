@@ -0,0 +1,80 @@
+// Salted PBKDF2 password hashes via WebCrypto.
+//
+// Stored format: $pbkdf2-sha256$v=1$i=<iterations>$<salt base64>$<hash base64>
+// The version names the parameters (SHA-256, 16-byte salt, 32-byte key), so a later
+// version can change them while older hashes still verify and get upgraded on login.
+// Anything without the leading "$pbkdf2" is a plaintext password from before hashing.
+
+const HASH_PREFIX = '$pbkdf2-sha256';
+export const PASSWORD_HASH_VERSION = 1;
+export const PASSWORD_HASH_ITERATIONS = 600000;
+
+const SALT_BYTES = 16;
+const KEY_BITS = 256;
+
+interface ParsedHash {
+  version: number;
+  iterations: number;
+  salt: Uint8Array;
+  hash: Uint8Array;
+}
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), char => char.charCodeAt(0));
+
+const derive = async (password: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> => {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, KEY_BITS);
+  return new Uint8Array(bits);
+};
+
+// Compares every byte so the time taken does not reveal where the first difference is
+const constantTimeEqual = (a: Uint8Array, b: Uint8Array) => {
+  let difference = a.length ^ b.length;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    difference |= (a[i] ?? 0) ^ (b[i] ?? 0);
+  }
+  return difference === 0;
+};
+
+const parseHash = (stored: string): ParsedHash | null => {
+  const match = /^\$pbkdf2-sha256\$v=(\d+)\$i=(\d+)\$([A-Za-z0-9+/=]+)\$([A-Za-z0-9+/=]+)$/.exec(stored);
+  if (!match) return null;
+
+  try {
+    return {
+      version: parseInt(match[1]),
+      iterations: parseInt(match[2]),
+      salt: fromBase64(match[3]),
+      hash: fromBase64(match[4])
+    };
+  } catch {
+    return null;
+  }
+};
+
+export const isPasswordHashed = (stored: string) => stored.startsWith(HASH_PREFIX);
+
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const hash = await derive(password, salt, PASSWORD_HASH_ITERATIONS);
+  return `${HASH_PREFIX}$v=${PASSWORD_HASH_VERSION}$i=${PASSWORD_HASH_ITERATIONS}$${toBase64(salt)}$${toBase64(hash)}`;
+};
+
+export const verifyPassword = async (password: string, stored: string): Promise<boolean> => {
+  const encoder = new TextEncoder();
+  if (!isPasswordHashed(stored)) {
+    return constantTimeEqual(encoder.encode(password), encoder.encode(stored));
+  }
+
+  const parsed = parseHash(stored);
+  if (!parsed || parsed.version > PASSWORD_HASH_VERSION) return false;
+  return constantTimeEqual(await derive(password, parsed.salt, parsed.iterations), parsed.hash);
+};
+
+// Plaintext passwords and hashes made with older parameters should be replaced
+export const needsRehash = (stored: string): boolean => {
+  const parsed = parseHash(stored);
+  return !parsed || parsed.version < PASSWORD_HASH_VERSION || parsed.iterations < PASSWORD_HASH_ITERATIONS;
+};
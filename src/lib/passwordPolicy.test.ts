@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_PASSWORD_POLICY,
+  getPasswordRequirements,
+  getPasswordStrength,
+  isPasswordChangeDue,
+  PasswordPolicy,
+  validatePassword
+} from '@/lib/passwordPolicy';
+
+const policy = (overrides: Partial<PasswordPolicy> = {}): PasswordPolicy => ({ ...DEFAULT_PASSWORD_POLICY, ...overrides });
+
+describe('getPasswordRequirements', () => {
+  it('lists only the length rule when complexity is off', () => {
+    expect(getPasswordRequirements('abc', policy({ requireComplexity: false }))).toEqual([
+      { label: 'At least 8 characters', met: false }
+    ]);
+  });
+
+  it('checks each character class when complexity is on', () => {
+    const requirements = getPasswordRequirements('abcdefgh1', policy());
+    expect(requirements.filter(requirement => !requirement.met).map(requirement => requirement.label)).toEqual([
+      'An uppercase letter',
+      'A special character'
+    ]);
+  });
+});
+
+describe('validatePassword', () => {
+  it('describes the first unmet rule', () => {
+    expect(validatePassword('Ab1!', policy())).toBe('Password needs at least 8 characters');
+    expect(validatePassword('abcdefg1!', policy())).toBe('Password needs an uppercase letter');
+  });
+
+  it('allows passwords that meet every rule', () => {
+    expect(validatePassword('Abcdefg1!', policy())).toBeNull();
+    expect(validatePassword('abcdefgh', policy({ requireComplexity: false }))).toBeNull();
+  });
+});
+
+describe('getPasswordStrength', () => {
+  it('rates empty and common passwords as very weak', () => {
+    expect(getPasswordStrength('').score).toBe(0);
+    expect(getPasswordStrength('password1').score).toBe(0);
+  });
+
+  it('rates long varied passwords as strong', () => {
+    expect(getPasswordStrength('T7#mq!Vz2@pLw9$k')).toEqual({ score: 4, label: 'Strong' });
+  });
+
+  it('marks down sequences, repeats and personal details', () => {
+    const base = getPasswordStrength('Rivera#K72').score;
+    expect(getPasswordStrength('Rivera#K72', ['Rivera']).score).toBeLessThan(base);
+    expect(getPasswordStrength('Abcd#12xyZ').score).toBeLessThan(getPasswordStrength('Ambq#73xyZ').score);
+    expect(getPasswordStrength('Aaaa#73xyZ').score).toBeLessThan(getPasswordStrength('Ambq#73xyZ').score);
+  });
+});
+
+describe('isPasswordChangeDue', () => {
+  const now = new Date('2024-06-01T00:00:00Z');
+
+  it('never applies when forced changes are off', () => {
+    expect(isPasswordChangeDue({ createdAt: '2020-01-01T00:00:00Z' }, policy(), now)).toBe(false);
+  });
+
+  it('counts from the last change, or from account creation', () => {
+    const forced = policy({ forceChange: true, changeIntervalDays: 30 });
+
+    expect(isPasswordChangeDue({ createdAt: '2024-05-01T00:00:00Z' }, forced, now)).toBe(true);
+    expect(isPasswordChangeDue({ createdAt: '2024-05-15T00:00:00Z' }, forced, now)).toBe(false);
+    expect(isPasswordChangeDue({ createdAt: '2020-01-01T00:00:00Z', passwordChangedAt: '2024-05-20T00:00:00Z' }, forced, now)).toBe(false);
+  });
+});
@@ -0,0 +1,91 @@
+import { User } from '@/lib/database';
+import { getBooleanSetting, getNumericSetting } from '@/lib/settings';
+
+// Password rules configured on the Security Settings page. The defaults match that
+// page, so the policy applies even before an admin has saved anything.
+
+export interface PasswordPolicy {
+  minLength: number;
+  requireComplexity: boolean;
+  forceChange: boolean;
+  changeIntervalDays: number;
+}
+
+export interface PasswordRequirement {
+  label: string;
+  met: boolean;
+}
+
+export interface PasswordStrength {
+  score: 0 | 1 | 2 | 3 | 4;
+  label: string;
+}
+
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  minLength: 8,
+  requireComplexity: true,
+  forceChange: false,
+  changeIntervalDays: 90
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const strengthLabels = ['Very weak', 'Weak', 'Fair', 'Good', 'Strong'];
+
+const commonPasswords = ['password', '123456', '12345678', 'qwerty', 'letmein', 'welcome', 'admin', 'iloveyou', 'abc123'];
+
+export const getPasswordPolicy = async (): Promise<PasswordPolicy> => ({
+  minLength: Math.max(1, Math.round(await getNumericSetting('password_min_length', DEFAULT_PASSWORD_POLICY.minLength))),
+  requireComplexity: await getBooleanSetting('require_password_complexity', DEFAULT_PASSWORD_POLICY.requireComplexity),
+  forceChange: await getBooleanSetting('force_password_change', DEFAULT_PASSWORD_POLICY.forceChange),
+  changeIntervalDays: await getNumericSetting('password_change_interval', DEFAULT_PASSWORD_POLICY.changeIntervalDays)
+});
+
+// Every rule the policy applies, with whether the password meets it, for live checklists
+export const getPasswordRequirements = (password: string, policy: PasswordPolicy): PasswordRequirement[] => {
+  const requirements = [{ label: `At least ${policy.minLength} characters`, met: password.length >= policy.minLength }];
+  if (policy.requireComplexity) {
+    requirements.push(
+      { label: 'An uppercase letter', met: /[A-Z]/.test(password) },
+      { label: 'A lowercase letter', met: /[a-z]/.test(password) },
+      { label: 'A number', met: /\d/.test(password) },
+      { label: 'A special character', met: /[^A-Za-z0-9]/.test(password) }
+    );
+  }
+  return requirements;
+};
+
+// Returns a message describing the first unmet rule, or null when the password is allowed
+export const validatePassword = (password: string, policy: PasswordPolicy): string | null => {
+  const unmet = getPasswordRequirements(password, policy).find(requirement => !requirement.met);
+  return unmet ? `Password needs ${unmet.label.charAt(0).toLowerCase()}${unmet.label.slice(1)}` : null;
+};
+
+// A rough entropy estimate: character variety times length, less obvious patterns.
+// personalInfo holds names and the email so passwords built from them score lower.
+export const getPasswordStrength = (password: string, personalInfo: string[] = []): PasswordStrength => {
+  if (!password) return { score: 0, label: strengthLabels[0] };
+
+  const pool =
+    (/[a-z]/.test(password) ? 26 : 0) +
+    (/[A-Z]/.test(password) ? 26 : 0) +
+    (/\d/.test(password) ? 10 : 0) +
+    (/[^A-Za-z0-9]/.test(password) ? 33 : 0);
+  let bits = password.length * Math.log2(pool);
+
+  const lower = password.toLowerCase();
+  if (/(.)\1{2,}/.test(password)) bits -= 10;
+  if (/(0123|1234|2345|3456|4567|5678|6789|abcd|bcde|cdef|qwer|asdf|zxcv)/.test(lower)) bits -= 10;
+  if (commonPasswords.some(common => lower.includes(common))) bits -= 20;
+  if (personalInfo.some(info => info.length >= 3 && lower.includes(info.toLowerCase()))) bits -= 15;
+
+  const score = bits < 28 ? 0 : bits < 36 ? 1 : bits < 60 ? 2 : bits < 80 ? 3 : 4;
+  return { score, label: strengthLabels[score] };
+};
+
+// Users who never changed their password count from when the account was created
+export const isPasswordChangeDue = (user: Pick<User, 'passwordChangedAt' | 'createdAt'>, policy: PasswordPolicy, now = new Date()): boolean => {
+  if (!policy.forceChange || policy.changeIntervalDays <= 0) return false;
+  const changedAt = new Date(user.passwordChangedAt || user.createdAt);
+  return now.getTime() - changedAt.getTime() >= policy.changeIntervalDays * DAY_MS;
+};
@@ -0,0 +1,49 @@
+import { createElement } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { QRCodeSVG } from 'qrcode.react';
+import { describe, expect, it } from 'vitest';
+import { decodeQrFromImageData } from '@/lib/qrDecode';
+
+const SCALE = 4;
+const QUIET_ZONE = 4;
+
+// Rasterizes the SVG the live session screen projects into RGBA pixels
+const renderQr = (value: string, { inverted = false } = {}): ImageData => {
+  const markup = renderToStaticMarkup(createElement(QRCodeSVG, { value, level: 'M' }));
+  const cells = Number(/viewBox="0 0 (\d+) \d+"/.exec(markup)![1]);
+  const size = (cells + QUIET_ZONE * 2) * SCALE;
+  const dark = new Set<string>();
+
+  for (const [, x, y, width] of markup.matchAll(/M(\d+)[ ,](\d+) ?h(\d+)v1/g)) {
+    for (let offset = 0; offset < Number(width); offset++) {
+      dark.add(`${Number(x) + offset},${y}`);
+    }
+  }
+
+  const data = new Uint8ClampedArray(size * size * 4);
+  for (let py = 0; py < size; py++) {
+    for (let px = 0; px < size; px++) {
+      const cell = `${Math.floor(px / SCALE) - QUIET_ZONE},${Math.floor(py / SCALE) - QUIET_ZONE}`;
+      const value = dark.has(cell) !== inverted ? 0 : 255;
+      data.set([value, value, value, 255], (py * size + px) * 4);
+    }
+  }
+  return { data, width: size, height: size } as ImageData;
+};
+
+describe('decodeQrFromImageData', () => {
+  const token = 'ATT1.12.1760860800000.1760860830000.abcdefghijkl.c2lnbmF0dXJlLXNpZ25hdHVyZS1zaWduYXR1cmU';
+
+  it('reads the code projected on the live session screen', () => {
+    expect(decodeQrFromImageData(renderQr(token))).toBe(token);
+  });
+
+  it('reads light-on-dark codes from dark mode screens', () => {
+    expect(decodeQrFromImageData(renderQr(token, { inverted: true }))).toBe(token);
+  });
+
+  it('returns null when there is no code in the frame', () => {
+    const blank = { data: new Uint8ClampedArray(64 * 64 * 4).fill(255), width: 64, height: 64 } as ImageData;
+    expect(decodeQrFromImageData(blank)).toBeNull();
+  });
+});
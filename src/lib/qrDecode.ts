@@ -0,0 +1,53 @@
+import jsQR from 'jsqr';
+
+// QR decoding helpers shared by the camera scanner and the still-image fallback
+
+// Large photos are scaled down before decoding to keep the decoder fast on phones
+const MAX_DECODE_DIMENSION = 1024;
+
+export const decodeQrFromImageData = (imageData: ImageData): string | null => {
+  const result = jsQR(imageData.data, imageData.width, imageData.height, {
+    inversionAttempts: 'attemptBoth'
+  });
+  return result?.data || null;
+};
+
+// Draw a frame source onto the canvas and try to decode it
+export const decodeQrFromSource = (
+  source: CanvasImageSource,
+  sourceWidth: number,
+  sourceHeight: number,
+  canvas: HTMLCanvasElement = document.createElement('canvas')
+): string | null => {
+  if (!sourceWidth || !sourceHeight) return null;
+
+  const scale = Math.min(1, MAX_DECODE_DIMENSION / Math.max(sourceWidth, sourceHeight));
+  canvas.width = Math.round(sourceWidth * scale);
+  canvas.height = Math.round(sourceHeight * scale);
+
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) return null;
+
+  context.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return decodeQrFromImageData(context.getImageData(0, 0, canvas.width, canvas.height));
+};
+
+export const decodeQrFromFile = async (file: File): Promise<string | null> => {
+  const url = URL.createObjectURL(file);
+
+  try {
+    const image = await new Promise<HTMLImageElement>((resolve, reject) => {
+      const img = new Image();
+      img.onload = () => resolve(img);
+      img.onerror = () => reject(new Error('Unable to read the selected image'));
+      img.src = url;
+    });
+
+    return decodeQrFromSource(image, image.naturalWidth, image.naturalHeight);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+export const isCameraSupported = (): boolean =>
+  typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
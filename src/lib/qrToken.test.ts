@@ -0,0 +1,187 @@
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { db } from '@/lib/database';
+import {
+  getManualEntryCode,
+  issueSessionQrToken,
+  issueStudentQrToken,
+  QrTokenErrorCode,
+  resolveManualEntryCode,
+  verifySessionQrToken,
+  verifyStudentQrToken
+} from '@/lib/qrToken';
+
+const addSession = (overrides = {}) =>
+  db.classSessions.add({
+    courseId: 1,
+    instructorId: 1,
+    title: 'Lecture',
+    date: '2026-10-19',
+    startTime: '09:00',
+    endTime: '10:00',
+    checkInMethod: 'qr',
+    isActive: true,
+    createdAt: '',
+    updatedAt: '',
+    ...overrides
+  });
+
+const expectQrError = (promise: Promise<unknown>, code: QrTokenErrorCode) =>
+  expect(promise).rejects.toMatchObject({ name: 'QrTokenError', code });
+
+beforeEach(async () => {
+  await Promise.all(db.tables.map(table => table.clear()));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('session QR tokens', () => {
+  it('accepts the code currently on screen', async () => {
+    const sessionId = await addSession();
+    const { token } = await issueSessionQrToken(sessionId);
+
+    const session = await verifySessionQrToken(token, sessionId);
+    expect(session.id).toBe(sessionId);
+  });
+
+  it('rejects tampered and malformed codes', async () => {
+    const sessionId = await addSession();
+    const { token } = await issueSessionQrToken(sessionId);
+    const tampered = token.replace(`ATT1.${sessionId}.`, `ATT1.${sessionId + 1}.`);
+
+    await expectQrError(verifySessionQrToken(tampered), 'invalid_signature');
+    await expectQrError(verifySessionQrToken('not a code'), 'malformed');
+  });
+
+  it('rejects codes for another or a closed session', async () => {
+    const sessionId = await addSession();
+    const { token } = await issueSessionQrToken(sessionId);
+
+    await expectQrError(verifySessionQrToken(token, sessionId + 1), 'wrong_session');
+
+    await db.classSessions.update(sessionId, { isActive: false });
+    await expectQrError(verifySessionQrToken(token), 'session_inactive');
+  });
+
+  it('still accepts the code replaced by the latest rotation', async () => {
+    const sessionId = await addSession();
+    const { token: previous } = await issueSessionQrToken(sessionId);
+    await issueSessionQrToken(sessionId);
+
+    await expect(verifySessionQrToken(previous, sessionId)).resolves.toBeTruthy();
+  });
+
+  it('rejects a superseded code even inside its own window', async () => {
+    const sessionId = await addSession();
+    const { token: forwarded } = await issueSessionQrToken(sessionId);
+    await issueSessionQrToken(sessionId);
+    await issueSessionQrToken(sessionId);
+
+    await expectQrError(verifySessionQrToken(forwarded, sessionId), 'replayed');
+  });
+
+  it('rejects the current code once it has expired', async () => {
+    const sessionId = await addSession();
+    const { token, expiresAt } = await issueSessionQrToken(sessionId);
+
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date(expiresAt).getTime() + 60000);
+    await expectQrError(verifySessionQrToken(token, sessionId), 'expired');
+  });
+});
+
+describe('manual entry codes', () => {
+  it('derives a short unambiguous code from the session code', async () => {
+    const sessionId = await addSession();
+    const { token } = await issueSessionQrToken(sessionId);
+
+    expect(getManualEntryCode(token)).toMatch(/^[A-HJ-NP-Z2-9]{6}$/);
+    expect(getManualEntryCode(token)).toBe(getManualEntryCode(token));
+    expect(() => getManualEntryCode('not a token')).toThrow('This is not a valid attendance QR code');
+  });
+
+  it('resolves a typed code to the session code on screen', async () => {
+    const sessionId = await addSession();
+    await addSession({ isActive: false });
+    const { token } = await issueSessionQrToken(sessionId);
+    const typed = getManualEntryCode(token).toLowerCase().replace(/(...)/, '$1 ');
+
+    expect(await resolveManualEntryCode(typed)).toBe(token);
+    expect(await resolveManualEntryCode(typed, sessionId)).toBe(token);
+    expect((await verifySessionQrToken(await resolveManualEntryCode(typed), sessionId)).id).toBe(sessionId);
+  });
+
+  it('only resolves codes that are still accepted', async () => {
+    const sessionId = await addSession();
+    const { token: superseded } = await issueSessionQrToken(sessionId);
+    await issueSessionQrToken(sessionId);
+    await issueSessionQrToken(sessionId);
+
+    await expectQrError(resolveManualEntryCode(getManualEntryCode(superseded)), 'unknown_code');
+    await expectQrError(resolveManualEntryCode('ABC'), 'malformed');
+  });
+});
+
+describe('student QR tokens', () => {
+  const addStudent = (overrides = {}) =>
+    db.users.add({
+      email: 'student@example.com',
+      password: '',
+      role: 'student',
+      firstName: 'Sam',
+      lastName: 'Student',
+      isApproved: true,
+      createdAt: '',
+      updatedAt: '',
+      ...overrides
+    });
+
+  const enroll = (studentId: number, courseId: number) =>
+    db.courseEnrollments.add({ studentId, courseId, enrolledAt: '', attendanceRate: 0, createdAt: '', updatedAt: '' });
+
+  it('accepts a code once and rejects the same code scanned again', async () => {
+    const studentId = await addStudent();
+    await enroll(studentId, 1);
+    const session = await db.classSessions.get(await addSession());
+    const { token } = await issueStudentQrToken(studentId);
+
+    const student = await verifyStudentQrToken(token, session!);
+    expect(student.id).toBe(studentId);
+    await expectQrError(verifyStudentQrToken(token, session!), 'replayed');
+  });
+
+  it('rejects an older code once a newer one was issued', async () => {
+    const studentId = await addStudent();
+    await enroll(studentId, 1);
+    const session = await db.classSessions.get(await addSession());
+    const { token: screenshot } = await issueStudentQrToken(studentId);
+    await issueStudentQrToken(studentId);
+
+    await expectQrError(verifyStudentQrToken(screenshot, session!), 'replayed');
+  });
+
+  it('rejects stale codes and codes that do not belong to a student', async () => {
+    const studentId = await addStudent();
+    const instructorId = await addStudent({ email: 'instructor@example.com', role: 'instructor' });
+    await enroll(studentId, 1);
+    const session = await db.classSessions.get(await addSession());
+    const { token: instructorToken } = await issueStudentQrToken(instructorId);
+    const { token, expiresAt } = await issueStudentQrToken(studentId);
+
+    await expectQrError(verifyStudentQrToken(instructorToken, session!), 'unknown_student');
+
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date(expiresAt).getTime() + 60000);
+    await expectQrError(verifyStudentQrToken(token, session!), 'expired');
+  });
+
+  it('rejects students who are not enrolled in the course', async () => {
+    const studentId = await addStudent();
+    const session = await db.classSessions.get(await addSession());
+    const { token } = await issueStudentQrToken(studentId);
+
+    await expectQrError(verifyStudentQrToken(token, session!), 'not_enrolled');
+  });
+});
@@ -0,0 +1,307 @@
+import { db, ClassSession, User } from '@/lib/database';
+import { getNumericSetting, getSetting, saveSetting } from '@/lib/settings';
+
+// Rotating QR check-in tokens.
+// Session codes are projected by the instructor: ATT1.<sessionId>.<issuedAt>.<expiresAt>.<nonce>.<signature>
+// Student codes are shown by a student for the instructor to scan: STU1.<studentId>.<issuedAt>.<expiresAt>.<nonce>.<signature>
+// The signature is an HMAC-SHA256 over everything before it, keyed by a per-install secret.
+// Students who cannot scan type a short code derived from the signature of the session code on screen.
+
+const TOKEN_PREFIX = 'ATT1';
+const STUDENT_TOKEN_PREFIX = 'STU1';
+const SIGNING_SECRET_KEY = 'qr_signing_secret';
+const DEFAULT_ROTATION_SECONDS = 30;
+const MIN_ROTATION_SECONDS = 5;
+// Allowance for the delay between a code being displayed and the scan reaching us
+const CLOCK_SKEW_MS = 5000;
+const MANUAL_CODE_LENGTH = 6;
+// No 0/O or 1/I, so codes read off a projector are typed correctly
+const MANUAL_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+export type QrTokenErrorCode =
+  | 'malformed'
+  | 'invalid_signature'
+  | 'wrong_session'
+  | 'session_inactive'
+  | 'expired'
+  | 'replayed'
+  | 'unknown_student'
+  | 'not_enrolled'
+  | 'unknown_code';
+
+const ERROR_MESSAGES: Record<QrTokenErrorCode, string> = {
+  malformed: 'This is not a valid attendance QR code',
+  invalid_signature: 'This QR code was not issued by this system',
+  wrong_session: 'This QR code belongs to a different class session',
+  session_inactive: 'This class session is no longer accepting check-ins',
+  expired: 'This QR code has expired. Please scan the code currently on screen',
+  replayed: 'This QR code has already been replaced by a newer one. Please scan the code currently on screen',
+  unknown_student: 'This QR code does not belong to a registered student',
+  not_enrolled: 'This student is not enrolled in the course for this session',
+  unknown_code: 'This code does not match any class taking attendance. Please enter the code currently on screen'
+};
+
+export class QrTokenError extends Error {
+  code: QrTokenErrorCode;
+
+  constructor(code: QrTokenErrorCode, message: string = ERROR_MESSAGES[code]) {
+    super(message);
+    this.name = 'QrTokenError';
+    this.code = code;
+  }
+}
+
+interface ParsedQrToken {
+  subjectId: number;
+  issuedAt: number;
+  expiresAt: number;
+  nonce: string;
+  payload: string;
+  signature: string;
+}
+
+const toBase64Url = (bytes: Uint8Array): string =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (value: string): Uint8Array => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+let signingKeyPromise: Promise<CryptoKey> | null = null;
+
+const getSigningKey = (): Promise<CryptoKey> => {
+  if (!signingKeyPromise) {
+    signingKeyPromise = (async () => {
+      let secret = await getSetting(SIGNING_SECRET_KEY, '');
+      if (!secret) {
+        secret = toBase64Url(crypto.getRandomValues(new Uint8Array(32)));
+        await saveSetting(SIGNING_SECRET_KEY, secret);
+      }
+
+      return crypto.subtle.importKey(
+        'raw',
+        new TextEncoder().encode(secret),
+        { name: 'HMAC', hash: 'SHA-256' },
+        false,
+        ['sign', 'verify']
+      );
+    })();
+
+    // Allow a retry if the key could not be loaded
+    signingKeyPromise.catch(() => {
+      signingKeyPromise = null;
+    });
+  }
+
+  return signingKeyPromise;
+};
+
+const parseQrToken = (token: string, prefix: string): ParsedQrToken => {
+  const parts = token.split('.');
+  if (parts.length !== 6 || parts[0] !== prefix) {
+    throw new QrTokenError('malformed');
+  }
+
+  const [, subjectId, issuedAt, expiresAt, nonce, signature] = parts;
+  const parsed = {
+    subjectId: Number(subjectId),
+    issuedAt: Number(issuedAt),
+    expiresAt: Number(expiresAt),
+    nonce,
+    payload: parts.slice(0, 5).join('.'),
+    signature
+  };
+
+  if (!Number.isInteger(parsed.subjectId) || !Number.isFinite(parsed.issuedAt) || !Number.isFinite(parsed.expiresAt) || !signature) {
+    throw new QrTokenError('malformed');
+  }
+
+  return parsed;
+};
+
+const signToken = async (prefix: string, subjectId: number, lifetimeMs: number) => {
+  const issuedAt = Date.now();
+  const expiresAt = issuedAt + lifetimeMs;
+  const nonce = toBase64Url(crypto.getRandomValues(new Uint8Array(9)));
+
+  const payload = [prefix, subjectId, issuedAt, expiresAt, nonce].join('.');
+  const key = await getSigningKey();
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(payload));
+
+  return {
+    token: `${payload}.${toBase64Url(new Uint8Array(signature))}`,
+    expiresAt: new Date(expiresAt).toISOString(),
+    nonce
+  };
+};
+
+const parseSignedToken = async (token: string, prefix: string): Promise<ParsedQrToken> => {
+  const parsed = parseQrToken(token, prefix);
+
+  let signature: Uint8Array;
+  try {
+    signature = fromBase64Url(parsed.signature);
+  } catch {
+    throw new QrTokenError('malformed');
+  }
+
+  const key = await getSigningKey();
+  const isValid = await crypto.subtle.verify('HMAC', key, signature, new TextEncoder().encode(parsed.payload));
+  if (!isValid) {
+    throw new QrTokenError('invalid_signature');
+  }
+
+  return parsed;
+};
+
+export const getQrRotationInterval = async (): Promise<number> => {
+  const seconds = await getNumericSetting('qr_rotation_interval', DEFAULT_ROTATION_SECONDS);
+  return Math.max(seconds, MIN_ROTATION_SECONDS);
+};
+
+// Issue a fresh token for the session and store it as the session's current QR code.
+// The code it replaces is kept so a scan taken just before the rotation still counts.
+export const issueSessionQrToken = async (sessionId: number): Promise<{ token: string; expiresAt: string }> => {
+  const rotationSeconds = await getQrRotationInterval();
+  const { token, expiresAt } = await signToken(TOKEN_PREFIX, sessionId, rotationSeconds * 1000);
+
+  await db.transaction('rw', db.classSessions, async () => {
+    const session = await db.classSessions.get(sessionId);
+    await db.classSessions.update(sessionId, {
+      qrToken: token,
+      qrExpiry: expiresAt,
+      previousQrToken: session?.qrToken,
+      updatedAt: new Date().toISOString()
+    });
+  });
+
+  return { token, expiresAt };
+};
+
+// Check a scanned token's signature, expiry and session binding. Only the code on screen
+// and the one it replaced are accepted, so a forwarded photo of an older code is rejected
+// even while its own window is still open.
+// Throws a QrTokenError describing the first check that failed.
+export const verifySessionQrToken = async (
+  token: string,
+  expectedSessionId?: number | null
+): Promise<ClassSession> => {
+  const trimmed = token.trim();
+  const parsed = await parseSignedToken(trimmed, TOKEN_PREFIX);
+
+  if (expectedSessionId && expectedSessionId !== parsed.subjectId) {
+    throw new QrTokenError('wrong_session');
+  }
+
+  const session = await db.classSessions.get(parsed.subjectId);
+  if (!session) {
+    throw new QrTokenError('wrong_session');
+  }
+
+  if (!session.isActive) {
+    throw new QrTokenError('session_inactive');
+  }
+
+  const isCurrent = session.qrToken === trimmed;
+  if (!isCurrent && session.previousQrToken !== trimmed) {
+    throw new QrTokenError('replayed');
+  }
+
+  // The previous code expires as its replacement is issued, so this also bounds its grace period
+  if (Date.now() > parsed.expiresAt + CLOCK_SKEW_MS) {
+    throw new QrTokenError(isCurrent ? 'expired' : 'replayed');
+  }
+
+  return session;
+};
+
+// The typeable stand-in for a session code: the first 30 bits of its signature
+export const getManualEntryCode = (token: string): string => {
+  let signature: Uint8Array;
+  try {
+    signature = fromBase64Url(parseQrToken(token, TOKEN_PREFIX).signature);
+  } catch {
+    throw new QrTokenError('malformed');
+  }
+
+  let bits = 0;
+  let bitCount = 0;
+  let code = '';
+  for (const byte of signature) {
+    bits = (bits << 8) | byte;
+    bitCount += 8;
+    while (bitCount >= 5 && code.length < MANUAL_CODE_LENGTH) {
+      bitCount -= 5;
+      code += MANUAL_CODE_ALPHABET[(bits >> bitCount) & 31];
+    }
+    if (code.length === MANUAL_CODE_LENGTH) break;
+  }
+  return code;
+};
+
+// Find the session code a typed code stands for, among the codes currently accepted.
+// The result still has to pass verifySessionQrToken like a scanned code.
+export const resolveManualEntryCode = async (code: string, sessionId?: number | null): Promise<string> => {
+  const normalized = code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+  if (normalized.length !== MANUAL_CODE_LENGTH) {
+    throw new QrTokenError('malformed', `Enter the ${MANUAL_CODE_LENGTH}-character code shown under the QR code`);
+  }
+
+  const sessions = sessionId
+    ? [await db.classSessions.get(sessionId)].filter((session): session is ClassSession => !!session)
+    : await db.classSessions.filter(session => session.isActive).toArray();
+
+  for (const session of sessions) {
+    const match = [session.qrToken, session.previousQrToken]
+      .find(token => token && getManualEntryCode(token) === normalized);
+    if (match) return match;
+  }
+  throw new QrTokenError('unknown_code');
+};
+
+// Student codes are re-issued on the same rotation interval. Only the nonce of the latest
+// one is stored, so older codes stop working as soon as a new one is shown.
+export const issueStudentQrToken = async (studentId: number): Promise<{ token: string; expiresAt: string }> => {
+  const rotationSeconds = await getQrRotationInterval();
+  const { token, expiresAt, nonce } = await signToken(STUDENT_TOKEN_PREFIX, studentId, rotationSeconds * 1000);
+
+  await db.users.update(studentId, { qrNonce: nonce });
+
+  return { token, expiresAt };
+};
+
+// Check a student's code against the session being scanned and return the student.
+// A successful check consumes the code, so a screenshot of it cannot be scanned again.
+export const verifyStudentQrToken = async (token: string, session: ClassSession): Promise<User> => {
+  const parsed = await parseSignedToken(token.trim(), STUDENT_TOKEN_PREFIX);
+
+  if (Date.now() > parsed.expiresAt + CLOCK_SKEW_MS) {
+    throw new QrTokenError('expired', 'This student QR code is stale. Ask the student to refresh it');
+  }
+
+  const student = await db.users.get(parsed.subjectId);
+  if (!student || student.role !== 'student') {
+    throw new QrTokenError('unknown_student');
+  }
+
+  const enrollment = await db.courseEnrollments
+    .where('studentId').equals(student.id!)
+    .and(e => e.courseId === session.courseId)
+    .first();
+
+  if (!enrollment) {
+    throw new QrTokenError('not_enrolled');
+  }
+
+  await db.transaction('rw', db.users, async () => {
+    const current = await db.users.get(student.id!);
+    if (!current?.qrNonce || current.qrNonce !== parsed.nonce) {
+      throw new QrTokenError('replayed', 'This student QR code has already been used. Ask the student to refresh it');
+    }
+    await db.users.update(student.id!, { qrNonce: undefined });
+  });
+
+  return student;
+};
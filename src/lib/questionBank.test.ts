@@ -0,0 +1,113 @@
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { db } from '@/lib/database';
+import {
+  addQuestionsToBank,
+  createQuestionBank,
+  deleteQuestion,
+  deleteQuestionBank,
+  drawRandomQuestions,
+  parseTags,
+  QuestionDraft,
+  updateQuestion,
+  updateQuestionBank,
+  validateQuestion
+} from '@/lib/questionBank';
+
+const draft = (overrides: Partial<QuestionDraft> = {}): QuestionDraft => ({
+  type: 'multiple_choice',
+  question: 'Pick A',
+  options: ['A', 'B', ''],
+  correctAnswer: 'A',
+  points: 1,
+  ...overrides
+});
+
+const addQuiz = (questions: number[]) =>
+  db.quizzes.add({
+    courseId: 1,
+    instructorId: 1,
+    title: 'Midterm',
+    timeLimit: 10,
+    isRandomized: false,
+    isActive: true,
+    questions,
+    createdAt: '',
+    updatedAt: ''
+  });
+
+beforeEach(async () => {
+  await Promise.all(db.tables.map(table => table.clear()));
+});
+
+describe('parseTags', () => {
+  it('trims, lowercases and removes duplicates', () => {
+    expect(parseTags(' Algebra, algebra ,, Week 1')).toEqual(['algebra', 'week 1']);
+  });
+});
+
+describe('validateQuestion', () => {
+  it('describes the first problem', () => {
+    expect(validateQuestion(draft({ question: ' ' }))).toBe('Question text is required');
+    expect(validateQuestion(draft({ points: 0 }))).toBe('Points must be greater than zero');
+    expect(validateQuestion(draft({ options: ['A', ''] }))).toBe('Multiple choice questions need at least two options');
+    expect(validateQuestion(draft({ correctAnswer: 'C' }))).toBe('Select the correct option');
+    expect(validateQuestion(draft({ type: 'true_false', correctAnswer: 'Yes' }))).toBe('Select True or False as the correct answer');
+    expect(validateQuestion(draft())).toBeNull();
+  });
+});
+
+describe('question banks', () => {
+  it('keeps bank names unique per instructor', async () => {
+    const bankId = await createQuestionBank({ instructorId: 1, name: 'Algebra' });
+    await createQuestionBank({ instructorId: 2, name: 'Algebra' });
+    const otherId = await createQuestionBank({ instructorId: 1, name: 'Geometry' });
+
+    await expect(createQuestionBank({ instructorId: 1, name: ' algebra ' })).rejects.toThrow('You already have a bank named Algebra');
+    await expect(updateQuestionBank(otherId, { name: 'ALGEBRA' })).rejects.toThrow('You already have a bank named Algebra');
+    await updateQuestionBank(bankId, { name: 'Algebra I' });
+    expect((await db.questionBanks.get(bankId))!.name).toBe('Algebra I');
+  });
+
+  it('stores cleaned questions and reports which one is invalid', async () => {
+    const bankId = await createQuestionBank({ instructorId: 1, name: 'Algebra' });
+    const [id] = await addQuestionsToBank(bankId, [draft({ question: ' Pick A ' })]);
+
+    expect(await db.questions.get(id)).toMatchObject({ bankId, question: 'Pick A', options: ['A', 'B'] });
+    await expect(addQuestionsToBank(bankId, [draft(), draft({ points: 0 })]))
+      .rejects.toThrow('Question 2: Points must be greater than zero');
+  });
+
+  it('blocks editing questions that quizzes use', async () => {
+    const bankId = await createQuestionBank({ instructorId: 1, name: 'Algebra' });
+    const [used, unused] = await addQuestionsToBank(bankId, [draft(), draft({ question: 'Pick B', correctAnswer: 'B' })]);
+    await addQuiz([used]);
+
+    await expect(updateQuestion(used, draft({ correctAnswer: 'B' })))
+      .rejects.toThrow('This question is used by Midterm and can no longer be edited');
+    expect((await db.questions.get(used))!.correctAnswer).toBe('A');
+
+    await updateQuestion(unused, draft({ question: 'Pick A again' }));
+    expect((await db.questions.get(unused))!.question).toBe('Pick A again');
+  });
+
+  it('blocks deleting questions and banks that quizzes use', async () => {
+    const bankId = await createQuestionBank({ instructorId: 1, name: 'Algebra' });
+    const [used, unused] = await addQuestionsToBank(bankId, [draft(), draft({ question: 'Pick B', correctAnswer: 'B' })]);
+    await addQuiz([used]);
+
+    await expect(deleteQuestion(used)).rejects.toThrow('This question is used by Midterm');
+    await expect(deleteQuestionBank(bankId)).rejects.toThrow('Questions in this bank are used by Midterm');
+
+    await deleteQuestion(unused);
+    expect(await db.questions.get(unused)).toBeUndefined();
+  });
+
+  it('draws questions not already chosen', async () => {
+    const bankId = await createQuestionBank({ instructorId: 1, name: 'Algebra' });
+    const [first, second] = await addQuestionsToBank(bankId, [draft(), draft({ question: 'Pick B', correctAnswer: 'B' })]);
+
+    expect((await drawRandomQuestions(bankId, 1, [first])).map(question => question.id)).toEqual([second]);
+    await expect(drawRandomQuestions(bankId, 2, [first])).rejects.toThrow('Algebra only has 1 unused questions');
+  });
+});
@@ -0,0 +1,187 @@
+import { db, Question, QuestionBank, Quiz } from '@/lib/database';
+import { shuffle } from '@/lib/quizAttempt';
+
+// Question banks are owned by an instructor and shared by every quiz they build.
+// Quizzes reference questions by id, so questions in use cannot be deleted.
+
+export type QuestionDraft = Omit<Question, 'id' | 'bankId' | 'createdAt' | 'updatedAt'>;
+
+export const createEmptyQuestion = (): QuestionDraft => ({
+  type: 'multiple_choice',
+  question: '',
+  options: ['', '', '', ''],
+  correctAnswer: '',
+  points: 1
+});
+
+export const parseTags = (input: string): string[] =>
+  Array.from(new Set(
+    input.split(',').map(tag => tag.trim().toLowerCase()).filter(tag => tag !== '')
+  ));
+
+export const getInstructorBanks = async (instructorId: number): Promise<QuestionBank[]> => {
+  const banks = await db.questionBanks.where('instructorId').equals(instructorId).toArray();
+  return banks.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const getBankQuestions = (bankId: number): Promise<Question[]> =>
+  db.questions.where('bankId').equals(bankId).toArray();
+
+const assertUniqueBankName = async (instructorId: number, name: string, bankId?: number) => {
+  const duplicate = await db.questionBanks
+    .where('instructorId').equals(instructorId)
+    .and(bank => bank.id !== bankId && bank.name.toLowerCase() === name.toLowerCase())
+    .first();
+
+  if (duplicate) {
+    throw new Error(`You already have a bank named ${duplicate.name}`);
+  }
+};
+
+export const createQuestionBank = async (bank: {
+  instructorId: number;
+  name: string;
+  description?: string;
+  tags?: string[];
+}): Promise<number> => {
+  const name = bank.name.trim();
+  if (!name) {
+    throw new Error('Bank name is required');
+  }
+  await assertUniqueBankName(bank.instructorId, name);
+
+  return db.questionBanks.add({
+    instructorId: bank.instructorId,
+    name,
+    description: bank.description?.trim() || undefined,
+    tags: bank.tags || [],
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString()
+  });
+};
+
+export const updateQuestionBank = async (
+  bankId: number,
+  changes: { name?: string; description?: string; tags?: string[] }
+): Promise<void> => {
+  const bank = await db.questionBanks.get(bankId);
+  if (!bank) {
+    throw new Error('Question bank not found');
+  }
+
+  const updates: Partial<QuestionBank> = {};
+  if (changes.name !== undefined) {
+    const name = changes.name.trim();
+    if (!name) {
+      throw new Error('Bank name is required');
+    }
+    await assertUniqueBankName(bank.instructorId, name, bankId);
+    updates.name = name;
+  }
+  if (changes.description !== undefined) updates.description = changes.description.trim() || undefined;
+  if (changes.tags !== undefined) updates.tags = changes.tags;
+
+  await db.questionBanks.update(bankId, updates);
+};
+
+export const getQuizzesUsingQuestion = (questionId: number): Promise<Quiz[]> =>
+  db.quizzes.where('questions').equals(questionId).toArray();
+
+export const deleteQuestionBank = async (bankId: number): Promise<void> => {
+  await db.transaction('rw', [db.questionBanks, db.questions, db.quizzes], async () => {
+    const questionIds = (await getBankQuestions(bankId)).map(q => q.id!);
+    const quiz = questionIds.length > 0
+      ? await db.quizzes.where('questions').anyOf(questionIds).first()
+      : undefined;
+
+    if (quiz) {
+      throw new Error(`Questions in this bank are used by ${quiz.title}`);
+    }
+
+    await db.questions.where('bankId').equals(bankId).delete();
+    await db.questionBanks.delete(bankId);
+  });
+};
+
+// Returns a message describing the first problem, or null when the question is complete
+export const validateQuestion = (question: QuestionDraft): string | null => {
+  if (!question.question.trim()) {
+    return 'Question text is required';
+  }
+  if (!Number.isFinite(question.points) || question.points <= 0) {
+    return 'Points must be greater than zero';
+  }
+  if (question.type === 'multiple_choice') {
+    const options = (question.options || []).filter(option => option.trim() !== '');
+    if (options.length < 2) {
+      return 'Multiple choice questions need at least two options';
+    }
+    if (!options.includes(question.correctAnswer)) {
+      return 'Select the correct option';
+    }
+  }
+  if (question.type === 'true_false' && !['True', 'False'].includes(question.correctAnswer)) {
+    return 'Select True or False as the correct answer';
+  }
+  return null;
+};
+
+const cleanQuestion = (question: QuestionDraft): QuestionDraft => ({
+  type: question.type,
+  question: question.question.trim(),
+  options: question.type === 'multiple_choice'
+    ? (question.options || []).filter(option => option.trim() !== '')
+    : question.type === 'true_false' ? ['True', 'False'] : undefined,
+  correctAnswer: question.correctAnswer,
+  points: question.points
+});
+
+export const addQuestionsToBank = async (bankId: number, questions: QuestionDraft[]): Promise<number[]> => {
+  questions.forEach((question, index) => {
+    const error = validateQuestion(question);
+    if (error) {
+      throw new Error(questions.length > 1 ? `Question ${index + 1}: ${error}` : error);
+    }
+  });
+
+  const now = new Date().toISOString();
+  return db.questions.bulkAdd(
+    questions.map(question => ({ ...cleanQuestion(question), bankId, createdAt: now, updatedAt: now })),
+    { allKeys: true }
+  ) as Promise<number[]>;
+};
+
+// Quizzes and their submissions keep pointing at the question, so it is frozen once used
+export const updateQuestion = async (questionId: number, question: QuestionDraft): Promise<void> => {
+  const error = validateQuestion(question);
+  if (error) {
+    throw new Error(error);
+  }
+  const quizzes = await getQuizzesUsingQuestion(questionId);
+  if (quizzes.length > 0) {
+    throw new Error(`This question is used by ${quizzes.map(q => q.title).join(', ')} and can no longer be edited`);
+  }
+  await db.questions.update(questionId, cleanQuestion(question));
+};
+
+export const deleteQuestion = async (questionId: number): Promise<void> => {
+  const quizzes = await getQuizzesUsingQuestion(questionId);
+  if (quizzes.length > 0) {
+    throw new Error(`This question is used by ${quizzes.map(q => q.title).join(', ')}`);
+  }
+  await db.questions.delete(questionId);
+};
+
+// Pick `count` questions at random from a bank, skipping ones already chosen
+export const drawRandomQuestions = async (
+  bankId: number,
+  count: number,
+  excludeIds: number[] = []
+): Promise<Question[]> => {
+  const available = (await getBankQuestions(bankId)).filter(q => !excludeIds.includes(q.id!));
+  if (available.length < count) {
+    const bank = await db.questionBanks.get(bankId);
+    throw new Error(`${bank?.name || 'This bank'} only has ${available.length} unused questions`);
+  }
+  return shuffle(available).slice(0, count);
+};
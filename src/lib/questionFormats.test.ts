@@ -0,0 +1,86 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { QuestionDraft } from '@/lib/questionBank';
+import { detectFormat, parseQuestions, QuestionFormat, serializeQuestions } from '@/lib/questionFormats';
+
+const questions: QuestionDraft[] = [
+  { type: 'multiple_choice', question: 'Which is a pipe?', options: ['a | b', 'c \\ d', 'plain'], correctAnswer: 'a | b', points: 2 },
+  { type: 'true_false', question: 'The sky is {blue}: true?', options: ['True', 'False'], correctAnswer: 'True', points: 1 },
+  { type: 'short_answer', question: 'Name a "quoted", comma-separated value', correctAnswer: 'csv', points: 3 }
+];
+
+describe('round trips', () => {
+  it.each<QuestionFormat>(['gift', 'qti', 'csv'])('re-imports an exported %s bank unchanged', format => {
+    const result = parseQuestions(serializeQuestions(questions, format), format);
+
+    expect(result.errors).toEqual([]);
+    expect(result.questions.map(entry => entry.question)).toEqual(questions);
+  });
+});
+
+describe('GIFT', () => {
+  it('parses multiple choice, true/false and short answer blocks with their lines', () => {
+    const result = parseQuestions([
+      '// points: 2',
+      '::Q1:: Capital of France? {=Paris ~London ~Berlin}',
+      '',
+      'Water boils at 100C {T}',
+      '',
+      'Two plus two is {=four =4}'
+    ].join('\n'), 'gift');
+
+    expect(result.errors).toEqual([]);
+    expect(result.questions.map(entry => entry.line)).toEqual([2, 4, 6]);
+    expect(result.questions[0].question).toMatchObject({ type: 'multiple_choice', correctAnswer: 'Paris', points: 2 });
+    expect(result.questions[1].question).toMatchObject({ type: 'true_false', correctAnswer: 'True' });
+    expect(result.questions[2].question).toMatchObject({ type: 'short_answer', correctAnswer: 'four' });
+  });
+
+  it('reports unsupported and incomplete blocks against their line', () => {
+    const result = parseQuestions('How many? {#4}\n\nNo answers here', 'gift');
+
+    expect(result.questions).toEqual([]);
+    expect(result.errors).toEqual([
+      { line: 1, message: 'Numeric questions are not supported' },
+      { line: 3, message: 'Missing answer block {...}' }
+    ]);
+  });
+});
+
+describe('CSV', () => {
+  it('accepts type aliases and letter answers', () => {
+    const result = parseQuestions('type,question,options,correct_answer\nmc,Pick one,red|green|blue,B\ntf,Is it,,t', 'csv');
+
+    expect(result.errors).toEqual([]);
+    expect(result.questions[0].question).toMatchObject({ options: ['red', 'green', 'blue'], correctAnswer: 'green', points: 1 });
+    expect(result.questions[1].question).toMatchObject({ type: 'true_false', correctAnswer: 'True' });
+  });
+
+  it('keeps escaped separators inside an option', () => {
+    const result = parseQuestions('type,question,options,correct_answer\nmc,Pick one,a \\| b|c,c', 'csv');
+
+    expect(result.questions[0].question.options).toEqual(['a | b', 'c']);
+  });
+
+  it('reports missing columns and bad rows with their line numbers', () => {
+    expect(parseQuestions('type,question\nmc,Q', 'csv').errors).toEqual([
+      { line: 1, message: 'Missing column: correct_answer' }
+    ]);
+
+    const result = parseQuestions('type,question,correct_answer,points\n"essay",Q,A,1\nsa,"Two\nlines",A,x\nsa,Fine,A,1', 'csv');
+    expect(result.errors).toEqual([
+      { line: 2, message: 'Unknown question type "essay"' },
+      { line: 3, message: 'Points "x" is not a number' }
+    ]);
+    expect(result.questions.map(entry => entry.line)).toEqual([5]);
+  });
+});
+
+describe('detectFormat', () => {
+  it('maps file extensions to formats', () => {
+    expect(detectFormat('bank.GIFT')).toBe('gift');
+    expect(detectFormat('bank.xml')).toBe('qti');
+    expect(detectFormat('bank.csv')).toBe('csv');
+    expect(detectFormat('bank.docx')).toBeNull();
+  });
+});
@@ -0,0 +1,494 @@
+import { QuestionDraft, validateQuestion } from '@/lib/questionBank';
+import { toCsv } from '@/lib/download';
+
+// Import and export of question banks in Moodle GIFT, QTI 2.1 XML and a simple CSV layout.
+// Every importer reports problems against the line of the source file they came from.
+
+export type QuestionFormat = 'gift' | 'qti' | 'csv';
+
+export const questionFormats: { value: QuestionFormat; label: string; extension: string; mimeType: string }[] = [
+  { value: 'gift', label: 'Moodle GIFT', extension: 'gift', mimeType: 'text/plain' },
+  { value: 'qti', label: 'QTI 2.1 XML', extension: 'xml', mimeType: 'application/xml' },
+  { value: 'csv', label: 'CSV', extension: 'csv', mimeType: 'text/csv' }
+];
+
+export interface ImportedQuestion {
+  line: number;
+  question: QuestionDraft;
+}
+
+export interface ImportError {
+  line: number;
+  message: string;
+}
+
+export interface ImportResult {
+  questions: ImportedQuestion[];
+  errors: ImportError[];
+}
+
+type ParsedEntry = { line: number; question: QuestionDraft } | { line: number; error: string };
+
+export const detectFormat = (fileName: string): QuestionFormat | null => {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'gift' || extension === 'txt') return 'gift';
+  if (extension === 'xml' || extension === 'qti') return 'qti';
+  if (extension === 'csv') return 'csv';
+  return null;
+};
+
+// Run the shared validation so imported questions meet the same rules as typed ones
+const finalize = (entries: ParsedEntry[]): ImportResult => {
+  const result: ImportResult = { questions: [], errors: [] };
+  for (const entry of entries) {
+    if ('error' in entry) {
+      result.errors.push({ line: entry.line, message: entry.error });
+      continue;
+    }
+    const error = validateQuestion(entry.question);
+    if (error) {
+      result.errors.push({ line: entry.line, message: error });
+    } else {
+      result.questions.push(entry);
+    }
+  }
+  return result;
+};
+
+const lineAt = (text: string, index: number) => text.slice(0, index).split('\n').length;
+
+// ---- GIFT ----
+
+// Escaped characters are swapped for private-use placeholders while parsing
+const GIFT_PLACEHOLDER_BASE = 0xE000;
+
+const protectGiftEscapes = (text: string) =>
+  text.replace(/\\([~=#{}:\\n])/g, (_, char: string) => String.fromCharCode(GIFT_PLACEHOLDER_BASE + char.charCodeAt(0)));
+
+const restoreGiftEscapes = (text: string) =>
+  text.replace(/[\uE000-\uE07F]/g, placeholder => {
+    const char = String.fromCharCode(placeholder.charCodeAt(0) - GIFT_PLACEHOLDER_BASE);
+    return char === 'n' ? '\n' : char;
+  });
+
+const cleanGiftText = (text: string) => restoreGiftEscapes(text.replace(/\s+/g, ' ').trim());
+
+const parseGiftBlock = (block: string, points: number): QuestionDraft | string => {
+  const text = block
+    .replace(/^::.*?::/s, '')
+    .trim()
+    .replace(/^\[(html|moodle|plain|markdown)\]/i, '');
+
+  const open = text.indexOf('{');
+  const close = text.indexOf('}', open);
+  if (open === -1 || close === -1) {
+    return 'Missing answer block {...}';
+  }
+
+  const before = text.slice(0, open).trim();
+  const after = text.slice(close + 1).trim();
+  const question = cleanGiftText(after ? `${before} _____ ${after}` : before);
+  const answer = text.slice(open + 1, close).trim();
+
+  if (answer === '') {
+    return { type: 'short_answer', question, correctAnswer: '', points };
+  }
+  if (answer.startsWith('#')) {
+    return 'Numeric questions are not supported';
+  }
+
+  const trueFalse = answer.match(/^(T|TRUE|F|FALSE)\s*(#.*)?$/is);
+  if (trueFalse) {
+    return {
+      type: 'true_false',
+      question,
+      options: ['True', 'False'],
+      correctAnswer: trueFalse[1].toUpperCase().startsWith('T') ? 'True' : 'False',
+      points
+    };
+  }
+
+  if (answer.includes('->')) {
+    return 'Matching questions are not supported';
+  }
+
+  const choices = Array.from(answer.matchAll(/([=~])([^=~]*)/g)).map(([, marker, body]) => {
+    const weight = body.match(/^\s*%(-?\d+(?:\.\d+)?)%/);
+    const choiceText = cleanGiftText(body.replace(/^\s*%-?\d+(?:\.\d+)?%/, '').split('#')[0]);
+    return { text: choiceText, isCorrect: marker === '=' || (!!weight && Number(weight[1]) === 100) };
+  });
+
+  if (choices.length === 0) {
+    return 'Answer block has no answers';
+  }
+
+  if (choices.some(choice => !choice.isCorrect)) {
+    const correct = choices.filter(choice => choice.isCorrect);
+    if (correct.length !== 1) {
+      return 'Multiple choice questions need exactly one correct answer';
+    }
+    return {
+      type: 'multiple_choice',
+      question,
+      options: choices.map(choice => choice.text),
+      correctAnswer: correct[0].text,
+      points
+    };
+  }
+
+  // Only "=" answers: a short answer with the first accepted response as the model answer
+  return { type: 'short_answer', question, correctAnswer: choices[0].text, points };
+};
+
+const parseGift = (source: string): ParsedEntry[] => {
+  const lines = protectGiftEscapes(source.replace(/\r\n?/g, '\n')).split('\n');
+  const entries: ParsedEntry[] = [];
+  let block: string[] = [];
+  let blockLine = 0;
+  let points = 1;
+
+  const flush = () => {
+    if (block.length > 0) {
+      const parsed = parseGiftBlock(block.join('\n'), points);
+      entries.push(typeof parsed === 'string' ? { line: blockLine, error: parsed } : { line: blockLine, question: parsed });
+      points = 1;
+    }
+    block = [];
+  };
+
+  lines.forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (line.startsWith('//')) {
+      // Our exports record points in a comment since GIFT has no field for them
+      const pointsComment = line.match(/^\/\/\s*points:\s*(\d+(?:\.\d+)?)/i);
+      if (pointsComment) points = Number(pointsComment[1]);
+      return;
+    }
+    if (line.startsWith('$CATEGORY')) return;
+    if (line === '') {
+      flush();
+      return;
+    }
+    if (block.length === 0) blockLine = index + 1;
+    block.push(rawLine);
+  });
+  flush();
+
+  return entries;
+};
+
+const escapeGift = (text: string) => text.replace(/([~=#{}:\\])/g, '\\$1').replace(/\n/g, '\\n');
+
+const serializeGift = (questions: QuestionDraft[]): string =>
+  questions.map(question => {
+    let answer: string;
+    if (question.type === 'multiple_choice') {
+      const options = (question.options || []).map(option =>
+        `${option === question.correctAnswer ? '=' : '~'}${escapeGift(option)}`
+      );
+      answer = `{\n${options.join('\n')}\n}`;
+    } else if (question.type === 'true_false') {
+      answer = question.correctAnswer === 'True' ? '{TRUE}' : '{FALSE}';
+    } else {
+      answer = question.correctAnswer.trim() ? `{=${escapeGift(question.correctAnswer)}}` : '{}';
+    }
+    return `// points: ${question.points}\n${escapeGift(question.question)} ${answer}`;
+  }).join('\n\n') + '\n';
+
+// ---- QTI 2.1 ----
+
+const QTI_NAMESPACE = 'http://www.imsglobal.org/xsd/imsqti_v2p1';
+
+const byTag = (root: Element | Document, tag: string) => Array.from(root.getElementsByTagNameNS('*', tag));
+
+const elementText = (element: Element | undefined) => (element?.textContent || '').replace(/\s+/g, ' ').trim();
+
+const parseQtiItem = (item: Element): QuestionDraft | string => {
+  const interaction = ['choiceInteraction', 'textEntryInteraction', 'extendedTextInteraction']
+    .map(tag => byTag(item, tag)[0])
+    .find(Boolean);
+
+  if (!interaction) {
+    const other = byTag(item, 'itemBody')[0]?.querySelector('*[responseIdentifier]');
+    return other ? `${other.localName} is not supported` : 'Item has no supported interaction';
+  }
+
+  const responseId = interaction.getAttribute('responseIdentifier');
+  const declaration = byTag(item, 'responseDeclaration').find(d => d.getAttribute('identifier') === responseId);
+  const correctValues = declaration ? byTag(declaration, 'value')
+    .filter(value => value.parentElement?.localName === 'correctResponse')
+    .map(value => elementText(value)) : [];
+
+  const score = byTag(item, 'outcomeDeclaration').find(d => d.getAttribute('identifier') === 'SCORE');
+  const points = Number(score?.getAttribute('normalMaximum')) || 1;
+
+  let question = elementText(byTag(interaction, 'prompt')[0]);
+  if (!question) {
+    const body = byTag(item, 'itemBody')[0]?.cloneNode(true) as Element | undefined;
+    if (body) byTag(body, interaction.localName).forEach(element => element.remove());
+    question = elementText(body) || item.getAttribute('title') || '';
+  }
+
+  if (interaction.localName !== 'choiceInteraction') {
+    return { type: 'short_answer', question, correctAnswer: correctValues[0] || '', points };
+  }
+
+  if (correctValues.length !== 1) {
+    return 'Choice items need exactly one correct response';
+  }
+
+  const choices = byTag(interaction, 'simpleChoice').map(choice => ({
+    id: choice.getAttribute('identifier'),
+    text: elementText(choice)
+  }));
+  const correct = choices.find(choice => choice.id === correctValues[0]);
+  if (!correct) {
+    return `Correct response ${correctValues[0]} does not match any choice`;
+  }
+
+  const isTrueFalse = choices.length === 2 &&
+    choices.map(choice => choice.text.toLowerCase()).sort().join() === 'false,true';
+  if (isTrueFalse) {
+    return {
+      type: 'true_false',
+      question,
+      options: ['True', 'False'],
+      correctAnswer: correct.text.toLowerCase() === 'true' ? 'True' : 'False',
+      points
+    };
+  }
+
+  return {
+    type: 'multiple_choice',
+    question,
+    options: choices.map(choice => choice.text),
+    correctAnswer: correct.text,
+    points
+  };
+};
+
+const parseQti = (source: string): ParsedEntry[] => {
+  const doc = new DOMParser().parseFromString(source, 'application/xml');
+  const parserError = byTag(doc, 'parsererror')[0];
+  if (parserError) {
+    const line = parserError.textContent?.match(/line\s+(\d+)/i);
+    return [{ line: line ? Number(line[1]) : 1, error: 'The file is not valid XML' }];
+  }
+
+  const items = byTag(doc, 'assessmentItem');
+  if (items.length === 0) {
+    return [{ line: 1, error: 'No assessmentItem elements found' }];
+  }
+
+  // DOMParser drops positions, so find each item's line in the source text
+  const itemLines = Array.from(source.matchAll(/<(?:[\w-]+:)?assessmentItem[\s>]/g)).map(match => lineAt(source, match.index!));
+
+  return items.map((item, index) => {
+    const line = itemLines[index] || 1;
+    const parsed = parseQtiItem(item);
+    return typeof parsed === 'string' ? { line, error: parsed } : { line, question: parsed };
+  });
+};
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const serializeQtiItem = (question: QuestionDraft, index: number): string => {
+  const identifier = `item${index + 1}`;
+  const prompt = `<prompt>${escapeXml(question.question)}</prompt>`;
+  const outcome = `<outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float" normalMaximum="${question.points}"/>`;
+  const processing = '<responseProcessing template="http://www.imsglobal.org/question/qti_v2p1/rptemplates/match_correct"/>';
+
+  let declaration: string;
+  let interaction: string;
+  if (question.type === 'short_answer') {
+    declaration = `<responseDeclaration identifier="RESPONSE" cardinality="single" baseType="string">` +
+      `<correctResponse><value>${escapeXml(question.correctAnswer)}</value></correctResponse></responseDeclaration>`;
+    interaction = `<extendedTextInteraction responseIdentifier="RESPONSE">${prompt}</extendedTextInteraction>`;
+  } else {
+    const choices = question.type === 'true_false'
+      ? [{ id: 'true', text: 'True' }, { id: 'false', text: 'False' }]
+      : (question.options || []).map((option, optionIndex) => ({ id: `choice${optionIndex + 1}`, text: option }));
+    const correct = choices.find(choice => choice.text === question.correctAnswer);
+
+    declaration = `<responseDeclaration identifier="RESPONSE" cardinality="single" baseType="identifier">` +
+      `<correctResponse><value>${correct?.id || ''}</value></correctResponse></responseDeclaration>`;
+    interaction = `<choiceInteraction responseIdentifier="RESPONSE" shuffle="false" maxChoices="1">${prompt}` +
+      choices.map(choice => `<simpleChoice identifier="${choice.id}">${escapeXml(choice.text)}</simpleChoice>`).join('') +
+      '</choiceInteraction>';
+  }
+
+  const title = escapeXml(question.question.slice(0, 60));
+  return `  <assessmentItem xmlns="${QTI_NAMESPACE}" identifier="${identifier}" title="${title}" adaptive="false" timeDependent="false">\n` +
+    `    ${declaration}\n    ${outcome}\n    <itemBody>${interaction}</itemBody>\n    ${processing}\n  </assessmentItem>`;
+};
+
+// QTI 2.1 keeps each item in its own file inside a content package. Without a zip
+// library we export every item in one XML document; the importer accepts either form.
+const serializeQti = (questions: QuestionDraft[]): string =>
+  `<?xml version="1.0" encoding="UTF-8"?>\n<assessmentItems>\n${questions.map(serializeQtiItem).join('\n')}\n</assessmentItems>\n`;
+
+// ---- CSV ----
+
+const CSV_COLUMNS = ['type', 'question', 'options', 'correct_answer', 'points'];
+
+const typeAliases: { [alias: string]: QuestionDraft['type'] } = {
+  multiple_choice: 'multiple_choice',
+  mc: 'multiple_choice',
+  true_false: 'true_false',
+  tf: 'true_false',
+  short_answer: 'short_answer',
+  sa: 'short_answer'
+};
+
+// RFC 4180 records, each tagged with the line it starts on
+const parseCsvRecords = (source: string): { line: number; fields: string[] }[] => {
+  const text = source.replace(/\r\n?/g, '\n');
+  const records: { line: number; fields: string[] }[] = [];
+  let fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else if (char === '\n') {
+      fields.push(field);
+      records.push({ line: recordLine, fields });
+      fields = [];
+      field = '';
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || fields.length > 0) {
+    fields.push(field);
+    records.push({ line: recordLine, fields });
+  }
+  return records.filter(record => record.fields.some(value => value.trim() !== ''));
+};
+
+// Options share one column separated by "|"; a "|" or backslash inside an option is escaped with a backslash
+const escapeCsvOption = (option: string) => option.replace(/[\\|]/g, '\\$&');
+
+const splitCsvOptions = (text: string): string[] => {
+  const options: string[] = [];
+  let option = '';
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '\\' && (text[i + 1] === '|' || text[i + 1] === '\\')) {
+      option += text[++i];
+    } else if (char === '|') {
+      options.push(option);
+      option = '';
+    } else {
+      option += char;
+    }
+  }
+  options.push(option);
+  return options;
+};
+
+const parseCsvRow = (row: { [column: string]: string }): QuestionDraft | string => {
+  const type = typeAliases[(row.type || '').trim().toLowerCase().replace(/[\s-]+/g, '_')];
+  if (!type) {
+    return `Unknown question type "${row.type || ''}"`;
+  }
+
+  const points = row.points?.trim() ? Number(row.points) : 1;
+  if (!Number.isFinite(points)) {
+    return `Points "${row.points}" is not a number`;
+  }
+
+  const question = (row.question || '').trim();
+  let correctAnswer = (row.correct_answer || '').trim();
+
+  if (type === 'true_false') {
+    const normalized = correctAnswer.toLowerCase();
+    if (!['true', 'false', 't', 'f'].includes(normalized)) {
+      return 'True/false answers must be True or False';
+    }
+    return { type, question, options: ['True', 'False'], correctAnswer: normalized.startsWith('t') ? 'True' : 'False', points };
+  }
+
+  if (type === 'multiple_choice') {
+    const options = splitCsvOptions(row.options || '').map(option => option.trim()).filter(option => option !== '');
+    // Allow the answer to be given as a letter (A, B, ...)
+    if (/^[a-z]$/i.test(correctAnswer) && !options.includes(correctAnswer)) {
+      correctAnswer = options[correctAnswer.toUpperCase().charCodeAt(0) - 65] || correctAnswer;
+    }
+    return { type, question, options, correctAnswer, points };
+  }
+
+  return { type, question, correctAnswer, points };
+};
+
+const parseCsv = (source: string): ParsedEntry[] => {
+  const [header, ...records] = parseCsvRecords(source);
+  if (!header) {
+    return [{ line: 1, error: 'The file is empty' }];
+  }
+
+  const columns = header.fields.map(column => column.trim().toLowerCase().replace(/\s+/g, '_'));
+  const missing = ['type', 'question', 'correct_answer'].filter(column => !columns.includes(column));
+  if (missing.length > 0) {
+    return [{ line: header.line, error: `Missing column${missing.length > 1 ? 's' : ''}: ${missing.join(', ')}` }];
+  }
+
+  return records.map(record => {
+    const row = Object.fromEntries(columns.map((column, index) => [column, record.fields[index] || '']));
+    const parsed = parseCsvRow(row);
+    return typeof parsed === 'string' ? { line: record.line, error: parsed } : { line: record.line, question: parsed };
+  });
+};
+
+const serializeCsv = (questions: QuestionDraft[]): string =>
+  toCsv([
+    CSV_COLUMNS,
+    ...questions.map(question => [
+      question.type,
+      question.question,
+      question.type === 'multiple_choice' ? (question.options || []).map(escapeCsvOption).join('|') : '',
+      question.correctAnswer,
+      question.points
+    ])
+  ]);
+
+// ---- Public API ----
+
+export const parseQuestions = (source: string, format: QuestionFormat): ImportResult => {
+  const parsers: { [key in QuestionFormat]: (source: string) => ParsedEntry[] } = {
+    gift: parseGift,
+    qti: parseQti,
+    csv: parseCsv
+  };
+  return finalize(parsers[format](source));
+};
+
+export const serializeQuestions = (questions: QuestionDraft[], format: QuestionFormat): string => {
+  const serializers: { [key in QuestionFormat]: (questions: QuestionDraft[]) => string } = {
+    gift: serializeGift,
+    qti: serializeQti,
+    csv: serializeCsv
+  };
+  return serializers[format](questions);
+};
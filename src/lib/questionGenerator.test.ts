@@ -0,0 +1,143 @@
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { db, QuestionTemplate } from '@/lib/database';
+import { addQuestionsToBank, createQuestionBank } from '@/lib/questionBank';
+import {
+  createRandom,
+  evaluateFormula,
+  generateQuestions,
+  getVariableValues,
+  instantiateTemplate,
+  validateTemplate
+} from '@/lib/questionGenerator';
+
+const template = (overrides: Partial<QuestionTemplate> = {}): QuestionTemplate => ({
+  id: 1,
+  instructorId: 1,
+  name: 'Addition',
+  type: 'short_answer',
+  text: 'What is {{a}} + {{b}}?',
+  variables: [
+    { name: 'a', min: 1, max: 3, step: 1 },
+    { name: 'b', min: 1, max: 3, step: 1 }
+  ],
+  answer: 'a + b',
+  points: 1,
+  createdAt: '',
+  updatedAt: '',
+  ...overrides
+});
+
+beforeEach(async () => {
+  await Promise.all(db.tables.map(table => table.clear()));
+});
+
+describe('evaluateFormula', () => {
+  it('follows operator precedence and right-associative powers', () => {
+    expect(evaluateFormula('1 + 2 * 3', {})).toBe(7);
+    expect(evaluateFormula('2 ^ 3 ^ 2', {})).toBe(512);
+    expect(evaluateFormula('-(a - 10) % 4', { a: 3 })).toBe(3);
+  });
+
+  it('supports functions and constants', () => {
+    expect(evaluateFormula('round(pi, 2) + max(1, 4)', {})).toBeCloseTo(7.14);
+  });
+
+  it('rejects unknown names and trailing tokens', () => {
+    expect(() => evaluateFormula('x + 1', {})).toThrow('Unknown variable "x"');
+    expect(() => evaluateFormula('foo(1)', {})).toThrow('Unknown function "foo"');
+    expect(() => evaluateFormula('1 2', {})).toThrow('Unexpected "2" in formula');
+    expect(() => evaluateFormula('(1 + 2', {})).toThrow('Expected ")" in formula');
+  });
+});
+
+describe('getVariableValues', () => {
+  it('includes both ends and avoids floating point drift', () => {
+    expect(getVariableValues({ name: 'x', min: 0, max: 0.3, step: 0.1 })).toEqual([0, 0.1, 0.2, 0.3]);
+  });
+});
+
+describe('instantiateTemplate', () => {
+  it('produces the same question for the same seed', () => {
+    const first = instantiateTemplate(template({ type: 'multiple_choice' }), createRandom('seed'));
+    const second = instantiateTemplate(template({ type: 'multiple_choice' }), createRandom('seed'));
+    expect(second).toEqual(first);
+    expect(first.options).toContain(first.correctAnswer);
+  });
+
+  it('rounds computed answers to the template decimals', () => {
+    const question = instantiateTemplate(
+      template({ text: '{{a}} / 3', answer: 'a / 3', variables: [{ name: 'a', min: 1, max: 1, step: 1 }], decimals: 2 }),
+      createRandom('x')
+    );
+    expect(question).toMatchObject({ question: '1 / 3', correctAnswer: '0.33' });
+  });
+});
+
+describe('validateTemplate', () => {
+  it('reports reserved variable names and broken formulas', () => {
+    expect(validateTemplate(template({ variables: [{ name: 'pi', min: 1, max: 2, step: 1 }] }))).toBe('"pi" is a reserved name');
+    expect(validateTemplate(template({ answer: 'a / 0' }))).toMatch(/division by zero/);
+    expect(validateTemplate(template())).toBeNull();
+  });
+});
+
+describe('generateQuestions', () => {
+  it('is deterministic for a seed', async () => {
+    const request = { seed: 'week 3', templates: [{ template: template(), count: 3 }], banks: [] };
+    expect(await generateQuestions(request)).toEqual(await generateQuestions(request));
+  });
+
+  it('never repeats a question within a template', async () => {
+    const request = { seed: '1', templates: [{ template: template(), count: 9 }], banks: [] };
+    const { generated } = await generateQuestions(request);
+
+    expect(new Set(generated.map(question => question.question)).size).toBe(9);
+    await expect(generateQuestions({ ...request, templates: [{ template: template(), count: 10 }] }))
+      .rejects.toThrow('Addition can only produce 9 different questions');
+  });
+
+  it('never repeats a question across templates', async () => {
+    // Both templates can only render the same single question
+    const fixed = { variables: [{ name: 'a', min: 1, max: 1, step: 1 }], text: 'What is {{a}} + 1?', answer: 'a + 1' };
+    const request = {
+      seed: '1',
+      templates: [{ template: template(fixed), count: 1 }, { template: template({ ...fixed, name: 'Copy' }), count: 1 }],
+      banks: []
+    };
+
+    await expect(generateQuestions(request)).rejects.toThrow('Copy can only produce 0 different questions');
+  });
+
+  it('skips generated questions already drawn from a bank', async () => {
+    const bankId = await createQuestionBank({ instructorId: 1, name: 'Bank', tags: [] });
+    await addQuestionsToBank(bankId, [{ type: 'short_answer', question: 'What is 1 + 1?', correctAnswer: '2', points: 1 }]);
+
+    const { existing, generated } = await generateQuestions({
+      seed: '1',
+      templates: [{ template: template({ variables: [{ name: 'a', min: 1, max: 2, step: 1 }, { name: 'b', min: 1, max: 1, step: 1 }] }), count: 1 }],
+      banks: [{ bankId, count: 1 }]
+    });
+
+    expect(existing.map(question => question.question)).toEqual(['What is 1 + 1?']);
+    expect(generated.map(question => question.question)).toEqual(['What is 2 + 1?']);
+  });
+
+  it('skips questions already selected for the quiz', async () => {
+    const bankId = await createQuestionBank({ instructorId: 1, name: 'Bank', tags: [] });
+    await addQuestionsToBank(bankId, [
+      { type: 'short_answer', question: 'What is 1 + 1?', correctAnswer: '2', points: 1 },
+      { type: 'short_answer', question: 'What is 2 + 2?', correctAnswer: '4', points: 1 }
+    ]);
+
+    const { existing, generated } = await generateQuestions({
+      seed: '1',
+      templates: [{ template: template({ variables: [{ name: 'a', min: 1, max: 2, step: 1 }, { name: 'b', min: 1, max: 1, step: 1 }] }), count: 1 }],
+      banks: [{ bankId, count: 1 }],
+      exclude: ['what is 1 +  1? ']
+    });
+
+    expect(existing.map(question => question.question)).toEqual(['What is 2 + 2?']);
+    expect(generated.map(question => question.question)).toEqual(['What is 2 + 1?']);
+  });
+});
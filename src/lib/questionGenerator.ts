@@ -0,0 +1,335 @@
+import { db, Question, QuestionTemplate, TemplateVariable } from '@/lib/database';
+import { QuestionDraft, getBankQuestions } from '@/lib/questionBank';
+import { shuffle } from '@/lib/quizAttempt';
+
+// Deterministic question generation. Everything random goes through a PRNG built
+// from the seed, so the same seed and sources always produce the same questions.
+
+export type RandomSource = () => number;
+
+// Text seeds are hashed so instructors can use words as well as numbers
+const hashSeed = (seed: string): number => {
+  let hash = 2166136261;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+// mulberry32
+export const createRandom = (seed: string): RandomSource => {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const createSeed = (): string => Math.floor(100000 + Math.random() * 900000).toString();
+
+// ---- Formulas ----
+
+const functions: { [name: string]: (...args: number[]) => number } = {
+  sqrt: Math.sqrt,
+  abs: Math.abs,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  round: (value, decimals = 0) => Math.round(value * 10 ** decimals) / 10 ** decimals,
+  min: Math.min,
+  max: Math.max,
+  pow: Math.pow,
+  exp: Math.exp,
+  ln: Math.log,
+  log: Math.log10,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan
+};
+
+const constants: { [name: string]: number } = { pi: Math.PI, e: Math.E };
+
+const has = (table: object, name: string) => Object.prototype.hasOwnProperty.call(table, name);
+
+const tokenize = (expression: string): string[] => {
+  const tokens = expression.match(/\d+(?:\.\d+)?|\.\d+|[A-Za-z_]\w*|[-+*/%^(),]|\S/g) || [];
+  const invalid = tokens.find(token => !/^(\d|\.\d|[A-Za-z_]|[-+*/%^(),])/.test(token));
+  if (invalid) {
+    throw new Error(`Unexpected "${invalid}" in formula`);
+  }
+  return tokens;
+};
+
+// Recursive descent over + - * / % ^, parentheses, variables and a few math functions
+export const evaluateFormula = (expression: string, variables: { [name: string]: number }): number => {
+  const tokens = tokenize(expression);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const next = () => tokens[position++];
+  const expect = (token: string) => {
+    if (next() !== token) {
+      throw new Error(`Expected "${token}" in formula`);
+    }
+  };
+
+  const parseExpression = (): number => {
+    let value = parseTerm();
+    while (peek() === '+' || peek() === '-') {
+      value = next() === '+' ? value + parseTerm() : value - parseTerm();
+    }
+    return value;
+  };
+
+  const parseTerm = (): number => {
+    let value = parseUnary();
+    while (peek() === '*' || peek() === '/' || peek() === '%') {
+      const operator = next();
+      const right = parseUnary();
+      value = operator === '*' ? value * right : operator === '/' ? value / right : value % right;
+    }
+    return value;
+  };
+
+  const parseUnary = (): number => {
+    if (peek() === '-') {
+      next();
+      return -parseUnary();
+    }
+    if (peek() === '+') {
+      next();
+      return parseUnary();
+    }
+    return parsePower();
+  };
+
+  const parsePower = (): number => {
+    const base = parsePrimary();
+    if (peek() === '^') {
+      next();
+      return base ** parseUnary();
+    }
+    return base;
+  };
+
+  const parsePrimary = (): number => {
+    const token = next();
+    if (token === undefined) {
+      throw new Error('Formula ended unexpectedly');
+    }
+    if (token === '(') {
+      const value = parseExpression();
+      expect(')');
+      return value;
+    }
+    if (/^(\d|\.)/.test(token)) {
+      return Number(token);
+    }
+    if (/^[A-Za-z_]/.test(token)) {
+      if (peek() === '(') {
+        const fn = has(functions, token) ? functions[token] : undefined;
+        if (!fn) {
+          throw new Error(`Unknown function "${token}"`);
+        }
+        next();
+        const args: number[] = [];
+        if (peek() !== ')') {
+          args.push(parseExpression());
+          while (peek() === ',') {
+            next();
+            args.push(parseExpression());
+          }
+        }
+        expect(')');
+        return fn(...args);
+      }
+      if (has(variables, token)) return variables[token];
+      if (has(constants, token)) return constants[token];
+      throw new Error(`Unknown variable "${token}"`);
+    }
+    throw new Error(`Unexpected "${token}" in formula`);
+  };
+
+  const result = parseExpression();
+  if (position < tokens.length) {
+    throw new Error(`Unexpected "${tokens[position]}" in formula`);
+  }
+  return result;
+};
+
+// ---- Templates ----
+
+export const formatNumber = (value: number, decimals?: number): string =>
+  decimals !== undefined ? value.toFixed(decimals) : String(Number(value.toFixed(4)));
+
+export const getVariableValues = (variable: TemplateVariable): number[] => {
+  const step = variable.step > 0 ? variable.step : 1;
+  const count = Math.floor((variable.max - variable.min) / step + 1e-9) + 1;
+  return Array.from({ length: Math.max(count, 0) }, (_, index) => Number((variable.min + index * step).toFixed(10)));
+};
+
+const pickVariables = (template: QuestionTemplate, random: RandomSource): { [name: string]: number } =>
+  Object.fromEntries(template.variables.map(variable => {
+    const values = getVariableValues(variable);
+    return [variable.name, values[Math.floor(random() * values.length)]];
+  }));
+
+const evaluateOrThrow = (expression: string, variables: { [name: string]: number }): number => {
+  const value = evaluateFormula(expression, variables);
+  if (!Number.isFinite(value)) {
+    throw new Error(`"${expression}" does not give a finite number (check for division by zero)`);
+  }
+  return value;
+};
+
+const renderText = (text: string, variables: { [name: string]: number }, decimals?: number): string =>
+  text.replace(/\{\{(.+?)\}\}/g, (_, expression: string) => {
+    const trimmed = expression.trim();
+    // Plain variables print as drawn; computed values use the template's rounding
+    return has(variables, trimmed)
+      ? formatNumber(variables[trimmed])
+      : formatNumber(evaluateOrThrow(trimmed, variables), decimals);
+  });
+
+// Plausible wrong answers near the real one, used when the template lists no distractors
+const autoDistractors = (answer: number, decimals: number | undefined, random: RandomSource): string[] => {
+  const unit = decimals ? 10 ** -decimals : 1;
+  const candidates = [
+    answer + unit, answer - unit, answer + 2 * unit, answer - 2 * unit,
+    answer * 2, answer / 2, answer * 1.1, answer * 0.9, answer + 10 * unit, -answer
+  ].map(value => formatNumber(value, decimals));
+
+  const correct = formatNumber(answer, decimals);
+  return shuffle(Array.from(new Set(candidates)).filter(option => option !== correct), random).slice(0, 3);
+};
+
+export const instantiateTemplate = (template: QuestionTemplate, random: RandomSource): QuestionDraft => {
+  const variables = pickVariables(template, random);
+  const answer = evaluateOrThrow(template.answer, variables);
+  const correctAnswer = formatNumber(answer, template.decimals);
+  const question = renderText(template.text, variables, template.decimals);
+
+  if (template.type === 'short_answer') {
+    return { type: 'short_answer', question, correctAnswer, points: template.points };
+  }
+
+  const written = (template.distractors || [])
+    .filter(formula => formula.trim() !== '')
+    .map(formula => formatNumber(evaluateOrThrow(formula, variables), template.decimals));
+  const distractors = written.length > 0
+    ? Array.from(new Set(written)).filter(option => option !== correctAnswer)
+    : autoDistractors(answer, template.decimals, random);
+
+  return {
+    type: 'multiple_choice',
+    question,
+    options: shuffle([correctAnswer, ...distractors], random),
+    correctAnswer,
+    points: template.points
+  };
+};
+
+// Returns a message describing the first problem, or null when the template is usable
+export const validateTemplate = (template: QuestionTemplate): string | null => {
+  if (!template.name.trim()) return 'Template name is required';
+  if (!template.text.trim()) return 'Question text is required';
+  if (!template.answer.trim()) return 'Answer formula is required';
+  if (!Number.isFinite(template.points) || template.points <= 0) return 'Points must be greater than zero';
+
+  const names = new Set<string>();
+  for (const variable of template.variables) {
+    if (!/^[A-Za-z_]\w*$/.test(variable.name)) return `"${variable.name}" is not a valid variable name`;
+    if (has(functions, variable.name) || has(constants, variable.name)) return `"${variable.name}" is a reserved name`;
+    if (names.has(variable.name)) return `Variable ${variable.name} is defined twice`;
+    if (!(variable.max >= variable.min)) return `Variable ${variable.name} needs a maximum at least its minimum`;
+    if (!(variable.step > 0)) return `Variable ${variable.name} needs a step greater than zero`;
+    names.add(variable.name);
+  }
+
+  // Try a handful of draws so bad formulas are caught before generation
+  const random = createRandom('validate');
+  try {
+    for (let i = 0; i < 5; i++) {
+      const question = instantiateTemplate(template, random);
+      if (question.type === 'multiple_choice' && (question.options || []).length < 2) {
+        return 'Distractors must differ from the correct answer';
+      }
+    }
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Template could not be evaluated';
+  }
+  return null;
+};
+
+export const getInstructorTemplates = async (instructorId: number): Promise<QuestionTemplate[]> => {
+  const templates = await db.questionTemplates.where('instructorId').equals(instructorId).toArray();
+  return templates.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+// ---- Generation ----
+
+export interface GenerationRequest {
+  seed: string;
+  templates: { template: QuestionTemplate; count: number }[];
+  banks: { bankId: number; count: number }[];
+  exclude?: string[]; // Question texts already in the quiz
+}
+
+export interface GenerationResult {
+  existing: Question[]; // Drawn from banks
+  generated: QuestionDraft[]; // New questions from templates
+}
+
+// Attempts per requested question before giving up on finding a distinct variant
+const MAX_ATTEMPTS_PER_QUESTION = 20;
+
+// Questions differing only in case or spacing count as the same question
+const questionKey = (text: string) => text.trim().replace(/\s+/g, ' ').toLowerCase();
+
+export const generateQuestions = async (request: GenerationRequest): Promise<GenerationResult> => {
+  const random = createRandom(request.seed);
+  const existing: Question[] = [];
+  const generated: QuestionDraft[] = [];
+  // Shared by every bank and template so the quiz never asks the same question twice
+  const seen = new Set((request.exclude || []).map(questionKey));
+
+  for (const { bankId, count } of request.banks) {
+    // Sort by id so the draw depends only on the seed, not on storage order
+    const questions = (await getBankQuestions(bankId)).sort((a, b) => a.id! - b.id!);
+    const drawn: Question[] = [];
+    for (const question of shuffle(questions, random)) {
+      if (drawn.length === count) break;
+      const key = questionKey(question.question);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      drawn.push(question);
+    }
+
+    if (drawn.length < count) {
+      const bank = await db.questionBanks.get(bankId);
+      throw new Error(`${bank?.name || 'This bank'} only has ${drawn.length} questions not already in this quiz`);
+    }
+    existing.push(...drawn);
+  }
+
+  for (const { template, count } of request.templates) {
+    let added = 0;
+    let attempts = 0;
+    while (added < count) {
+      if (++attempts > count * MAX_ATTEMPTS_PER_QUESTION) {
+        throw new Error(`${template.name} can only produce ${added} different questions with its variable ranges`);
+      }
+      const question = instantiateTemplate(template, random);
+      const key = questionKey(question.question);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      generated.push(question);
+      added++;
+    }
+  }
+
+  return { existing, generated };
+};
@@ -0,0 +1,193 @@
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { db, Question, Quiz } from '@/lib/database';
+import {
+  areAnswersRevealed,
+  getBestAttempt,
+  gradeAnswer,
+  saveQuizAnswers,
+  startQuizAttempt,
+  submitQuizAttempt
+} from '@/lib/quizAttempt';
+
+const STUDENT_ID = 10;
+
+const question = (overrides: Partial<Question>): Question => ({
+  bankId: 1,
+  type: 'multiple_choice',
+  question: 'Pick A',
+  options: ['A', 'B'],
+  correctAnswer: 'A',
+  points: 2,
+  createdAt: '',
+  updatedAt: '',
+  ...overrides
+});
+
+const addQuiz = async (overrides: Partial<Quiz> = {}) => {
+  const questionIds = await db.questions.bulkAdd([
+    question({}),
+    question({ type: 'short_answer', question: 'Explain', options: undefined, correctAnswer: 'Because', points: 3 })
+  ], { allKeys: true });
+
+  return db.quizzes.add({
+    courseId: 1,
+    instructorId: 1,
+    title: 'Quiz',
+    timeLimit: 10,
+    isRandomized: false,
+    isActive: true,
+    questions: questionIds as number[],
+    createdAt: '',
+    updatedAt: '',
+    ...overrides
+  });
+};
+
+beforeEach(async () => {
+  await Promise.all(db.tables.map(table => table.clear()));
+  await db.courseEnrollments.add({ studentId: STUDENT_ID, courseId: 1, enrolledAt: '', attendanceRate: 0, createdAt: '', updatedAt: '' });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('gradeAnswer', () => {
+  it('ignores case and surrounding spaces', () => {
+    expect(gradeAnswer(question({ id: 1 }), ' a ')).toEqual({ questionId: 1, answer: ' a ', isCorrect: true, points: 2 });
+    expect(gradeAnswer(question({ id: 1 }), '')).toMatchObject({ isCorrect: false, points: 0 });
+  });
+
+  it('leaves short answers for the instructor', () => {
+    expect(gradeAnswer(question({ id: 1, type: 'short_answer' }), 'A')).toEqual({ questionId: 1, answer: 'A' });
+  });
+});
+
+describe('startQuizAttempt', () => {
+  it('only lets enrolled students start', async () => {
+    const quizId = await addQuiz({ courseId: 2 });
+    await expect(startQuizAttempt(quizId, STUDENT_ID)).rejects.toThrow('You are not enrolled in the course for this quiz');
+  });
+
+  it('resumes the attempt that is still running', async () => {
+    const quizId = await addQuiz();
+    const attempt = await startQuizAttempt(quizId, STUDENT_ID);
+
+    expect(attempt).toMatchObject({ maxScore: 5, isCompleted: false, answers: [] });
+    expect((await startQuizAttempt(quizId, STUDENT_ID)).id).toBe(attempt.id);
+  });
+
+  it('submits an attempt whose time ran out instead of resuming it', async () => {
+    const quizId = await addQuiz();
+    const attempt = await startQuizAttempt(quizId, STUDENT_ID);
+
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.now() + 11 * 60 * 1000);
+    const resumed = await startQuizAttempt(quizId, STUDENT_ID);
+
+    expect(resumed).toMatchObject({ id: attempt.id, isCompleted: true });
+  });
+
+  it('refuses quizzes outside their window', async () => {
+    const early = await addQuiz({ opensAt: new Date(Date.now() + 60 * 60 * 1000).toISOString() });
+    const late = await addQuiz({ closesAt: new Date(Date.now() - 60 * 1000).toISOString() });
+
+    await expect(startQuizAttempt(early, STUDENT_ID)).rejects.toThrow('This quiz opens on');
+    await expect(startQuizAttempt(late, STUDENT_ID)).rejects.toThrow('This quiz has closed');
+  });
+
+  it('follows the session times for session quizzes', async () => {
+    const sessionId = await db.classSessions.add({
+      courseId: 1,
+      instructorId: 1,
+      title: 'Lecture',
+      date: '2020-01-06',
+      startTime: '09:00',
+      endTime: '10:00',
+      checkInMethod: 'qr',
+      isActive: false,
+      createdAt: '',
+      updatedAt: ''
+    });
+    const quizId = await addQuiz({ sessionId });
+
+    await expect(startQuizAttempt(quizId, STUDENT_ID)).rejects.toThrow('This quiz has closed');
+  });
+});
+
+describe('attempt limits', () => {
+  it('allows one attempt unless the quiz says otherwise', async () => {
+    const quizId = await addQuiz();
+    await submitQuizAttempt((await startQuizAttempt(quizId, STUDENT_ID)).id!);
+
+    await expect(startQuizAttempt(quizId, STUDENT_ID)).rejects.toThrow('You have already submitted this quiz');
+  });
+
+  it('numbers retakes up to the limit', async () => {
+    const quizId = await addQuiz({ maxAttempts: 2 });
+    await submitQuizAttempt((await startQuizAttempt(quizId, STUDENT_ID)).id!);
+    const retake = await startQuizAttempt(quizId, STUDENT_ID);
+    await submitQuizAttempt(retake.id!);
+
+    expect(retake.attemptNumber).toBe(2);
+    await expect(startQuizAttempt(quizId, STUDENT_ID)).rejects.toThrow('You have used all 2 attempts for this quiz');
+  });
+
+  it('counts the best attempt', () => {
+    const attempts = [{ totalScore: 2 }, { totalScore: 5 }, { totalScore: 3 }] as Parameters<typeof getBestAttempt>[0];
+    expect(getBestAttempt(attempts)!.totalScore).toBe(5);
+    expect(getBestAttempt([])).toBeUndefined();
+  });
+});
+
+describe('areAnswersRevealed', () => {
+  const quiz = { revealAnswers: 'after_close' } as Quiz;
+  const closesAt = new Date('2026-10-19T12:00:00Z');
+
+  it('waits for the window to close when asked to', () => {
+    expect(areAnswersRevealed(quiz, { closesAt }, new Date('2026-10-19T11:00:00Z'))).toBe(false);
+    expect(areAnswersRevealed(quiz, { closesAt }, new Date('2026-10-19T13:00:00Z'))).toBe(true);
+    expect(areAnswersRevealed({ ...quiz, revealAnswers: 'never' }, { closesAt }, new Date('2026-10-19T13:00:00Z'))).toBe(false);
+    expect(areAnswersRevealed({} as Quiz, {})).toBe(true);
+  });
+});
+
+describe('submitQuizAttempt', () => {
+  it('grades objective answers and leaves short answers pending', async () => {
+    const quizId = await addQuiz();
+    const attempt = await startQuizAttempt(quizId, STUDENT_ID);
+    const [choiceId, writtenId] = attempt.questionOrder!;
+
+    const submitted = await submitQuizAttempt(attempt.id!, { [choiceId]: 'a', [writtenId]: 'Because it is' });
+
+    expect(submitted).toMatchObject({ isCompleted: true, totalScore: 2, maxScore: 5 });
+    expect(submitted.answers).toEqual([
+      { questionId: choiceId, answer: 'a', isCorrect: true, points: 2 },
+      { questionId: writtenId, answer: 'Because it is' }
+    ]);
+    expect(await submitQuizAttempt(attempt.id!)).toEqual(submitted);
+  });
+
+  it('scores an empty short answer as zero', async () => {
+    const quizId = await addQuiz();
+    const attempt = await startQuizAttempt(quizId, STUDENT_ID);
+
+    const submitted = await submitQuizAttempt(attempt.id!);
+
+    expect(submitted.answers[1]).toMatchObject({ answer: '', isCorrect: false, points: 0 });
+  });
+
+  it('ignores answers saved after the time limit', async () => {
+    const quizId = await addQuiz();
+    const attempt = await startQuizAttempt(quizId, STUDENT_ID);
+    const [choiceId] = attempt.questionOrder!;
+    await saveQuizAnswers(attempt.id!, { [choiceId]: 'B' });
+
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.now() + 11 * 60 * 1000);
+    await saveQuizAnswers(attempt.id!, { [choiceId]: 'A' });
+
+    expect((await db.quizSubmissions.get(attempt.id!))!.answers).toEqual([{ questionId: choiceId, answer: 'B' }]);
+  });
+});
@@ -0,0 +1,257 @@
+import { db, Question, Quiz, QuizSubmission } from '@/lib/database';
+import { getSessionEnd, getSessionStart } from '@/lib/attendancePolicy';
+
+// Student quiz attempts: a QuizSubmission is created when the quiz is started,
+// answers are saved as the student goes, and objective questions are graded on submit.
+// Short-answer questions are left ungraded (isCorrect/points undefined) for the instructor.
+
+// Allowance for the final save racing the timer
+const SUBMIT_GRACE_MS = 5000;
+
+type SubmissionAnswer = QuizSubmission['answers'][number];
+
+export const shuffle = <T>(items: T[], random: () => number = Math.random): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+export const getQuestionOptions = (question: Question): string[] => {
+  if (question.type === 'true_false') {
+    return question.options?.length ? question.options : ['True', 'False'];
+  }
+  return (question.options || []).filter(option => option.trim() !== '');
+};
+
+export const isAutoGraded = (question: Question): boolean => question.type !== 'short_answer';
+
+const normalizeAnswer = (answer: string) => answer.trim().toLowerCase();
+
+// Grade a single answer; short-answer responses come back ungraded
+export const gradeAnswer = (question: Question, answer: string): SubmissionAnswer => {
+  if (!isAutoGraded(question)) {
+    return { questionId: question.id!, answer };
+  }
+
+  const isCorrect = answer.trim() !== '' && normalizeAnswer(answer) === normalizeAnswer(question.correctAnswer);
+  return {
+    questionId: question.id!,
+    answer,
+    isCorrect,
+    points: isCorrect ? question.points : 0
+  };
+};
+
+export interface QuizWindow {
+  opensAt?: Date;
+  closesAt?: Date;
+}
+
+// Session quizzes are open while the session runs; course-level quizzes use their own window
+export const getQuizWindow = async (quiz: Quiz): Promise<QuizWindow> => {
+  if (quiz.sessionId) {
+    const session = await db.classSessions.get(quiz.sessionId);
+    if (session) {
+      return { opensAt: getSessionStart(session), closesAt: getSessionEnd(session) };
+    }
+  }
+  return {
+    opensAt: quiz.opensAt ? new Date(quiz.opensAt) : undefined,
+    closesAt: quiz.closesAt ? new Date(quiz.closesAt) : undefined
+  };
+};
+
+export const isWithinQuizWindow = (quizWindow: QuizWindow, now: Date = new Date()): boolean =>
+  (!quizWindow.opensAt || now >= quizWindow.opensAt) && (!quizWindow.closesAt || now <= quizWindow.closesAt);
+
+// ---- Integrity settings ----
+
+export const getMaxAttempts = (quiz: Quiz): number => quiz.maxAttempts ?? 1;
+
+export const hasAttemptsRemaining = (quiz: Quiz, completedAttempts: number): boolean =>
+  getMaxAttempts(quiz) === 0 || completedAttempts < getMaxAttempts(quiz);
+
+export const isScoreVisible = (quiz: Quiz): boolean => quiz.showScore !== false;
+
+export const areAnswersRevealed = (quiz: Quiz, quizWindow: QuizWindow, now: Date = new Date()): boolean => {
+  switch (quiz.revealAnswers) {
+    case 'never':
+      return false;
+    case 'after_close':
+      return !!quizWindow.closesAt && now > quizWindow.closesAt;
+    default:
+      return true;
+  }
+};
+
+// The attempt that counts towards the grade
+export const getBestAttempt = (submissions: QuizSubmission[]): QuizSubmission | undefined =>
+  submissions.reduce<QuizSubmission | undefined>(
+    (best, submission) => !best || (submission.totalScore || 0) > (best.totalScore || 0) ? submission : best,
+    undefined
+  );
+
+export const getAttemptDeadline = (submission: QuizSubmission, quiz: Quiz): number =>
+  new Date(submission.startedAt).getTime() + quiz.timeLimit * 60 * 1000;
+
+export const getQuizQuestions = async (quiz: Quiz): Promise<Question[]> => {
+  const questions = await db.questions.bulkGet(quiz.questions);
+  return questions.filter((question): question is Question => !!question);
+};
+
+// Questions in the order this attempt shows them
+export const getAttemptQuestions = async (quiz: Quiz, submission: QuizSubmission): Promise<Question[]> => {
+  const questions = await getQuizQuestions(quiz);
+  if (!submission.questionOrder) return questions;
+
+  return submission.questionOrder
+    .map(id => questions.find(question => question.id === id))
+    .filter((question): question is Question => !!question);
+};
+
+export const getInProgressSubmission = (quizId: number, studentId: number) =>
+  db.quizSubmissions
+    .where('quizId').equals(quizId)
+    .and(submission => submission.studentId === studentId && !submission.isCompleted)
+    .first();
+
+// Completed attempts, oldest first
+export const getCompletedAttempts = async (quizId: number, studentId: number): Promise<QuizSubmission[]> => {
+  const submissions = await db.quizSubmissions
+    .where('quizId').equals(quizId)
+    .and(submission => submission.studentId === studentId && submission.isCompleted)
+    .toArray();
+  return submissions.sort((a, b) => (a.submittedAt || '').localeCompare(b.submittedAt || ''));
+};
+
+// Start a new attempt, or resume the one already running
+export const startQuizAttempt = async (quizId: number, studentId: number): Promise<QuizSubmission> => {
+  const quiz = await db.quizzes.get(quizId);
+  if (!quiz || !quiz.isActive) {
+    throw new Error('This quiz is not available');
+  }
+
+  const enrollment = await db.courseEnrollments
+    .where('studentId').equals(studentId)
+    .and(e => e.courseId === quiz.courseId)
+    .first();
+
+  if (!enrollment) {
+    throw new Error('You are not enrolled in the course for this quiz');
+  }
+
+  const existing = await getInProgressSubmission(quizId, studentId);
+  if (existing) {
+    if (Date.now() <= getAttemptDeadline(existing, quiz)) return existing;
+    return submitQuizAttempt(existing.id!);
+  }
+
+  const completed = await getCompletedAttempts(quizId, studentId);
+  if (!hasAttemptsRemaining(quiz, completed.length)) {
+    throw new Error(completed.length === 1
+      ? 'You have already submitted this quiz'
+      : `You have used all ${completed.length} attempts for this quiz`);
+  }
+
+  const quizWindow = await getQuizWindow(quiz);
+  if (quizWindow.opensAt && Date.now() < quizWindow.opensAt.getTime()) {
+    throw new Error(`This quiz opens on ${quizWindow.opensAt.toLocaleString()}`);
+  }
+  if (!isWithinQuizWindow(quizWindow)) {
+    throw new Error('This quiz has closed');
+  }
+
+  const questions = await getQuizQuestions(quiz);
+  const now = new Date().toISOString();
+  const submission: QuizSubmission = {
+    quizId,
+    studentId,
+    answers: [],
+    questionOrder: quiz.isRandomized ? shuffle(questions.map(q => q.id!)) : questions.map(q => q.id!),
+    optionOrder: Object.fromEntries(
+      questions
+        .filter(question => question.type === 'multiple_choice')
+        .map(question => [
+          question.id!,
+          quiz.isRandomized ? shuffle(getQuestionOptions(question)) : getQuestionOptions(question)
+        ])
+    ),
+    attemptNumber: completed.length + 1,
+    integrityEvents: [],
+    startedAt: now,
+    maxScore: questions.reduce((sum, question) => sum + question.points, 0),
+    isCompleted: false,
+    createdAt: now,
+    updatedAt: now
+  };
+
+  submission.id = await db.quizSubmissions.add(submission);
+  return submission;
+};
+
+// Persist answers while the attempt is running; late saves are ignored
+export const saveQuizAnswers = async (submissionId: number, answers: { [questionId: number]: string }): Promise<void> => {
+  await db.transaction('rw', [db.quizSubmissions, db.quizzes], async () => {
+    const submission = await db.quizSubmissions.get(submissionId);
+    if (!submission || submission.isCompleted) return;
+
+    const quiz = await db.quizzes.get(submission.quizId);
+    if (!quiz || Date.now() > getAttemptDeadline(submission, quiz) + SUBMIT_GRACE_MS) return;
+
+    const merged = new Map(submission.answers.map(a => [a.questionId, a.answer]));
+    Object.entries(answers).forEach(([questionId, answer]) => merged.set(Number(questionId), answer));
+
+    await db.quizSubmissions.update(submissionId, {
+      answers: Array.from(merged, ([questionId, answer]) => ({ questionId, answer })),
+      updatedAt: new Date().toISOString()
+    });
+  });
+};
+
+// Grade and close the attempt. Pass the latest answers to save them first.
+export const submitQuizAttempt = async (
+  submissionId: number,
+  finalAnswers?: { [questionId: number]: string }
+): Promise<QuizSubmission> => {
+  if (finalAnswers) {
+    await saveQuizAnswers(submissionId, finalAnswers);
+  }
+
+  return db.transaction('rw', [db.quizSubmissions, db.quizzes, db.questions], async () => {
+    const submission = await db.quizSubmissions.get(submissionId);
+    if (!submission) {
+      throw new Error('Quiz attempt not found');
+    }
+    if (submission.isCompleted) return submission;
+
+    const quiz = await db.quizzes.get(submission.quizId);
+    if (!quiz) {
+      throw new Error('This quiz no longer exists');
+    }
+
+    const questions = await getQuizQuestions(quiz);
+    const answers = questions.map(question => {
+      const saved = submission.answers.find(a => a.questionId === question.id);
+      const graded = gradeAnswer(question, saved?.answer || '');
+      // An empty short answer has nothing to grade
+      return !isAutoGraded(question) && !graded.answer.trim() ? { ...graded, isCorrect: false, points: 0 } : graded;
+    });
+
+    const now = new Date().toISOString();
+    const completed: QuizSubmission = {
+      ...submission,
+      answers,
+      submittedAt: now,
+      totalScore: answers.reduce((sum, answer) => sum + (answer.points || 0), 0),
+      maxScore: questions.reduce((sum, question) => sum + question.points, 0),
+      isCompleted: true,
+      updatedAt: now
+    };
+
+    await db.quizSubmissions.put(completed);
+    return completed;
+  });
+};
@@ -0,0 +1,108 @@
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { db, QuizSubmission } from '@/lib/database';
+import { getPendingAnswers, gradeAnswerManually, isAwaitingGrading } from '@/lib/quizGrading';
+
+let quizId: number;
+let choiceId: number;
+let writtenId: number;
+
+const addSubmission = (overrides: Partial<QuizSubmission> = {}) =>
+  db.quizSubmissions.add({
+    quizId,
+    studentId: 10,
+    answers: [
+      { questionId: choiceId, answer: 'A', isCorrect: true, points: 1 },
+      { questionId: writtenId, answer: 'Because' }
+    ],
+    startedAt: '2026-10-19T09:00:00Z',
+    submittedAt: '2026-10-19T09:10:00Z',
+    totalScore: 1,
+    maxScore: 4,
+    isCompleted: true,
+    createdAt: '',
+    updatedAt: '',
+    ...overrides
+  });
+
+beforeEach(async () => {
+  await Promise.all(db.tables.map(table => table.clear()));
+  [choiceId, writtenId] = await db.questions.bulkAdd([
+    { bankId: 1, type: 'multiple_choice', question: 'Pick A', options: ['A', 'B'], correctAnswer: 'A', points: 1, createdAt: '', updatedAt: '' },
+    { bankId: 1, type: 'short_answer', question: 'Explain', correctAnswer: 'Because', points: 3, createdAt: '', updatedAt: '' }
+  ], { allKeys: true }) as number[];
+  quizId = await db.quizzes.add({
+    courseId: 1,
+    instructorId: 1,
+    title: 'Quiz',
+    timeLimit: 10,
+    isRandomized: false,
+    isActive: true,
+    questions: [choiceId, writtenId],
+    createdAt: '',
+    updatedAt: ''
+  });
+});
+
+describe('getPendingAnswers', () => {
+  it('lists ungraded answers of completed attempts on the instructor\'s quizzes', async () => {
+    const submissionId = await addSubmission();
+    await addSubmission({ isCompleted: false, submittedAt: undefined });
+
+    const pending = await getPendingAnswers(1);
+
+    expect(pending).toHaveLength(1);
+    expect(pending[0]).toMatchObject({ answer: 'Because', submission: { id: submissionId }, question: { id: writtenId } });
+    expect(await getPendingAnswers(2)).toEqual([]);
+  });
+});
+
+describe('gradeAnswerManually', () => {
+  it('records the grade, recomputes the total and notifies the student once fully graded', async () => {
+    const submissionId = await addSubmission();
+
+    const { submission, isFullyGraded } = await gradeAnswerManually({
+      submissionId,
+      questionId: writtenId,
+      points: 2,
+      feedback: ' Close ',
+      gradedBy: 1
+    });
+
+    expect(isFullyGraded).toBe(true);
+    expect(isAwaitingGrading(submission)).toBe(false);
+    expect(submission.totalScore).toBe(3);
+    expect(submission.answers[1]).toMatchObject({ points: 2, isCorrect: false, feedback: 'Close', gradedBy: 1 });
+
+    const [message] = await db.messages.where('receiverId').equals(10).toArray();
+    expect(message).toMatchObject({ subject: 'Quiz Graded' });
+    expect(message.content).toContain('Final score: 3 / 4');
+  });
+
+  it('does not notify again when a grade is changed', async () => {
+    const submissionId = await addSubmission();
+    await gradeAnswerManually({ submissionId, questionId: writtenId, points: 2, gradedBy: 1 });
+    await gradeAnswerManually({ submissionId, questionId: writtenId, points: 3, gradedBy: 1 });
+
+    expect(await db.messages.count()).toBe(1);
+    expect((await db.quizSubmissions.get(submissionId))!.totalScore).toBe(4);
+  });
+
+  it('leaves the score out of the message when scores are hidden', async () => {
+    await db.quizzes.update(quizId, { showScore: false });
+    const submissionId = await addSubmission();
+
+    await gradeAnswerManually({ submissionId, questionId: writtenId, points: 2, gradedBy: 1 });
+
+    expect((await db.messages.toArray())[0].content).not.toContain('Final score');
+  });
+
+  it('keeps points within the question\'s value', async () => {
+    const submissionId = await addSubmission();
+
+    await expect(gradeAnswerManually({ submissionId, questionId: writtenId, points: 4, gradedBy: 1 }))
+      .rejects.toThrow('Points must be between 0 and 3');
+    await expect(gradeAnswerManually({ submissionId, questionId: writtenId, points: -1, gradedBy: 1 }))
+      .rejects.toThrow('Points must be between 0 and 3');
+  });
+});
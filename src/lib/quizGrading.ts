@@ -0,0 +1,112 @@
+import { db, Question, Quiz, QuizSubmission, User } from '@/lib/database';
+import { isScoreVisible } from '@/lib/quizAttempt';
+
+// Manual grading of short-answer responses. Auto-graded answers already carry
+// points; an answer without points is waiting for the instructor.
+
+export interface PendingAnswer {
+  submission: QuizSubmission;
+  quiz: Quiz;
+  question: Question;
+  student?: User;
+  answer: string;
+}
+
+export const isAwaitingGrading = (submission: QuizSubmission): boolean =>
+  submission.isCompleted && submission.answers.some(answer => answer.points === undefined);
+
+// Ungraded answers across all of an instructor's quizzes, oldest submission first
+export const getPendingAnswers = async (instructorId: number): Promise<PendingAnswer[]> => {
+  const quizzes = await db.quizzes.where('instructorId').equals(instructorId).toArray();
+  const submissions = await db.quizSubmissions
+    .where('quizId').anyOf(quizzes.map(q => q.id!))
+    .and(isAwaitingGrading)
+    .toArray();
+
+  submissions.sort((a, b) => (a.submittedAt || '').localeCompare(b.submittedAt || ''));
+
+  const pending: PendingAnswer[] = [];
+  for (const submission of submissions) {
+    const quiz = quizzes.find(q => q.id === submission.quizId)!;
+    const student = await db.users.get(submission.studentId);
+
+    for (const answer of submission.answers) {
+      if (answer.points !== undefined) continue;
+      const question = await db.questions.get(answer.questionId);
+      if (!question) continue;
+      pending.push({ submission, quiz, question, student, answer: answer.answer });
+    }
+  }
+  return pending;
+};
+
+export interface GradeRequest {
+  submissionId: number;
+  questionId: number;
+  points: number;
+  feedback?: string;
+  gradedBy: number;
+}
+
+// Record a grade and recompute the total. Returns the updated submission and
+// whether this was the last answer waiting for a grade.
+export const gradeAnswerManually = async (
+  request: GradeRequest
+): Promise<{ submission: QuizSubmission; isFullyGraded: boolean }> => {
+  return db.transaction('rw', [db.quizSubmissions, db.questions, db.quizzes, db.messages], async () => {
+    const submission = await db.quizSubmissions.get(request.submissionId);
+    if (!submission || !submission.isCompleted) {
+      throw new Error('Submission not found');
+    }
+
+    const question = await db.questions.get(request.questionId);
+    if (!question) {
+      throw new Error('Question not found');
+    }
+
+    if (!Number.isFinite(request.points) || request.points < 0 || request.points > question.points) {
+      throw new Error(`Points must be between 0 and ${question.points}`);
+    }
+
+    const wasAwaiting = isAwaitingGrading(submission);
+    const now = new Date().toISOString();
+    const answers = submission.answers.map(answer =>
+      answer.questionId === request.questionId
+        ? {
+            ...answer,
+            points: request.points,
+            isCorrect: request.points >= question.points,
+            feedback: request.feedback?.trim() || undefined,
+            gradedBy: request.gradedBy,
+            gradedAt: now
+          }
+        : answer
+    );
+
+    const updated: QuizSubmission = {
+      ...submission,
+      answers,
+      totalScore: answers.reduce((sum, answer) => sum + (answer.points || 0), 0),
+      updatedAt: now
+    };
+    await db.quizSubmissions.put(updated);
+
+    const isFullyGraded = !isAwaitingGrading(updated);
+    if (wasAwaiting && isFullyGraded) {
+      const quiz = await db.quizzes.get(submission.quizId);
+      await db.messages.add({
+        senderId: request.gradedBy,
+        receiverId: submission.studentId,
+        type: 'general',
+        subject: 'Quiz Graded',
+        content: `Your submission for ${quiz?.title || 'a quiz'} has been fully graded.` +
+          (quiz && isScoreVisible(quiz) ? `\n\nFinal score: ${updated.totalScore} / ${updated.maxScore}` : ''),
+        status: 'pending',
+        createdAt: now,
+        updatedAt: now
+      });
+    }
+
+    return { submission: updated, isFullyGraded };
+  });
+};
@@ -0,0 +1,77 @@
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { db, QuizSubmission } from '@/lib/database';
+import { getFlaggedAttempts, logIntegrityEvent, summarizeIntegrityEvents } from '@/lib/quizIntegrity';
+
+const submission = (overrides: Partial<QuizSubmission> = {}): QuizSubmission => ({
+  quizId: 1,
+  studentId: 10,
+  answers: [],
+  startedAt: '2026-10-19T09:00:00Z',
+  maxScore: 1,
+  isCompleted: false,
+  createdAt: '',
+  updatedAt: '',
+  ...overrides
+});
+
+beforeEach(async () => {
+  await Promise.all(db.tables.map(table => table.clear()));
+});
+
+describe('summarizeIntegrityEvents', () => {
+  it('adds up time away, counting a tab left open until submission', () => {
+    const summary = summarizeIntegrityEvents(submission({
+      submittedAt: '2026-10-19T09:05:00Z',
+      integrityEvents: [
+        { type: 'focus_lost', at: '2026-10-19T09:01:00Z' },
+        { type: 'focus_returned', at: '2026-10-19T09:01:30Z' },
+        { type: 'paste', at: '2026-10-19T09:02:00Z' },
+        { type: 'focus_lost', at: '2026-10-19T09:04:00Z' }
+      ]
+    }));
+
+    expect(summary).toEqual({ focusLosses: 2, pastes: 1, secondsAway: 90 });
+  });
+});
+
+describe('logIntegrityEvent', () => {
+  it('appends to running attempts only', async () => {
+    const running = await db.quizSubmissions.add(submission());
+    const submitted = await db.quizSubmissions.add(submission({ isCompleted: true }));
+
+    await logIntegrityEvent(running, { type: 'paste' });
+    await logIntegrityEvent(submitted, { type: 'paste' });
+
+    expect((await db.quizSubmissions.get(running))!.integrityEvents).toMatchObject([{ type: 'paste' }]);
+    expect((await db.quizSubmissions.get(submitted))!.integrityEvents).toBeUndefined();
+  });
+});
+
+describe('getFlaggedAttempts', () => {
+  it('lists completed attempts with events on the instructor\'s quizzes', async () => {
+    const quizId = await db.quizzes.add({
+      courseId: 1,
+      instructorId: 1,
+      title: 'Quiz',
+      timeLimit: 10,
+      isRandomized: false,
+      isActive: true,
+      questions: [],
+      createdAt: '',
+      updatedAt: ''
+    });
+    const flaggedId = await db.quizSubmissions.add(submission({
+      quizId,
+      isCompleted: true,
+      integrityEvents: [{ type: 'paste', at: '2026-10-19T09:02:00Z' }]
+    }));
+    await db.quizSubmissions.add(submission({ quizId, isCompleted: true, integrityEvents: [] }));
+
+    const flagged = await getFlaggedAttempts(1);
+
+    expect(flagged.map(attempt => attempt.submission.id)).toEqual([flaggedId]);
+    expect(flagged[0].summary.pastes).toBe(1);
+    expect(await getFlaggedAttempts(2)).toEqual([]);
+  });
+});
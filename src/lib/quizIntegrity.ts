@@ -0,0 +1,84 @@
+import { db, Quiz, QuizIntegrityEvent, QuizSubmission, User } from '@/lib/database';
+
+// Integrity log for quiz attempts. The quiz player records when the student leaves
+// the tab and when they paste into an answer; instructors review flagged attempts.
+
+export interface IntegritySummary {
+  focusLosses: number;
+  pastes: number;
+  secondsAway: number;
+}
+
+export interface FlaggedAttempt {
+  submission: QuizSubmission;
+  quiz: Quiz;
+  student?: User;
+  summary: IntegritySummary;
+}
+
+// Record a focus change or paste against a running attempt
+export const logIntegrityEvent = async (
+  submissionId: number,
+  event: Omit<QuizIntegrityEvent, 'at'>
+): Promise<void> => {
+  await db.transaction('rw', [db.quizSubmissions], async () => {
+    const submission = await db.quizSubmissions.get(submissionId);
+    if (!submission || submission.isCompleted) return;
+
+    const now = new Date().toISOString();
+    await db.quizSubmissions.update(submissionId, {
+      integrityEvents: [...(submission.integrityEvents || []), { ...event, at: now }],
+      updatedAt: now
+    });
+  });
+};
+
+export const summarizeIntegrityEvents = (submission: QuizSubmission): IntegritySummary => {
+  const events = submission.integrityEvents || [];
+  let secondsAway = 0;
+  let leftAt: number | null = null;
+
+  for (const event of events) {
+    if (event.type === 'focus_lost') {
+      leftAt = new Date(event.at).getTime();
+    } else if (event.type === 'focus_returned' && leftAt !== null) {
+      secondsAway += (new Date(event.at).getTime() - leftAt) / 1000;
+      leftAt = null;
+    }
+  }
+  // Still away when the attempt was submitted
+  if (leftAt !== null && submission.submittedAt) {
+    secondsAway += Math.max(0, (new Date(submission.submittedAt).getTime() - leftAt) / 1000);
+  }
+
+  return {
+    focusLosses: events.filter(event => event.type === 'focus_lost').length,
+    pastes: events.filter(event => event.type === 'paste').length,
+    secondsAway: Math.round(secondsAway)
+  };
+};
+
+export const isFlaggedAttempt = (submission: QuizSubmission): boolean =>
+  (submission.integrityEvents || []).some(event => event.type !== 'focus_returned');
+
+// Completed attempts with integrity events across an instructor's quizzes, newest first
+export const getFlaggedAttempts = async (instructorId: number): Promise<FlaggedAttempt[]> => {
+  const quizzes = await db.quizzes.where('instructorId').equals(instructorId).toArray();
+  const submissions = await db.quizSubmissions
+    .where('quizId').anyOf(quizzes.map(q => q.id!))
+    .and(submission => submission.isCompleted && isFlaggedAttempt(submission))
+    .toArray();
+
+  submissions.sort((a, b) => (b.submittedAt || '').localeCompare(a.submittedAt || ''));
+
+  const flagged: FlaggedAttempt[] = [];
+  for (const submission of submissions) {
+    flagged.push({
+      submission,
+      quiz: quizzes.find(q => q.id === submission.quizId)!,
+      student: await db.users.get(submission.studentId),
+      summary: summarizeIntegrityEvents(submission)
+    });
+  }
+  return flagged;
+};
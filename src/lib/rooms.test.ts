@@ -0,0 +1,109 @@
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { ClassSession, db } from '@/lib/database';
+import {
+  assertNoBookingConflicts,
+  Booking,
+  deleteRoom,
+  findBookingConflicts,
+  getRoomZone,
+  RoomDetails,
+  saveRoom,
+  validateRoom
+} from '@/lib/rooms';
+
+const room = (overrides: Partial<RoomDetails> = {}): RoomDetails => ({
+  name: 'Lab 1',
+  building: 'Science',
+  isActive: true,
+  ...overrides
+});
+
+const addSession = (overrides: Partial<ClassSession> = {}) =>
+  db.classSessions.add({
+    courseId: 1,
+    instructorId: 1,
+    title: 'Lecture',
+    date: '2026-10-19',
+    startTime: '09:00',
+    endTime: '10:00',
+    checkInMethod: 'qr',
+    isActive: false,
+    createdAt: '',
+    updatedAt: '',
+    ...overrides
+  });
+
+const booking = (overrides: Partial<Booking> = {}): Booking => ({
+  date: '2026-10-19',
+  startTime: '09:30',
+  endTime: '10:30',
+  instructorId: 2,
+  ...overrides
+});
+
+beforeEach(async () => {
+  await Promise.all(db.tables.map(table => table.clear()));
+});
+
+describe('rooms', () => {
+  it('validates capacity, coordinates and network ranges', () => {
+    expect(validateRoom(room({ name: ' ' }))).toBe('Room name is required');
+    expect(validateRoom(room({ capacity: 2.5 }))).toBe('Capacity must be a whole number of seats');
+    expect(validateRoom(room({ latitude: 91, longitude: 0 }))).toMatch(/^Latitude must be between/);
+    expect(validateRoom(room({ ipRanges: ['10.0.0.0/33'] }))).toBe('"10.0.0.0/33" is not a valid IPv4/IPv6 address or CIDR block');
+    expect(validateRoom(room({ capacity: 30, latitude: 51.5, longitude: -0.1, radius: 50, ipRanges: ['10.0.0.0/8'] }))).toBeNull();
+  });
+
+  it('rejects a second room with the same name in the same building', async () => {
+    await saveRoom(room());
+    await saveRoom(room({ building: 'Arts' }));
+
+    await expect(saveRoom(room({ name: 'lab 1 ', building: 'science' }))).rejects.toThrow('Lab 1, Science already exists');
+  });
+
+  it('keeps rooms that sessions use', async () => {
+    const roomId = await saveRoom(room());
+    await addSession({ roomId });
+
+    await expect(deleteRoom(roomId)).rejects.toThrow('This room is used by 1 session; deactivate it instead');
+  });
+
+  it('gives sessions the room\'s check-in zone', () => {
+    expect(getRoomZone({ ...room({ latitude: 1, longitude: 2, radius: 30, ipRanges: [] }), id: 1, createdAt: '', updatedAt: '' }))
+      .toEqual({ latitude: 1, longitude: 2, radius: 30 });
+  });
+});
+
+describe('findBookingConflicts', () => {
+  it('finds overlapping sessions in the same room or with the same instructor', async () => {
+    const inRoom = await addSession({ roomId: 5, instructorId: 3 });
+    const teaching = await addSession({ instructorId: 2, startTime: '10:00', endTime: '11:00' });
+    await addSession({ roomId: 5, startTime: '10:30', endTime: '11:30' });
+
+    const conflicts = await findBookingConflicts([booking({ roomId: 5 })]);
+
+    expect(conflicts.map(conflict => [conflict.session.id, conflict.reason])).toEqual([
+      [inRoom, 'room'],
+      [teaching, 'instructor']
+    ]);
+  });
+
+  it('skips cancelled sessions and the sessions being edited', async () => {
+    const edited = await addSession({ roomId: 5 });
+    await addSession({ roomId: 5, cancelledAt: '2026-10-18T00:00:00Z' });
+
+    expect(await findBookingConflicts([booking({ roomId: 5 })], [edited])).toEqual([]);
+  });
+
+  it('describes the first conflict and counts the rest', async () => {
+    const roomId = await saveRoom(room());
+    await db.courses.add({ name: 'Analysis', code: 'MATH101', instructorId: 1, createdAt: '', updatedAt: '' }).then(courseId =>
+      addSession({ courseId, roomId })
+    );
+    await addSession({ roomId, date: '2026-10-26' });
+
+    await expect(assertNoBookingConflicts([booking({ roomId }), booking({ roomId, date: '2026-10-26' })]))
+      .rejects.toThrow('Lab 1, Science is already booked for MATH101 - Lecture on 2026-10-19 09:00 - 10:00 (and 1 more conflict)');
+  });
+});
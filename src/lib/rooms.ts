@@ -0,0 +1,133 @@
+import { db, ClassSession, Room } from '@/lib/database';
+import { isValidCoordinates } from '@/lib/geofence';
+import { isValidIpRange } from '@/lib/ipRange';
+
+// Teaching rooms and booking conflicts. A room can only hold one session at a time
+// and an instructor can only teach one session at a time.
+
+export type RoomDetails = Omit<Room, 'id' | 'createdAt' | 'updatedAt'>;
+
+// The times a session would occupy, before or after it is saved
+export type Booking = Pick<ClassSession, 'date' | 'startTime' | 'endTime' | 'instructorId' | 'roomId'>;
+
+export interface BookingConflict {
+  booking: Booking;
+  session: ClassSession;
+  reason: 'room' | 'instructor';
+}
+
+export const formatRoom = (room: Pick<Room, 'name' | 'building'>) => room.building ? `${room.name}, ${room.building}` : room.name;
+
+// Returns a message describing the first problem, or null when the room can be saved
+export const validateRoom = (room: RoomDetails): string | null => {
+  if (!room.name.trim()) return 'Room name is required';
+  if (room.capacity !== undefined && (!Number.isInteger(room.capacity) || room.capacity <= 0)) {
+    return 'Capacity must be a whole number of seats';
+  }
+
+  const hasCoordinates = room.latitude !== undefined || room.longitude !== undefined;
+  if (hasCoordinates && !isValidCoordinates(room.latitude!, room.longitude!)) {
+    return 'Latitude must be between -90 and 90 and longitude between -180 and 180';
+  }
+  if (room.radius !== undefined && (!Number.isFinite(room.radius) || room.radius <= 0)) {
+    return 'Attendance radius must be a positive number of meters';
+  }
+
+  const invalidRange = room.ipRanges?.find(range => !isValidIpRange(range));
+  if (invalidRange) return `"${invalidRange}" is not a valid IPv4/IPv6 address or CIDR block`;
+  return null;
+};
+
+export const getRooms = async (includeInactive = false): Promise<Room[]> => {
+  const rooms = await db.rooms.toArray();
+  return rooms
+    .filter(room => includeInactive || room.isActive)
+    .sort((a, b) => formatRoom(a).localeCompare(formatRoom(b)));
+};
+
+export const saveRoom = async (room: RoomDetails, roomId?: number): Promise<number> => {
+  const problem = validateRoom(room);
+  if (problem) {
+    throw new Error(problem);
+  }
+
+  const duplicate = (await db.rooms.where('name').equalsIgnoreCase(room.name.trim()).toArray())
+    .find(other => other.id !== roomId && other.building.trim().toLowerCase() === room.building.trim().toLowerCase());
+  if (duplicate) {
+    throw new Error(`${formatRoom(duplicate)} already exists`);
+  }
+
+  const now = new Date().toISOString();
+  const values = { ...room, name: room.name.trim(), building: room.building.trim() };
+  if (roomId) {
+    await db.rooms.update(roomId, { ...values, updatedAt: now });
+    return roomId;
+  }
+  return db.rooms.add({ ...values, createdAt: now, updatedAt: now });
+};
+
+// Rooms that sessions already point at are retired instead of deleted
+export const deleteRoom = async (roomId: number): Promise<void> => {
+  const booked = await db.classSessions.where('roomId').equals(roomId).count();
+  if (booked > 0) {
+    throw new Error(`This room is used by ${booked} session${booked === 1 ? '' : 's'}; deactivate it instead`);
+  }
+  await db.rooms.delete(roomId);
+};
+
+// The attendance zone a session in this room starts with
+export const getRoomZone = (room: Room): NonNullable<ClassSession['attendanceZone']> => ({
+  ...(room.latitude !== undefined && room.longitude !== undefined ? { latitude: room.latitude, longitude: room.longitude } : {}),
+  ...(room.radius !== undefined ? { radius: room.radius } : {}),
+  ...(room.ipRanges && room.ipRanges.length > 0 ? { ipRange: room.ipRanges } : {})
+});
+
+const bookingsOverlap = (a: Booking, b: Booking) =>
+  a.date === b.date && a.startTime < b.endTime && b.startTime < a.endTime;
+
+// Existing, not cancelled sessions that share a room or an instructor with any of the bookings.
+// ignoreSessionIds holds the sessions being edited so they do not clash with themselves.
+export const findBookingConflicts = async (
+  bookings: Booking[],
+  ignoreSessionIds: number[] = []
+): Promise<BookingConflict[]> => {
+  const dates = Array.from(new Set(bookings.map(booking => booking.date)));
+  if (dates.length === 0) return [];
+
+  const existing = (await db.classSessions.where('date').anyOf(dates).toArray())
+    .filter(session => !session.cancelledAt && !ignoreSessionIds.includes(session.id!));
+
+  const conflicts: BookingConflict[] = [];
+  for (const booking of bookings) {
+    for (const session of existing) {
+      if (!bookingsOverlap(booking, session)) continue;
+      if (booking.roomId && session.roomId === booking.roomId) {
+        conflicts.push({ booking, session, reason: 'room' });
+      } else if (session.instructorId === booking.instructorId) {
+        conflicts.push({ booking, session, reason: 'instructor' });
+      }
+    }
+  }
+  return conflicts;
+};
+
+export const describeConflict = async (conflict: BookingConflict): Promise<string> => {
+  const { session } = conflict;
+  const course = await db.courses.get(session.courseId);
+  const booked = `${course ? `${course.code} - ` : ''}${session.title} on ${session.date} ${session.startTime} - ${session.endTime}`;
+
+  if (conflict.reason === 'room') {
+    const room = await db.rooms.get(session.roomId!);
+    return `${room ? formatRoom(room) : 'The room'} is already booked for ${booked}`;
+  }
+  return `The instructor is already teaching ${booked}`;
+};
+
+// Throws with the first conflict (and how many more there are) when any booking clashes
+export const assertNoBookingConflicts = async (bookings: Booking[], ignoreSessionIds: number[] = []): Promise<void> => {
+  const conflicts = await findBookingConflicts(bookings, ignoreSessionIds);
+  if (conflicts.length === 0) return;
+
+  const message = await describeConflict(conflicts[0]);
+  throw new Error(conflicts.length > 1 ? `${message} (and ${conflicts.length - 1} more conflict${conflicts.length === 2 ? '' : 's'})` : message);
+};
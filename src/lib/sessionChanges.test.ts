@@ -0,0 +1,70 @@
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { ClassSession, db } from '@/lib/database';
+import { excludeCancelledRecords, notifySessionsCancelled, notifySessionsRescheduled } from '@/lib/sessionChanges';
+
+const session = (overrides: Partial<ClassSession> = {}): ClassSession => ({
+  courseId: 1,
+  instructorId: 1,
+  title: 'Lecture',
+  date: '2026-10-19',
+  startTime: '09:00',
+  endTime: '10:00',
+  location: 'Lab 1',
+  checkInMethod: 'qr',
+  isActive: false,
+  createdAt: '',
+  updatedAt: '',
+  ...overrides
+});
+
+beforeEach(async () => {
+  await Promise.all(db.tables.map(table => table.clear()));
+  await db.courses.add({ id: 1, name: 'Analysis', code: 'MATH101', instructorId: 1, createdAt: '', updatedAt: '' });
+  await db.courseEnrollments.bulkAdd([10, 11].map(studentId => ({
+    studentId,
+    courseId: 1,
+    enrolledAt: '',
+    attendanceRate: 0,
+    createdAt: '',
+    updatedAt: ''
+  })));
+});
+
+describe('excludeCancelledRecords', () => {
+  it('drops records of cancelled sessions', async () => {
+    const held = await db.classSessions.add(session());
+    const cancelled = await db.classSessions.add(session({ cancelledAt: '2026-10-18T00:00:00Z' }));
+
+    const records = await excludeCancelledRecords([{ sessionId: held }, { sessionId: cancelled }, { sessionId: held }]);
+
+    expect(records).toEqual([{ sessionId: held }, { sessionId: held }]);
+  });
+});
+
+describe('notifications', () => {
+  it('sends every enrolled student the old and new details', async () => {
+    await notifySessionsRescheduled([session()], [session({ startTime: '11:00', endTime: '12:00', location: 'Lab 2' })], 1);
+
+    const messages = await db.messages.toArray();
+    expect(messages.map(message => message.receiverId).sort()).toEqual([10, 11]);
+    expect(messages[0].subject).toBe('Class Rescheduled');
+    expect(messages[0].content).toContain('A class for Analysis has been rescheduled.');
+    expect(messages[0].content).toMatch(/Was:[\s\S]*Time: 09:00 - 10:00[\s\S]*Now:[\s\S]*Time: 11:00 - 12:00\nLocation: Lab 2/);
+  });
+
+  it('gives the reason for cancelled classes', async () => {
+    await notifySessionsCancelled([session(), session({ date: '2026-10-26' })], ' Instructor ill ', 1);
+
+    const [message] = await db.messages.where('receiverId').equals(10).toArray();
+    expect(message.subject).toBe('Classes Cancelled');
+    expect(message.content).toContain('The following Analysis classes have been cancelled.\n\nReason: Instructor ill');
+  });
+
+  it('sends nothing when no session changed', async () => {
+    await notifySessionsCancelled([], 'Reason', 1);
+    await notifySessionsRescheduled([], [], 1);
+
+    expect(await db.messages.count()).toBe(0);
+  });
+});
@@ -0,0 +1,62 @@
+import { db, AttendanceRecord, ClassSession } from '@/lib/database';
+import { notifyEnrolledStudents } from '@/lib/enrollment';
+
+// Telling students about rescheduled and cancelled sessions, and keeping cancelled
+// sessions out of attendance figures.
+
+// Check-ins made before a session was cancelled are kept but do not count toward any rate
+export const excludeCancelledRecords = async <T extends Pick<AttendanceRecord, 'sessionId'>>(records: T[]): Promise<T[]> => {
+  const sessionIds = Array.from(new Set(records.map(record => record.sessionId)));
+  const sessions = await db.classSessions.bulkGet(sessionIds);
+  const cancelled = new Set(sessions.filter(session => session?.cancelledAt).map(session => session!.id!));
+  return records.filter(record => !cancelled.has(record.sessionId));
+};
+
+export const describeSessionDetails = (session: Pick<ClassSession, 'title' | 'date' | 'startTime' | 'endTime' | 'location'>) =>
+  [
+    `Session: ${session.title}`,
+    `Date: ${new Date(`${session.date}T00:00`).toLocaleDateString(undefined, { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}`,
+    `Time: ${session.startTime} - ${session.endTime}`,
+    `Location: ${session.location || 'Not set'}`
+  ].join('\n');
+
+const getCourseName = async (courseId: number) => (await db.courses.get(courseId))?.name || 'your course';
+
+// One message per change, listing the old and new details of every affected session
+export const notifySessionsRescheduled = async (
+  previous: ClassSession[],
+  updated: ClassSession[],
+  senderId: number
+): Promise<void> => {
+  if (previous.length === 0) return;
+
+  const courseName = await getCourseName(previous[0].courseId);
+  const changes = previous.map((before, index) =>
+    `Was:\n${describeSessionDetails(before)}\n\nNow:\n${describeSessionDetails(updated[index])}`
+  );
+
+  await notifyEnrolledStudents(
+    previous[0].courseId,
+    senderId,
+    previous.length === 1 ? 'Class Rescheduled' : 'Classes Rescheduled',
+    `${previous.length === 1 ? 'A class' : `${previous.length} classes`} for ${courseName} ${previous.length === 1 ? 'has' : 'have'} been rescheduled.\n\n` +
+      changes.join('\n\n---\n\n')
+  );
+};
+
+export const notifySessionsCancelled = async (
+  cancelled: ClassSession[],
+  reason: string,
+  senderId: number
+): Promise<void> => {
+  if (cancelled.length === 0) return;
+
+  const courseName = await getCourseName(cancelled[0].courseId);
+  await notifyEnrolledStudents(
+    cancelled[0].courseId,
+    senderId,
+    cancelled.length === 1 ? 'Class Cancelled' : 'Classes Cancelled',
+    `The following ${courseName} class${cancelled.length === 1 ? ' has' : 'es have'} been cancelled.\n\nReason: ${reason.trim()}\n\n` +
+      cancelled.map(describeSessionDetails).join('\n\n')
+  );
+};
@@ -0,0 +1,72 @@
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { db } from '@/lib/database';
+import { closeEndedSessions, closeSession } from '@/lib/sessionClose';
+
+const addSession = (overrides = {}) =>
+  db.classSessions.add({
+    courseId: 1,
+    instructorId: 1,
+    title: 'Lecture',
+    date: '2026-10-19',
+    startTime: '09:00',
+    endTime: '10:00',
+    checkInMethod: 'qr',
+    isActive: true,
+    createdAt: '',
+    updatedAt: '',
+    ...overrides
+  });
+
+const enroll = (studentId: number, courseId = 1) =>
+  db.courseEnrollments.add({ studentId, courseId, enrolledAt: '', attendanceRate: 0, createdAt: '', updatedAt: '' });
+
+const checkIn = (sessionId: number, studentId: number) =>
+  db.attendanceRecords.add({ sessionId, studentId, status: 'present', isManualOverride: false, createdAt: '', updatedAt: '' });
+
+beforeEach(async () => {
+  await Promise.all(db.tables.map(table => table.clear()));
+});
+
+describe('closeSession', () => {
+  it('marks enrolled students without a record absent and stops check-ins', async () => {
+    const sessionId = await addSession({ qrToken: 'token', qrExpiry: '2026-10-19T09:00:30Z' });
+    await Promise.all([enroll(10), enroll(11), enroll(12), enroll(13, 2)]);
+    await checkIn(sessionId, 10);
+
+    expect(await closeSession(sessionId)).toEqual({ sessionId, absentCount: 2 });
+
+    const records = await db.attendanceRecords.where('sessionId').equals(sessionId).toArray();
+    expect(records.map(record => [record.studentId, record.status]).sort()).toEqual([
+      [10, 'present'],
+      [11, 'absent'],
+      [12, 'absent']
+    ]);
+
+    const session = await db.classSessions.get(sessionId);
+    expect(session).toMatchObject({ isActive: false });
+    expect(session!.qrToken).toBeUndefined();
+    expect(session!.qrExpiry).toBeUndefined();
+  });
+
+  it('does nothing for a session that is already closed', async () => {
+    const sessionId = await addSession({ isActive: false });
+    await enroll(10);
+
+    expect(await closeSession(sessionId)).toBeNull();
+    expect(await db.attendanceRecords.count()).toBe(0);
+  });
+});
+
+describe('closeEndedSessions', () => {
+  it('closes only active sessions whose end time has passed', async () => {
+    const ended = await addSession();
+    const running = await addSession({ endTime: '11:00' });
+    await enroll(10);
+
+    const results = await closeEndedSessions(new Date('2026-10-19T10:30'));
+
+    expect(results).toEqual([{ sessionId: ended, absentCount: 1 }]);
+    expect((await db.classSessions.get(running))!.isActive).toBe(true);
+  });
+});
@@ -0,0 +1,60 @@
+import { db } from '@/lib/database';
+import { getSessionEnd } from '@/lib/attendancePolicy';
+
+// Closing a session stops check-ins and records every enrolled student
+// who never checked in as absent, so attendance rates cover the whole class.
+
+export interface SessionCloseResult {
+  sessionId: number;
+  absentCount: number;
+}
+
+// Returns null when the session was already closed (e.g. by another tab)
+export const closeSession = async (sessionId: number): Promise<SessionCloseResult | null> => {
+  return db.transaction('rw', [db.classSessions, db.courseEnrollments, db.attendanceRecords], async () => {
+    const session = await db.classSessions.get(sessionId);
+    if (!session || !session.isActive) return null;
+
+    const enrollments = await db.courseEnrollments.where('courseId').equals(session.courseId).toArray();
+    const records = await db.attendanceRecords.where('sessionId').equals(sessionId).toArray();
+    const recordedStudentIds = new Set(records.map(record => record.studentId));
+
+    const now = new Date().toISOString();
+    const absentees = enrollments.filter(enrollment => !recordedStudentIds.has(enrollment.studentId));
+
+    await db.attendanceRecords.bulkAdd(
+      absentees.map(enrollment => ({
+        sessionId,
+        studentId: enrollment.studentId,
+        status: 'absent' as const,
+        isManualOverride: false,
+        createdAt: now,
+        updatedAt: now
+      }))
+    );
+
+    await db.classSessions.update(sessionId, {
+      isActive: false,
+      qrToken: undefined,
+      qrExpiry: undefined,
+      previousQrToken: undefined,
+      updatedAt: now
+    });
+
+    return { sessionId, absentCount: absentees.length };
+  });
+};
+
+// Close every active session whose end time has passed
+export const closeEndedSessions = async (now: Date = new Date()): Promise<SessionCloseResult[]> => {
+  const endedSessions = await db.classSessions
+    .filter(session => session.isActive && getSessionEnd(session) <= now)
+    .toArray();
+
+  const results: SessionCloseResult[] = [];
+  for (const session of endedSessions) {
+    const result = await closeSession(session.id!);
+    if (result) results.push(result);
+  }
+  return results;
+};
@@ -0,0 +1,146 @@
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { db } from '@/lib/database';
+import {
+  cancelSeriesSessions,
+  createSessionSeries,
+  getOccurrenceDates,
+  getSeriesSessions,
+  MAX_SERIES_SESSIONS,
+  RecurrenceRule,
+  SessionDetails,
+  updateSeriesSessions,
+  validateRecurrence
+} from '@/lib/sessionSeries';
+
+// 2024-06-03 is a Monday
+const rule = (overrides: Partial<RecurrenceRule> = {}): RecurrenceRule => ({
+  weekdays: [1, 3],
+  startDate: '2024-06-03',
+  endDate: '2024-06-14',
+  skipDates: [],
+  ...overrides
+});
+
+describe('getOccurrenceDates', () => {
+  it('returns each chosen weekday between the first and last dates', () => {
+    expect(getOccurrenceDates(rule())).toEqual(['2024-06-03', '2024-06-05', '2024-06-10', '2024-06-12']);
+  });
+
+  it('leaves out skipped dates', () => {
+    expect(getOccurrenceDates(rule({ skipDates: ['2024-06-05'] }))).toEqual(['2024-06-03', '2024-06-10', '2024-06-12']);
+  });
+
+  it('crosses month and year boundaries', () => {
+    expect(getOccurrenceDates(rule({ weekdays: [2], startDate: '2024-12-30', endDate: '2025-01-08' }))).toEqual([
+      '2024-12-31',
+      '2025-01-07'
+    ]);
+  });
+});
+
+describe('validateRecurrence', () => {
+  it('accepts a usable rule', () => {
+    expect(validateRecurrence(rule())).toBeNull();
+  });
+
+  it('describes the first problem', () => {
+    expect(validateRecurrence(rule({ weekdays: [] }))).toBe('Choose at least one weekday');
+    expect(validateRecurrence(rule({ endDate: '2024-06-01' }))).toBe('The series must end after it starts');
+    expect(validateRecurrence(rule({ weekdays: [0], endDate: '2024-06-08' }))).toBe(
+      'No sessions fall on the chosen weekdays between these dates'
+    );
+  });
+
+  it('rejects series longer than the limit', () => {
+    expect(validateRecurrence(rule({ weekdays: [0, 1, 2, 3, 4, 5, 6], endDate: '2025-06-03' }))).toBe(
+      `A series can have at most ${MAX_SERIES_SESSIONS} sessions`
+    );
+  });
+});
+
+describe('series sessions', () => {
+  // Mondays and Wednesdays, far enough ahead that none has started
+  const futureRule = rule({ startDate: '2030-01-07', endDate: '2030-01-16' });
+
+  const details: SessionDetails = {
+    courseId: 1,
+    instructorId: 1,
+    title: 'Lecture',
+    startTime: '09:00',
+    endTime: '10:00',
+    checkInMethod: 'qr',
+    isActive: true
+  };
+
+  beforeEach(async () => {
+    await Promise.all(db.tables.map(table => table.clear()));
+  });
+
+  it('creates one session per occurrence', async () => {
+    const { series, sessions } = await createSessionSeries(futureRule, details);
+
+    expect(sessions.map(session => session.date)).toEqual(['2030-01-07', '2030-01-09', '2030-01-14', '2030-01-16']);
+    expect((await getSeriesSessions(series.id!)).map(session => session.seriesId)).toEqual(Array(4).fill(series.id));
+  });
+
+  it('changes an occurrence and every later one', async () => {
+    const { series, sessions } = await createSessionSeries(futureRule, details);
+
+    await updateSeriesSessions(sessions[1].id!, { startTime: '11:00', endTime: '12:00' }, 'future');
+
+    expect((await getSeriesSessions(series.id!)).map(session => session.startTime)).toEqual(['09:00', '11:00', '11:00', '11:00']);
+    expect(await db.sessionSeries.get(series.id!)).toMatchObject({ startTime: '11:00', endTime: '12:00' });
+    await expect(updateSeriesSessions(sessions[1].id!, { date: '2030-01-10' }, 'future'))
+      .rejects.toThrow('Move occurrences one at a time');
+  });
+
+  it('refuses to change sessions students checked in to', async () => {
+    const { sessions } = await createSessionSeries(futureRule, details);
+    await db.attendanceRecords.add({
+      sessionId: sessions[0].id!,
+      studentId: 10,
+      status: 'present',
+      isManualOverride: false,
+      createdAt: '',
+      updatedAt: ''
+    });
+
+    await expect(updateSeriesSessions(sessions[0].id!, { title: 'Moved' }, 'single'))
+      .rejects.toThrow('Students have already checked in to this session');
+  });
+
+  it('marks cancelled occurrences and takes them out of the rule', async () => {
+    const { series, sessions } = await createSessionSeries(futureRule, details);
+
+    await cancelSeriesSessions(sessions[1].id!, 'single', 'Public holiday');
+    expect((await db.sessionSeries.get(series.id!))!.skipDates).toEqual(['2030-01-09']);
+
+    await cancelSeriesSessions(sessions[2].id!, 'future', 'Course ends early');
+    expect((await db.sessionSeries.get(series.id!))!.endDate).toBe('2030-01-13');
+    expect((await getSeriesSessions(series.id!)).map(session => [session.date, session.cancellationReason])).toEqual([
+      ['2030-01-07', undefined],
+      ['2030-01-09', 'Public holiday'],
+      ['2030-01-14', 'Course ends early'],
+      ['2030-01-16', 'Course ends early']
+    ]);
+  });
+
+  it('skips the series date of a moved occurrence when it is cancelled', async () => {
+    const { series, sessions } = await createSessionSeries(futureRule, details);
+
+    await updateSeriesSessions(sessions[1].id!, { date: '2030-01-10' }, 'single');
+    await updateSeriesSessions(sessions[1].id!, { date: '2030-01-11' }, 'single');
+    expect((await db.classSessions.get(sessions[1].id!))!.originalDate).toBe('2030-01-09');
+
+    await cancelSeriesSessions(sessions[1].id!, 'single', 'Room flooded');
+    expect((await db.sessionSeries.get(series.id!))!.skipDates).toEqual(['2030-01-09']);
+  });
+
+  it('requires a reason to cancel', async () => {
+    const { sessions } = await createSessionSeries(futureRule, details);
+
+    await expect(cancelSeriesSessions(sessions[0].id!, 'single', ' ')).rejects.toThrow('Give a reason for the cancellation');
+  });
+});
+
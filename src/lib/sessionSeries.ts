@@ -0,0 +1,243 @@
+import { db, ClassSession, SessionSeries } from '@/lib/database';
+import { getSessionEnd, getSessionStart } from '@/lib/attendancePolicy';
+import { assertNoBookingConflicts } from '@/lib/rooms';
+
+// Weekly recurring sessions. A SessionSeries stores the rule and every generated
+// ClassSession points back to it through seriesId, so occurrences can be changed
+// or cancelled one at a time or from a given date onwards.
+
+export const MAX_SERIES_SESSIONS = 200;
+
+export const weekdayNames = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export type SeriesScope = 'single' | 'future';
+
+export type RecurrenceRule = Pick<SessionSeries, 'weekdays' | 'startDate' | 'endDate' | 'skipDates'>;
+
+export type SessionDetails = Omit<ClassSession, 'id' | 'date' | 'seriesId' | 'createdAt' | 'updatedAt'>;
+
+export type SessionChanges = Partial<Pick<ClassSession, 'title' | 'date' | 'startTime' | 'endTime' | 'roomId' | 'location' | 'checkInMethod' | 'attendanceZone'>>;
+
+// Dates are YYYY-MM-DD in local time, matching ClassSession.date
+const parseDate = (date: string) => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export const formatDate = (date: Date) =>
+  `${date.getFullYear()}-${(date.getMonth() + 1).toString().padStart(2, '0')}-${date.getDate().toString().padStart(2, '0')}`;
+
+const addDays = (date: string, days: number) => {
+  const result = parseDate(date);
+  result.setDate(result.getDate() + days);
+  return formatDate(result);
+};
+
+export const getOccurrenceDates = (rule: RecurrenceRule): string[] => {
+  const dates: string[] = [];
+  if (!rule.startDate || !rule.endDate || rule.weekdays.length === 0) return dates;
+
+  const skipped = new Set(rule.skipDates);
+  // Stop one past the limit so validation can tell the series is too long
+  for (let date = rule.startDate; date <= rule.endDate && dates.length <= MAX_SERIES_SESSIONS; date = addDays(date, 1)) {
+    if (rule.weekdays.includes(parseDate(date).getDay()) && !skipped.has(date)) {
+      dates.push(date);
+    }
+  }
+  return dates;
+};
+
+// Returns a message describing the first problem, or null when the rule is usable
+export const validateRecurrence = (rule: RecurrenceRule): string | null => {
+  if (rule.weekdays.length === 0) return 'Choose at least one weekday';
+  if (!rule.startDate || !rule.endDate) return 'Set the first and last dates of the series';
+  if (rule.endDate < rule.startDate) return 'The series must end after it starts';
+
+  const count = getOccurrenceDates(rule).length;
+  if (count === 0) return 'No sessions fall on the chosen weekdays between these dates';
+  if (count > MAX_SERIES_SESSIONS) return `A series can have at most ${MAX_SERIES_SESSIONS} sessions`;
+  return null;
+};
+
+export const createSessionSeries = async (
+  rule: RecurrenceRule,
+  details: SessionDetails
+): Promise<{ series: SessionSeries; sessions: ClassSession[] }> => {
+  const problem = validateRecurrence(rule);
+  if (problem) {
+    throw new Error(problem);
+  }
+
+  return db.transaction('rw', [db.sessionSeries, db.classSessions, db.courses, db.rooms], async () => {
+    const dates = getOccurrenceDates(rule);
+    await assertNoBookingConflicts(dates.map(date => ({ ...details, date })));
+
+    const now = new Date().toISOString();
+    const series: SessionSeries = {
+      courseId: details.courseId,
+      instructorId: details.instructorId,
+      title: details.title,
+      weekdays: [...rule.weekdays].sort(),
+      startDate: rule.startDate,
+      endDate: rule.endDate,
+      skipDates: [...rule.skipDates].sort(),
+      startTime: details.startTime,
+      endTime: details.endTime,
+      createdAt: now,
+      updatedAt: now
+    };
+    series.id = await db.sessionSeries.add(series);
+
+    const sessions: ClassSession[] = dates.map(date => ({
+      ...details,
+      date,
+      seriesId: series.id,
+      createdAt: now,
+      updatedAt: now
+    }));
+    const ids = await db.classSessions.bulkAdd(sessions, { allKeys: true }) as number[];
+    sessions.forEach((session, index) => { session.id = ids[index]; });
+
+    return { series, sessions };
+  });
+};
+
+export const getSeriesSessions = async (seriesId: number): Promise<ClassSession[]> => {
+  const sessions = await db.classSessions.where('seriesId').equals(seriesId).toArray();
+  return sessions.sort((a, b) => `${a.date}T${a.startTime}`.localeCompare(`${b.date}T${b.startTime}`));
+};
+
+export const getInstructorSeries = async (instructorId: number): Promise<SessionSeries[]> => {
+  const series = await db.sessionSeries.where('instructorId').equals(instructorId).toArray();
+  return series.sort((a, b) => b.startDate.localeCompare(a.startDate));
+};
+
+// The chosen occurrence, or it and every later occurrence of its series that still takes place
+const getScopedSessions = async (session: ClassSession, scope: SeriesScope): Promise<ClassSession[]> => {
+  if (session.cancelledAt) {
+    throw new Error('This session has been cancelled');
+  }
+  if (scope === 'single' || !session.seriesId) return [session];
+  return (await getSeriesSessions(session.seriesId))
+    .filter(occurrence => occurrence.date >= session.date && !occurrence.cancelledAt);
+};
+
+const assertNotStarted = async (sessions: ClassSession[]) => {
+  if (sessions.some(session => getSessionStart(session) <= new Date())) {
+    throw new Error('Sessions that have already started cannot be changed');
+  }
+  const recorded = await db.attendanceRecords.where('sessionId').anyOf(sessions.map(s => s.id!)).count();
+  if (recorded > 0) {
+    throw new Error('Students have already checked in to this session');
+  }
+};
+
+// Returns the sessions as they were before the change, for notifications
+export const updateSeriesSessions = async (
+  sessionId: number,
+  changes: SessionChanges,
+  scope: SeriesScope
+): Promise<ClassSession[]> => {
+  if (scope === 'future' && changes.date) {
+    throw new Error('Move occurrences one at a time; future occurrences keep their series dates');
+  }
+
+  return db.transaction('rw', [db.classSessions, db.sessionSeries, db.attendanceRecords, db.courses, db.rooms], async () => {
+    const session = await db.classSessions.get(sessionId);
+    if (!session) {
+      throw new Error('Session not found');
+    }
+
+    const sessions = await getScopedSessions(session, scope);
+    await assertNotStarted(sessions);
+
+    const startTime = changes.startTime ?? session.startTime;
+    const endTime = changes.endTime ?? session.endTime;
+    if (startTime >= endTime) {
+      throw new Error('End time must be after start time');
+    }
+    if (sessions.some(occurrence => getSessionStart({ ...occurrence, ...changes }) <= new Date())) {
+      throw new Error('Sessions cannot be moved into the past');
+    }
+
+    await assertNoBookingConflicts(
+      sessions.map(occurrence => ({ ...occurrence, ...changes })),
+      sessions.map(occurrence => occurrence.id!)
+    );
+
+    const now = new Date().toISOString();
+    await db.classSessions.bulkPut(sessions.map(occurrence => ({
+      ...occurrence,
+      ...changes,
+      // Remember which series date a moved occurrence stands in for
+      ...(occurrence.seriesId && changes.date && changes.date !== occurrence.date
+        ? { originalDate: occurrence.originalDate ?? occurrence.date }
+        : {}),
+      updatedAt: now
+    })));
+
+    // Keep the rule in step so it still describes the remaining occurrences
+    if (scope === 'future' && session.seriesId) {
+      await db.sessionSeries.update(session.seriesId, {
+        ...(changes.title ? { title: changes.title } : {}),
+        ...(changes.startTime ? { startTime: changes.startTime } : {}),
+        ...(changes.endTime ? { endTime: changes.endTime } : {}),
+        updatedAt: now
+      });
+    }
+
+    return sessions;
+  });
+};
+
+// Cancel occurrences that have not ended yet. They are kept, closed for check-in, so
+// students can still see what happened; any check-ins already made stop counting.
+// Returns the cancelled sessions as they were before.
+export const cancelSeriesSessions = async (sessionId: number, scope: SeriesScope, reason: string): Promise<ClassSession[]> => {
+  if (!reason.trim()) {
+    throw new Error('Give a reason for the cancellation');
+  }
+
+  return db.transaction('rw', [db.classSessions, db.sessionSeries, db.quizzes], async () => {
+    const session = await db.classSessions.get(sessionId);
+    if (!session) {
+      throw new Error('Session not found');
+    }
+
+    const sessions = await getScopedSessions(session, scope);
+    if (sessions.some(occurrence => !occurrence.isActive || getSessionEnd(occurrence) <= new Date())) {
+      throw new Error('Sessions that have already ended cannot be cancelled');
+    }
+
+    const sessionIds = sessions.map(s => s.id!);
+    const linkedQuizzes = await db.quizzes.where('sessionId').anyOf(sessionIds).count();
+    if (linkedQuizzes > 0) {
+      throw new Error(`${linkedQuizzes} quiz${linkedQuizzes === 1 ? ' is' : 'zes are'} scheduled in ${sessions.length === 1 ? 'this session' : 'these sessions'}`);
+    }
+
+    const now = new Date().toISOString();
+    await db.classSessions.bulkPut(sessions.map(occurrence => ({
+      ...occurrence,
+      isActive: false,
+      qrToken: undefined,
+      qrExpiry: undefined,
+      previousQrToken: undefined,
+      cancelledAt: now,
+      cancellationReason: reason.trim(),
+      updatedAt: now
+    })));
+
+    // The rule no longer produces the cancelled dates; a moved occurrence frees its series date
+    if (session.seriesId) {
+      const series = await db.sessionSeries.get(session.seriesId);
+      const seriesDate = session.originalDate ?? session.date;
+      if (series) {
+        await db.sessionSeries.update(series.id!, scope === 'single'
+          ? { skipDates: [...series.skipDates, seriesDate].sort() }
+          : { endDate: addDays(seriesDate, -1) });
+      }
+    }
+
+    return sessions;
+  });
+};
@@ -0,0 +1,34 @@
+import { db } from '@/lib/database';
+
+// Read a single setting value, falling back to the page default when it was never saved
+export const getSetting = async (key: string, fallback: string): Promise<string> => {
+  const setting = await db.settings.where('key').equals(key).first();
+  return setting ? setting.value : fallback;
+};
+
+export const getNumericSetting = async (key: string, fallback: number): Promise<number> => {
+  const value = parseFloat(await getSetting(key, fallback.toString()));
+  return Number.isFinite(value) ? value : fallback;
+};
+
+export const getBooleanSetting = async (key: string, fallback: boolean): Promise<boolean> => {
+  return (await getSetting(key, fallback.toString())) === 'true';
+};
+
+// Create or update a setting by key
+export const saveSetting = async (key: string, value: string): Promise<void> => {
+  const existingSetting = await db.settings.where('key').equals(key).first();
+
+  if (existingSetting) {
+    await db.settings.update(existingSetting.id!, {
+      value,
+      updatedAt: new Date().toISOString()
+    });
+  } else {
+    await db.settings.add({
+      key,
+      value,
+      updatedAt: new Date().toISOString()
+    });
+  }
+};
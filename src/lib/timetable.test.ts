@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { ClassSession } from '@/lib/database';
+import { findClashes, getWeekDates, getWeekStart } from '@/lib/timetable';
+
+const session = (id: number, courseId: number, startTime: string, endTime: string, overrides: Partial<ClassSession> = {}): ClassSession => ({
+  id,
+  courseId,
+  instructorId: 1,
+  title: 'Lecture',
+  date: '2026-10-19',
+  startTime,
+  endTime,
+  checkInMethod: 'qr',
+  isActive: false,
+  createdAt: '',
+  updatedAt: '',
+  ...overrides
+});
+
+describe('weeks', () => {
+  it('start on Monday', () => {
+    expect(getWeekStart(new Date(2026, 9, 25))).toEqual(new Date(2026, 9, 19));
+    expect(getWeekStart(new Date(2026, 9, 19, 15))).toEqual(new Date(2026, 9, 19));
+    expect(getWeekDates(new Date(2026, 9, 26))).toEqual([
+      '2026-10-26', '2026-10-27', '2026-10-28', '2026-10-29', '2026-10-30', '2026-10-31', '2026-11-01'
+    ]);
+  });
+});
+
+describe('findClashes', () => {
+  it('pairs overlapping sessions of different courses', () => {
+    const clashes = findClashes([
+      session(1, 1, '09:00', '10:00'),
+      session(2, 2, '09:30', '10:30'),
+      session(3, 3, '10:00', '11:00'),
+      session(4, 1, '09:00', '10:00', { date: '2026-10-20' })
+    ]);
+
+    expect(Array.from(clashes.keys()).sort()).toEqual([1, 2, 3]);
+    expect(clashes.get(1)!.map(other => other.id)).toEqual([2]);
+    expect(clashes.get(2)!.map(other => other.id)).toEqual([1, 3]);
+  });
+
+  it('ignores sessions of the same course', () => {
+    expect(findClashes([session(1, 1, '09:00', '10:00'), session(2, 1, '09:00', '10:00')]).size).toBe(0);
+  });
+
+  it('ignores cancelled sessions', () => {
+    const clashes = findClashes([session(1, 1, '09:00', '10:00'), session(2, 2, '09:00', '10:00', { cancelledAt: '2026-10-18T00:00:00Z' })]);
+    expect(clashes.size).toBe(0);
+  });
+});
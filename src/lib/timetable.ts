@@ -0,0 +1,73 @@
+import { db, ClassSession, Course } from '@/lib/database';
+import { formatDate } from '@/lib/sessionSeries';
+
+// Timetables built from real ClassSession rows, with clashes between overlapping sessions.
+
+export interface TimetableEntry {
+  session: ClassSession;
+  course?: Course;
+  instructorName: string;
+  clashesWith: ClassSession[];
+}
+
+// Weeks start on Monday
+export const getWeekStart = (date: Date): Date => {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  return start;
+};
+
+export const getWeekDates = (weekStart: Date): string[] =>
+  Array.from({ length: 7 }, (_, offset) => {
+    const date = new Date(weekStart);
+    date.setDate(weekStart.getDate() + offset);
+    return formatDate(date);
+  });
+
+const sessionsOverlap = (a: ClassSession, b: ClassSession) =>
+  a.date === b.date && a.startTime < b.endTime && b.startTime < a.endTime;
+
+// Sessions of other courses that overlap each session, keyed by session id.
+// Cancelled sessions never clash.
+export const findClashes = (sessions: ClassSession[]): Map<number, ClassSession[]> => {
+  const clashes = new Map<number, ClassSession[]>();
+  const held = sessions.filter(session => !session.cancelledAt);
+  held.forEach(session => {
+    const overlapping = held.filter(other =>
+      other.id !== session.id && other.courseId !== session.courseId && sessionsOverlap(session, other)
+    );
+    if (overlapping.length > 0) clashes.set(session.id!, overlapping);
+  });
+  return clashes;
+};
+
+// Sessions of the student's enrolled courses between two dates (inclusive), in time order
+export const getStudentTimetable = async (studentId: number, fromDate: string, toDate: string): Promise<TimetableEntry[]> => {
+  const enrollments = await db.courseEnrollments.where('studentId').equals(studentId).toArray();
+  const courseIds = enrollments.map(enrollment => enrollment.courseId);
+
+  const sessions = (await db.classSessions
+    .where('date').between(fromDate, toDate, true, true)
+    .and(session => courseIds.includes(session.courseId))
+    .toArray())
+    .sort((a, b) => `${a.date}T${a.startTime}`.localeCompare(`${b.date}T${b.startTime}`));
+
+  const clashes = findClashes(sessions);
+  const courses = await db.courses.bulkGet(courseIds);
+  const instructorNames = new Map<number, string>();
+
+  const entries: TimetableEntry[] = [];
+  for (const session of sessions) {
+    if (!instructorNames.has(session.instructorId)) {
+      const instructor = await db.users.get(session.instructorId);
+      instructorNames.set(session.instructorId, instructor ? `${instructor.firstName} ${instructor.lastName}` : 'Unknown Instructor');
+    }
+    entries.push({
+      session,
+      course: courses.find(course => course?.id === session.courseId),
+      instructorName: instructorNames.get(session.instructorId)!,
+      clashesWith: clashes.get(session.id!) || []
+    });
+  }
+  return entries;
+};
@@ -0,0 +1,148 @@
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { db, User } from '@/lib/database';
+import { deleteUserAndData } from '@/lib/userDeletion';
+
+const addUser = (role: User['role'], email: string) =>
+  db.users.add({ email, password: '', role, firstName: 'Test', lastName: 'User', isApproved: true, createdAt: '', updatedAt: '' });
+
+const addCourse = (instructorId: number) =>
+  db.courses.add({ name: 'Analysis', code: 'MATH101', instructorId, createdAt: '', updatedAt: '' });
+
+const addSession = (courseId: number, instructorId: number) =>
+  db.classSessions.add({
+    courseId,
+    instructorId,
+    title: 'Lecture',
+    date: '2026-10-19',
+    startTime: '09:00',
+    endTime: '10:00',
+    checkInMethod: 'qr',
+    isActive: false,
+    createdAt: '',
+    updatedAt: ''
+  });
+
+const addRecord = (sessionId: number, studentId: number) =>
+  db.attendanceRecords.add({ sessionId, studentId, status: 'present', isManualOverride: false, createdAt: '', updatedAt: '' });
+
+const enroll = (studentId: number, courseId: number) =>
+  db.courseEnrollments.add({ studentId, courseId, enrolledAt: '', attendanceRate: 0, createdAt: '', updatedAt: '' });
+
+describe('deleteUserAndData', () => {
+  beforeEach(async () => {
+    await Promise.all(db.tables.map(table => table.clear()));
+  });
+
+  it('removes an instructor with their courses and everything recorded against them', async () => {
+    const instructorId = await addUser('instructor', 'ada@example.com');
+    const studentId = await addUser('student', 'sam@example.com');
+    const courseId = await addCourse(instructorId);
+    const sessionId = await addSession(courseId, instructorId);
+    await addRecord(sessionId, studentId);
+    await enroll(studentId, courseId);
+    await db.sessionSeries.add({
+      courseId,
+      instructorId,
+      title: 'Lecture',
+      weekdays: [1],
+      startDate: '2026-10-19',
+      endDate: '2026-12-14',
+      skipDates: [],
+      startTime: '09:00',
+      endTime: '10:00',
+      createdAt: '',
+      updatedAt: ''
+    });
+    const quizId = await db.quizzes.add({
+      courseId,
+      instructorId,
+      title: 'Week 1',
+      timeLimit: 10,
+      isRandomized: false,
+      isActive: true,
+      questions: [],
+      createdAt: '',
+      updatedAt: ''
+    });
+    await db.quizSubmissions.add({ quizId, studentId, answers: [], startedAt: '', maxScore: 0, isCompleted: true, createdAt: '', updatedAt: '' });
+    const bankId = await db.questionBanks.add({ instructorId, name: 'Algebra', createdAt: '', updatedAt: '' });
+    await db.questions.add({ bankId, type: 'true_false', question: '1 + 1 = 2', correctAnswer: 'true', points: 1, createdAt: '', updatedAt: '' });
+    await db.questionTemplates.add({
+      instructorId,
+      name: 'Addition',
+      type: 'short_answer',
+      text: '{{a}} + 1',
+      variables: [{ name: 'a', min: 1, max: 9, step: 1 }],
+      answer: 'a + 1',
+      points: 1,
+      createdAt: '',
+      updatedAt: ''
+    });
+
+    await deleteUserAndData(instructorId);
+
+    expect(await db.courses.count()).toBe(0);
+    expect(await db.classSessions.count()).toBe(0);
+    expect(await db.sessionSeries.count()).toBe(0);
+    expect(await db.attendanceRecords.count()).toBe(0);
+    expect(await db.courseEnrollments.count()).toBe(0);
+    expect(await db.quizzes.count()).toBe(0);
+    expect(await db.quizSubmissions.count()).toBe(0);
+    expect(await db.questionBanks.count()).toBe(0);
+    expect(await db.questions.count()).toBe(0);
+    expect(await db.questionTemplates.count()).toBe(0);
+    expect(await db.users.get(studentId)).toBeDefined();
+  });
+
+  it('removes a student\'s records and messages but not other students\'', async () => {
+    const instructorId = await addUser('instructor', 'ada@example.com');
+    const studentId = await addUser('student', 'sam@example.com');
+    const otherId = await addUser('student', 'kim@example.com');
+    const courseId = await addCourse(instructorId);
+    const sessionId = await addSession(courseId, instructorId);
+    await addRecord(sessionId, studentId);
+    await addRecord(sessionId, otherId);
+    await enroll(studentId, courseId);
+    await db.messages.add({
+      senderId: studentId,
+      receiverId: instructorId,
+      type: 'general',
+      subject: 'Hello',
+      content: '',
+      status: 'pending',
+      createdAt: '',
+      updatedAt: ''
+    });
+
+    await deleteUserAndData(studentId);
+
+    expect(await db.users.get(studentId)).toBeUndefined();
+    expect((await db.attendanceRecords.toArray()).map(record => record.studentId)).toEqual([otherId]);
+    expect(await db.courseEnrollments.count()).toBe(0);
+    expect(await db.messages.count()).toBe(0);
+    expect(await db.courses.count()).toBe(1);
+  });
+
+  it('keeps the attendance override history', async () => {
+    const instructorId = await addUser('instructor', 'ada@example.com');
+    const studentId = await addUser('student', 'sam@example.com');
+    const sessionId = await addSession(await addCourse(instructorId), instructorId);
+    const recordId = await addRecord(sessionId, studentId);
+    await db.attendanceOverrides.add({
+      recordId,
+      sessionId,
+      studentId,
+      previousStatus: 'absent',
+      newStatus: 'present',
+      reason: 'Signed in on paper',
+      changedBy: instructorId,
+      createdAt: ''
+    });
+
+    await deleteUserAndData(studentId);
+    await deleteUserAndData(instructorId);
+
+    expect(await db.attendanceOverrides.count()).toBe(1);
+  });
+});
@@ -0,0 +1,61 @@
+import { db } from '@/lib/database';
+
+// Removing a user together with everything that refers to them, so no page is left
+// resolving a studentId or instructorId that no longer exists.
+// Instructors take their courses with them: sessions, series, quizzes, question banks,
+// templates, enrollments and the attendance and submissions recorded against them.
+// Attendance overrides are the audit trail and are kept; the roster shows their author
+// as an unknown user.
+
+export const deleteUserAndData = async (userId: number): Promise<void> => {
+  await db.transaction('rw', [
+    db.users,
+    db.courses,
+    db.classSessions,
+    db.sessionSeries,
+    db.attendanceRecords,
+    db.quizzes,
+    db.quizSubmissions,
+    db.questionBanks,
+    db.questions,
+    db.questionTemplates,
+    db.messages,
+    db.courseEnrollments,
+    db.enrollmentRequests,
+    db.bans
+  ], async () => {
+    // Content the user owns as an instructor
+    const courseIds = await db.courses.where('instructorId').equals(userId).primaryKeys();
+    const sessionIds = Array.from(new Set([
+      ...await db.classSessions.where('instructorId').equals(userId).primaryKeys(),
+      ...await db.classSessions.where('courseId').anyOf(courseIds).primaryKeys()
+    ]));
+    const quizIds = await db.quizzes.where('instructorId').equals(userId).primaryKeys();
+    const bankIds = await db.questionBanks.where('instructorId').equals(userId).primaryKeys();
+
+    await db.attendanceRecords.where('sessionId').anyOf(sessionIds).delete();
+    await db.quizSubmissions.where('quizId').anyOf(quizIds).delete();
+    await db.questions.where('bankId').anyOf(bankIds).delete();
+    await db.courseEnrollments.where('courseId').anyOf(courseIds).delete();
+    await db.enrollmentRequests.where('courseId').anyOf(courseIds).delete();
+
+    await db.quizzes.bulkDelete(quizIds);
+    await db.questionBanks.bulkDelete(bankIds);
+    await db.questionTemplates.where('instructorId').equals(userId).delete();
+    await db.classSessions.bulkDelete(sessionIds);
+    await db.sessionSeries.where('instructorId').equals(userId).delete();
+    await db.courses.bulkDelete(courseIds);
+
+    // Records about the user as a student
+    await db.attendanceRecords.where('studentId').equals(userId).delete();
+    await db.quizSubmissions.where('studentId').equals(userId).delete();
+    await db.courseEnrollments.where('studentId').equals(userId).delete();
+    await db.enrollmentRequests.where('studentId').equals(userId).delete();
+
+    await db.messages.where('senderId').equals(userId).delete();
+    await db.messages.where('receiverId').equals(userId).delete();
+    await db.bans.where('userId').equals(userId).delete();
+
+    await db.users.delete(userId);
+  });
+};
@@ -0,0 +1,24 @@
+import React from 'react';
+import { Navigate } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { AuthLayout } from '@/components/auth/AuthLayout';
+import { ChangePasswordForm } from '@/components/auth/ChangePasswordForm';
+
+const ChangePassword: React.FC = () => {
+  const { user, loading } = useAuth();
+
+  if (!loading && !user) {
+    return <Navigate to="/login" replace />;
+  }
+
+  return (
+    <AuthLayout 
+      title="Change Password"
+      subtitle="Keep your attendance account secure"
+    >
+      <ChangePasswordForm />
+    </AuthLayout>
+  );
+};
+
+export default ChangePassword;
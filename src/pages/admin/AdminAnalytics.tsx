@@ -5,6 +5,8 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { ArrowLeft, BarChart3, Users, GraduationCap, BookOpen, Calendar, Trophy, TrendingUp, TrendingDown } from 'lucide-react';
 import { Link } from 'react-router-dom';
 import { db } from '@/lib/database';
+import { calculateAttendanceRate, countsAsAttended, countsTowardRate } from '@/lib/attendancePolicy';
+import { excludeCancelledRecords } from '@/lib/sessionChanges';
 
 interface UserStats {
   totalStudents: number;
@@ -142,16 +144,16 @@ export const AdminAnalytics: React.FC = () => {
   };
 
   const loadAttendanceStats = async () => {
-    const allRecords = await db.attendanceRecords.toArray();
-    const presentRecords = allRecords.filter(r => r.status === 'present');
-    const overallAttendanceRate = allRecords.length > 0 ? 
-      Math.round((presentRecords.length / allRecords.length) * 100) : 0;
+    const allRecords = await excludeCancelledRecords(await db.attendanceRecords.toArray());
+    const overallAttendanceRate = calculateAttendanceRate(allRecords);
 
     // Calculate attendance by department
     const attendanceByDepartment: { [key: string]: number } = {};
     const departmentCounts: { [key: string]: { present: number; total: number } } = {};
 
     for (const record of allRecords) {
+      if (!countsTowardRate(record.status)) continue;
+
       const student = await db.users.get(record.studentId);
       const dept = student?.department || 'Unknown';
       
@@ -160,7 +162,7 @@ export const AdminAnalytics: React.FC = () => {
       }
       
       departmentCounts[dept].total++;
-      if (record.status === 'present') {
+      if (countsAsAttended(record.status)) {
         departmentCounts[dept].present++;
       }
     }
@@ -179,8 +181,7 @@ export const AdminAnalytics: React.FC = () => {
       const dateStr = date.toISOString().split('T')[0];
       
       const dayRecords = allRecords.filter(r => r.createdAt.startsWith(dateStr));
-      const dayPresent = dayRecords.filter(r => r.status === 'present');
-      const rate = dayRecords.length > 0 ? Math.round((dayPresent.length / dayRecords.length) * 100) : 0;
+      const rate = calculateAttendanceRate(dayRecords);
       
       attendanceTrends.push({
         date: date.toLocaleDateString('en-US', { weekday: 'short' }),
@@ -0,0 +1,367 @@
+import React, { useState, useEffect } from 'react';
+import { GlassCard } from '@/components/ui/glass-card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { ArrowLeft, Plus, Trash2, Save, DoorOpen, MapPin, Wifi, LocateFixed } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { Room } from '@/lib/database';
+import { DEFAULT_ZONE_RADIUS, getCurrentPosition } from '@/lib/geofence';
+import { deleteRoom, formatRoom, getRooms, RoomDetails, saveRoom, validateRoom } from '@/lib/rooms';
+import { toast } from '@/hooks/use-toast';
+
+interface RoomForm {
+  id?: number;
+  name: string;
+  building: string;
+  capacity: string;
+  latitude: string;
+  longitude: string;
+  radius: string;
+  ipRanges: string;
+  isActive: boolean;
+}
+
+const emptyForm: RoomForm = {
+  name: '',
+  building: '',
+  capacity: '',
+  latitude: '',
+  longitude: '',
+  radius: DEFAULT_ZONE_RADIUS.toString(),
+  ipRanges: '',
+  isActive: true
+};
+
+// Empty inputs leave the value unset rather than zero
+const toNumber = (value: string) => value.trim() === '' ? undefined : Number(value);
+
+export const Rooms: React.FC = () => {
+  const [rooms, setRooms] = useState<Room[]>([]);
+  const [form, setForm] = useState<RoomForm>(emptyForm);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isLocating, setIsLocating] = useState(false);
+
+  useEffect(() => {
+    loadRooms();
+  }, []);
+
+  const loadRooms = async () => {
+    try {
+      setRooms(await getRooms(true));
+    } catch (error) {
+      console.error('Error loading rooms:', error);
+    }
+  };
+
+  const toRoom = (): RoomDetails => ({
+    name: form.name,
+    building: form.building,
+    capacity: toNumber(form.capacity),
+    latitude: toNumber(form.latitude),
+    longitude: toNumber(form.longitude),
+    radius: toNumber(form.radius),
+    ipRanges: form.ipRanges.split(/[\s,]+/).filter(Boolean),
+    isActive: form.isActive
+  });
+
+  const editRoom = (room: Room) => {
+    setForm({
+      id: room.id,
+      name: room.name,
+      building: room.building,
+      capacity: room.capacity?.toString() || '',
+      latitude: room.latitude?.toString() || '',
+      longitude: room.longitude?.toString() || '',
+      radius: room.radius?.toString() || '',
+      ipRanges: (room.ipRanges || []).join('\n'),
+      isActive: room.isActive
+    });
+  };
+
+  const fillFromCurrentPosition = async () => {
+    setIsLocating(true);
+    try {
+      const position = await getCurrentPosition();
+      setForm(prev => ({
+        ...prev,
+        latitude: position.coords.latitude.toFixed(6),
+        longitude: position.coords.longitude.toFixed(6)
+      }));
+    } catch (error) {
+      console.error('Error reading position:', error);
+      toast({
+        title: "Location Unavailable",
+        description: error instanceof Error ? error.message : "Unable to read your current position",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLocating(false);
+    }
+  };
+
+  const handleSave = async () => {
+    const room = toRoom();
+    const error = validateRoom(room);
+    if (error) {
+      toast({
+        title: "Invalid Room",
+        description: error,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const id = await saveRoom(room, form.id);
+      setForm({ ...form, id });
+
+      toast({
+        title: "Room Saved",
+        description: `${formatRoom(room)} can now be booked`,
+      });
+      loadRooms();
+    } catch (error) {
+      console.error('Error saving room:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save room",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!form.id) return;
+
+    if (!confirm(`Delete the room ${form.name}?`)) {
+      return;
+    }
+
+    try {
+      await deleteRoom(form.id);
+      setForm(emptyForm);
+      loadRooms();
+    } catch (error) {
+      console.error('Error deleting room:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete room",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <div className="min-h-screen p-6">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-8">
+        <div className="flex items-center space-x-4">
+          <Link to="/dashboard">
+            <Button variant="outline" size="sm">
+              <ArrowLeft size={16} />
+              Back to Dashboard
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-3xl font-bold text-gradient">Rooms</h1>
+            <p className="text-muted-foreground mt-1">Teaching rooms, their capacity and check-in zones</p>
+          </div>
+        </div>
+        <Button variant="primary" onClick={() => setForm(emptyForm)}>
+          <Plus size={16} />
+          New Room
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Room List */}
+        <GlassCard variant="intense">
+          <h2 className="text-xl font-semibold text-glass-foreground mb-4">All Rooms</h2>
+          <div className="space-y-2">
+            {rooms.map((room) => (
+              <button
+                key={room.id}
+                onClick={() => editRoom(room)}
+                className={`w-full text-left p-3 rounded-lg glass transition-colors ${
+                  room.id === form.id ? 'border border-primary' : 'hover:bg-glass/10'
+                }`}
+              >
+                <div className="flex items-center justify-between">
+                  <span className="font-medium text-glass-foreground">{formatRoom(room)}</span>
+                  {!room.isActive && <Badge variant="outline" className="text-xs">inactive</Badge>}
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {room.capacity ? `${room.capacity} seats` : 'Capacity not set'}
+                  {room.latitude !== undefined && ' · GPS'}
+                  {room.ipRanges && room.ipRanges.length > 0 && ' · Network'}
+                </p>
+              </button>
+            ))}
+            {rooms.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-6">No rooms yet</p>
+            )}
+          </div>
+        </GlassCard>
+
+        {/* Room Editor */}
+        <GlassCard variant="intense" className="lg:col-span-2">
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center">
+              <DoorOpen size={20} className="text-glass-foreground mr-2" />
+              <h2 className="text-xl font-semibold text-glass-foreground">
+                {form.id ? 'Edit Room' : 'New Room'}
+              </h2>
+            </div>
+            {form.id && (
+              <Button variant="destructive" size="sm" onClick={handleDelete}>
+                <Trash2 size={14} />
+                Delete
+              </Button>
+            )}
+          </div>
+
+          <div className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="roomName" className="text-glass-foreground font-medium">Name *</Label>
+                <Input
+                  id="roomName"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="e.g., A-101"
+                  className="glass border-glass-border/30 bg-glass/5 text-glass-foreground"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="building" className="text-glass-foreground font-medium">Building</Label>
+                <Input
+                  id="building"
+                  value={form.building}
+                  onChange={(e) => setForm({ ...form, building: e.target.value })}
+                  placeholder="e.g., Science Block"
+                  className="glass border-glass-border/30 bg-glass/5 text-glass-foreground"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="capacity" className="text-glass-foreground font-medium">Capacity</Label>
+                <Input
+                  id="capacity"
+                  type="number"
+                  min="1"
+                  value={form.capacity}
+                  onChange={(e) => setForm({ ...form, capacity: e.target.value })}
+                  placeholder="Seats"
+                  className="glass border-glass-border/30 bg-glass/5 text-glass-foreground"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center">
+                  <MapPin size={16} className="text-glass-foreground mr-2" />
+                  <Label className="text-glass-foreground font-medium">Default Attendance Zone</Label>
+                </div>
+                <Button variant="outline" size="sm" onClick={fillFromCurrentPosition} disabled={isLocating}>
+                  {isLocating ? (
+                    <div className="animate-spin rounded-full h-4 w-4 border-2 border-primary border-t-transparent" />
+                  ) : (
+                    <>
+                      <LocateFixed size={14} />
+                      Use My Current Position
+                    </>
+                  )}
+                </Button>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="latitude" className="text-glass-foreground font-medium">Latitude</Label>
+                  <Input
+                    id="latitude"
+                    type="number"
+                    step="any"
+                    value={form.latitude}
+                    onChange={(e) => setForm({ ...form, latitude: e.target.value })}
+                    className="glass border-glass-border/30 bg-glass/5 text-glass-foreground"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="longitude" className="text-glass-foreground font-medium">Longitude</Label>
+                  <Input
+                    id="longitude"
+                    type="number"
+                    step="any"
+                    value={form.longitude}
+                    onChange={(e) => setForm({ ...form, longitude: e.target.value })}
+                    className="glass border-glass-border/30 bg-glass/5 text-glass-foreground"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="radius" className="text-glass-foreground font-medium">Radius (meters)</Label>
+                  <Input
+                    id="radius"
+                    type="number"
+                    min="1"
+                    value={form.radius}
+                    onChange={(e) => setForm({ ...form, radius: e.target.value })}
+                    className="glass border-glass-border/30 bg-glass/5 text-glass-foreground"
+                  />
+                </div>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center">
+                <Wifi size={16} className="text-glass-foreground mr-2" />
+                <Label htmlFor="roomIpRanges" className="text-glass-foreground font-medium">Room Network</Label>
+              </div>
+              <Textarea
+                id="roomIpRanges"
+                value={form.ipRanges}
+                onChange={(e) => setForm({ ...form, ipRanges: e.target.value })}
+                placeholder={'e.g., 10.20.0.0/16\n2001:db8:42::/48'}
+                className="glass border-glass-border/30 bg-glass/5 text-glass-foreground font-mono"
+                rows={3}
+              />
+              <p className="text-xs text-muted-foreground">
+                IPv4 or IPv6 addresses or CIDR blocks, one per line
+              </p>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div>
+                <Label className="text-glass-foreground font-medium">Available for booking</Label>
+                <p className="text-xs text-muted-foreground">Inactive rooms keep their past sessions but cannot be picked for new ones</p>
+              </div>
+              <Switch checked={form.isActive} onCheckedChange={(checked) => setForm({ ...form, isActive: checked })} />
+            </div>
+
+            <div className="border-t border-glass-border/20 pt-6 flex justify-end">
+              <Button variant="primary" onClick={handleSave} disabled={isLoading}>
+                {isLoading ? (
+                  <div className="animate-spin rounded-full h-4 w-4 border-2 border-primary-foreground border-t-transparent" />
+                ) : (
+                  <>
+                    <Save size={16} />
+                    Save Room
+                  </>
+                )}
+              </Button>
+            </div>
+          </div>
+        </GlassCard>
+      </div>
+    </div>
+  );
+};
@@ -7,9 +7,10 @@ import { Switch } from '@/components/ui/switch';
 import { Textarea } from '@/components/ui/textarea';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
-import { ArrowLeft, Shield, Key, Users, AlertTriangle, Save, Eye, Ban } from 'lucide-react';
+import { ArrowLeft, Shield, Key, Users, AlertTriangle, Save, Eye, Ban, Lock } from 'lucide-react';
 import { Link } from 'react-router-dom';
-import { db, Ban as BanRecord } from '@/lib/database';
+import { db, Ban as BanRecord, User } from '@/lib/database';
+import { clearFailedLogins, formatUnlockTime, getLockedAccounts } from '@/lib/loginThrottle';
 import { toast } from '@/hooks/use-toast';
 
 interface SecuritySetting {
@@ -29,6 +30,7 @@ interface ActiveBan extends BanRecord {
 export const SecuritySettings: React.FC = () => {
   const [securitySettings, setSecuritySettings] = useState<{ [key: string]: string }>({});
   const [activeBans, setActiveBans] = useState<ActiveBan[]>([]);
+  const [lockedAccounts, setLockedAccounts] = useState<User[]>([]);
   const [ipWhitelist, setIpWhitelist] = useState<string[]>([]);
   const [newIpAddress, setNewIpAddress] = useState('');
   const [isLoading, setIsLoading] = useState(false);
@@ -83,6 +85,13 @@ export const SecuritySettings: React.FC = () => {
       label: 'Enable IP Whitelist',
       description: 'Only allow access from approved IP addresses'
     },
+    {
+      key: 'ip_lookup_url',
+      value: '',
+      type: 'text',
+      label: 'IP Lookup URL',
+      description: "Service that reports a student's public IP for network check-in. Leave empty to skip network checks"
+    },
     {
       key: 'audit_log_retention',
       value: '90',
@@ -151,6 +160,7 @@ export const SecuritySettings: React.FC = () => {
       }
 
       setActiveBans(bansWithUsers);
+      setLockedAccounts(await getLockedAccounts());
 
       // Load IP whitelist (stored as a setting)
       const ipWhitelistSetting = await db.settings.where('key').equals('ip_whitelist').first();
@@ -295,6 +305,26 @@ export const SecuritySettings: React.FC = () => {
     }
   };
 
+  const unlockAccount = async (userId: number, userName: string) => {
+    try {
+      await clearFailedLogins(userId);
+
+      toast({
+        title: "Account Unlocked",
+        description: `${userName} can log in again`,
+      });
+
+      loadSecurityData();
+    } catch (error) {
+      console.error('Error unlocking account:', error);
+      toast({
+        title: "Error",
+        description: "Failed to unlock account",
+        variant: "destructive"
+      });
+    }
+  };
+
   const renderSetting = (setting: SecuritySetting) => {
     const currentValue = securitySettings[setting.key] || setting.value;
 
@@ -394,7 +424,7 @@ export const SecuritySettings: React.FC = () => {
             <GlassCard variant="intense">
               <h2 className="text-xl font-semibold text-glass-foreground mb-6">Access Control Settings</h2>
               <div className="space-y-4">
-                {defaultSecuritySettings.slice(5, 7).map(renderSetting)}
+                {defaultSecuritySettings.slice(5, 8).map(renderSetting)}
               </div>
             </GlassCard>
 
@@ -440,7 +470,7 @@ export const SecuritySettings: React.FC = () => {
             <GlassCard variant="intense">
               <h2 className="text-xl font-semibold text-glass-foreground mb-6">Password & Account Settings</h2>
               <div className="space-y-4">
-                {defaultSecuritySettings.slice(7).map(renderSetting)}
+                {defaultSecuritySettings.slice(8).map(renderSetting)}
               </div>
             </GlassCard>
 
@@ -484,6 +514,44 @@ export const SecuritySettings: React.FC = () => {
                 )}
               </div>
             </GlassCard>
+
+            <GlassCard variant="intense">
+              <h2 className="text-xl font-semibold text-glass-foreground mb-6">Locked Accounts</h2>
+              <div className="space-y-3">
+                {lockedAccounts.map((account) => (
+                  <div key={account.id} className="p-4 glass rounded-lg">
+                    <div className="flex items-start justify-between">
+                      <div className="flex-1">
+                        <div className="flex items-center space-x-2 mb-2">
+                          <h3 className="font-semibold text-glass-foreground">{account.firstName} {account.lastName}</h3>
+                          <Badge variant="secondary">Locked</Badge>
+                        </div>
+                        <p className="text-sm text-muted-foreground mb-1">{account.email}</p>
+                        <p className="text-sm text-muted-foreground">
+                          <strong>Reason:</strong> Too many failed login attempts
+                        </p>
+                        <p className="text-sm text-muted-foreground">
+                          <strong>Unlocks:</strong> {formatUnlockTime(new Date(account.lockedUntil!))}
+                        </p>
+                      </div>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => unlockAccount(account.id!, `${account.firstName} ${account.lastName}`)}
+                      >
+                        Unlock
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+                {lockedAccounts.length === 0 && (
+                  <div className="text-center py-8">
+                    <Lock size={48} className="text-muted-foreground mx-auto mb-4" />
+                    <p className="text-muted-foreground">No locked accounts</p>
+                  </div>
+                )}
+              </div>
+            </GlassCard>
           </div>
         </TabsContent>
 
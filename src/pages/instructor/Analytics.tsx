@@ -2,9 +2,10 @@ import React, { useState, useEffect } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { GlassCard } from '@/components/ui/glass-card';
 import { Button } from '@/components/ui/button';
-import { ArrowLeft, BarChart3, Users, Calendar, Trophy } from 'lucide-react';
+import { ArrowLeft, BarChart3, Users, Calendar, Trophy, ListChecks } from 'lucide-react';
 import { Link } from 'react-router-dom';
 import { db } from '@/lib/database';
+import { countsAsAttended, countsTowardRate } from '@/lib/attendancePolicy';
 
 export const Analytics: React.FC = () => {
   const { user } = useAuth();
@@ -33,22 +34,25 @@ export const Analytics: React.FC = () => {
       const totalStudents = await db.courseEnrollments.where('courseId').anyOf(courseIds).count();
 
       // Get total sessions
-      const totalSessions = await db.classSessions.where('instructorId').equals(user.id).count();
+      const totalSessions = await db.classSessions.where('instructorId').equals(user.id).and(session => !session.cancelledAt).count();
 
       // Calculate average attendance
-      const allSessions = await db.classSessions.where('instructorId').equals(user.id).toArray();
+      const allSessions = await db.classSessions.where('instructorId').equals(user.id).and(session => !session.cancelledAt).toArray();
       let totalAttendanceRate = 0;
       let sessionCount = 0;
 
       for (const session of allSessions) {
-        const totalRecords = await db.attendanceRecords.where('sessionId').equals(session.id!).count();
-        const presentRecords = await db.attendanceRecords
+        const totalRecords = await db.attendanceRecords
           .where('sessionId').equals(session.id!)
-          .and(record => record.status === 'present')
+          .and(record => countsTowardRate(record.status))
+          .count();
+        const attendedRecords = await db.attendanceRecords
+          .where('sessionId').equals(session.id!)
+          .and(record => countsAsAttended(record.status))
           .count();
         
         if (totalRecords > 0) {
-          totalAttendanceRate += (presentRecords / totalRecords) * 100;
+          totalAttendanceRate += (attendedRecords / totalRecords) * 100;
           sessionCount++;
         }
       }
@@ -109,6 +113,12 @@ export const Analytics: React.FC = () => {
             <p className="text-muted-foreground mt-1">Comprehensive insights into your teaching performance</p>
           </div>
         </div>
+        <Link to="/instructor/item-analysis">
+          <Button variant="outline">
+            <ListChecks size={16} />
+            Item Analysis
+          </Button>
+        </Link>
       </div>
 
       {/* Analytics Grid */}
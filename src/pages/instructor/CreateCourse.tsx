@@ -118,12 +118,17 @@ export const CreateCourse: React.FC = () => {
         return;
       }
 
-      // Create the course
+      // Create the course under the instructor's department so students there can find it
+      const department = user.department
+        ? await db.departments.where('name').equals(user.department).first()
+        : undefined;
+
       await db.courses.add({
         name: customDetails.name,
         code: customDetails.code,
         description: customDetails.description,
         instructorId: user.id,
+        departmentId: department?.id,
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString()
       });
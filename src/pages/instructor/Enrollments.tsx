@@ -0,0 +1,398 @@
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { GlassCard } from '@/components/ui/glass-card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ArrowLeft, Check, KeyRound, RefreshCw, Save, UserPlus, Users, X } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { db, Course, EnrollmentRequest } from '@/lib/database';
+import {
+  approveEnrollmentRequest,
+  generateJoinCode,
+  getEnrolledCount,
+  rejectEnrollmentRequest
+} from '@/lib/enrollment';
+import { toast } from '@/hooks/use-toast';
+
+interface PendingRequest extends EnrollmentRequest {
+  studentName: string;
+  studentEmail: string;
+  courseName: string;
+  courseCode: string;
+}
+
+interface CourseSummary extends Course {
+  enrolledCount: number;
+}
+
+export const Enrollments: React.FC = () => {
+  const { user } = useAuth();
+  const [requests, setRequests] = useState<PendingRequest[]>([]);
+  const [courses, setCourses] = useState<CourseSummary[]>([]);
+  const [capacityInputs, setCapacityInputs] = useState<{ [courseId: number]: string }>({});
+  const [processingRequestId, setProcessingRequestId] = useState<number | null>(null);
+  const [rejectingRequest, setRejectingRequest] = useState<PendingRequest | null>(null);
+  const [rejectReason, setRejectReason] = useState('');
+
+  useEffect(() => {
+    loadData();
+  }, [user]);
+
+  const loadData = async () => {
+    if (!user?.id) return;
+
+    try {
+      const instructorCourses = await db.courses.where('instructorId').equals(user.id).toArray();
+      const summaries: CourseSummary[] = [];
+      for (const course of instructorCourses) {
+        summaries.push({ ...course, enrolledCount: await getEnrolledCount(course.id!) });
+      }
+      summaries.sort((a, b) => a.code.localeCompare(b.code));
+      setCourses(summaries);
+      setCapacityInputs(Object.fromEntries(summaries.map(c => [c.id!, c.capacity ? c.capacity.toString() : ''])));
+
+      const pending = await db.enrollmentRequests
+        .where('courseId').anyOf(instructorCourses.map(c => c.id!))
+        .and(request => request.status === 'pending')
+        .toArray();
+
+      const entries: PendingRequest[] = [];
+      for (const request of pending) {
+        const student = await db.users.get(request.studentId);
+        const course = instructorCourses.find(c => c.id === request.courseId);
+        entries.push({
+          ...request,
+          studentName: student ? `${student.firstName} ${student.lastName}` : 'Unknown Student',
+          studentEmail: student?.email || '',
+          courseName: course?.name || 'Unknown Course',
+          courseCode: course?.code || ''
+        });
+      }
+
+      entries.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+      setRequests(entries);
+    } catch (error) {
+      console.error('Error loading enrollment data:', error);
+    }
+  };
+
+  const handleApprove = async (request: PendingRequest) => {
+    if (!user?.id) return;
+
+    setProcessingRequestId(request.id!);
+    try {
+      await approveEnrollmentRequest(request.id!, user.id);
+      toast({
+        title: "Request Approved",
+        description: `${request.studentName} is now enrolled in ${request.courseName}`,
+      });
+      loadData();
+    } catch (error) {
+      console.error('Error approving request:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to approve request",
+        variant: "destructive"
+      });
+    } finally {
+      setProcessingRequestId(null);
+    }
+  };
+
+  const handleReject = async () => {
+    if (!user?.id || !rejectingRequest) return;
+
+    setProcessingRequestId(rejectingRequest.id!);
+    try {
+      await rejectEnrollmentRequest(rejectingRequest.id!, user.id, rejectReason);
+      toast({
+        title: "Request Declined",
+        description: `${rejectingRequest.studentName} has been notified`,
+      });
+      setRejectingRequest(null);
+      setRejectReason('');
+      loadData();
+    } catch (error) {
+      console.error('Error rejecting request:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to decline request",
+        variant: "destructive"
+      });
+    } finally {
+      setProcessingRequestId(null);
+    }
+  };
+
+  const saveCapacity = async (course: CourseSummary) => {
+    const value = (capacityInputs[course.id!] || '').trim();
+    const capacity = value === '' ? undefined : Number(value);
+
+    if (capacity !== undefined && (!Number.isInteger(capacity) || capacity <= 0)) {
+      toast({
+        title: "Invalid Capacity",
+        description: "Capacity must be a positive whole number, or empty for no limit",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (capacity !== undefined && capacity < course.enrolledCount) {
+      toast({
+        title: "Invalid Capacity",
+        description: `${course.enrolledCount} students are already enrolled in ${course.name}`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      await db.courses.update(course.id!, { capacity, updatedAt: new Date().toISOString() });
+      toast({
+        title: "Capacity Updated",
+        description: capacity ? `${course.name} is limited to ${capacity} students` : `${course.name} has no enrollment limit`,
+      });
+      loadData();
+    } catch (error) {
+      console.error('Error updating capacity:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update capacity",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const updateJoinCode = async (course: CourseSummary, enabled: boolean) => {
+    try {
+      let joinCode: string | undefined;
+      if (enabled) {
+        // Regenerate on the rare collision with another course's code
+        do {
+          joinCode = generateJoinCode();
+        } while (await db.courses.where('joinCode').equals(joinCode).count() > 0);
+      }
+
+      await db.courses.update(course.id!, { joinCode, updatedAt: new Date().toISOString() });
+      toast({
+        title: enabled ? "Join Code Generated" : "Join Code Disabled",
+        description: enabled
+          ? `Students can join ${course.name} with code ${joinCode}`
+          : `The join code for ${course.name} no longer works`,
+      });
+      loadData();
+    } catch (error) {
+      console.error('Error updating join code:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update join code",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <div className="min-h-screen p-6">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-8">
+        <div className="flex items-center space-x-4">
+          <Link to="/dashboard">
+            <Button variant="outline" size="sm">
+              <ArrowLeft size={16} />
+              Back to Dashboard
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-3xl font-bold text-gradient">Enrollments</h1>
+            <p className="text-muted-foreground mt-1">Review join requests and manage course access</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-4xl mx-auto space-y-6">
+        <GlassCard variant="intense">
+          <h2 className="text-xl font-semibold text-glass-foreground mb-4 flex items-center">
+            <UserPlus className="mr-2" size={20} />
+            Pending Requests ({requests.length})
+          </h2>
+          <div className="space-y-3">
+            {requests.map((request) => (
+              <div key={request.id} className="p-4 glass rounded-lg flex items-start justify-between">
+                <div className="flex-1 mr-4">
+                  <div className="flex items-center space-x-3 mb-1">
+                    <p className="font-medium text-glass-foreground">{request.studentName}</p>
+                    <Badge variant="outline">{request.courseCode}</Badge>
+                  </div>
+                  <p className="text-sm text-muted-foreground">{request.studentEmail}</p>
+                  <p className="text-sm text-muted-foreground">{request.courseName}</p>
+                  {request.message && (
+                    <p className="text-sm text-glass-foreground mt-2">"{request.message}"</p>
+                  )}
+                  <p className="text-xs text-muted-foreground mt-2">
+                    Requested {new Date(request.createdAt).toLocaleString()}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Button
+                    variant="success"
+                    size="sm"
+                    onClick={() => handleApprove(request)}
+                    disabled={processingRequestId === request.id}
+                  >
+                    <Check size={14} />
+                    Approve
+                  </Button>
+                  <Button
+                    variant="destructive"
+                    size="sm"
+                    onClick={() => {
+                      setRejectingRequest(request);
+                      setRejectReason('');
+                    }}
+                    disabled={processingRequestId === request.id}
+                  >
+                    <X size={14} />
+                    Decline
+                  </Button>
+                </div>
+              </div>
+            ))}
+            {requests.length === 0 && (
+              <div className="text-center py-8">
+                <UserPlus size={48} className="text-muted-foreground mx-auto mb-4" />
+                <p className="text-muted-foreground">No pending enrollment requests</p>
+              </div>
+            )}
+          </div>
+        </GlassCard>
+
+        <GlassCard variant="intense">
+          <h2 className="text-xl font-semibold text-glass-foreground mb-4 flex items-center">
+            <Users className="mr-2" size={20} />
+            Course Access
+          </h2>
+          <div className="space-y-4">
+            {courses.map((course) => (
+              <div key={course.id} className="p-4 glass rounded-lg space-y-4">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-3">
+                    <h3 className="font-semibold text-glass-foreground">{course.name}</h3>
+                    <Badge variant="outline">{course.code}</Badge>
+                  </div>
+                  <span className="text-sm text-muted-foreground">
+                    {course.capacity ? `${course.enrolledCount}/${course.capacity}` : course.enrolledCount} enrolled
+                  </span>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor={`capacity-${course.id}`} className="text-glass-foreground font-medium">
+                      Capacity
+                    </Label>
+                    <div className="flex space-x-2">
+                      <Input
+                        id={`capacity-${course.id}`}
+                        type="number"
+                        min="1"
+                        value={capacityInputs[course.id!] ?? ''}
+                        onChange={(e) => setCapacityInputs(prev => ({ ...prev, [course.id!]: e.target.value }))}
+                        placeholder="No limit"
+                        className="glass border-glass-border/30 bg-glass/5 text-glass-foreground"
+                      />
+                      <Button variant="outline" size="sm" onClick={() => saveCapacity(course)}>
+                        <Save size={14} />
+                        Save
+                      </Button>
+                    </div>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label className="text-glass-foreground font-medium flex items-center">
+                      <KeyRound size={14} className="mr-2" />
+                      Join Code
+                    </Label>
+                    <div className="flex items-center space-x-2">
+                      {course.joinCode ? (
+                        <>
+                          <span className="font-mono text-lg tracking-widest text-glass-foreground px-3 py-1 glass rounded">
+                            {course.joinCode}
+                          </span>
+                          <Button variant="outline" size="sm" onClick={() => updateJoinCode(course, true)}>
+                            <RefreshCw size={14} />
+                            New Code
+                          </Button>
+                          <Button variant="outline" size="sm" onClick={() => updateJoinCode(course, false)}>
+                            Disable
+                          </Button>
+                        </>
+                      ) : (
+                        <Button variant="outline" size="sm" onClick={() => updateJoinCode(course, true)}>
+                          <KeyRound size={14} />
+                          Generate Code
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              </div>
+            ))}
+            {courses.length === 0 && (
+              <p className="text-sm text-warning">
+                You have not created any courses yet.{' '}
+                <Link to="/instructor/create-course" className="underline">
+                  Create Course
+                </Link>
+              </p>
+            )}
+          </div>
+        </GlassCard>
+      </div>
+
+      {/* Decline Dialog */}
+      <Dialog open={!!rejectingRequest} onOpenChange={(open) => !open && setRejectingRequest(null)}>
+        <DialogContent className="glass border-glass-border/30 max-w-lg">
+          <DialogHeader>
+            <DialogTitle className="text-glass-foreground">Decline Enrollment Request</DialogTitle>
+          </DialogHeader>
+          {rejectingRequest && (
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                {rejectingRequest.studentName} requested to join {rejectingRequest.courseName}
+              </p>
+              <div className="space-y-2">
+                <Label htmlFor="rejectReason" className="text-glass-foreground font-medium">
+                  Reason (sent to the student)
+                </Label>
+                <Textarea
+                  id="rejectReason"
+                  value={rejectReason}
+                  onChange={(e) => setRejectReason(e.target.value)}
+                  placeholder="Optional"
+                  className="glass border-glass-border/30 bg-glass/5 text-glass-foreground"
+                  rows={3}
+                />
+              </div>
+              <div className="flex justify-end space-x-3">
+                <Button variant="outline" onClick={() => setRejectingRequest(null)}>
+                  Cancel
+                </Button>
+                <Button
+                  variant="destructive"
+                  onClick={handleReject}
+                  disabled={processingRequestId === rejectingRequest.id}
+                >
+                  <X size={16} />
+                  Decline Request
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
@@ -0,0 +1,161 @@
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { GlassCard } from '@/components/ui/glass-card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowLeft, ChevronDown, ChevronUp, ClipboardPaste, EyeOff, ShieldCheck } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { QuizIntegrityEvent, QuizSubmission } from '@/lib/database';
+import { FlaggedAttempt, getFlaggedAttempts } from '@/lib/quizIntegrity';
+
+const eventLabels: { [type in QuizIntegrityEvent['type']]: string } = {
+  focus_lost: 'Left the quiz tab',
+  focus_returned: 'Returned to the quiz tab',
+  paste: 'Pasted into an answer'
+};
+
+const formatDuration = (seconds: number) =>
+  seconds >= 60 ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : `${seconds}s`;
+
+export const FlaggedAttempts: React.FC = () => {
+  const { user } = useAuth();
+  const [attempts, setAttempts] = useState<FlaggedAttempt[]>([]);
+  const [quizFilter, setQuizFilter] = useState('all');
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    loadAttempts();
+  }, [user]);
+
+  const loadAttempts = async () => {
+    if (!user?.id) return;
+
+    try {
+      setAttempts(await getFlaggedAttempts(user.id));
+    } catch (error) {
+      console.error('Error loading flagged attempts:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Paste events point at a question; show it by its position in the student's attempt
+  const describeEvent = (submission: QuizSubmission, event: QuizIntegrityEvent) => {
+    const position = event.questionId !== undefined ? (submission.questionOrder || []).indexOf(event.questionId) : -1;
+    return [
+      eventLabels[event.type],
+      position >= 0 ? `question ${position + 1}` : null,
+      event.detail
+    ].filter(Boolean).join(' · ');
+  };
+
+  const quizzes = Array.from(new Map(attempts.map(item => [item.quiz.id!, item.quiz])).values());
+  const filtered = attempts.filter(item => quizFilter === 'all' || item.quiz.id!.toString() === quizFilter);
+
+  return (
+    <div className="min-h-screen p-6">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-8">
+        <div className="flex items-center space-x-4">
+          <Link to="/dashboard">
+            <Button variant="outline" size="sm">
+              <ArrowLeft size={16} />
+              Back to Dashboard
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-3xl font-bold text-gradient">Flagged Attempts</h1>
+            <p className="text-muted-foreground mt-1">Quiz attempts where the student left the tab or pasted text</p>
+          </div>
+        </div>
+        <div className="w-64">
+          <Select value={quizFilter} onValueChange={setQuizFilter}>
+            <SelectTrigger className="glass border-glass-border/30 bg-glass/5 text-glass-foreground">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="glass border-glass-border/30 bg-glass text-glass-foreground">
+              <SelectItem value="all">All quizzes</SelectItem>
+              {quizzes.map((quiz) => (
+                <SelectItem key={quiz.id} value={quiz.id!.toString()}>{quiz.title}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="max-w-3xl mx-auto space-y-6">
+        {filtered.map(({ submission, quiz, student, summary }) => {
+          const isExpanded = expandedId === submission.id;
+
+          return (
+            <GlassCard key={submission.id} variant="intense">
+              <div className="flex items-start justify-between">
+                <div>
+                  <div className="flex items-center space-x-3 mb-1">
+                    <h3 className="font-semibold text-glass-foreground">
+                      {student ? `${student.firstName} ${student.lastName}` : 'Unknown Student'}
+                    </h3>
+                    {submission.attemptNumber && <Badge variant="outline">Attempt {submission.attemptNumber}</Badge>}
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    {quiz.title}
+                    {submission.submittedAt && ` · submitted ${new Date(submission.submittedAt).toLocaleString()}`}
+                    {` · score ${submission.totalScore || 0}/${submission.maxScore}`}
+                  </p>
+                  <div className="flex items-center space-x-4 mt-2 text-sm">
+                    {summary.focusLosses > 0 && (
+                      <span className="flex items-center text-warning">
+                        <EyeOff size={14} className="mr-1" />
+                        Left tab {summary.focusLosses} time{summary.focusLosses === 1 ? '' : 's'} ({formatDuration(summary.secondsAway)} away)
+                      </span>
+                    )}
+                    {summary.pastes > 0 && (
+                      <span className="flex items-center text-warning">
+                        <ClipboardPaste size={14} className="mr-1" />
+                        {summary.pastes} paste{summary.pastes === 1 ? '' : 's'}
+                      </span>
+                    )}
+                  </div>
+                </div>
+                <Button variant="outline" size="sm" onClick={() => setExpandedId(isExpanded ? null : submission.id!)}>
+                  {isExpanded ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+                  Timeline
+                </Button>
+              </div>
+
+              {isExpanded && (
+                <div className="mt-4 space-y-2">
+                  <p className="text-xs text-muted-foreground">
+                    Started {new Date(submission.startedAt).toLocaleTimeString()}
+                  </p>
+                  {(submission.integrityEvents || []).map((event, index) => (
+                    <div key={index} className="flex items-center justify-between p-2 glass rounded-lg text-sm">
+                      <span className="text-glass-foreground">{describeEvent(submission, event)}</span>
+                      <span className="text-muted-foreground">{new Date(event.at).toLocaleTimeString()}</span>
+                    </div>
+                  ))}
+                  {submission.submittedAt && (
+                    <p className="text-xs text-muted-foreground">
+                      Submitted {new Date(submission.submittedAt).toLocaleTimeString()}
+                    </p>
+                  )}
+                </div>
+              )}
+            </GlassCard>
+          );
+        })}
+
+        {!isLoading && filtered.length === 0 && (
+          <GlassCard variant="intense" size="lg">
+            <div className="text-center">
+              <ShieldCheck size={64} className="text-success mx-auto mb-4" />
+              <p className="text-muted-foreground">No flagged attempts</p>
+            </div>
+          </GlassCard>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,208 @@
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { GlassCard } from '@/components/ui/glass-card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { ArrowLeft, CheckCircle, Save } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { getPendingAnswers, gradeAnswerManually, PendingAnswer } from '@/lib/quizGrading';
+import { toast } from '@/hooks/use-toast';
+
+interface GradeInput {
+  points: string;
+  feedback: string;
+}
+
+const answerKey = (item: PendingAnswer) => `${item.submission.id}-${item.question.id}`;
+
+export const GradingQueue: React.FC = () => {
+  const { user } = useAuth();
+  const [pending, setPending] = useState<PendingAnswer[]>([]);
+  const [inputs, setInputs] = useState<{ [key: string]: GradeInput }>({});
+  const [savingKey, setSavingKey] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    loadQueue();
+  }, [user]);
+
+  const loadQueue = async () => {
+    if (!user?.id) return;
+
+    try {
+      setPending(await getPendingAnswers(user.id));
+    } catch (error) {
+      console.error('Error loading grading queue:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const updateInput = (key: string, field: keyof GradeInput, value: string) => {
+    setInputs(prev => ({
+      ...prev,
+      [key]: { points: '', feedback: '', ...prev[key], [field]: value }
+    }));
+  };
+
+  const saveGrade = async (item: PendingAnswer) => {
+    if (!user?.id) return;
+
+    const key = answerKey(item);
+    const input = inputs[key] || { points: '', feedback: '' };
+    if (input.points.trim() === '') {
+      toast({
+        title: "Missing Points",
+        description: "Enter the points to award for this answer",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setSavingKey(key);
+    try {
+      const { submission, isFullyGraded } = await gradeAnswerManually({
+        submissionId: item.submission.id!,
+        questionId: item.question.id!,
+        points: Number(input.points),
+        feedback: input.feedback,
+        gradedBy: user.id
+      });
+
+      const studentName = item.student ? `${item.student.firstName} ${item.student.lastName}` : 'The student';
+      toast({
+        title: "Grade Saved",
+        description: isFullyGraded
+          ? `${studentName}'s submission is fully graded (${submission.totalScore}/${submission.maxScore}) and they have been notified`
+          : "The answer has been graded",
+      });
+
+      setInputs(prev => {
+        const next = { ...prev };
+        delete next[key];
+        return next;
+      });
+      loadQueue();
+    } catch (error) {
+      console.error('Error saving grade:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save grade",
+        variant: "destructive"
+      });
+    } finally {
+      setSavingKey(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen p-6">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-8">
+        <div className="flex items-center space-x-4">
+          <Link to="/dashboard">
+            <Button variant="outline" size="sm">
+              <ArrowLeft size={16} />
+              Back to Dashboard
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-3xl font-bold text-gradient">Grading Queue</h1>
+            <p className="text-muted-foreground mt-1">Grade short-answer responses from your quizzes</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-3xl mx-auto space-y-6">
+        {pending.map((item) => {
+          const key = answerKey(item);
+          const input = inputs[key] || { points: '', feedback: '' };
+
+          return (
+            <GlassCard key={key} variant="intense">
+              <div className="flex items-start justify-between mb-4">
+                <div>
+                  <div className="flex items-center space-x-3 mb-1">
+                    <h3 className="font-semibold text-glass-foreground">{item.quiz.title}</h3>
+                    <Badge variant="outline">{item.question.points} pts</Badge>
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    {item.student ? `${item.student.firstName} ${item.student.lastName}` : 'Unknown Student'}
+                    {item.submission.submittedAt && ` · submitted ${new Date(item.submission.submittedAt).toLocaleString()}`}
+                  </p>
+                </div>
+              </div>
+
+              <div className="space-y-3 mb-4">
+                <p className="text-glass-foreground font-medium">{item.question.question}</p>
+                <div className="p-3 glass rounded-lg">
+                  <p className="text-xs text-muted-foreground mb-1">Student answer</p>
+                  <p className="text-sm text-glass-foreground whitespace-pre-wrap">{item.answer}</p>
+                </div>
+                {item.question.correctAnswer && (
+                  <div className="p-3 glass rounded-lg">
+                    <p className="text-xs text-muted-foreground mb-1">Model answer</p>
+                    <p className="text-sm text-muted-foreground whitespace-pre-wrap">{item.question.correctAnswer}</p>
+                  </div>
+                )}
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor={`points-${key}`} className="text-glass-foreground font-medium">Points *</Label>
+                  <Input
+                    id={`points-${key}`}
+                    type="number"
+                    min="0"
+                    max={item.question.points}
+                    step="0.5"
+                    value={input.points}
+                    onChange={(e) => updateInput(key, 'points', e.target.value)}
+                    placeholder={`0 - ${item.question.points}`}
+                    className="glass border-glass-border/30 bg-glass/5 text-glass-foreground"
+                  />
+                </div>
+                <div className="space-y-2 md:col-span-3">
+                  <Label htmlFor={`feedback-${key}`} className="text-glass-foreground font-medium">Feedback</Label>
+                  <Textarea
+                    id={`feedback-${key}`}
+                    value={input.feedback}
+                    onChange={(e) => updateInput(key, 'feedback', e.target.value)}
+                    placeholder="Optional comments for the student"
+                    className="glass border-glass-border/30 bg-glass/5 text-glass-foreground"
+                    rows={2}
+                  />
+                </div>
+              </div>
+
+              <div className="flex justify-end mt-4">
+                <Button variant="primary" onClick={() => saveGrade(item)} disabled={savingKey === key}>
+                  {savingKey === key ? (
+                    <div className="animate-spin rounded-full h-4 w-4 border-2 border-primary-foreground border-t-transparent" />
+                  ) : (
+                    <>
+                      <Save size={16} />
+                      Save Grade
+                    </>
+                  )}
+                </Button>
+              </div>
+            </GlassCard>
+          );
+        })}
+
+        {!isLoading && pending.length === 0 && (
+          <GlassCard variant="intense" size="lg">
+            <div className="text-center">
+              <CheckCircle size={64} className="text-success mx-auto mb-4" />
+              <p className="text-muted-foreground">All caught up. No answers are waiting to be graded</p>
+            </div>
+          </GlassCard>
+        )}
+      </div>
+    </div>
+  );
+};
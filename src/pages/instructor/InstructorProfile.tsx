@@ -4,7 +4,7 @@ import { GlassCard } from '@/components/ui/glass-card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { ArrowLeft, Save, Edit, User } from 'lucide-react';
+import { ArrowLeft, KeyRound, Save, Edit, User } from 'lucide-react';
 import { Link } from 'react-router-dom';
 import { toast } from '@/hooks/use-toast';
 
@@ -98,12 +98,20 @@ export const InstructorProfile: React.FC = () => {
             <p className="text-muted-foreground mt-1">Manage your account information</p>
           </div>
         </div>
-        {!isEditing && (
-          <Button variant="primary" onClick={() => setIsEditing(true)}>
-            <Edit size={16} />
-            Edit Profile
-          </Button>
-        )}
+        <div className="flex items-center space-x-3">
+          <Link to="/change-password">
+            <Button variant="outline">
+              <KeyRound size={16} />
+              Change Password
+            </Button>
+          </Link>
+          {!isEditing && (
+            <Button variant="primary" onClick={() => setIsEditing(true)}>
+              <Edit size={16} />
+              Edit Profile
+            </Button>
+          )}
+        </div>
       </div>
 
       {/* Profile Card */}
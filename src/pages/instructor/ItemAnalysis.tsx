@@ -0,0 +1,225 @@
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { GlassCard } from '@/components/ui/glass-card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertTriangle, ArrowLeft, BarChart3, CheckCircle, Download } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { db, Quiz } from '@/lib/database';
+import { analyzeQuiz, itemAnalysisToCsv, ItemStatistics, QuizItemAnalysis } from '@/lib/itemAnalysis';
+import { downloadFile, toFileName } from '@/lib/download';
+import { toast } from '@/hooks/use-toast';
+
+// Rules of thumb for spotting questions worth reviewing
+const getItemWarnings = (item: ItemStatistics): string[] => {
+  const warnings: string[] = [];
+  if (item.difficulty < 30) warnings.push('Very hard');
+  if (item.difficulty > 90) warnings.push('Very easy');
+  if (item.discrimination !== null && item.discrimination < 0) warnings.push('Weaker students do better');
+  else if (item.discrimination !== null && item.discrimination < 0.2) warnings.push('Low discrimination');
+  if (item.options.some(option => !option.isCorrect && option.count === 0)) warnings.push('Unused distractor');
+  return warnings;
+};
+
+export const ItemAnalysis: React.FC = () => {
+  const { user } = useAuth();
+  const [quizzes, setQuizzes] = useState<Quiz[]>([]);
+  const [selectedQuiz, setSelectedQuiz] = useState<string>('');
+  const [analysis, setAnalysis] = useState<QuizItemAnalysis | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    loadQuizzes();
+  }, [user]);
+
+  useEffect(() => {
+    loadAnalysis();
+  }, [selectedQuiz]);
+
+  const loadQuizzes = async () => {
+    if (!user?.id) return;
+
+    try {
+      const instructorQuizzes = await db.quizzes.where('instructorId').equals(user.id).toArray();
+      setQuizzes(instructorQuizzes.sort((a, b) => b.createdAt.localeCompare(a.createdAt)));
+    } catch (error) {
+      console.error('Error loading quizzes:', error);
+    }
+  };
+
+  const loadAnalysis = async () => {
+    if (!selectedQuiz) {
+      setAnalysis(null);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      setAnalysis(await analyzeQuiz(parseInt(selectedQuiz)));
+    } catch (error) {
+      console.error('Error analyzing quiz:', error);
+      toast({
+        title: "Error",
+        description: "Failed to analyze quiz",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleExport = () => {
+    if (!analysis) return;
+    downloadFile(`${toFileName(analysis.quiz.title)}_item_analysis.csv`, itemAnalysisToCsv(analysis), 'text/csv');
+  };
+
+  const summaryCards = analysis ? [
+    { label: 'Students', value: analysis.students.toString() },
+    { label: 'Mean Score', value: `${analysis.meanScore}%` },
+    { label: "Cronbach's Alpha", value: analysis.alpha?.toFixed(2) ?? 'N/A' },
+    { label: 'Awaiting Grading', value: analysis.pendingGrading.toString() }
+  ] : [];
+
+  return (
+    <div className="min-h-screen p-6">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-8">
+        <div className="flex items-center space-x-4">
+          <Link to="/instructor/analytics">
+            <Button variant="outline" size="sm">
+              <ArrowLeft size={16} />
+              Back to Analytics
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-3xl font-bold text-gradient">Item Analysis</h1>
+            <p className="text-muted-foreground mt-1">See how each question performed</p>
+          </div>
+        </div>
+        <Button variant="outline" onClick={handleExport} disabled={!analysis || analysis.students === 0}>
+          <Download size={16} />
+          Export CSV
+        </Button>
+      </div>
+
+      <div className="max-w-4xl mx-auto space-y-6">
+        <GlassCard variant="intense">
+          <div className="space-y-2">
+            <Label className="text-glass-foreground font-medium">Quiz</Label>
+            <Select value={selectedQuiz} onValueChange={setSelectedQuiz}>
+              <SelectTrigger className="glass border-glass-border/30 bg-glass/5 text-glass-foreground">
+                <SelectValue placeholder={quizzes.length > 0 ? "Select a quiz" : "No quizzes yet"} />
+              </SelectTrigger>
+              <SelectContent className="glass border-glass-border/30 bg-glass text-glass-foreground">
+                {quizzes.map((quiz) => (
+                  <SelectItem key={quiz.id} value={quiz.id!.toString()}>
+                    {quiz.title} · {new Date(quiz.createdAt).toLocaleDateString()}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <p className="text-xs text-muted-foreground mt-3">
+            Uses each student's first attempt. Discrimination compares the top and bottom 27% of students by total score
+          </p>
+        </GlassCard>
+
+        {isLoading && (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-2 border-primary border-t-transparent"></div>
+          </div>
+        )}
+
+        {!isLoading && analysis && (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {summaryCards.map((card) => (
+                <GlassCard key={card.label} variant="intense" className="text-center">
+                  <h3 className="text-2xl font-bold text-glass-foreground mb-1">{card.value}</h3>
+                  <p className="text-muted-foreground text-sm">{card.label}</p>
+                </GlassCard>
+              ))}
+            </div>
+
+            {analysis.students === 0 ? (
+              <GlassCard variant="intense" size="lg">
+                <div className="text-center">
+                  <BarChart3 size={64} className="text-muted-foreground mx-auto mb-4" />
+                  <p className="text-muted-foreground">No graded attempts for this quiz yet</p>
+                </div>
+              </GlassCard>
+            ) : (
+              analysis.items.map((item, index) => {
+                const warnings = getItemWarnings(item);
+                const responses = analysis.students;
+
+                return (
+                  <GlassCard key={item.question.id} variant="intense">
+                    <div className="flex items-start justify-between mb-4">
+                      <h3 className="font-semibold text-glass-foreground">
+                        {index + 1}. {item.question.question}
+                      </h3>
+                      <Badge variant="outline">{item.question.type.replace('_', ' ')}</Badge>
+                    </div>
+
+                    <div className="grid grid-cols-3 gap-4 mb-4">
+                      <div className="p-3 glass rounded-lg">
+                        <div className="text-xl font-bold text-glass-foreground">{item.difficulty}%</div>
+                        <div className="text-xs text-muted-foreground">Difficulty (correct)</div>
+                      </div>
+                      <div className="p-3 glass rounded-lg">
+                        <div className="text-xl font-bold text-glass-foreground">{item.discrimination?.toFixed(2) ?? 'N/A'}</div>
+                        <div className="text-xs text-muted-foreground">Discrimination</div>
+                      </div>
+                      <div className="p-3 glass rounded-lg">
+                        <div className="text-xl font-bold text-glass-foreground">{item.omitted}</div>
+                        <div className="text-xs text-muted-foreground">Omitted</div>
+                      </div>
+                    </div>
+
+                    {item.options.length > 0 && (
+                      <div className="space-y-2 mb-2">
+                        {item.options.map((option, optionIndex) => {
+                          const percentage = responses > 0 ? Math.round(option.count / responses * 100) : 0;
+                          return (
+                            <div key={optionIndex} className="flex items-center space-x-3 text-sm">
+                              <span className="w-6 text-muted-foreground">{String.fromCharCode(65 + optionIndex)}.</span>
+                              <span className="flex-1 text-glass-foreground flex items-center">
+                                {option.option}
+                                {option.isCorrect && <CheckCircle size={14} className="text-success ml-2" />}
+                              </span>
+                              <div className="w-32 h-2 bg-glass rounded-full overflow-hidden">
+                                <div
+                                  className={`h-full rounded-full ${option.isCorrect ? 'bg-success' : 'bg-gradient-secondary'}`}
+                                  style={{ width: `${percentage}%` }}
+                                ></div>
+                              </div>
+                              <span className="w-20 text-right text-muted-foreground">{option.count} ({percentage}%)</span>
+                            </div>
+                          );
+                        })}
+                      </div>
+                    )}
+
+                    {warnings.length > 0 && (
+                      <div className="flex flex-wrap gap-2 mt-3">
+                        {warnings.map((warning) => (
+                          <span key={warning} className="flex items-center text-xs text-warning">
+                            <AlertTriangle size={12} className="mr-1" />
+                            {warning}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                  </GlassCard>
+                );
+              })
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,471 @@
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { GlassCard } from '@/components/ui/glass-card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Badge } from '@/components/ui/badge';
+import { ArrowLeft, QrCode, Users, Clock, Square, ScanLine, CheckCircle, XCircle, LogOut, ClipboardCheck } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { QRCodeSVG } from 'qrcode.react';
+import { QrScanner } from '@/components/attendance/QrScanner';
+import { db, ClassSession, AttendanceRecord } from '@/lib/database';
+import { getManualEntryCode, issueSessionQrToken, verifyStudentQrToken } from '@/lib/qrToken';
+import { countsAsAttended, evaluateCheckIn, getAttendancePolicy } from '@/lib/attendancePolicy';
+import { closeSession } from '@/lib/sessionClose';
+import { toast } from '@/hooks/use-toast';
+
+interface RosterEntry extends AttendanceRecord {
+  studentName: string;
+  studentEmail: string;
+}
+
+export const LiveSession: React.FC = () => {
+  const { user } = useAuth();
+  const [sessions, setSessions] = useState<ClassSession[]>([]);
+  const [selectedSessionId, setSelectedSessionId] = useState<string>('');
+  const [isProjecting, setIsProjecting] = useState(false);
+  const [qrToken, setQrToken] = useState('');
+  const [qrExpiry, setQrExpiry] = useState<number>(0);
+  const [secondsLeft, setSecondsLeft] = useState(0);
+  const [roster, setRoster] = useState<RosterEntry[]>([]);
+  const [isProcessingScan, setIsProcessingScan] = useState(false);
+  const [isEndingSession, setIsEndingSession] = useState(false);
+
+  useEffect(() => {
+    loadSessions();
+  }, [user]);
+
+  const loadSessions = async () => {
+    if (!user?.id) return;
+
+    try {
+      const today = new Date().toISOString().split('T')[0];
+      const todaySessions = await db.classSessions
+        .where('instructorId').equals(user.id)
+        .and(session => session.isActive && session.date === today)
+        .toArray();
+
+      todaySessions.sort((a, b) => a.startTime.localeCompare(b.startTime));
+      setSessions(todaySessions);
+    } catch (error) {
+      console.error('Error loading sessions:', error);
+    }
+  };
+
+  const loadRoster = async (sessionId: number) => {
+    try {
+      const records = await db.attendanceRecords.where('sessionId').equals(sessionId).toArray();
+      const entries: RosterEntry[] = [];
+
+      for (const record of records) {
+        const student = await db.users.get(record.studentId);
+        entries.push({
+          ...record,
+          studentName: student ? `${student.firstName} ${student.lastName}` : 'Unknown Student',
+          studentEmail: student?.email || ''
+        });
+      }
+
+      entries.sort((a, b) => (b.checkInTime || '').localeCompare(a.checkInTime || ''));
+      setRoster(entries);
+    } catch (error) {
+      console.error('Error loading roster:', error);
+    }
+  };
+
+  useEffect(() => {
+    if (selectedSessionId) {
+      loadRoster(parseInt(selectedSessionId));
+    } else {
+      setRoster([]);
+    }
+  }, [selectedSessionId]);
+
+  // Rotate the projected code whenever the current one expires
+  useEffect(() => {
+    if (!isProjecting || !selectedSessionId) return;
+
+    const sessionId = parseInt(selectedSessionId);
+    let rotationTimer: ReturnType<typeof setTimeout> | undefined;
+    let cancelled = false;
+
+    const rotate = async () => {
+      try {
+        const { token, expiresAt } = await issueSessionQrToken(sessionId);
+        if (cancelled) return;
+
+        const expiry = new Date(expiresAt).getTime();
+        setQrToken(token);
+        setQrExpiry(expiry);
+        loadRoster(sessionId);
+        rotationTimer = setTimeout(rotate, Math.max(expiry - Date.now(), 1000));
+      } catch (error) {
+        console.error('Error rotating QR code:', error);
+        toast({
+          title: "QR Code Error",
+          description: "Failed to generate a new check-in code",
+          variant: "destructive"
+        });
+        setIsProjecting(false);
+      }
+    };
+
+    rotate();
+
+    return () => {
+      cancelled = true;
+      if (rotationTimer) clearTimeout(rotationTimer);
+    };
+  }, [isProjecting, selectedSessionId]);
+
+  // Countdown shown under the code
+  useEffect(() => {
+    if (!isProjecting) return;
+
+    const tick = () => setSecondsLeft(Math.max(0, Math.ceil((qrExpiry - Date.now()) / 1000)));
+    tick();
+    const countdown = setInterval(tick, 1000);
+    return () => clearInterval(countdown);
+  }, [isProjecting, qrExpiry]);
+
+  const startProjecting = () => {
+    if (!selectedSessionId) {
+      toast({
+        title: "Select Session",
+        description: "Please select a session to start",
+        variant: "destructive"
+      });
+      return;
+    }
+    setIsProjecting(true);
+  };
+
+  const stopProjecting = () => {
+    setIsProjecting(false);
+    setQrToken('');
+    setQrExpiry(0);
+  };
+
+  // Reverse check-in: the instructor scans the code shown on a student's device
+  const handleStudentScan = async (payload: string) => {
+    const session = sessions.find(s => s.id?.toString() === selectedSessionId);
+    if (!session || isProcessingScan) return;
+
+    setIsProcessingScan(true);
+    try {
+      const student = await verifyStudentQrToken(payload, session);
+
+      const existingRecord = await db.attendanceRecords
+        .where('sessionId').equals(session.id!)
+        .and(record => record.studentId === student.id)
+        .first();
+
+      if (existingRecord) {
+        toast({
+          title: "Already Checked In",
+          description: `${student.firstName} ${student.lastName} is already on the roster`,
+        });
+        return;
+      }
+
+      const checkInTime = new Date();
+      const evaluation = evaluateCheckIn(session, checkInTime, await getAttendancePolicy());
+      if (evaluation.decision === 'rejected') {
+        throw new Error(evaluation.message);
+      }
+
+      await db.attendanceRecords.add({
+        sessionId: session.id!,
+        studentId: student.id!,
+        status: evaluation.decision,
+        checkInTime: checkInTime.toISOString(),
+        checkInMethod: 'qr',
+        isManualOverride: false,
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString()
+      });
+
+      toast({
+        title: "Student Checked In",
+        description: `${student.firstName} ${student.lastName} has been marked ${evaluation.decision}`,
+      });
+
+      loadRoster(session.id!);
+    } catch (error) {
+      console.error('Error scanning student code:', error);
+      toast({
+        title: "Scan Rejected",
+        description: error instanceof Error ? error.message : "Invalid student QR code",
+        variant: "destructive"
+      });
+    } finally {
+      setIsProcessingScan(false);
+    }
+  };
+
+  // Ending a session closes check-in and marks everyone who did not check in as absent
+  const endSession = async () => {
+    const session = sessions.find(s => s.id?.toString() === selectedSessionId);
+    if (!session) return;
+
+    if (!confirm(`End ${session.title}? Students who have not checked in will be marked absent.`)) {
+      return;
+    }
+
+    setIsEndingSession(true);
+    try {
+      stopProjecting();
+      const result = await closeSession(session.id!);
+
+      toast({
+        title: "Session Ended",
+        description: result
+          ? `${session.title} is closed. ${result.absentCount} student(s) marked absent`
+          : `${session.title} was already closed`,
+      });
+
+      setSelectedSessionId('');
+      loadSessions();
+    } catch (error) {
+      console.error('Error ending session:', error);
+      toast({
+        title: "Error",
+        description: "Failed to end session",
+        variant: "destructive"
+      });
+    } finally {
+      setIsEndingSession(false);
+    }
+  };
+
+  const selectedSession = sessions.find(s => s.id?.toString() === selectedSessionId);
+  // Closing a session adds absent records, and overrides can mark anyone absent or excused
+  const checkedIn = roster.filter(entry => countsAsAttended(entry.status));
+  const notAttending = roster.filter(entry => !countsAsAttended(entry.status));
+
+  return (
+    <div className="min-h-screen p-6">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-8">
+        <div className="flex items-center space-x-4">
+          <Link to="/dashboard">
+            <Button variant="outline" size="sm">
+              <ArrowLeft size={16} />
+              Back to Dashboard
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-3xl font-bold text-gradient">Live Session</h1>
+            <p className="text-muted-foreground mt-1">Run QR check-in for today's class sessions</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-2xl mx-auto space-y-6">
+        <GlassCard variant="intense">
+          <div className="space-y-2">
+            <Label className="text-glass-foreground font-medium">Today's Session</Label>
+            <Select
+              value={selectedSessionId}
+              onValueChange={(value) => {
+                stopProjecting();
+                setSelectedSessionId(value);
+              }}
+            >
+              <SelectTrigger className="glass border-glass-border/30 bg-glass/5 text-glass-foreground">
+                <SelectValue placeholder={sessions.length > 0 ? "Select session" : "No active sessions today"} />
+              </SelectTrigger>
+              <SelectContent className="glass border-glass-border/30 bg-glass text-glass-foreground">
+                {sessions.map((session) => (
+                  <SelectItem key={session.id} value={session.id!.toString()}>
+                    {session.title} ({session.startTime} - {session.endTime})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {sessions.length === 0 && (
+              <p className="text-sm text-warning mt-1">
+                You have no active sessions today.{' '}
+                <Link to="/instructor/schedule-course" className="underline">
+                  Schedule Course
+                </Link>
+              </p>
+            )}
+          </div>
+          {selectedSession && (
+            <div className="flex items-center justify-between mt-4 pt-4 border-t border-glass-border/20">
+              <p className="text-sm text-muted-foreground">
+                Closes automatically at {selectedSession.endTime}
+              </p>
+              <div className="flex items-center space-x-2">
+                <Link to="/instructor/session-roster" state={{ sessionId: selectedSession.id }}>
+                  <Button variant="outline" size="sm">
+                    <ClipboardCheck size={14} />
+                    Full Roster
+                  </Button>
+                </Link>
+                <Button variant="destructive" size="sm" onClick={endSession} disabled={isEndingSession}>
+                  {isEndingSession ? (
+                    <div className="animate-spin rounded-full h-4 w-4 border-2 border-destructive-foreground border-t-transparent" />
+                  ) : (
+                    <>
+                      <LogOut size={14} />
+                      End Session
+                    </>
+                  )}
+                </Button>
+              </div>
+            </div>
+          )}
+        </GlassCard>
+
+        <Tabs defaultValue="project" className="space-y-6">
+          <TabsList className="glass">
+            <TabsTrigger value="project" className="flex items-center space-x-2">
+              <QrCode size={16} />
+              <span>Project QR Code</span>
+            </TabsTrigger>
+            <TabsTrigger value="scan" className="flex items-center space-x-2">
+              <ScanLine size={16} />
+              <span>Scan Students</span>
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="project">
+            <GlassCard variant="intense" size="lg">
+              <div className="text-center">
+                {isProjecting && qrToken ? (
+                  <>
+                    <h2 className="text-2xl font-semibold text-glass-foreground mb-6">{selectedSession?.title}</h2>
+                    <div className="bg-white p-6 rounded-2xl mx-auto w-fit mb-6">
+                      <QRCodeSVG value={qrToken} size={256} level="M" />
+                    </div>
+                    <p className="text-muted-foreground text-sm mb-1">No camera? Enter this code</p>
+                    <p className="text-3xl font-mono font-semibold tracking-widest text-glass-foreground mb-4">
+                      {getManualEntryCode(qrToken)}
+                    </p>
+                    <div className="flex items-center justify-center space-x-6 mb-6">
+                      <div className="flex items-center text-glass-foreground">
+                        <Clock size={16} className="mr-2" />
+                        New code in {secondsLeft}s
+                      </div>
+                      <div className="flex items-center text-glass-foreground">
+                        <Users size={16} className="mr-2" />
+                        {checkedIn.length} checked in
+                      </div>
+                    </div>
+                    <Button variant="destructive" onClick={stopProjecting}>
+                      <Square size={16} />
+                      Stop
+                    </Button>
+                  </>
+                ) : (
+                  <>
+                    <QrCode size={64} className="text-muted-foreground mx-auto mb-4" />
+                    <p className="text-muted-foreground mb-6">
+                      Start the session to display a check-in code that refreshes automatically
+                    </p>
+                    <Button variant="primary" onClick={startProjecting} disabled={!selectedSessionId}>
+                      <QrCode size={16} />
+                      Start Check-In
+                    </Button>
+                  </>
+                )}
+              </div>
+            </GlassCard>
+          </TabsContent>
+
+          <TabsContent value="scan">
+            <GlassCard variant="intense" size="lg">
+              <div className="text-center">
+                {selectedSession ? (
+                  <>
+                    <h2 className="text-2xl font-semibold text-glass-foreground mb-6">Scan Student Codes</h2>
+                    <QrScanner onDecode={handleStudentScan} paused={isProcessingScan} />
+                    <p className="text-muted-foreground mt-4">
+                      Ask each student to open Quick Check In and generate their QR code
+                    </p>
+                  </>
+                ) : (
+                  <>
+                    <ScanLine size={64} className="text-muted-foreground mx-auto mb-4" />
+                    <p className="text-muted-foreground">Select a session to start scanning student codes</p>
+                  </>
+                )}
+              </div>
+            </GlassCard>
+          </TabsContent>
+        </Tabs>
+
+        <GlassCard variant="intense">
+          <h2 className="text-xl font-semibold text-glass-foreground mb-4 flex items-center">
+            <Users className="mr-2" size={20} />
+            Checked In ({checkedIn.length})
+          </h2>
+          <div className="space-y-3">
+            {checkedIn.map((entry) => (
+              <div key={entry.id} className="flex items-center justify-between p-3 glass rounded-lg">
+                <div className="flex items-center space-x-3">
+                  {entry.status === 'late' ? (
+                    <Clock size={16} className="text-warning" />
+                  ) : (
+                    <CheckCircle size={16} className="text-success" />
+                  )}
+                  <div>
+                    <p className="text-sm font-medium text-glass-foreground">{entry.studentName}</p>
+                    <p className="text-xs text-muted-foreground">{entry.studentEmail}</p>
+                  </div>
+                </div>
+                <div className="flex items-center space-x-2">
+                  {entry.status === 'late' && <Badge variant="outline" className="text-warning">Late</Badge>}
+                  <Badge variant="outline">{entry.checkInMethod?.toUpperCase()}</Badge>
+                  <span className="text-xs text-muted-foreground">
+                    {entry.checkInTime ? new Date(entry.checkInTime).toLocaleTimeString() : ''}
+                  </span>
+                </div>
+              </div>
+            ))}
+            {checkedIn.length === 0 && (
+              <div className="text-center py-8">
+                <Users size={48} className="text-muted-foreground mx-auto mb-4" />
+                <p className="text-muted-foreground">No students have checked in yet</p>
+              </div>
+            )}
+          </div>
+        </GlassCard>
+
+        {notAttending.length > 0 && (
+          <GlassCard variant="intense">
+            <h2 className="text-xl font-semibold text-glass-foreground mb-4 flex items-center">
+              <XCircle className="mr-2" size={20} />
+              Absent or Excused ({notAttending.length})
+            </h2>
+            <div className="space-y-3">
+              {notAttending.map((entry) => (
+                <div key={entry.id} className="flex items-center justify-between p-3 glass rounded-lg">
+                  <div className="flex items-center space-x-3">
+                    <XCircle size={16} className={entry.status === 'excused' ? 'text-primary' : 'text-destructive'} />
+                    <div>
+                      <p className="text-sm font-medium text-glass-foreground">{entry.studentName}</p>
+                      <p className="text-xs text-muted-foreground">{entry.studentEmail}</p>
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    {entry.isManualOverride && <Badge variant="outline">Override</Badge>}
+                    {entry.status === 'excused' ? (
+                      <Badge variant="outline" className="text-primary">Excused</Badge>
+                    ) : (
+                      <Badge variant="outline" className="text-destructive">Absent</Badge>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </GlassCard>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,385 @@
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { GlassCard } from '@/components/ui/glass-card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowLeft, CalendarClock, Clock, MapPin, Pencil, Repeat, Save, XCircle } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { db, ClassSession, Course, Room } from '@/lib/database';
+import { getSessionEnd, getSessionStart } from '@/lib/attendancePolicy';
+import { DEFAULT_ZONE_RADIUS } from '@/lib/geofence';
+import { formatRoom, getRoomZone, getRooms } from '@/lib/rooms';
+import { cancelSeriesSessions, formatDate, SessionChanges, updateSeriesSessions } from '@/lib/sessionSeries';
+import { notifySessionsCancelled, notifySessionsRescheduled } from '@/lib/sessionChanges';
+import { toast } from '@/hooks/use-toast';
+
+interface SessionAction {
+  mode: 'reschedule' | 'cancel';
+  session: ClassSession;
+  date: string;
+  startTime: string;
+  endTime: string;
+  roomId: string;
+  location: string;
+  reason: string;
+}
+
+const describeSession = (session: Pick<ClassSession, 'date' | 'startTime' | 'endTime'>) =>
+  `${new Date(`${session.date}T00:00`).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' })} ${session.startTime} - ${session.endTime}`;
+
+export const ManageSessions: React.FC = () => {
+  const { user } = useAuth();
+  const [sessions, setSessions] = useState<ClassSession[]>([]);
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [rooms, setRooms] = useState<Room[]>([]);
+  const [action, setAction] = useState<SessionAction | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    loadSessions();
+  }, [user]);
+
+  const loadSessions = async () => {
+    if (!user?.id) return;
+
+    try {
+      const today = formatDate(new Date());
+      const instructorSessions = await db.classSessions
+        .where('instructorId').equals(user.id)
+        .and(session => session.date >= today)
+        .toArray();
+
+      setSessions(instructorSessions.sort((a, b) => `${a.date}T${a.startTime}`.localeCompare(`${b.date}T${b.startTime}`)));
+      setCourses(await db.courses.where('instructorId').equals(user.id).toArray());
+      setRooms(await getRooms());
+    } catch (error) {
+      console.error('Error loading sessions:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const openAction = (mode: SessionAction['mode'], session: ClassSession) => {
+    setAction({
+      mode,
+      session,
+      date: session.date,
+      startTime: session.startTime,
+      endTime: session.endTime,
+      roomId: session.roomId?.toString() || '',
+      location: session.location || '',
+      reason: ''
+    });
+  };
+
+  const handleRoomChange = (roomId: string) => {
+    if (!action) return;
+    const room = rooms.find(r => r.id?.toString() === roomId);
+    setAction({ ...action, roomId, location: room ? formatRoom(room) : action.location });
+  };
+
+  // A new room brings its own check-in zone; the session's check-in method must still work there
+  const buildChanges = (current: SessionAction): SessionChanges => {
+    const { session } = current;
+    const changes: SessionChanges = {
+      date: current.date,
+      startTime: current.startTime,
+      endTime: current.endTime,
+      location: current.location.trim()
+    };
+
+    if (current.roomId !== (session.roomId?.toString() || '')) {
+      const room = rooms.find(r => r.id?.toString() === current.roomId);
+      changes.roomId = room?.id;
+      if (room) {
+        changes.attendanceZone = { radius: session.attendanceZone?.radius ?? DEFAULT_ZONE_RADIUS, ...getRoomZone(room) };
+        if (session.checkInMethod === 'gps' && changes.attendanceZone.latitude === undefined) {
+          throw new Error(`${formatRoom(room)} has no GPS location for GPS check-in`);
+        }
+        if (session.checkInMethod === 'ip' && !changes.attendanceZone.ipRange) {
+          throw new Error(`${formatRoom(room)} has no network ranges for IP check-in`);
+        }
+      }
+    }
+
+    if (!changes.location) {
+      throw new Error('Location is required');
+    }
+    return changes;
+  };
+
+  const handleConfirm = async () => {
+    if (!action || !user?.id) return;
+
+    setIsSaving(true);
+    try {
+      if (action.mode === 'reschedule') {
+        const changes = buildChanges(action);
+        const previous = await updateSeriesSessions(action.session.id!, changes, 'single');
+        await notifySessionsRescheduled(previous, previous.map(session => ({ ...session, ...changes })), user.id);
+
+        toast({
+          title: "Session Rescheduled",
+          description: "The session has been updated and students have been notified",
+        });
+      } else {
+        const cancelled = await cancelSeriesSessions(action.session.id!, 'single', action.reason);
+        await notifySessionsCancelled(cancelled, action.reason, user.id);
+
+        toast({
+          title: "Session Cancelled",
+          description: "Students have been notified of the cancellation",
+        });
+      }
+
+      setAction(null);
+      await loadSessions();
+    } catch (error) {
+      console.error('Error updating session:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update session",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const now = new Date();
+  const getCourse = (courseId: number) => courses.find(course => course.id === courseId);
+
+  return (
+    <div className="min-h-screen p-6">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-8">
+        <div className="flex items-center space-x-4">
+          <Link to="/dashboard">
+            <Button variant="outline" size="sm">
+              <ArrowLeft size={16} />
+              Back to Dashboard
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-3xl font-bold text-gradient">Manage Sessions</h1>
+            <p className="text-muted-foreground mt-1">Reschedule or cancel upcoming class sessions</p>
+          </div>
+        </div>
+        <Link to="/instructor/session-series">
+          <Button variant="outline">
+            <Repeat size={16} />
+            Manage Series
+          </Button>
+        </Link>
+      </div>
+
+      <div className="max-w-3xl mx-auto space-y-3">
+        {sessions.map((session) => {
+          const course = getCourse(session.courseId);
+          const hasStarted = getSessionStart(session) <= now;
+          const canCancel = !session.cancelledAt && session.isActive && getSessionEnd(session) > now;
+
+          return (
+            <GlassCard key={session.id} variant="intense" className={session.cancelledAt ? 'opacity-60' : ''}>
+              <div className="flex items-start justify-between">
+                <div>
+                  <div className="flex items-center space-x-2">
+                    <h3 className="font-semibold text-glass-foreground">{session.title}</h3>
+                    {session.seriesId && <Badge variant="outline">Series</Badge>}
+                    {session.cancelledAt && <Badge variant="destructive">Cancelled</Badge>}
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    {course ? `${course.name} (${course.code})` : 'Unknown Course'}
+                  </p>
+                  <div className="flex flex-wrap items-center gap-4 mt-2 text-sm text-muted-foreground">
+                    <span className="flex items-center">
+                      <Clock size={14} className="mr-1" />
+                      {describeSession(session)}
+                    </span>
+                    {session.location && (
+                      <span className="flex items-center">
+                        <MapPin size={14} className="mr-1" />
+                        {session.location}
+                      </span>
+                    )}
+                  </div>
+                  {session.cancellationReason && (
+                    <p className="text-sm text-destructive mt-2">Reason: {session.cancellationReason}</p>
+                  )}
+                </div>
+                {!session.cancelledAt && (
+                  <div className="flex space-x-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => openAction('reschedule', session)}
+                      disabled={hasStarted}
+                    >
+                      <Pencil size={14} />
+                      Reschedule
+                    </Button>
+                    <Button
+                      variant="destructive"
+                      size="sm"
+                      onClick={() => openAction('cancel', session)}
+                      disabled={!canCancel}
+                    >
+                      <XCircle size={14} />
+                      Cancel
+                    </Button>
+                  </div>
+                )}
+              </div>
+            </GlassCard>
+          );
+        })}
+
+        {!isLoading && sessions.length === 0 && (
+          <GlassCard variant="intense" size="lg">
+            <div className="text-center">
+              <CalendarClock size={64} className="text-muted-foreground mx-auto mb-4" />
+              <p className="text-muted-foreground">
+                No upcoming sessions. <Link to="/instructor/schedule-course" className="underline">Schedule a class</Link>
+              </p>
+            </div>
+          </GlassCard>
+        )}
+      </div>
+
+      <Dialog open={!!action} onOpenChange={(open) => !open && setAction(null)}>
+        <DialogContent className="glass border-glass-border/30">
+          <DialogHeader>
+            <DialogTitle className="text-glass-foreground">
+              {action?.mode === 'reschedule' ? 'Reschedule Session' : 'Cancel Session'}
+            </DialogTitle>
+          </DialogHeader>
+
+          {action && (
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                {action.session.title} · {describeSession(action.session)}
+              </p>
+
+              {action.mode === 'reschedule' && (
+                <>
+                  <div className="grid grid-cols-3 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="sessionDate" className="text-glass-foreground font-medium">Date</Label>
+                      <Input
+                        id="sessionDate"
+                        type="date"
+                        value={action.date}
+                        min={formatDate(new Date())}
+                        onChange={(e) => setAction({ ...action, date: e.target.value })}
+                        className="glass border-glass-border/30 bg-glass/5 text-glass-foreground"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="sessionStart" className="text-glass-foreground font-medium">Start</Label>
+                      <Input
+                        id="sessionStart"
+                        type="time"
+                        value={action.startTime}
+                        onChange={(e) => setAction({ ...action, startTime: e.target.value })}
+                        className="glass border-glass-border/30 bg-glass/5 text-glass-foreground"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="sessionEnd" className="text-glass-foreground font-medium">End</Label>
+                      <Input
+                        id="sessionEnd"
+                        type="time"
+                        value={action.endTime}
+                        onChange={(e) => setAction({ ...action, endTime: e.target.value })}
+                        className="glass border-glass-border/30 bg-glass/5 text-glass-foreground"
+                      />
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label className="text-glass-foreground font-medium">Room</Label>
+                      <Select value={action.roomId || 'none'} onValueChange={(value) => handleRoomChange(value === 'none' ? '' : value)}>
+                        <SelectTrigger className="glass border-glass-border/30 bg-glass/5 text-glass-foreground">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent className="glass border-glass-border/30 bg-glass text-glass-foreground">
+                          <SelectItem value="none">No room</SelectItem>
+                          {rooms.map((room) => (
+                            <SelectItem key={room.id} value={room.id!.toString()}>{formatRoom(room)}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="sessionLocation" className="text-glass-foreground font-medium">Location</Label>
+                      <Input
+                        id="sessionLocation"
+                        value={action.location}
+                        onChange={(e) => setAction({ ...action, location: e.target.value })}
+                        className="glass border-glass-border/30 bg-glass/5 text-glass-foreground"
+                      />
+                    </div>
+                  </div>
+
+                  <p className="text-xs text-muted-foreground">
+                    Enrolled students will receive the old and new details.
+                    {action.session.seriesId && ' Only this occurrence changes; use Manage Series to change following sessions too'}
+                  </p>
+                </>
+              )}
+
+              {action.mode === 'cancel' && (
+                <div className="space-y-2">
+                  <Label htmlFor="sessionCancelReason" className="text-glass-foreground font-medium">Reason *</Label>
+                  <Textarea
+                    id="sessionCancelReason"
+                    value={action.reason}
+                    onChange={(e) => setAction({ ...action, reason: e.target.value })}
+                    placeholder="e.g., Public holiday, instructor unwell"
+                    className="glass border-glass-border/30 bg-glass/5 text-glass-foreground"
+                    rows={3}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Enrolled students will be notified with this reason. Cancelled sessions do not count toward attendance
+                  </p>
+                </div>
+              )}
+
+              <div className="flex justify-end space-x-3">
+                <Button variant="outline" onClick={() => setAction(null)}>
+                  Back
+                </Button>
+                <Button
+                  variant={action.mode === 'reschedule' ? 'primary' : 'destructive'}
+                  onClick={handleConfirm}
+                  disabled={isSaving || (action.mode === 'cancel' && !action.reason.trim())}
+                >
+                  {isSaving ? (
+                    <div className="animate-spin rounded-full h-4 w-4 border-2 border-primary-foreground border-t-transparent" />
+                  ) : action.mode === 'reschedule' ? (
+                    <>
+                      <Save size={16} />
+                      Save Changes
+                    </>
+                  ) : (
+                    <>
+                      <XCircle size={16} />
+                      Cancel Session
+                    </>
+                  )}
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
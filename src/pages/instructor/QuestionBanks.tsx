@@ -0,0 +1,554 @@
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { GlassCard } from '@/components/ui/glass-card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowLeft, Plus, Trash2, Save, Pencil, Library, Upload, Download, FunctionSquare } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { db, Question, QuestionBank } from '@/lib/database';
+import {
+  QuestionDraft,
+  addQuestionsToBank,
+  createEmptyQuestion,
+  createQuestionBank,
+  deleteQuestion,
+  deleteQuestionBank,
+  getBankQuestions,
+  getInstructorBanks,
+  parseTags,
+  updateQuestion,
+  updateQuestionBank
+} from '@/lib/questionBank';
+import { QuestionFormat, questionFormats, serializeQuestions } from '@/lib/questionFormats';
+import { downloadFile, toFileName } from '@/lib/download';
+import { QuestionEditor } from '@/components/quiz/QuestionEditor';
+import { QuestionImportDialog } from '@/components/quiz/QuestionImportDialog';
+import { toast } from '@/hooks/use-toast';
+
+interface BankForm {
+  name: string;
+  description: string;
+  tags: string;
+}
+
+const emptyBankForm: BankForm = { name: '', description: '', tags: '' };
+
+const typeLabels: { [type in Question['type']]: string } = {
+  multiple_choice: 'Multiple Choice',
+  true_false: 'True/False',
+  short_answer: 'Short Answer'
+};
+
+export const QuestionBanks: React.FC = () => {
+  const { user } = useAuth();
+  const [banks, setBanks] = useState<(QuestionBank & { questionCount: number })[]>([]);
+  const [selectedBankId, setSelectedBankId] = useState<number | null>(null);
+  const [questions, setQuestions] = useState<Question[]>([]);
+  const [tagFilter, setTagFilter] = useState('');
+  const [newBank, setNewBank] = useState<BankForm>(emptyBankForm);
+  const [showNewBank, setShowNewBank] = useState(false);
+  const [bankForm, setBankForm] = useState<BankForm>(emptyBankForm);
+  const [editing, setEditing] = useState<{ id?: number; draft: QuestionDraft } | null>(null);
+  const [showImport, setShowImport] = useState(false);
+  const [exportFormat, setExportFormat] = useState<QuestionFormat>('gift');
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    loadBanks();
+  }, [user]);
+
+  useEffect(() => {
+    const bank = banks.find(b => b.id === selectedBankId);
+    setBankForm(bank
+      ? { name: bank.name, description: bank.description || '', tags: (bank.tags || []).join(', ') }
+      : emptyBankForm);
+    loadQuestions();
+  }, [selectedBankId]);
+
+  const loadBanks = async () => {
+    if (!user?.id) return;
+
+    try {
+      const instructorBanks = await getInstructorBanks(user.id);
+      const withCounts = await Promise.all(instructorBanks.map(async bank => ({
+        ...bank,
+        questionCount: await db.questions.where('bankId').equals(bank.id!).count()
+      })));
+      setBanks(withCounts);
+    } catch (error) {
+      console.error('Error loading question banks:', error);
+    }
+  };
+
+  const loadQuestions = async () => {
+    if (!selectedBankId) {
+      setQuestions([]);
+      return;
+    }
+
+    try {
+      setQuestions(await getBankQuestions(selectedBankId));
+    } catch (error) {
+      console.error('Error loading questions:', error);
+    }
+  };
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive"
+    });
+  };
+
+  const handleCreateBank = async () => {
+    if (!user?.id) return;
+
+    setIsLoading(true);
+    try {
+      const bankId = await createQuestionBank({
+        instructorId: user.id,
+        name: newBank.name,
+        description: newBank.description,
+        tags: parseTags(newBank.tags)
+      });
+
+      toast({
+        title: "Bank Created",
+        description: `${newBank.name.trim()} is ready for questions`,
+      });
+
+      setNewBank(emptyBankForm);
+      setShowNewBank(false);
+      await loadBanks();
+      setSelectedBankId(bankId);
+    } catch (error) {
+      console.error('Error creating question bank:', error);
+      showError(error, "Failed to create question bank");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSaveBank = async () => {
+    if (!selectedBankId) return;
+
+    setIsLoading(true);
+    try {
+      await updateQuestionBank(selectedBankId, {
+        name: bankForm.name,
+        description: bankForm.description,
+        tags: parseTags(bankForm.tags)
+      });
+
+      toast({
+        title: "Bank Updated",
+        description: "Bank details have been saved",
+      });
+      loadBanks();
+    } catch (error) {
+      console.error('Error updating question bank:', error);
+      showError(error, "Failed to update question bank");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDeleteBank = async () => {
+    const bank = banks.find(b => b.id === selectedBankId);
+    if (!bank) return;
+
+    if (!confirm(`Delete ${bank.name} and its ${bank.questionCount} questions? This action cannot be undone.`)) {
+      return;
+    }
+
+    try {
+      await deleteQuestionBank(bank.id!);
+      toast({
+        title: "Bank Deleted",
+        description: `${bank.name} has been deleted`,
+      });
+      setSelectedBankId(null);
+      loadBanks();
+    } catch (error) {
+      console.error('Error deleting question bank:', error);
+      showError(error, "Failed to delete question bank");
+    }
+  };
+
+  const handleSaveQuestion = async () => {
+    if (!editing || !selectedBankId) return;
+
+    setIsLoading(true);
+    try {
+      if (editing.id) {
+        await updateQuestion(editing.id, editing.draft);
+      } else {
+        await addQuestionsToBank(selectedBankId, [editing.draft]);
+      }
+
+      toast({
+        title: editing.id ? "Question Updated" : "Question Added",
+        description: editing.id ? "Your changes have been saved" : "The question has been added to the bank",
+      });
+
+      setEditing(null);
+      loadQuestions();
+      loadBanks();
+    } catch (error) {
+      console.error('Error saving question:', error);
+      showError(error, "Failed to save question");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDeleteQuestion = async (question: Question) => {
+    if (!confirm('Delete this question? This action cannot be undone.')) {
+      return;
+    }
+
+    try {
+      await deleteQuestion(question.id!);
+      loadQuestions();
+      loadBanks();
+    } catch (error) {
+      console.error('Error deleting question:', error);
+      showError(error, "Failed to delete question");
+    }
+  };
+
+  const handleImport = async (drafts: QuestionDraft[]): Promise<boolean> => {
+    if (!selectedBankId) return false;
+
+    try {
+      await addQuestionsToBank(selectedBankId, drafts);
+      toast({
+        title: "Questions Imported",
+        description: `Added ${drafts.length} questions to the bank`,
+      });
+
+      setShowImport(false);
+      loadQuestions();
+      loadBanks();
+      return true;
+    } catch (error) {
+      console.error('Error importing questions:', error);
+      showError(error, "Failed to import questions");
+      return false;
+    }
+  };
+
+  const handleExport = () => {
+    const bank = banks.find(b => b.id === selectedBankId);
+    const format = questionFormats.find(f => f.value === exportFormat);
+    if (!bank || !format) return;
+
+    downloadFile(
+      `${toFileName(bank.name)}.${format.extension}`,
+      serializeQuestions(questions, exportFormat),
+      format.mimeType
+    );
+  };
+
+  const filterTags = parseTags(tagFilter);
+  const visibleBanks = banks.filter(bank =>
+    filterTags.every(tag => (bank.tags || []).includes(tag))
+  );
+  const selectedBank = banks.find(b => b.id === selectedBankId);
+
+  return (
+    <div className="min-h-screen p-6">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-8">
+        <div className="flex items-center space-x-4">
+          <Link to="/dashboard">
+            <Button variant="outline" size="sm">
+              <ArrowLeft size={16} />
+              Back to Dashboard
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-3xl font-bold text-gradient">Question Banks</h1>
+            <p className="text-muted-foreground mt-1">Organize reusable questions for your quizzes</p>
+          </div>
+        </div>
+        <div className="flex items-center space-x-3">
+          <Link to="/instructor/question-templates">
+            <Button variant="outline">
+              <FunctionSquare size={16} />
+              Templates
+            </Button>
+          </Link>
+          <Button variant="primary" onClick={() => setShowNewBank(!showNewBank)}>
+            <Plus size={16} />
+            New Bank
+          </Button>
+        </div>
+      </div>
+
+      {showNewBank && (
+        <GlassCard variant="intense" className="mb-6">
+          <h2 className="text-xl font-semibold text-glass-foreground mb-4">New Question Bank</h2>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="newBankName" className="text-glass-foreground font-medium">Name *</Label>
+              <Input
+                id="newBankName"
+                value={newBank.name}
+                onChange={(e) => setNewBank({ ...newBank, name: e.target.value })}
+                placeholder="e.g., Week 1 - Fundamentals"
+                className="glass border-glass-border/30 bg-glass/5 text-glass-foreground"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="newBankDescription" className="text-glass-foreground font-medium">Description</Label>
+              <Input
+                id="newBankDescription"
+                value={newBank.description}
+                onChange={(e) => setNewBank({ ...newBank, description: e.target.value })}
+                placeholder="Optional"
+                className="glass border-glass-border/30 bg-glass/5 text-glass-foreground"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="newBankTags" className="text-glass-foreground font-medium">Tags</Label>
+              <Input
+                id="newBankTags"
+                value={newBank.tags}
+                onChange={(e) => setNewBank({ ...newBank, tags: e.target.value })}
+                placeholder="Comma separated, e.g., midterm, cs101"
+                className="glass border-glass-border/30 bg-glass/5 text-glass-foreground"
+              />
+            </div>
+          </div>
+          <div className="flex justify-end space-x-3 mt-4">
+            <Button variant="outline" onClick={() => setShowNewBank(false)}>
+              Cancel
+            </Button>
+            <Button variant="primary" onClick={handleCreateBank} disabled={isLoading}>
+              <Save size={16} />
+              Create Bank
+            </Button>
+          </div>
+        </GlassCard>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Bank List */}
+        <GlassCard variant="intense">
+          <h2 className="text-xl font-semibold text-glass-foreground mb-4">Your Banks</h2>
+          <Input
+            value={tagFilter}
+            onChange={(e) => setTagFilter(e.target.value)}
+            placeholder="Filter by tags"
+            className="glass border-glass-border/30 bg-glass/5 text-glass-foreground mb-4"
+          />
+          <div className="space-y-2">
+            {visibleBanks.map((bank) => (
+              <button
+                key={bank.id}
+                onClick={() => setSelectedBankId(bank.id!)}
+                className={`w-full text-left p-3 rounded-lg glass transition-colors ${
+                  bank.id === selectedBankId ? 'border border-primary' : 'hover:bg-glass/10'
+                }`}
+              >
+                <div className="flex items-center justify-between">
+                  <span className="font-medium text-glass-foreground">{bank.name}</span>
+                  <span className="text-xs text-muted-foreground">{bank.questionCount} questions</span>
+                </div>
+                {(bank.tags || []).length > 0 && (
+                  <div className="flex flex-wrap gap-1 mt-2">
+                    {bank.tags!.map(tag => (
+                      <Badge key={tag} variant="outline" className="text-xs">{tag}</Badge>
+                    ))}
+                  </div>
+                )}
+              </button>
+            ))}
+            {visibleBanks.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-6">
+                {banks.length === 0 ? 'No question banks yet' : 'No banks match these tags'}
+              </p>
+            )}
+          </div>
+        </GlassCard>
+
+        {/* Selected Bank */}
+        <div className="lg:col-span-2 space-y-6">
+          {selectedBank ? (
+            <>
+              <GlassCard variant="intense">
+                <div className="flex items-center justify-between mb-4">
+                  <h2 className="text-xl font-semibold text-glass-foreground">Bank Details</h2>
+                  <Button variant="destructive" size="sm" onClick={handleDeleteBank}>
+                    <Trash2 size={14} />
+                    Delete Bank
+                  </Button>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="bankName" className="text-glass-foreground font-medium">Name</Label>
+                    <Input
+                      id="bankName"
+                      value={bankForm.name}
+                      onChange={(e) => setBankForm({ ...bankForm, name: e.target.value })}
+                      className="glass border-glass-border/30 bg-glass/5 text-glass-foreground"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="bankTags" className="text-glass-foreground font-medium">Tags</Label>
+                    <Input
+                      id="bankTags"
+                      value={bankForm.tags}
+                      onChange={(e) => setBankForm({ ...bankForm, tags: e.target.value })}
+                      placeholder="Comma separated"
+                      className="glass border-glass-border/30 bg-glass/5 text-glass-foreground"
+                    />
+                  </div>
+                  <div className="space-y-2 md:col-span-2">
+                    <Label htmlFor="bankDescription" className="text-glass-foreground font-medium">Description</Label>
+                    <Textarea
+                      id="bankDescription"
+                      value={bankForm.description}
+                      onChange={(e) => setBankForm({ ...bankForm, description: e.target.value })}
+                      className="glass border-glass-border/30 bg-glass/5 text-glass-foreground"
+                      rows={2}
+                    />
+                  </div>
+                </div>
+                <div className="flex justify-end mt-4">
+                  <Button variant="primary" onClick={handleSaveBank} disabled={isLoading}>
+                    <Save size={16} />
+                    Save Details
+                  </Button>
+                </div>
+              </GlassCard>
+
+              <GlassCard variant="intense">
+                <div className="flex items-center justify-between mb-4">
+                  <h2 className="text-xl font-semibold text-glass-foreground">Questions</h2>
+                  <div className="flex items-center space-x-2">
+                    <Select value={exportFormat} onValueChange={(value: QuestionFormat) => setExportFormat(value)}>
+                      <SelectTrigger className="glass border-glass-border/30 bg-glass/5 text-glass-foreground w-36">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="glass border-glass-border/30 bg-glass text-glass-foreground">
+                        {questionFormats.map(format => (
+                          <SelectItem key={format.value} value={format.value}>{format.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button variant="outline" onClick={handleExport} disabled={questions.length === 0}>
+                      <Download size={16} />
+                      Export
+                    </Button>
+                    <Button variant="outline" onClick={() => setShowImport(true)}>
+                      <Upload size={16} />
+                      Import
+                    </Button>
+                    <Button variant="primary" onClick={() => setEditing({ draft: createEmptyQuestion() })}>
+                      <Plus size={16} />
+                      Add Question
+                    </Button>
+                  </div>
+                </div>
+                <div className="space-y-3">
+                  {questions.map((question, index) => (
+                    <div key={question.id} className="glass p-4 rounded-lg">
+                      <div className="flex items-start justify-between">
+                        <div className="flex-1">
+                          <div className="flex items-center space-x-2 mb-1">
+                            <Badge variant="outline">{typeLabels[question.type]}</Badge>
+                            <span className="text-xs text-muted-foreground">{question.points} pts</span>
+                          </div>
+                          <p className="text-glass-foreground">{index + 1}. {question.question}</p>
+                          <p className="text-sm text-muted-foreground mt-1">Answer: {question.correctAnswer}</p>
+                        </div>
+                        <div className="flex space-x-2 ml-4">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setEditing({
+                              id: question.id,
+                              draft: {
+                                type: question.type,
+                                question: question.question,
+                                options: question.type === 'multiple_choice'
+                                  ? [...(question.options || []), '', '', '', ''].slice(0, Math.max(4, question.options?.length || 0))
+                                  : question.options,
+                                correctAnswer: question.correctAnswer,
+                                points: question.points
+                              }
+                            })}
+                          >
+                            <Pencil size={14} />
+                          </Button>
+                          <Button variant="destructive" size="sm" onClick={() => handleDeleteQuestion(question)}>
+                            <Trash2 size={14} />
+                          </Button>
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                  {questions.length === 0 && (
+                    <p className="text-center text-muted-foreground py-8">
+                      This bank is empty. Click "Add Question" to start building it.
+                    </p>
+                  )}
+                </div>
+              </GlassCard>
+            </>
+          ) : (
+            <GlassCard variant="intense" size="lg">
+              <div className="text-center">
+                <Library size={64} className="text-muted-foreground mx-auto mb-4" />
+                <p className="text-muted-foreground">Select a bank to manage its questions</p>
+              </div>
+            </GlassCard>
+          )}
+        </div>
+      </div>
+
+      <QuestionImportDialog
+        open={showImport}
+        bankName={selectedBank?.name || ''}
+        onOpenChange={setShowImport}
+        onImport={handleImport}
+      />
+
+      {/* Question Dialog */}
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="glass border-glass-border/30 max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="text-glass-foreground">
+              {editing?.id ? 'Edit Question' : 'Add Question'}
+            </DialogTitle>
+          </DialogHeader>
+          {editing && (
+            <div className="space-y-4">
+              <QuestionEditor
+                question={editing.draft}
+                onChange={(draft) => setEditing({ ...editing, draft })}
+              />
+              <div className="flex justify-end space-x-3">
+                <Button variant="outline" onClick={() => setEditing(null)}>
+                  Cancel
+                </Button>
+                <Button variant="primary" onClick={handleSaveQuestion} disabled={isLoading}>
+                  <Save size={16} />
+                  Save Question
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
@@ -0,0 +1,456 @@
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { GlassCard } from '@/components/ui/glass-card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowLeft, Plus, Trash2, Save, Dices, FunctionSquare, AlertTriangle } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { db, QuestionTemplate } from '@/lib/database';
+import {
+  createRandom,
+  createSeed,
+  getInstructorTemplates,
+  instantiateTemplate,
+  validateTemplate
+} from '@/lib/questionGenerator';
+import { toast } from '@/hooks/use-toast';
+
+interface VariableForm {
+  name: string;
+  min: string;
+  max: string;
+  step: string;
+}
+
+interface TemplateForm {
+  id?: number;
+  name: string;
+  type: QuestionTemplate['type'];
+  text: string;
+  variables: VariableForm[];
+  answer: string;
+  decimals: string;
+  distractors: string;
+  points: string;
+}
+
+const emptyForm: TemplateForm = {
+  name: '',
+  type: 'multiple_choice',
+  text: '',
+  variables: [{ name: 'a', min: '1', max: '10', step: '1' }],
+  answer: '',
+  decimals: '',
+  distractors: '',
+  points: '1'
+};
+
+const PREVIEW_COUNT = 3;
+
+export const QuestionTemplates: React.FC = () => {
+  const { user } = useAuth();
+  const [templates, setTemplates] = useState<QuestionTemplate[]>([]);
+  const [form, setForm] = useState<TemplateForm>(emptyForm);
+  const [previewSeed, setPreviewSeed] = useState(createSeed());
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    loadTemplates();
+  }, [user]);
+
+  const loadTemplates = async () => {
+    if (!user?.id) return;
+
+    try {
+      setTemplates(await getInstructorTemplates(user.id));
+    } catch (error) {
+      console.error('Error loading templates:', error);
+    }
+  };
+
+  const toTemplate = (): QuestionTemplate => ({
+    id: form.id,
+    instructorId: user?.id || 0,
+    name: form.name.trim(),
+    type: form.type,
+    text: form.text.trim(),
+    variables: form.variables.map(variable => ({
+      name: variable.name.trim(),
+      min: Number(variable.min),
+      max: Number(variable.max),
+      step: Number(variable.step)
+    })),
+    answer: form.answer.trim(),
+    decimals: form.decimals.trim() === '' ? undefined : parseInt(form.decimals),
+    distractors: form.type === 'multiple_choice'
+      ? form.distractors.split('\n').map(line => line.trim()).filter(line => line !== '')
+      : undefined,
+    points: Number(form.points),
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString()
+  });
+
+  const editTemplate = (template: QuestionTemplate) => {
+    setForm({
+      id: template.id,
+      name: template.name,
+      type: template.type,
+      text: template.text,
+      variables: template.variables.map(variable => ({
+        name: variable.name,
+        min: variable.min.toString(),
+        max: variable.max.toString(),
+        step: variable.step.toString()
+      })),
+      answer: template.answer,
+      decimals: template.decimals?.toString() || '',
+      distractors: (template.distractors || []).join('\n'),
+      points: template.points.toString()
+    });
+  };
+
+  const updateVariable = (index: number, field: keyof VariableForm, value: string) => {
+    const variables = [...form.variables];
+    variables[index] = { ...variables[index], [field]: value };
+    setForm({ ...form, variables });
+  };
+
+  const addVariable = () => {
+    const used = form.variables.map(variable => variable.name);
+    const name = 'abcdefghijklmnopqrstuvwxyz'.split('').find(letter => !used.includes(letter)) || '';
+    setForm({ ...form, variables: [...form.variables, { name, min: '1', max: '10', step: '1' }] });
+  };
+
+  const removeVariable = (index: number) => {
+    setForm({ ...form, variables: form.variables.filter((_, i) => i !== index) });
+  };
+
+  const handleSave = async () => {
+    if (!user?.id) return;
+
+    const template = toTemplate();
+    const error = validateTemplate(template);
+    if (error) {
+      toast({
+        title: "Invalid Template",
+        description: error,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      if (form.id) {
+        const { name, type, text, variables, answer, decimals, distractors, points } = template;
+        await db.questionTemplates.update(form.id, { name, type, text, variables, answer, decimals, distractors, points });
+      } else {
+        const id = await db.questionTemplates.add(template);
+        setForm({ ...form, id });
+      }
+
+      toast({
+        title: "Template Saved",
+        description: `${template.name} is ready for quiz generation`,
+      });
+      loadTemplates();
+    } catch (error) {
+      console.error('Error saving template:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save template",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!form.id) return;
+
+    if (!confirm(`Delete the template ${form.name}? Questions already generated from it are kept.`)) {
+      return;
+    }
+
+    try {
+      await db.questionTemplates.delete(form.id);
+      setForm(emptyForm);
+      loadTemplates();
+    } catch (error) {
+      console.error('Error deleting template:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete template",
+        variant: "destructive"
+      });
+    }
+  };
+
+  // Preview a few questions with the current seed so the output can be checked before saving
+  const template = { ...toTemplate(), name: form.name.trim() || 'Preview' };
+  const previewError = form.text.trim() || form.answer.trim() ? validateTemplate(template) : null;
+  const preview = previewError || !form.text.trim() || !form.answer.trim() ? [] : (() => {
+    const random = createRandom(previewSeed);
+    return Array.from({ length: PREVIEW_COUNT }, () => instantiateTemplate(template, random));
+  })();
+
+  return (
+    <div className="min-h-screen p-6">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-8">
+        <div className="flex items-center space-x-4">
+          <Link to="/instructor/question-banks">
+            <Button variant="outline" size="sm">
+              <ArrowLeft size={16} />
+              Back to Question Banks
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-3xl font-bold text-gradient">Question Templates</h1>
+            <p className="text-muted-foreground mt-1">Write parameterised questions with computed answers</p>
+          </div>
+        </div>
+        <Button variant="primary" onClick={() => setForm(emptyForm)}>
+          <Plus size={16} />
+          New Template
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Template List */}
+        <GlassCard variant="intense">
+          <h2 className="text-xl font-semibold text-glass-foreground mb-4">Your Templates</h2>
+          <div className="space-y-2">
+            {templates.map((item) => (
+              <button
+                key={item.id}
+                onClick={() => editTemplate(item)}
+                className={`w-full text-left p-3 rounded-lg glass transition-colors ${
+                  item.id === form.id ? 'border border-primary' : 'hover:bg-glass/10'
+                }`}
+              >
+                <div className="flex items-center justify-between">
+                  <span className="font-medium text-glass-foreground">{item.name}</span>
+                  <Badge variant="outline" className="text-xs">{item.type.replace('_', ' ')}</Badge>
+                </div>
+                <p className="text-xs text-muted-foreground mt-1 truncate">{item.text}</p>
+              </button>
+            ))}
+            {templates.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-6">No templates yet</p>
+            )}
+          </div>
+        </GlassCard>
+
+        <div className="lg:col-span-2 space-y-6">
+          {/* Template Editor */}
+          <GlassCard variant="intense">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-xl font-semibold text-glass-foreground">
+                {form.id ? 'Edit Template' : 'New Template'}
+              </h2>
+              {form.id && (
+                <Button variant="destructive" size="sm" onClick={handleDelete}>
+                  <Trash2 size={14} />
+                  Delete
+                </Button>
+              )}
+            </div>
+
+            <div className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="templateName" className="text-glass-foreground font-medium">Name *</Label>
+                  <Input
+                    id="templateName"
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                    placeholder="e.g., Ohm's law"
+                    className="glass border-glass-border/30 bg-glass/5 text-glass-foreground"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label className="text-glass-foreground font-medium">Question Type</Label>
+                  <Select
+                    value={form.type}
+                    onValueChange={(value: QuestionTemplate['type']) => setForm({ ...form, type: value })}
+                  >
+                    <SelectTrigger className="glass border-glass-border/30 bg-glass/5 text-glass-foreground">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="glass border-glass-border/30 bg-glass text-glass-foreground">
+                      <SelectItem value="multiple_choice">Multiple Choice</SelectItem>
+                      <SelectItem value="short_answer">Short Answer</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="templatePoints" className="text-glass-foreground font-medium">Points</Label>
+                  <Input
+                    id="templatePoints"
+                    type="number"
+                    min="1"
+                    max="10"
+                    value={form.points}
+                    onChange={(e) => setForm({ ...form, points: e.target.value })}
+                    className="glass border-glass-border/30 bg-glass/5 text-glass-foreground"
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="templateText" className="text-glass-foreground font-medium">Question Text *</Label>
+                <Textarea
+                  id="templateText"
+                  value={form.text}
+                  onChange={(e) => setForm({ ...form, text: e.target.value })}
+                  placeholder="A {{r}} ohm resistor carries {{i}} A. What is the voltage across it?"
+                  className="glass border-glass-border/30 bg-glass/5 text-glass-foreground"
+                  rows={3}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Use {'{{name}}'} for a variable or {'{{formula}}'} for a computed value
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label className="text-glass-foreground font-medium">Variables</Label>
+                  <Button variant="outline" size="sm" onClick={addVariable}>
+                    <Plus size={14} />
+                    Add Variable
+                  </Button>
+                </div>
+                {form.variables.map((variable, index) => (
+                  <div key={index} className="grid grid-cols-9 gap-2 items-center">
+                    {(['name', 'min', 'max', 'step'] as const).map(field => (
+                      <Input
+                        key={field}
+                        type={field === 'name' ? 'text' : 'number'}
+                        value={variable[field]}
+                        onChange={(e) => updateVariable(index, field, e.target.value)}
+                        placeholder={field}
+                        className="glass border-glass-border/30 bg-glass/5 text-glass-foreground col-span-2"
+                      />
+                    ))}
+                    <Button variant="destructive" size="sm" onClick={() => removeVariable(index)}>
+                      <Trash2 size={14} />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="space-y-2 md:col-span-2">
+                  <Label htmlFor="templateAnswer" className="text-glass-foreground font-medium">Answer Formula *</Label>
+                  <Input
+                    id="templateAnswer"
+                    value={form.answer}
+                    onChange={(e) => setForm({ ...form, answer: e.target.value })}
+                    placeholder="r * i"
+                    className="glass border-glass-border/30 bg-glass/5 text-glass-foreground font-mono"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="templateDecimals" className="text-glass-foreground font-medium">Decimal Places</Label>
+                  <Input
+                    id="templateDecimals"
+                    type="number"
+                    min="0"
+                    max="6"
+                    value={form.decimals}
+                    onChange={(e) => setForm({ ...form, decimals: e.target.value })}
+                    placeholder="Auto"
+                    className="glass border-glass-border/30 bg-glass/5 text-glass-foreground"
+                  />
+                </div>
+              </div>
+
+              {form.type === 'multiple_choice' && (
+                <div className="space-y-2">
+                  <Label htmlFor="templateDistractors" className="text-glass-foreground font-medium">Wrong Answer Formulas</Label>
+                  <Textarea
+                    id="templateDistractors"
+                    value={form.distractors}
+                    onChange={(e) => setForm({ ...form, distractors: e.target.value })}
+                    placeholder={'One formula per line, e.g.\nr / i\nr + i\nLeave empty to generate nearby values'}
+                    className="glass border-glass-border/30 bg-glass/5 text-glass-foreground font-mono"
+                    rows={3}
+                  />
+                </div>
+              )}
+
+              <p className="text-xs text-muted-foreground">
+                Formulas support + - * / % ^, parentheses, pi, e and sqrt, abs, round, floor, ceil, min, max, pow, exp, ln, log, sin, cos, tan
+              </p>
+
+              <div className="flex justify-end">
+                <Button variant="primary" onClick={handleSave} disabled={isLoading}>
+                  <Save size={16} />
+                  Save Template
+                </Button>
+              </div>
+            </div>
+          </GlassCard>
+
+          {/* Preview */}
+          <GlassCard variant="intense">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-xl font-semibold text-glass-foreground flex items-center">
+                <FunctionSquare className="mr-2" size={20} />
+                Preview
+              </h2>
+              <div className="flex items-center space-x-2">
+                <Input
+                  value={previewSeed}
+                  onChange={(e) => setPreviewSeed(e.target.value)}
+                  className="glass border-glass-border/30 bg-glass/5 text-glass-foreground w-32"
+                />
+                <Button variant="outline" size="sm" onClick={() => setPreviewSeed(createSeed())}>
+                  <Dices size={14} />
+                  New Seed
+                </Button>
+              </div>
+            </div>
+
+            {previewError && (
+              <p className="text-sm text-destructive flex items-center mb-4">
+                <AlertTriangle size={14} className="mr-2" />
+                {previewError}
+              </p>
+            )}
+
+            <div className="space-y-3">
+              {preview.map((question, index) => (
+                <div key={index} className="glass p-3 rounded-lg">
+                  <p className="text-glass-foreground">{question.question}</p>
+                  {question.options ? (
+                    <div className="flex flex-wrap gap-2 mt-2">
+                      {question.options.map(option => (
+                        <Badge key={option} variant={option === question.correctAnswer ? 'default' : 'outline'}>
+                          {option}
+                        </Badge>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-sm text-muted-foreground mt-1">Answer: {question.correctAnswer}</p>
+                  )}
+                </div>
+              ))}
+              {!previewError && preview.length === 0 && (
+                <p className="text-center text-muted-foreground py-6">
+                  Fill in the question text and answer formula to see sample questions
+                </p>
+              )}
+            </div>
+          </GlassCard>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -4,31 +4,61 @@ import { GlassCard } from '@/components/ui/glass-card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { ArrowLeft, Calendar, Save } from 'lucide-react';
+import { ArrowLeft, Calendar, CalendarPlus, Save, LocateFixed, MapPin, Wifi, Repeat, X, DoorOpen } from 'lucide-react';
 import { Link, useNavigate } from 'react-router-dom';
-import { db, Course } from '@/lib/database';
+import { db, Course, ClassSession, Room } from '@/lib/database';
+import { DEFAULT_ZONE_RADIUS, getCurrentPosition, isValidCoordinates } from '@/lib/geofence';
+import { isValidIpRange } from '@/lib/ipRange';
+import { notifyEnrolledStudents } from '@/lib/enrollment';
+import { buildInstructorCalendar } from '@/lib/icalendar';
+import { downloadFile } from '@/lib/download';
+import { assertNoBookingConflicts, formatRoom, getRoomZone, getRooms } from '@/lib/rooms';
+import { isIpLookupConfigured } from '@/lib/clientIp';
+import { createSessionSeries, getOccurrenceDates, RecurrenceRule, validateRecurrence, weekdayNames } from '@/lib/sessionSeries';
 import { toast } from '@/hooks/use-toast';
 
 export const ScheduleCourse: React.FC = () => {
   const { user } = useAuth();
   const navigate = useNavigate();
   const [courses, setCourses] = useState<Course[]>([]);
+  const [rooms, setRooms] = useState<Room[]>([]);
+  const [enrolledCount, setEnrolledCount] = useState(0);
   const [formData, setFormData] = useState({
     courseId: '',
+    roomId: '',
     title: '',
     date: '',
     startTime: '',
     endTime: '',
     location: '',
-    lecturerName: `${user?.firstName} ${user?.lastName}` || ''
+    lecturerName: `${user?.firstName} ${user?.lastName}` || '',
+    zoneLatitude: '',
+    zoneLongitude: '',
+    zoneRadius: DEFAULT_ZONE_RADIUS.toString(),
+    checkInMethod: 'qr' as ClassSession['checkInMethod'],
+    ipRanges: ''
   });
+  const [repeat, setRepeat] = useState<'once' | 'weekly'>('once');
+  const [weekdays, setWeekdays] = useState<number[]>([]);
+  const [seriesEndDate, setSeriesEndDate] = useState('');
+  const [skipDates, setSkipDates] = useState<string[]>([]);
+  const [skipDateInput, setSkipDateInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [isLocating, setIsLocating] = useState(false);
+  const [hasIpLookup, setHasIpLookup] = useState(true);
 
   useEffect(() => {
     loadCourses();
   }, [user]);
 
+  useEffect(() => {
+    isIpLookupConfigured()
+      .then(setHasIpLookup)
+      .catch(error => console.error('Error checking IP lookup:', error));
+  }, []);
+
   const loadCourses = async () => {
     if (!user?.id) return;
     
@@ -39,6 +69,7 @@ export const ScheduleCourse: React.FC = () => {
         .equals(user.id)
         .toArray();
       setCourses(instructorCourses);
+      setRooms(await getRooms());
     } catch (error) {
       console.error('Error loading courses:', error);
     }
@@ -48,13 +79,91 @@ export const ScheduleCourse: React.FC = () => {
     setFormData(prev => ({ ...prev, [field]: value }));
   };
 
-  const handleCourseChange = (courseId: string) => {
+  const toggleWeekday = (weekday: number) => {
+    setWeekdays(prev => prev.includes(weekday) ? prev.filter(day => day !== weekday) : [...prev, weekday].sort());
+  };
+
+  const addSkipDate = () => {
+    if (!skipDateInput || skipDates.includes(skipDateInput)) return;
+    setSkipDates(prev => [...prev, skipDateInput].sort());
+    setSkipDateInput('');
+  };
+
+  const recurrence: RecurrenceRule = { weekdays, startDate: formData.date, endDate: seriesEndDate, skipDates };
+  const occurrenceCount = repeat === 'weekly' ? getOccurrenceDates(recurrence).length : 1;
+
+  const handleCourseChange = async (courseId: string) => {
     const selectedCourse = courses.find(c => c.id?.toString() === courseId);
     setFormData(prev => ({
       ...prev,
       courseId,
       title: selectedCourse ? `${selectedCourse.name} - Class Session` : ''
     }));
+    setEnrolledCount(await db.courseEnrollments.where('courseId').equals(parseInt(courseId)).count());
+  };
+
+  const selectedRoom = rooms.find(room => room.id?.toString() === formData.roomId);
+
+  // A room brings its own location and check-in zone, which can still be adjusted for this session
+  const handleRoomChange = (roomId: string) => {
+    const room = rooms.find(r => r.id?.toString() === roomId);
+    if (!room) {
+      setFormData(prev => ({ ...prev, roomId: '' }));
+      return;
+    }
+
+    const zone = getRoomZone(room);
+    setFormData(prev => ({
+      ...prev,
+      roomId,
+      location: formatRoom(room),
+      zoneLatitude: zone.latitude?.toString() ?? '',
+      zoneLongitude: zone.longitude?.toString() ?? '',
+      zoneRadius: (zone.radius ?? DEFAULT_ZONE_RADIUS).toString(),
+      ipRanges: (zone.ipRange || []).join('\n')
+    }));
+  };
+
+  // Fill the attendance zone from the instructor's device, e.g. while standing in the classroom
+  const fillZoneFromCurrentPosition = async () => {
+    setIsLocating(true);
+    try {
+      const position = await getCurrentPosition();
+      setFormData(prev => ({
+        ...prev,
+        zoneLatitude: position.coords.latitude.toFixed(6),
+        zoneLongitude: position.coords.longitude.toFixed(6)
+      }));
+
+      toast({
+        title: "Location Captured",
+        description: `Position recorded with ±${Math.round(position.coords.accuracy)} m accuracy`,
+      });
+    } catch (error) {
+      console.error('Error reading position:', error);
+      toast({
+        title: "Location Unavailable",
+        description: error instanceof Error ? error.message : "Unable to read your current position",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLocating(false);
+    }
+  };
+
+  const exportCalendar = async () => {
+    if (!user?.id) return;
+
+    try {
+      downloadFile('teaching-schedule.ics', await buildInstructorCalendar(user.id), 'text/calendar');
+    } catch (error) {
+      console.error('Error exporting calendar:', error);
+      toast({
+        title: "Error",
+        description: "Failed to export calendar",
+        variant: "destructive"
+      });
+    }
   };
 
   const handleSchedule = async () => {
@@ -77,59 +186,139 @@ export const ScheduleCourse: React.FC = () => {
       return;
     }
 
+    // Validate attendance zone
+    const hasZoneCoordinates = formData.zoneLatitude.trim() !== '' || formData.zoneLongitude.trim() !== '';
+    const zoneLatitude = parseFloat(formData.zoneLatitude);
+    const zoneLongitude = parseFloat(formData.zoneLongitude);
+    const zoneRadius = parseFloat(formData.zoneRadius);
+
+    if (hasZoneCoordinates && !isValidCoordinates(zoneLatitude, zoneLongitude)) {
+      toast({
+        title: "Invalid Location",
+        description: "Latitude must be between -90 and 90 and longitude between -180 and 180",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (!Number.isFinite(zoneRadius) || zoneRadius <= 0) {
+      toast({
+        title: "Invalid Radius",
+        description: "Attendance radius must be a positive number of meters",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (formData.checkInMethod === 'gps' && !hasZoneCoordinates) {
+      toast({
+        title: "Missing Location",
+        description: "Set the classroom latitude and longitude to use GPS check-in",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    // One CIDR block or address per line or comma
+    const ipRanges = formData.ipRanges.split(/[\s,]+/).filter(Boolean);
+    const invalidRange = ipRanges.find(range => !isValidIpRange(range));
+
+    if (invalidRange) {
+      toast({
+        title: "Invalid IP Range",
+        description: `"${invalidRange}" is not a valid IPv4/IPv6 address or CIDR block`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (formData.checkInMethod === 'ip' && ipRanges.length === 0) {
+      toast({
+        title: "Missing IP Range",
+        description: "Enter at least one classroom network range to use IP check-in",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const recurrenceProblem = repeat === 'weekly' ? validateRecurrence(recurrence) : null;
+    if (recurrenceProblem) {
+      toast({
+        title: "Invalid Series",
+        description: recurrenceProblem,
+        variant: "destructive"
+      });
+      return;
+    }
+
     setIsLoading(true);
     try {
-      // Create class session
-      await db.classSessions.add({
+      const details = {
         courseId: parseInt(formData.courseId),
         instructorId: user!.id!,
         title: formData.title,
-        date: formData.date,
         startTime: formData.startTime,
         endTime: formData.endTime,
-        checkInMethod: 'qr',
+        location: formData.location.trim(),
+        ...(selectedRoom ? { roomId: selectedRoom.id } : {}),
+        checkInMethod: formData.checkInMethod,
         attendanceZone: {
-          // Default attendance zone - can be customized later
-          latitude: 0,
-          longitude: 0,
-          radius: 100
+          ...(hasZoneCoordinates ? { latitude: zoneLatitude, longitude: zoneLongitude } : {}),
+          radius: zoneRadius,
+          ...(ipRanges.length > 0 ? { ipRange: ipRanges } : {})
         },
-        isActive: true,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString()
-      });
+        isActive: true
+      };
+      const course = courses.find(c => c.id?.toString() === formData.courseId);
 
-      // Get enrolled students for this course
-      const enrolledStudents = await db.courseEnrollments
-        .where('courseId').equals(parseInt(formData.courseId))
-        .toArray();
+      if (repeat === 'weekly') {
+        const { sessions } = await createSessionSeries(recurrence, details);
 
-      // Send notification to all enrolled students (via messages)
-      const course = courses.find(c => c.id?.toString() === formData.courseId);
-      for (const enrollment of enrolledStudents) {
-        await db.messages.add({
-          senderId: user!.id!,
-          receiverId: enrollment.studentId,
-          type: 'general',
-          subject: 'New Class Scheduled',
-          content: `A new class has been scheduled for ${course?.name}.\n\nDetails:\nDate: ${formData.date}\nTime: ${formData.startTime} - ${formData.endTime}\nLocation: ${formData.location}\nInstructor: ${formData.lecturerName}`,
-          status: 'pending',
-          createdAt: new Date().toISOString(),
-          updatedAt: new Date().toISOString()
+        await notifyEnrolledStudents(
+          details.courseId,
+          user!.id!,
+          'New Class Series Scheduled',
+          `A weekly class series has been scheduled for ${course?.name}.\n\nDetails:\nDays: ${weekdays.map(day => weekdayNames[day]).join(', ')}\nFrom: ${sessions[0].date}\nTo: ${sessions[sessions.length - 1].date}\nTime: ${formData.startTime} - ${formData.endTime}\nSessions: ${sessions.length}` +
+            (skipDates.length > 0 ? `\nNo class on: ${skipDates.join(', ')}` : '') +
+            `\nLocation: ${formData.location}\nInstructor: ${formData.lecturerName}`
+        );
+
+        toast({
+          title: "Series Scheduled",
+          description: `${sessions.length} sessions of ${formData.title} have been scheduled and students have been notified`,
+        });
+      } else {
+        // Create class session, unless the room or instructor is already booked
+        await db.transaction('rw', [db.classSessions, db.courses, db.rooms], async () => {
+          await assertNoBookingConflicts([{ ...details, date: formData.date }]);
+          await db.classSessions.add({
+            ...details,
+            date: formData.date,
+            createdAt: new Date().toISOString(),
+            updatedAt: new Date().toISOString()
+          });
         });
-      }
 
-      toast({
-        title: "Class Scheduled",
-        description: `${formData.title} has been scheduled successfully and students have been notified`,
-      });
+        // Send notification to all enrolled students (via messages)
+        await notifyEnrolledStudents(
+          details.courseId,
+          user!.id!,
+          'New Class Scheduled',
+          `A new class has been scheduled for ${course?.name}.\n\nDetails:\nDate: ${formData.date}\nTime: ${formData.startTime} - ${formData.endTime}\nLocation: ${formData.location}\nInstructor: ${formData.lecturerName}`
+        );
+
+        toast({
+          title: "Class Scheduled",
+          description: `${formData.title} has been scheduled successfully and students have been notified`,
+        });
+      }
 
       navigate('/dashboard');
     } catch (error) {
       console.error('Error scheduling class:', error);
       toast({
         title: "Error",
-        description: "Failed to schedule class",
+        description: error instanceof Error ? error.message : "Failed to schedule class",
         variant: "destructive"
       });
     } finally {
@@ -162,6 +351,18 @@ export const ScheduleCourse: React.FC = () => {
             <p className="text-muted-foreground mt-1">Schedule a new class session for your students</p>
           </div>
         </div>
+        <div className="flex items-center space-x-3">
+          <Button variant="outline" onClick={exportCalendar}>
+            <CalendarPlus size={16} />
+            Export Calendar
+          </Button>
+          <Link to="/instructor/session-series">
+            <Button variant="outline">
+              <Repeat size={16} />
+              Manage Series
+            </Button>
+          </Link>
+        </div>
       </div>
 
       <div className="max-w-2xl mx-auto">
@@ -218,7 +419,9 @@ export const ScheduleCourse: React.FC = () => {
 
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
               <div className="space-y-2">
-                <Label htmlFor="date" className="text-glass-foreground font-medium">Date *</Label>
+                <Label htmlFor="date" className="text-glass-foreground font-medium">
+                  {repeat === 'weekly' ? 'First Date *' : 'Date *'}
+                </Label>
                 <Input
                   id="date"
                   type="date"
@@ -258,6 +461,125 @@ export const ScheduleCourse: React.FC = () => {
               </div>
             </div>
 
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label className="text-glass-foreground font-medium">Repeat</Label>
+                <Select value={repeat} onValueChange={(value: 'once' | 'weekly') => setRepeat(value)}>
+                  <SelectTrigger className="glass border-glass-border/30 bg-glass/5 text-glass-foreground">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="glass border-glass-border/30 bg-glass text-glass-foreground">
+                    <SelectItem value="once">Does not repeat</SelectItem>
+                    <SelectItem value="weekly">Weekly series</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {repeat === 'weekly' && (
+                <>
+                  <div className="space-y-2">
+                    <Label className="text-glass-foreground font-medium">Weekdays *</Label>
+                    <div className="flex flex-wrap gap-2">
+                      {weekdayNames.map((name, weekday) => (
+                        <Button
+                          key={name}
+                          variant={weekdays.includes(weekday) ? 'primary' : 'outline'}
+                          size="sm"
+                          onClick={() => toggleWeekday(weekday)}
+                        >
+                          {name}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="seriesEndDate" className="text-glass-foreground font-medium">Repeat Until *</Label>
+                      <Input
+                        id="seriesEndDate"
+                        type="date"
+                        value={seriesEndDate}
+                        onChange={(e) => setSeriesEndDate(e.target.value)}
+                        min={formData.date || new Date().toISOString().split('T')[0]}
+                        className="glass border-glass-border/30 bg-glass/5 text-glass-foreground"
+                      />
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="skipDate" className="text-glass-foreground font-medium">Skip Dates (holidays)</Label>
+                      <div className="flex space-x-2">
+                        <Input
+                          id="skipDate"
+                          type="date"
+                          value={skipDateInput}
+                          onChange={(e) => setSkipDateInput(e.target.value)}
+                          min={formData.date}
+                          max={seriesEndDate}
+                          className="glass border-glass-border/30 bg-glass/5 text-glass-foreground"
+                        />
+                        <Button variant="outline" onClick={addSkipDate} disabled={!skipDateInput}>
+                          Add
+                        </Button>
+                      </div>
+                    </div>
+                  </div>
+
+                  {skipDates.length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                      {skipDates.map((date) => (
+                        <span key={date} className="flex items-center glass px-2 py-1 rounded-lg text-sm text-glass-foreground">
+                          {new Date(`${date}T00:00`).toLocaleDateString()}
+                          <button
+                            type="button"
+                            onClick={() => setSkipDates(prev => prev.filter(d => d !== date))}
+                            className="ml-1 text-muted-foreground hover:text-destructive"
+                          >
+                            <X size={12} />
+                          </button>
+                        </span>
+                      ))}
+                    </div>
+                  )}
+
+                  <p className="text-sm text-muted-foreground">
+                    {occurrenceCount > 0
+                      ? `Creates ${occurrenceCount} session${occurrenceCount === 1 ? '' : 's'} starting on the date above`
+                      : 'Choose weekdays and an end date to see how many sessions will be created'}
+                  </p>
+                </>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center">
+                <DoorOpen size={16} className="text-glass-foreground mr-2" />
+                <Label className="text-glass-foreground font-medium">Room</Label>
+              </div>
+              <Select value={formData.roomId || 'none'} onValueChange={(value) => handleRoomChange(value === 'none' ? '' : value)}>
+                <SelectTrigger className="glass border-glass-border/30 bg-glass/5 text-glass-foreground">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="glass border-glass-border/30 bg-glass text-glass-foreground">
+                  <SelectItem value="none">No room (enter a location below)</SelectItem>
+                  {rooms.map((room) => (
+                    <SelectItem key={room.id} value={room.id!.toString()}>
+                      {formatRoom(room)}{room.capacity ? ` · ${room.capacity} seats` : ''}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {selectedRoom?.capacity && enrolledCount > selectedRoom.capacity ? (
+                <p className="text-sm text-warning">
+                  {enrolledCount} students are enrolled but {formatRoom(selectedRoom)} seats {selectedRoom.capacity}
+                </p>
+              ) : (
+                <p className="text-xs text-muted-foreground">
+                  Picking a room fills in the location and attendance zone, and prevents double bookings
+                </p>
+              )}
+            </div>
+
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div className="space-y-2">
                 <Label htmlFor="location" className="text-glass-foreground font-medium">Location *</Label>
@@ -281,6 +603,109 @@ export const ScheduleCourse: React.FC = () => {
               </div>
             </div>
 
+            <div className="space-y-2">
+              <Label htmlFor="checkInMethod" className="text-glass-foreground font-medium">Check-In Method</Label>
+              <Select
+                value={formData.checkInMethod}
+                onValueChange={(value) => handleInputChange('checkInMethod', value)}
+              >
+                <SelectTrigger className="glass border-glass-border/30 bg-glass/5 text-glass-foreground">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="glass border-glass-border/30 bg-glass text-glass-foreground">
+                  <SelectItem value="qr">QR Code</SelectItem>
+                  <SelectItem value="gps">GPS Location</SelectItem>
+                  <SelectItem value="ip">Classroom Network (IP)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center">
+                  <MapPin size={16} className="text-glass-foreground mr-2" />
+                  <Label className="text-glass-foreground font-medium">Attendance Zone</Label>
+                </div>
+                <Button variant="outline" size="sm" onClick={fillZoneFromCurrentPosition} disabled={isLocating}>
+                  {isLocating ? (
+                    <div className="animate-spin rounded-full h-4 w-4 border-2 border-primary border-t-transparent" />
+                  ) : (
+                    <>
+                      <LocateFixed size={14} />
+                      Use My Current Position
+                    </>
+                  )}
+                </Button>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="zoneLatitude" className="text-glass-foreground font-medium">Latitude</Label>
+                  <Input
+                    id="zoneLatitude"
+                    type="number"
+                    step="any"
+                    value={formData.zoneLatitude}
+                    onChange={(e) => handleInputChange('zoneLatitude', e.target.value)}
+                    placeholder="e.g., 6.2107"
+                    className="glass border-glass-border/30 bg-glass/5 text-glass-foreground"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="zoneLongitude" className="text-glass-foreground font-medium">Longitude</Label>
+                  <Input
+                    id="zoneLongitude"
+                    type="number"
+                    step="any"
+                    value={formData.zoneLongitude}
+                    onChange={(e) => handleInputChange('zoneLongitude', e.target.value)}
+                    placeholder="e.g., 7.0700"
+                    className="glass border-glass-border/30 bg-glass/5 text-glass-foreground"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="zoneRadius" className="text-glass-foreground font-medium">Radius (meters)</Label>
+                  <Input
+                    id="zoneRadius"
+                    type="number"
+                    min="1"
+                    value={formData.zoneRadius}
+                    onChange={(e) => handleInputChange('zoneRadius', e.target.value)}
+                    className="glass border-glass-border/30 bg-glass/5 text-glass-foreground"
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Leave latitude and longitude empty to disable GPS check-in for this session
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center">
+                <Wifi size={16} className="text-glass-foreground mr-2" />
+                <Label htmlFor="ipRanges" className="text-glass-foreground font-medium">
+                  Classroom Network {formData.checkInMethod === 'ip' && '*'}
+                </Label>
+              </div>
+              <Textarea
+                id="ipRanges"
+                value={formData.ipRanges}
+                onChange={(e) => handleInputChange('ipRanges', e.target.value)}
+                placeholder={'e.g., 10.20.0.0/16\n2001:db8:42::/48'}
+                className="glass border-glass-border/30 bg-glass/5 text-glass-foreground font-mono"
+                rows={3}
+              />
+              <p className="text-xs text-muted-foreground">
+                IPv4 or IPv6 addresses or CIDR blocks, one per line. Leave empty to disable IP check-in for this session
+              </p>
+              {formData.checkInMethod === 'ip' && !hasIpLookup && (
+                <p className="text-sm text-warning">
+                  No IP lookup service is configured in Security Settings, so students cannot check in by network until one is set up
+                </p>
+              )}
+            </div>
+
             <div className="border-t border-glass-border/20 pt-6">
               <div className="flex justify-end space-x-3">
                 <Link to="/dashboard">
@@ -296,7 +721,7 @@ export const ScheduleCourse: React.FC = () => {
                   ) : (
                     <>
                       <Save size={16} />
-                      Schedule Class
+                      {repeat === 'weekly' ? 'Schedule Series' : 'Schedule Class'}
                     </>
                   )}
                 </Button>
@@ -0,0 +1,393 @@
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useLocation } from 'react-router-dom';
+import { GlassCard } from '@/components/ui/glass-card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ArrowLeft, History, Pencil, Save, Users } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { db, AttendanceOverride, AttendanceRecord, ClassSession, User } from '@/lib/database';
+import { getSessionOverrides, overrideAttendance } from '@/lib/attendanceOverride';
+import { toast } from '@/hooks/use-toast';
+
+type AttendanceStatus = AttendanceRecord['status'];
+
+interface RosterRow {
+  student: User;
+  record?: AttendanceRecord;
+}
+
+interface OverrideEntry extends AttendanceOverride {
+  studentName: string;
+  changedByName: string;
+}
+
+// How often the roster refreshes while the session is still taking check-ins
+const LIVE_REFRESH_MS = 10000;
+
+const STATUS_OPTIONS: { value: AttendanceStatus; label: string }[] = [
+  { value: 'present', label: 'Present' },
+  { value: 'late', label: 'Late' },
+  { value: 'absent', label: 'Absent' },
+  { value: 'excused', label: 'Excused' }
+];
+
+export const SessionRoster: React.FC = () => {
+  const { user } = useAuth();
+  const location = useLocation();
+  const [sessions, setSessions] = useState<ClassSession[]>([]);
+  const [selectedSessionId, setSelectedSessionId] = useState<string>(
+    location.state?.sessionId ? location.state.sessionId.toString() : ''
+  );
+  const [rows, setRows] = useState<RosterRow[]>([]);
+  const [overrides, setOverrides] = useState<OverrideEntry[]>([]);
+  const [editingRow, setEditingRow] = useState<RosterRow | null>(null);
+  const [newStatus, setNewStatus] = useState<AttendanceStatus>('present');
+  const [reason, setReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    loadSessions();
+  }, [user]);
+
+  const loadSessions = async () => {
+    if (!user?.id) return;
+
+    try {
+      const instructorSessions = await db.classSessions.where('instructorId').equals(user.id).toArray();
+      instructorSessions.sort((a, b) =>
+        b.date.localeCompare(a.date) || b.startTime.localeCompare(a.startTime)
+      );
+      setSessions(instructorSessions);
+    } catch (error) {
+      console.error('Error loading sessions:', error);
+    }
+  };
+
+  const loadRoster = async (sessionId: number) => {
+    try {
+      const session = await db.classSessions.get(sessionId);
+      if (!session) return;
+
+      const enrollments = await db.courseEnrollments.where('courseId').equals(session.courseId).toArray();
+      const records = await db.attendanceRecords.where('sessionId').equals(sessionId).toArray();
+
+      // Include students with a record who have since left the course
+      const studentIds = Array.from(new Set([
+        ...enrollments.map(e => e.studentId),
+        ...records.map(r => r.studentId)
+      ]));
+
+      const roster: RosterRow[] = [];
+      for (const studentId of studentIds) {
+        const student = await db.users.get(studentId);
+        if (!student) continue;
+        roster.push({ student, record: records.find(r => r.studentId === studentId) });
+      }
+
+      roster.sort((a, b) =>
+        `${a.student.lastName} ${a.student.firstName}`.localeCompare(`${b.student.lastName} ${b.student.firstName}`)
+      );
+      setRows(roster);
+
+      const history = await getSessionOverrides(sessionId);
+      const entries: OverrideEntry[] = [];
+      for (const entry of history) {
+        const student = await db.users.get(entry.studentId);
+        const changedBy = await db.users.get(entry.changedBy);
+        entries.push({
+          ...entry,
+          studentName: student ? `${student.firstName} ${student.lastName}` : 'Unknown Student',
+          changedByName: changedBy ? `${changedBy.firstName} ${changedBy.lastName}` : 'Unknown User'
+        });
+      }
+      setOverrides(entries);
+    } catch (error) {
+      console.error('Error loading roster:', error);
+    }
+  };
+
+  const selectedSession = sessions.find(s => s.id?.toString() === selectedSessionId);
+
+  useEffect(() => {
+    if (!selectedSessionId) {
+      setRows([]);
+      setOverrides([]);
+      return;
+    }
+
+    const sessionId = parseInt(selectedSessionId);
+    loadRoster(sessionId);
+
+    if (!selectedSession?.isActive) return;
+    const refresh = setInterval(() => loadRoster(sessionId), LIVE_REFRESH_MS);
+    return () => clearInterval(refresh);
+  }, [selectedSessionId, selectedSession?.isActive]);
+
+  const openOverride = (row: RosterRow) => {
+    setEditingRow(row);
+    setNewStatus(row.record?.status === 'present' ? 'absent' : 'present');
+    setReason('');
+  };
+
+  const saveOverride = async () => {
+    if (!editingRow || !selectedSession || !user?.id) return;
+
+    setIsSaving(true);
+    try {
+      await overrideAttendance({
+        sessionId: selectedSession.id!,
+        studentId: editingRow.student.id!,
+        status: newStatus,
+        reason,
+        changedBy: user.id
+      });
+
+      toast({
+        title: "Attendance Updated",
+        description: `${editingRow.student.firstName} ${editingRow.student.lastName} marked ${newStatus}`,
+      });
+
+      setEditingRow(null);
+      loadRoster(selectedSession.id!);
+    } catch (error) {
+      console.error('Error overriding attendance:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update attendance",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const getStatusBadge = (status?: AttendanceStatus) => {
+    switch (status) {
+      case 'present':
+        return <Badge variant="default" className="bg-success text-success-foreground">Present</Badge>;
+      case 'late':
+        return <Badge variant="default" className="bg-warning text-warning-foreground">Late</Badge>;
+      case 'absent':
+        return <Badge variant="destructive">Absent</Badge>;
+      case 'excused':
+        return <Badge variant="default" className="bg-primary text-primary-foreground">Excused</Badge>;
+      default:
+        return <Badge variant="outline">Not Checked In</Badge>;
+    }
+  };
+
+  const countByStatus = (status?: AttendanceStatus) =>
+    rows.filter(row => row.record?.status === status).length;
+
+  const summary = [
+    { label: 'Present', value: countByStatus('present') },
+    { label: 'Late', value: countByStatus('late') },
+    { label: 'Absent', value: countByStatus('absent') },
+    { label: 'Excused', value: countByStatus('excused') },
+    { label: 'Not Checked In', value: countByStatus(undefined) }
+  ];
+
+  return (
+    <div className="min-h-screen p-6">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-8">
+        <div className="flex items-center space-x-4">
+          <Link to="/dashboard">
+            <Button variant="outline" size="sm">
+              <ArrowLeft size={16} />
+              Back to Dashboard
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-3xl font-bold text-gradient">Attendance Roster</h1>
+            <p className="text-muted-foreground mt-1">Review and correct attendance for each class session</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-4xl mx-auto space-y-6">
+        <GlassCard variant="intense">
+          <div className="space-y-2">
+            <Label className="text-glass-foreground font-medium">Session</Label>
+            <Select value={selectedSessionId} onValueChange={setSelectedSessionId}>
+              <SelectTrigger className="glass border-glass-border/30 bg-glass/5 text-glass-foreground">
+                <SelectValue placeholder={sessions.length > 0 ? "Select session" : "No sessions scheduled"} />
+              </SelectTrigger>
+              <SelectContent className="glass border-glass-border/30 bg-glass text-glass-foreground">
+                {sessions.map((session) => (
+                  <SelectItem key={session.id} value={session.id!.toString()}>
+                    {session.title} ({session.date} {session.startTime} - {session.endTime})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {selectedSession && (
+              <p className="text-sm text-muted-foreground">
+                {selectedSession.cancelledAt
+                  ? `Cancelled: ${selectedSession.cancellationReason}. Check-ins do not count toward attendance`
+                  : selectedSession.isActive ? 'Live — refreshes automatically' : 'Closed'}
+              </p>
+            )}
+          </div>
+        </GlassCard>
+
+        {selectedSession && (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+              {summary.map((item) => (
+                <GlassCard key={item.label} variant="static">
+                  <div className="text-center">
+                    <div className="text-2xl font-bold text-glass-foreground mb-1">{item.value}</div>
+                    <div className="text-xs text-muted-foreground">{item.label}</div>
+                  </div>
+                </GlassCard>
+              ))}
+            </div>
+
+            <GlassCard variant="intense">
+              <h2 className="text-xl font-semibold text-glass-foreground mb-4 flex items-center">
+                <Users className="mr-2" size={20} />
+                Students ({rows.length})
+              </h2>
+              <div className="space-y-3">
+                {rows.map((row) => (
+                  <div key={row.student.id} className="flex items-center justify-between p-3 glass rounded-lg">
+                    <div>
+                      <p className="text-sm font-medium text-glass-foreground">
+                        {row.student.firstName} {row.student.lastName}
+                      </p>
+                      <p className="text-xs text-muted-foreground">{row.student.email}</p>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      {row.record?.checkInTime && (
+                        <span className="text-xs text-muted-foreground">
+                          {new Date(row.record.checkInTime).toLocaleTimeString()}
+                        </span>
+                      )}
+                      {row.record?.checkInMethod && (
+                        <Badge variant="outline">{row.record.checkInMethod.toUpperCase()}</Badge>
+                      )}
+                      {row.record?.isManualOverride && (
+                        <Badge variant="outline" className="text-warning">Overridden</Badge>
+                      )}
+                      {getStatusBadge(row.record?.status)}
+                      <Button variant="outline" size="sm" onClick={() => openOverride(row)}>
+                        <Pencil size={14} />
+                        Change
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+                {rows.length === 0 && (
+                  <div className="text-center py-8">
+                    <Users size={48} className="text-muted-foreground mx-auto mb-4" />
+                    <p className="text-muted-foreground">No students are enrolled in this course</p>
+                  </div>
+                )}
+              </div>
+            </GlassCard>
+
+            <GlassCard variant="intense">
+              <h2 className="text-xl font-semibold text-glass-foreground mb-4 flex items-center">
+                <History className="mr-2" size={20} />
+                Change History ({overrides.length})
+              </h2>
+              <div className="space-y-3">
+                {overrides.map((entry) => (
+                  <div key={entry.id} className="p-3 glass rounded-lg">
+                    <div className="flex items-center justify-between mb-1">
+                      <p className="text-sm font-medium text-glass-foreground">
+                        {entry.studentName}: {entry.previousStatus || 'no record'} → {entry.newStatus}
+                      </p>
+                      <span className="text-xs text-muted-foreground">
+                        {new Date(entry.createdAt).toLocaleString()}
+                      </span>
+                    </div>
+                    <p className="text-sm text-muted-foreground">{entry.reason}</p>
+                    <p className="text-xs text-muted-foreground mt-1">Changed by {entry.changedByName}</p>
+                  </div>
+                ))}
+                {overrides.length === 0 && (
+                  <p className="text-sm text-muted-foreground text-center py-4">No manual changes yet</p>
+                )}
+              </div>
+            </GlassCard>
+          </>
+        )}
+      </div>
+
+      {/* Override Dialog */}
+      <Dialog open={!!editingRow} onOpenChange={(open) => !open && setEditingRow(null)}>
+        <DialogContent className="glass border-glass-border/30 max-w-lg">
+          <DialogHeader>
+            <DialogTitle className="text-glass-foreground">Change Attendance</DialogTitle>
+          </DialogHeader>
+          {editingRow && (
+            <div className="space-y-4">
+              <div className="p-4 glass rounded-lg flex items-center justify-between">
+                <div>
+                  <p className="font-semibold text-glass-foreground">
+                    {editingRow.student.firstName} {editingRow.student.lastName}
+                  </p>
+                  <p className="text-sm text-muted-foreground">{editingRow.student.email}</p>
+                </div>
+                {getStatusBadge(editingRow.record?.status)}
+              </div>
+
+              <div className="space-y-2">
+                <Label className="text-glass-foreground font-medium">New Status *</Label>
+                <Select value={newStatus} onValueChange={(value) => setNewStatus(value as AttendanceStatus)}>
+                  <SelectTrigger className="glass border-glass-border/30 bg-glass/5 text-glass-foreground">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="glass border-glass-border/30 bg-glass text-glass-foreground">
+                    {STATUS_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="overrideReason" className="text-glass-foreground font-medium">Reason *</Label>
+                <Textarea
+                  id="overrideReason"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder="e.g., Medical certificate provided, phone battery died during check-in..."
+                  className="glass border-glass-border/30 bg-glass/5 text-glass-foreground"
+                  rows={3}
+                />
+              </div>
+
+              <div className="flex justify-end space-x-3">
+                <Button variant="outline" onClick={() => setEditingRow(null)}>
+                  Cancel
+                </Button>
+                <Button
+                  variant="primary"
+                  onClick={saveOverride}
+                  disabled={isSaving || !reason.trim() || newStatus === editingRow.record?.status}
+                >
+                  {isSaving ? (
+                    <div className="animate-spin rounded-full h-4 w-4 border-2 border-primary-foreground border-t-transparent" />
+                  ) : (
+                    <>
+                      <Save size={16} />
+                      Save Change
+                    </>
+                  )}
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
@@ -0,0 +1,365 @@
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { GlassCard } from '@/components/ui/glass-card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowLeft, ChevronDown, ChevronUp, Pencil, Plus, Repeat, Save, XCircle } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { db, ClassSession, Course, SessionSeries as Series } from '@/lib/database';
+import { getSessionStart } from '@/lib/attendancePolicy';
+import { notifySessionsCancelled, notifySessionsRescheduled } from '@/lib/sessionChanges';
+import {
+  cancelSeriesSessions,
+  getInstructorSeries,
+  getSeriesSessions,
+  SeriesScope,
+  updateSeriesSessions,
+  weekdayNames
+} from '@/lib/sessionSeries';
+import { toast } from '@/hooks/use-toast';
+
+interface SeriesWithSessions {
+  series: Series;
+  course?: Course;
+  sessions: ClassSession[];
+}
+
+interface OccurrenceAction {
+  mode: 'edit' | 'cancel';
+  session: ClassSession;
+  scope: SeriesScope;
+  title: string;
+  date: string;
+  startTime: string;
+  endTime: string;
+  reason: string;
+}
+
+const describeSession = (session: Pick<ClassSession, 'date' | 'startTime' | 'endTime'>) =>
+  `${new Date(`${session.date}T00:00`).toLocaleDateString()} ${session.startTime} - ${session.endTime}`;
+
+export const SessionSeries: React.FC = () => {
+  const { user } = useAuth();
+  const [seriesList, setSeriesList] = useState<SeriesWithSessions[]>([]);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [action, setAction] = useState<OccurrenceAction | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    loadSeries();
+  }, [user]);
+
+  const loadSeries = async () => {
+    if (!user?.id) return;
+
+    try {
+      const series = await getInstructorSeries(user.id);
+      const withSessions: SeriesWithSessions[] = [];
+      for (const item of series) {
+        withSessions.push({
+          series: item,
+          course: await db.courses.get(item.courseId),
+          sessions: await getSeriesSessions(item.id!)
+        });
+      }
+      setSeriesList(withSessions);
+    } catch (error) {
+      console.error('Error loading session series:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const openAction = (mode: OccurrenceAction['mode'], session: ClassSession) => {
+    setAction({
+      mode,
+      session,
+      scope: 'single',
+      title: session.title,
+      date: session.date,
+      startTime: session.startTime,
+      endTime: session.endTime,
+      reason: ''
+    });
+  };
+
+  const handleConfirm = async () => {
+    if (!action || !user?.id) return;
+
+    const { session, scope } = action;
+
+    setIsSaving(true);
+    try {
+      if (action.mode === 'edit') {
+        const changes = {
+          title: action.title.trim(),
+          startTime: action.startTime,
+          endTime: action.endTime,
+          ...(scope === 'single' ? { date: action.date } : {})
+        };
+        if (!changes.title) {
+          throw new Error('Session title is required');
+        }
+
+        const previous = await updateSeriesSessions(session.id!, changes, scope);
+        await notifySessionsRescheduled(previous, previous.map(occurrence => ({ ...occurrence, ...changes })), user.id);
+
+        toast({
+          title: "Sessions Updated",
+          description: `${previous.length} session${previous.length === 1 ? '' : 's'} updated and students have been notified`,
+        });
+      } else {
+        const cancelled = await cancelSeriesSessions(session.id!, scope, action.reason);
+        await notifySessionsCancelled(cancelled, action.reason, user.id);
+
+        toast({
+          title: "Sessions Cancelled",
+          description: `${cancelled.length} session${cancelled.length === 1 ? '' : 's'} cancelled and students have been notified`,
+        });
+      }
+
+      setAction(null);
+      await loadSeries();
+    } catch (error) {
+      console.error('Error updating series:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update sessions",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const now = new Date();
+
+  return (
+    <div className="min-h-screen p-6">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-8">
+        <div className="flex items-center space-x-4">
+          <Link to="/instructor/schedule-course">
+            <Button variant="outline" size="sm">
+              <ArrowLeft size={16} />
+              Back to Schedule Course
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-3xl font-bold text-gradient">Session Series</h1>
+            <p className="text-muted-foreground mt-1">Change or cancel occurrences of your recurring classes</p>
+          </div>
+        </div>
+        <Link to="/instructor/schedule-course">
+          <Button variant="primary">
+            <Plus size={16} />
+            New Series
+          </Button>
+        </Link>
+      </div>
+
+      <div className="max-w-3xl mx-auto space-y-6">
+        {seriesList.map(({ series, course, sessions }) => {
+          const upcoming = sessions.filter(session => getSessionStart(session) > now && !session.cancelledAt);
+          const cancelledCount = sessions.filter(session => session.cancelledAt).length;
+          const isExpanded = expandedId === series.id;
+
+          return (
+            <GlassCard key={series.id} variant="intense">
+              <div className="flex items-start justify-between">
+                <div>
+                  <h3 className="font-semibold text-glass-foreground">{series.title}</h3>
+                  <p className="text-sm text-muted-foreground">
+                    {course ? `${course.name} (${course.code})` : 'Unknown Course'}
+                  </p>
+                  <p className="text-sm text-muted-foreground mt-1">
+                    {series.weekdays.map(day => weekdayNames[day]).join(', ')} · {series.startTime} - {series.endTime} ·{' '}
+                    {new Date(`${series.startDate}T00:00`).toLocaleDateString()} to {new Date(`${series.endDate}T00:00`).toLocaleDateString()}
+                  </p>
+                  <div className="flex items-center space-x-2 mt-2">
+                    <Badge variant="outline">{sessions.length} sessions</Badge>
+                    <Badge variant="outline">{upcoming.length} upcoming</Badge>
+                    {series.skipDates.length > 0 && <Badge variant="outline">{series.skipDates.length} skipped</Badge>}
+                    {cancelledCount > 0 && <Badge variant="destructive">{cancelledCount} cancelled</Badge>}
+                  </div>
+                </div>
+                <Button variant="outline" size="sm" onClick={() => setExpandedId(isExpanded ? null : series.id!)}>
+                  {isExpanded ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+                  Sessions
+                </Button>
+              </div>
+
+              {isExpanded && (
+                <div className="mt-4 space-y-2">
+                  {upcoming.map((session) => (
+                    <div key={session.id} className="flex items-center justify-between p-3 glass rounded-lg">
+                      <div>
+                        <p className="text-sm text-glass-foreground">
+                          {weekdayNames[new Date(`${session.date}T00:00`).getDay()]} {describeSession(session)}
+                        </p>
+                        {session.title !== series.title && (
+                          <p className="text-xs text-muted-foreground">{session.title}</p>
+                        )}
+                      </div>
+                      <div className="flex space-x-2">
+                        <Button variant="outline" size="sm" onClick={() => openAction('edit', session)}>
+                          <Pencil size={14} />
+                        </Button>
+                        <Button variant="destructive" size="sm" onClick={() => openAction('cancel', session)}>
+                          <XCircle size={14} />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                  {upcoming.length === 0 && (
+                    <p className="text-sm text-muted-foreground">No upcoming sessions in this series</p>
+                  )}
+                </div>
+              )}
+            </GlassCard>
+          );
+        })}
+
+        {!isLoading && seriesList.length === 0 && (
+          <GlassCard variant="intense" size="lg">
+            <div className="text-center">
+              <Repeat size={64} className="text-muted-foreground mx-auto mb-4" />
+              <p className="text-muted-foreground">
+                No recurring series yet. Choose "Weekly series" when scheduling a course
+              </p>
+            </div>
+          </GlassCard>
+        )}
+      </div>
+
+      <Dialog open={!!action} onOpenChange={(open) => !open && setAction(null)}>
+        <DialogContent className="glass border-glass-border/30">
+          <DialogHeader>
+            <DialogTitle className="text-glass-foreground">
+              {action?.mode === 'edit' ? 'Change Session' : 'Cancel Session'}
+            </DialogTitle>
+          </DialogHeader>
+
+          {action && (
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">{describeSession(action.session)}</p>
+
+              <div className="space-y-2">
+                <Label className="text-glass-foreground font-medium">Apply To</Label>
+                <Select value={action.scope} onValueChange={(value: SeriesScope) => setAction({ ...action, scope: value })}>
+                  <SelectTrigger className="glass border-glass-border/30 bg-glass/5 text-glass-foreground">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="glass border-glass-border/30 bg-glass text-glass-foreground">
+                    <SelectItem value="single">This session only</SelectItem>
+                    <SelectItem value="future">This and all following sessions</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {action.mode === 'edit' && (
+                <>
+                  <div className="space-y-2">
+                    <Label htmlFor="occurrenceTitle" className="text-glass-foreground font-medium">Title</Label>
+                    <Input
+                      id="occurrenceTitle"
+                      value={action.title}
+                      onChange={(e) => setAction({ ...action, title: e.target.value })}
+                      className="glass border-glass-border/30 bg-glass/5 text-glass-foreground"
+                    />
+                  </div>
+                  <div className="grid grid-cols-3 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="occurrenceDate" className="text-glass-foreground font-medium">Date</Label>
+                      <Input
+                        id="occurrenceDate"
+                        type="date"
+                        value={action.date}
+                        onChange={(e) => setAction({ ...action, date: e.target.value })}
+                        disabled={action.scope === 'future'}
+                        className="glass border-glass-border/30 bg-glass/5 text-glass-foreground"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="occurrenceStart" className="text-glass-foreground font-medium">Start</Label>
+                      <Input
+                        id="occurrenceStart"
+                        type="time"
+                        value={action.startTime}
+                        onChange={(e) => setAction({ ...action, startTime: e.target.value })}
+                        className="glass border-glass-border/30 bg-glass/5 text-glass-foreground"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="occurrenceEnd" className="text-glass-foreground font-medium">End</Label>
+                      <Input
+                        id="occurrenceEnd"
+                        type="time"
+                        value={action.endTime}
+                        onChange={(e) => setAction({ ...action, endTime: e.target.value })}
+                        className="glass border-glass-border/30 bg-glass/5 text-glass-foreground"
+                      />
+                    </div>
+                  </div>
+                  {action.scope === 'future' && (
+                    <p className="text-xs text-muted-foreground">
+                      Following sessions keep their own dates; move individual sessions one at a time
+                    </p>
+                  )}
+                </>
+              )}
+
+              {action.mode === 'cancel' && (
+                <div className="space-y-2">
+                  <Label htmlFor="cancelReason" className="text-glass-foreground font-medium">Reason *</Label>
+                  <Textarea
+                    id="cancelReason"
+                    value={action.reason}
+                    onChange={(e) => setAction({ ...action, reason: e.target.value })}
+                    placeholder="e.g., Public holiday, instructor unwell"
+                    className="glass border-glass-border/30 bg-glass/5 text-glass-foreground"
+                    rows={3}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Enrolled students will be notified with this reason. Cancelled sessions do not count toward attendance
+                  </p>
+                </div>
+              )}
+
+              <div className="flex justify-end space-x-3">
+                <Button variant="outline" onClick={() => setAction(null)}>
+                  Back
+                </Button>
+                <Button
+                  variant={action.mode === 'edit' ? 'primary' : 'destructive'}
+                  onClick={handleConfirm}
+                  disabled={isSaving || (action.mode === 'cancel' && !action.reason.trim())}
+                >
+                  {isSaving ? (
+                    <div className="animate-spin rounded-full h-4 w-4 border-2 border-primary-foreground border-t-transparent" />
+                  ) : action.mode === 'edit' ? (
+                    <>
+                      <Save size={16} />
+                      Save Changes
+                    </>
+                  ) : (
+                    <>
+                      <XCircle size={16} />
+                      Cancel Sessions
+                    </>
+                  )}
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
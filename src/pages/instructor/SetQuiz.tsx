@@ -4,23 +4,26 @@ import { GlassCard } from '@/components/ui/glass-card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { ArrowLeft, Plus, Trash2, Save, Shuffle } from 'lucide-react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { ArrowLeft, Trash2, Save, Shuffle, Dices, Library, FunctionSquare } from 'lucide-react';
 import { Link, useNavigate } from 'react-router-dom';
-import { db, Course, Question } from '@/lib/database';
+import { db, ClassSession, Course, Question, QuestionBank, QuestionTemplate, Quiz } from '@/lib/database';
+import { getSessionEnd } from '@/lib/attendancePolicy';
+import {
+  QuestionDraft,
+  addQuestionsToBank,
+  createQuestionBank,
+  drawRandomQuestions,
+  getBankQuestions,
+  getInstructorBanks
+} from '@/lib/questionBank';
+import { createSeed, generateQuestions, getInstructorTemplates } from '@/lib/questionGenerator';
 import { toast } from '@/hooks/use-toast';
 
-interface QuizQuestion {
-  id?: number;
-  type: 'multiple_choice' | 'true_false' | 'short_answer';
-  question: string;
-  options?: string[];
-  correctAnswer: string;
-  points: number;
-}
-
 export const SetQuiz: React.FC = () => {
   const { user } = useAuth();
   const navigate = useNavigate();
@@ -28,17 +31,40 @@ export const SetQuiz: React.FC = () => {
   const [selectedCourse, setSelectedCourse] = useState<string>('');
   const [quizTitle, setQuizTitle] = useState('');
   const [timeLimit, setTimeLimit] = useState(30);
-  const [questions, setQuestions] = useState<QuizQuestion[]>([]);
-  const [autoGenCount, setAutoGenCount] = useState(5);
+  const [maxAttempts, setMaxAttempts] = useState(1);
+  const [showScore, setShowScore] = useState(true);
+  const [revealAnswers, setRevealAnswers] = useState<NonNullable<Quiz['revealAnswers']>>('after_submission');
+  const [availability, setAvailability] = useState<'session' | 'course'>('session');
+  const [sessions, setSessions] = useState<ClassSession[]>([]);
+  const [selectedSession, setSelectedSession] = useState<string>('');
+  const [opensAt, setOpensAt] = useState('');
+  const [closesAt, setClosesAt] = useState('');
+  const [banks, setBanks] = useState<QuestionBank[]>([]);
+  const [pickBankId, setPickBankId] = useState<string>('');
+  const [bankQuestions, setBankQuestions] = useState<Question[]>([]);
+  const [drawCounts, setDrawCounts] = useState<{ [bankId: number]: string }>({});
+  const [questions, setQuestions] = useState<Question[]>([]);
+  const [templates, setTemplates] = useState<QuestionTemplate[]>([]);
+  const [templateCounts, setTemplateCounts] = useState<{ [templateId: number]: string }>({});
+  const [generatorBankCounts, setGeneratorBankCounts] = useState<{ [bankId: number]: string }>({});
+  const [seed, setSeed] = useState(createSeed());
   const [isLoading, setIsLoading] = useState(false);
 
   useEffect(() => {
     loadCourses();
   }, [user]);
 
+  useEffect(() => {
+    loadBankQuestions();
+  }, [pickBankId]);
+
+  useEffect(() => {
+    loadSessions();
+  }, [selectedCourse]);
+
   const loadCourses = async () => {
     if (!user?.id) return;
-    
+
     try {
       // Only load courses created by this instructor
       const instructorCourses = await db.courses
@@ -46,40 +72,99 @@ export const SetQuiz: React.FC = () => {
         .equals(user.id)
         .toArray();
       setCourses(instructorCourses);
+      setBanks(await getInstructorBanks(user.id));
+      setTemplates(await getInstructorTemplates(user.id));
     } catch (error) {
       console.error('Error loading courses:', error);
     }
   };
 
-  const addQuestion = () => {
-    const newQuestion: QuizQuestion = {
-      type: 'multiple_choice',
-      question: '',
-      options: ['', '', '', ''],
-      correctAnswer: '',
-      points: 1
-    };
-    setQuestions([...questions, newQuestion]);
-  };
+  // Sessions of the selected course that have not ended yet
+  const loadSessions = async () => {
+    setSelectedSession('');
+    if (!selectedCourse) {
+      setSessions([]);
+      return;
+    }
 
-  const updateQuestion = (index: number, field: keyof QuizQuestion, value: any) => {
-    const updatedQuestions = [...questions];
-    updatedQuestions[index] = { ...updatedQuestions[index], [field]: value };
-    setQuestions(updatedQuestions);
+    try {
+      const now = new Date();
+      const courseSessions = await db.classSessions
+        .where('courseId').equals(parseInt(selectedCourse))
+        .filter(session => getSessionEnd(session) > now && !session.cancelledAt)
+        .toArray();
+      courseSessions.sort((a, b) => `${a.date} ${a.startTime}`.localeCompare(`${b.date} ${b.startTime}`));
+      setSessions(courseSessions);
+    } catch (error) {
+      console.error('Error loading sessions:', error);
+    }
   };
 
-  const updateOption = (questionIndex: number, optionIndex: number, value: string) => {
-    const updatedQuestions = [...questions];
-    if (updatedQuestions[questionIndex].options) {
-      updatedQuestions[questionIndex].options![optionIndex] = value;
-      setQuestions(updatedQuestions);
+  const loadBankQuestions = async () => {
+    if (!pickBankId) {
+      setBankQuestions([]);
+      return;
+    }
+
+    try {
+      setBankQuestions(await getBankQuestions(parseInt(pickBankId)));
+    } catch (error) {
+      console.error('Error loading bank questions:', error);
     }
   };
 
+  const isSelected = (question: Question) => questions.some(q => q.id === question.id);
+
+  const toggleQuestion = (question: Question) => {
+    setQuestions(isSelected(question)
+      ? questions.filter(q => q.id !== question.id)
+      : [...questions, question]);
+  };
+
   const removeQuestion = (index: number) => {
     setQuestions(questions.filter((_, i) => i !== index));
   };
 
+  const drawQuestions = async () => {
+    const draws = Object.entries(drawCounts)
+      .map(([bankId, count]) => ({ bankId: Number(bankId), count: parseInt(count) || 0 }))
+      .filter(draw => draw.count > 0);
+
+    if (draws.length === 0) {
+      toast({
+        title: "Nothing to Draw",
+        description: "Enter how many questions to draw from at least one bank",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const drawn: Question[] = [];
+      for (const draw of draws) {
+        const excludeIds = [...questions, ...drawn].map(q => q.id!);
+        drawn.push(...await drawRandomQuestions(draw.bankId, draw.count, excludeIds));
+      }
+
+      setQuestions([...questions, ...drawn]);
+      setDrawCounts({});
+      toast({
+        title: "Questions Drawn",
+        description: `Added ${drawn.length} random questions to the quiz`,
+      });
+    } catch (error) {
+      console.error('Error drawing questions:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to draw questions",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const generateAutoQuiz = async () => {
     if (!selectedCourse) {
       toast({
@@ -90,69 +175,73 @@ export const SetQuiz: React.FC = () => {
       return;
     }
 
+    const toCounts = (counts: { [id: number]: string }) => Object.entries(counts)
+      .map(([id, count]) => ({ id: Number(id), count: parseInt(count) || 0 }))
+      .filter(entry => entry.count > 0);
+    const templateSources = toCounts(templateCounts)
+      .map(({ id, count }) => ({ template: templates.find(t => t.id === id)!, count }))
+      .filter(source => source.template);
+    const bankSources = toCounts(generatorBankCounts).map(({ id, count }) => ({ bankId: id, count }));
+
+    if (templateSources.length === 0 && bankSources.length === 0) {
+      toast({
+        title: "Nothing to Generate",
+        description: "Enter how many questions to take from at least one template or bank",
+        variant: "destructive"
+      });
+      return;
+    }
+
     setIsLoading(true);
     try {
       const course = courses.find(c => c.id?.toString() === selectedCourse);
       if (!course) return;
 
-      // Generate questions based on course content
-      const generatedQuestions: QuizQuestion[] = [];
-      
-      for (let i = 0; i < autoGenCount; i++) {
-        const questionTypes: ('multiple_choice' | 'true_false' | 'short_answer')[] = ['multiple_choice', 'true_false', 'short_answer'];
-        const randomType = questionTypes[Math.floor(Math.random() * questionTypes.length)];
-        
-        let question: QuizQuestion;
-        
-        switch (randomType) {
-          case 'multiple_choice':
-            question = {
-              type: 'multiple_choice',
-              question: `What is a key concept in ${course.name}? (Question ${i + 1})`,
-              options: [
-                'Option A - Correct Answer',
-                'Option B - Incorrect',
-                'Option C - Incorrect',
-                'Option D - Incorrect'
-              ],
-              correctAnswer: 'Option A - Correct Answer',
-              points: 2
-            };
-            break;
-          case 'true_false':
-            question = {
-              type: 'true_false',
-              question: `${course.name} involves practical applications. (Question ${i + 1})`,
-              options: ['True', 'False'],
-              correctAnswer: 'True',
-              points: 1
-            };
-            break;
-          case 'short_answer':
-            question = {
-              type: 'short_answer',
-              question: `Explain a fundamental principle of ${course.name}. (Question ${i + 1})`,
-              correctAnswer: 'Sample answer for fundamental principle',
-              points: 3
-            };
-            break;
-        }
-        
-        generatedQuestions.push(question);
+      const { existing, generated } = await generateQuestions({
+        seed: seed.trim(),
+        templates: templateSources,
+        banks: bankSources,
+        exclude: questions.map(q => q.question)
+      });
+
+      // Generated questions are kept in one bank per course so they can be reused
+      const bankName = `${course.name} - Generated Questions`;
+      const bankId = banks.find(bank => bank.name === bankName)?.id ?? await createQuestionBank({
+        instructorId: user!.id!,
+        name: bankName,
+        description: `Generated questions for ${course.name}`,
+        tags: ['generated', course.code.toLowerCase()]
+      });
+
+      // Regenerating with the same seed reuses the questions saved last time
+      const previouslyGenerated = await getBankQuestions(bankId);
+      const saved: Question[] = [];
+      const newDrafts: QuestionDraft[] = [];
+      for (const draft of generated) {
+        const match = previouslyGenerated.find(q => q.question === draft.question && q.correctAnswer === draft.correctAnswer);
+        if (match) saved.push(match);
+        else newDrafts.push(draft);
+      }
+      if (newDrafts.length > 0) {
+        const questionIds = await addQuestionsToBank(bankId, newDrafts);
+        saved.push(...(await db.questions.bulkGet(questionIds)).filter((question): question is Question => !!question));
       }
 
-      setQuestions(generatedQuestions);
-      setQuizTitle(`${course.name} - Auto Generated Quiz`);
-      
+      // Keep the generated order stable regardless of which questions already existed
+      const ordered = generated.map(draft => saved.find(q => q.question === draft.question && q.correctAnswer === draft.correctAnswer)!);
+      setQuestions(prev => [...prev, ...existing, ...ordered]);
+      setBanks(await getInstructorBanks(user!.id!));
+      if (!quizTitle) setQuizTitle(`${course.name} - Generated Quiz`);
+
       toast({
         title: "Quiz Generated",
-        description: `Generated ${autoGenCount} questions for ${course.name}`,
+        description: `Added ${existing.length + generated.length} questions with seed ${seed.trim()}`,
       });
     } catch (error) {
       console.error('Error generating quiz:', error);
       toast({
         title: "Error",
-        description: "Failed to generate quiz",
+        description: error instanceof Error ? error.message : "Failed to generate quiz",
         variant: "destructive"
       });
     } finally {
@@ -170,56 +259,70 @@ export const SetQuiz: React.FC = () => {
       return;
     }
 
-    setIsLoading(true);
-    try {
-      // Create a question bank first
-      const bankId = await db.questionBanks.add({
-        instructorId: user!.id!,
-        name: `${quizTitle} - Question Bank`,
-        description: `Questions for ${quizTitle}`,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString()
+    if (availability === 'session' && !selectedSession) {
+      toast({
+        title: "Select Session",
+        description: "Choose the class session this quiz runs in",
+        variant: "destructive"
       });
+      return;
+    }
 
-      // Add questions to the bank
-      const questionIds: number[] = [];
-      for (const question of questions) {
-        const questionId = await db.questions.add({
-          bankId,
-          type: question.type,
-          question: question.question,
-          options: question.options,
-          correctAnswer: question.correctAnswer,
-          points: question.points,
-          createdAt: new Date().toISOString(),
-          updatedAt: new Date().toISOString()
+    if (availability === 'course') {
+      if (!opensAt || !closesAt) {
+        toast({
+          title: "Missing Window",
+          description: "Set when the quiz opens and closes",
+          variant: "destructive"
+        });
+        return;
+      }
+      if (new Date(closesAt) <= new Date(opensAt)) {
+        toast({
+          title: "Invalid Window",
+          description: "The quiz must close after it opens",
+          variant: "destructive"
         });
-        questionIds.push(questionId);
+        return;
       }
+    }
 
-      // Create a dummy session for the quiz (in a real app, this would be linked to actual class sessions)
-      const sessionId = await db.classSessions.add({
-        courseId: parseInt(selectedCourse),
-        instructorId: user!.id!,
-        title: quizTitle,
-        date: new Date().toISOString().split('T')[0],
-        startTime: '09:00',
-        endTime: '10:00',
-        checkInMethod: 'qr',
-        isActive: true,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString()
+    // Cleared or negative inputs would leave the quiz timer counting from NaN
+    if (!Number.isInteger(timeLimit) || timeLimit <= 0) {
+      toast({
+        title: "Invalid Time Limit",
+        description: "Time limit must be a whole number of minutes greater than 0",
+        variant: "destructive"
       });
+      return;
+    }
 
-      // Create the quiz
+    if (!Number.isInteger(maxAttempts) || maxAttempts < 0) {
+      toast({
+        title: "Invalid Attempts",
+        description: "Maximum attempts must be a whole number (0 for unlimited)",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      // Create the quiz from the selected bank questions
       await db.quizzes.add({
-        sessionId,
+        courseId: parseInt(selectedCourse),
+        ...(availability === 'session'
+          ? { sessionId: parseInt(selectedSession) }
+          : { opensAt: new Date(opensAt).toISOString(), closesAt: new Date(closesAt).toISOString() }),
         instructorId: user!.id!,
         title: quizTitle,
         timeLimit,
         isRandomized: true,
         isActive: true,
-        questions: questionIds,
+        maxAttempts,
+        showScore,
+        revealAnswers,
+        questions: questions.map(q => q.id!),
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString()
       });
@@ -242,6 +345,8 @@ export const SetQuiz: React.FC = () => {
     }
   };
 
+  const totalPoints = questions.reduce((sum, question) => sum + question.points, 0);
+
   return (
     <div className="min-h-screen p-6">
       {/* Header */}
@@ -255,15 +360,22 @@ export const SetQuiz: React.FC = () => {
           </Link>
           <div>
             <h1 className="text-3xl font-bold text-gradient">Set Quiz</h1>
-            <p className="text-muted-foreground mt-1">Create or auto-generate quizzes for your courses</p>
+            <p className="text-muted-foreground mt-1">Assemble quizzes from your question banks</p>
           </div>
         </div>
+        <Link to="/instructor/question-banks">
+          <Button variant="outline">
+            <Library size={16} />
+            Manage Question Banks
+          </Button>
+        </Link>
       </div>
 
-      <Tabs defaultValue="manual" className="space-y-6">
+      <Tabs defaultValue="pick" className="space-y-6">
         <TabsList className="glass">
-          <TabsTrigger value="manual">Manual Creation</TabsTrigger>
-          <TabsTrigger value="auto">Auto Generate</TabsTrigger>
+          <TabsTrigger value="pick">Pick Questions</TabsTrigger>
+          <TabsTrigger value="draw">Random Draw</TabsTrigger>
+          <TabsTrigger value="auto">Generate</TabsTrigger>
         </TabsList>
 
         {/* Quiz Settings */}
@@ -273,7 +385,7 @@ export const SetQuiz: React.FC = () => {
             <div className="space-y-2">
               <Label htmlFor="course" className="text-glass-foreground font-medium">Course</Label>
               <Select value={selectedCourse} onValueChange={setSelectedCourse}>
-                <SelectTrigger 
+                <SelectTrigger
                   className="glass border-glass-border/30 bg-glass/5 text-glass-foreground"
                   disabled={courses.length === 0}
                 >
@@ -320,29 +432,271 @@ export const SetQuiz: React.FC = () => {
                 className="glass border-glass-border/30 bg-glass/5 text-glass-foreground"
               />
             </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="maxAttempts" className="text-glass-foreground font-medium">Maximum Attempts</Label>
+              <Input
+                id="maxAttempts"
+                type="number"
+                value={maxAttempts}
+                onChange={(e) => setMaxAttempts(parseInt(e.target.value))}
+                min="0"
+                className="glass border-glass-border/30 bg-glass/5 text-glass-foreground"
+              />
+              <p className="text-xs text-muted-foreground">0 allows unlimited attempts; the best score counts</p>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-glass-foreground font-medium">Reveal Correct Answers</Label>
+              <Select value={revealAnswers} onValueChange={(value: NonNullable<Quiz['revealAnswers']>) => setRevealAnswers(value)}>
+                <SelectTrigger className="glass border-glass-border/30 bg-glass/5 text-glass-foreground">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="glass border-glass-border/30 bg-glass text-glass-foreground">
+                  <SelectItem value="after_submission">After submission</SelectItem>
+                  <SelectItem value="after_close">After the quiz closes</SelectItem>
+                  <SelectItem value="never">Never</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex items-center justify-between space-x-4 glass p-3 rounded-lg">
+              <Label htmlFor="showScore" className="text-glass-foreground font-medium">Show score after submission</Label>
+              <Switch id="showScore" checked={showScore} onCheckedChange={setShowScore} />
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-glass-foreground font-medium">Availability</Label>
+              <Select value={availability} onValueChange={(value: 'session' | 'course') => setAvailability(value)}>
+                <SelectTrigger className="glass border-glass-border/30 bg-glass/5 text-glass-foreground">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="glass border-glass-border/30 bg-glass text-glass-foreground">
+                  <SelectItem value="session">During a class session</SelectItem>
+                  <SelectItem value="course">Course-level window</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {availability === 'session' ? (
+              <div className="space-y-2 md:col-span-2">
+                <Label className="text-glass-foreground font-medium">Session</Label>
+                <Select value={selectedSession} onValueChange={setSelectedSession}>
+                  <SelectTrigger
+                    className="glass border-glass-border/30 bg-glass/5 text-glass-foreground"
+                    disabled={sessions.length === 0}
+                  >
+                    <SelectValue placeholder={
+                      !selectedCourse ? "Select a course first" : sessions.length > 0 ? "Select session" : "No upcoming sessions"
+                    } />
+                  </SelectTrigger>
+                  <SelectContent className="glass border-glass-border/30 bg-glass text-glass-foreground">
+                    {sessions.map((session) => (
+                      <SelectItem key={session.id} value={session.id!.toString()}>
+                        {session.title} · {new Date(session.date).toLocaleDateString()} {session.startTime} - {session.endTime}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {selectedCourse && sessions.length === 0 && (
+                  <p className="text-sm text-warning mt-1">
+                    This course has no upcoming sessions.{' '}
+                    <Link to="/instructor/schedule-course" className="underline">
+                      Schedule Course
+                    </Link>
+                  </p>
+                )}
+              </div>
+            ) : (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="opensAt" className="text-glass-foreground font-medium">Opens</Label>
+                  <Input
+                    id="opensAt"
+                    type="datetime-local"
+                    value={opensAt}
+                    onChange={(e) => setOpensAt(e.target.value)}
+                    className="glass border-glass-border/30 bg-glass/5 text-glass-foreground"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="closesAt" className="text-glass-foreground font-medium">Closes</Label>
+                  <Input
+                    id="closesAt"
+                    type="datetime-local"
+                    value={closesAt}
+                    onChange={(e) => setClosesAt(e.target.value)}
+                    className="glass border-glass-border/30 bg-glass/5 text-glass-foreground"
+                  />
+                </div>
+              </>
+            )}
           </div>
         </GlassCard>
 
+        <TabsContent value="pick" className="space-y-6">
+          <GlassCard variant="intense">
+            <h2 className="text-xl font-semibold text-glass-foreground mb-4">Pick from a Bank</h2>
+            <div className="space-y-2 mb-4 max-w-md">
+              <Label className="text-glass-foreground font-medium">Question Bank</Label>
+              <Select value={pickBankId} onValueChange={setPickBankId}>
+                <SelectTrigger
+                  className="glass border-glass-border/30 bg-glass/5 text-glass-foreground"
+                  disabled={banks.length === 0}
+                >
+                  <SelectValue placeholder={banks.length > 0 ? "Select bank" : "No question banks yet"} />
+                </SelectTrigger>
+                <SelectContent className="glass border-glass-border/30 bg-glass text-glass-foreground">
+                  {banks.map((bank) => (
+                    <SelectItem key={bank.id} value={bank.id!.toString()}>
+                      {bank.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              {bankQuestions.map((question) => (
+                <label key={question.id} className="flex items-start space-x-3 glass p-3 rounded-lg cursor-pointer">
+                  <Checkbox
+                    checked={isSelected(question)}
+                    onCheckedChange={() => toggleQuestion(question)}
+                    className="mt-1"
+                  />
+                  <div className="flex-1">
+                    <p className="text-glass-foreground">{question.question}</p>
+                    <p className="text-xs text-muted-foreground">{question.type.replace('_', ' ')} · {question.points} pts</p>
+                  </div>
+                </label>
+              ))}
+              {pickBankId && bankQuestions.length === 0 && (
+                <p className="text-center text-muted-foreground py-6">This bank has no questions yet</p>
+              )}
+            </div>
+          </GlassCard>
+        </TabsContent>
+
+        <TabsContent value="draw" className="space-y-6">
+          <GlassCard variant="intense">
+            <h2 className="text-xl font-semibold text-glass-foreground mb-4">Draw Random Questions</h2>
+            <div className="space-y-3">
+              {banks.map((bank) => (
+                <div key={bank.id} className="flex items-center justify-between glass p-3 rounded-lg">
+                  <div>
+                    <p className="font-medium text-glass-foreground">{bank.name}</p>
+                    {(bank.tags || []).length > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-1">
+                        {bank.tags!.map(tag => (
+                          <Badge key={tag} variant="outline" className="text-xs">{tag}</Badge>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                  <Input
+                    type="number"
+                    min="0"
+                    value={drawCounts[bank.id!] || ''}
+                    onChange={(e) => setDrawCounts({ ...drawCounts, [bank.id!]: e.target.value })}
+                    placeholder="0"
+                    className="glass border-glass-border/30 bg-glass/5 text-glass-foreground w-24"
+                  />
+                </div>
+              ))}
+              {banks.length === 0 && (
+                <p className="text-center text-muted-foreground py-6">Create a question bank to draw questions from</p>
+              )}
+            </div>
+            <div className="flex justify-end mt-4">
+              <Button variant="primary" onClick={drawQuestions} disabled={isLoading || banks.length === 0}>
+                <Dices size={16} />
+                Draw Questions
+              </Button>
+            </div>
+          </GlassCard>
+        </TabsContent>
+
         <TabsContent value="auto" className="space-y-6">
           <GlassCard variant="intense">
-            <h2 className="text-xl font-semibold text-glass-foreground mb-4">Auto Generate Quiz</h2>
-            <div className="flex items-end space-x-4">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-xl font-semibold text-glass-foreground">Generate from Templates and Banks</h2>
+              <Link to="/instructor/question-templates">
+                <Button variant="outline" size="sm">
+                  <FunctionSquare size={14} />
+                  Manage Templates
+                </Button>
+              </Link>
+            </div>
+
+            <div className="flex items-end space-x-2 mb-6">
               <div className="space-y-2">
-                <Label htmlFor="questionCount" className="text-glass-foreground font-medium">Number of Questions</Label>
+                <Label htmlFor="seed" className="text-glass-foreground font-medium">Seed</Label>
                 <Input
-                  id="questionCount"
-                  type="number"
-                  value={autoGenCount}
-                  onChange={(e) => setAutoGenCount(parseInt(e.target.value))}
-                  min="1"
-                  max="20"
-                  className="glass border-glass-border/30 bg-glass/5 text-glass-foreground w-32"
+                  id="seed"
+                  value={seed}
+                  onChange={(e) => setSeed(e.target.value)}
+                  className="glass border-glass-border/30 bg-glass/5 text-glass-foreground w-40"
                 />
               </div>
+              <Button variant="outline" onClick={() => setSeed(createSeed())}>
+                <Dices size={16} />
+                New Seed
+              </Button>
+            </div>
+            <p className="text-sm text-muted-foreground mb-4">
+              The same seed with the same counts always produces the same questions
+            </p>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div className="space-y-3">
+                <h3 className="font-semibold text-glass-foreground">Templates</h3>
+                {templates.map((template) => (
+                  <div key={template.id} className="flex items-center justify-between glass p-3 rounded-lg">
+                    <div>
+                      <p className="font-medium text-glass-foreground">{template.name}</p>
+                      <p className="text-xs text-muted-foreground">{template.type.replace('_', ' ')} · {template.points} pts</p>
+                    </div>
+                    <Input
+                      type="number"
+                      min="0"
+                      value={templateCounts[template.id!] || ''}
+                      onChange={(e) => setTemplateCounts({ ...templateCounts, [template.id!]: e.target.value })}
+                      placeholder="0"
+                      className="glass border-glass-border/30 bg-glass/5 text-glass-foreground w-24"
+                    />
+                  </div>
+                ))}
+                {templates.length === 0 && (
+                  <p className="text-sm text-muted-foreground">No templates yet</p>
+                )}
+              </div>
+
+              <div className="space-y-3">
+                <h3 className="font-semibold text-glass-foreground">Question Banks</h3>
+                {banks.map((bank) => (
+                  <div key={bank.id} className="flex items-center justify-between glass p-3 rounded-lg">
+                    <p className="font-medium text-glass-foreground">{bank.name}</p>
+                    <Input
+                      type="number"
+                      min="0"
+                      value={generatorBankCounts[bank.id!] || ''}
+                      onChange={(e) => setGeneratorBankCounts({ ...generatorBankCounts, [bank.id!]: e.target.value })}
+                      placeholder="0"
+                      className="glass border-glass-border/30 bg-glass/5 text-glass-foreground w-24"
+                    />
+                  </div>
+                ))}
+                {banks.length === 0 && (
+                  <p className="text-sm text-muted-foreground">No question banks yet</p>
+                )}
+              </div>
+            </div>
+
+            <div className="flex justify-end mt-6">
               <Button
                 variant="primary"
                 onClick={generateAutoQuiz}
-                disabled={isLoading || !selectedCourse || courses.length === 0}
+                disabled={isLoading || !selectedCourse || courses.length === 0 || !seed.trim()}
               >
                 {isLoading ? (
                   <div className="animate-spin rounded-full h-4 w-4 border-2 border-primary-foreground border-t-transparent" />
@@ -357,161 +711,41 @@ export const SetQuiz: React.FC = () => {
           </GlassCard>
         </TabsContent>
 
-        <TabsContent value="manual" className="space-y-6">
-          <GlassCard variant="intense">
-            <div className="flex items-center justify-between mb-4">
-              <h2 className="text-xl font-semibold text-glass-foreground">Questions</h2>
-              <Button variant="primary" onClick={addQuestion}>
-                <Plus size={16} />
-                Add Question
-              </Button>
-            </div>
-
-            <div className="space-y-6">
-              {questions.map((question, index) => (
-                <div key={index} className="glass p-4 rounded-lg">
-                  <div className="flex items-center justify-between mb-4">
-                    <h3 className="font-semibold text-glass-foreground">Question {index + 1}</h3>
-                    <Button
-                      variant="destructive"
-                      size="sm"
-                      onClick={() => removeQuestion(index)}
-                    >
-                      <Trash2 size={14} />
-                    </Button>
-                  </div>
-
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
-                    <div className="space-y-2">
-                      <Label className="text-glass-foreground font-medium">Question Type</Label>
-                      <Select
-                        value={question.type}
-                        onValueChange={(value: 'multiple_choice' | 'true_false' | 'short_answer') =>
-                          updateQuestion(index, 'type', value)
-                        }
-                      >
-                        <SelectTrigger className="glass border-glass-border/30 bg-glass/5 text-glass-foreground">
-                          <SelectValue />
-                        </SelectTrigger>
-                        <SelectContent className="glass border-glass-border/30 bg-glass text-glass-foreground">
-                          <SelectItem value="multiple_choice">Multiple Choice</SelectItem>
-                          <SelectItem value="true_false">True/False</SelectItem>
-                          <SelectItem value="short_answer">Short Answer</SelectItem>
-                        </SelectContent>
-                      </Select>
-                    </div>
-
-                    <div className="space-y-2">
-                      <Label className="text-glass-foreground font-medium">Points</Label>
-                      <Input
-                        type="number"
-                        value={question.points}
-                        onChange={(e) => updateQuestion(index, 'points', parseInt(e.target.value))}
-                        min="1"
-                        max="10"
-                        className="glass border-glass-border/30 bg-glass/5 text-glass-foreground"
-                      />
-                    </div>
-                  </div>
-
-                  <div className="space-y-4">
-                    <div className="space-y-2">
-                      <Label className="text-glass-foreground font-medium">Question</Label>
-                      <Textarea
-                        value={question.question}
-                        onChange={(e) => updateQuestion(index, 'question', e.target.value)}
-                        placeholder="Enter your question here..."
-                        className="glass border-glass-border/30 bg-glass/5 text-glass-foreground"
-                        rows={2}
-                      />
-                    </div>
-
-                    {question.type === 'multiple_choice' && (
-                      <div className="space-y-2">
-                        <Label className="text-glass-foreground font-medium">Options</Label>
-                        {question.options?.map((option, optionIndex) => (
-                          <div key={optionIndex} className="flex items-center space-x-2">
-                            <span className="text-glass-foreground font-medium w-8">
-                              {String.fromCharCode(65 + optionIndex)}.
-                            </span>
-                            <Input
-                              value={option}
-                              onChange={(e) => updateOption(index, optionIndex, e.target.value)}
-                              placeholder={`Option ${String.fromCharCode(65 + optionIndex)}`}
-                              className="glass border-glass-border/30 bg-glass/5 text-glass-foreground"
-                            />
-                          </div>
-                        ))}
-                      </div>
-                    )}
-
-                    {question.type === 'true_false' && (
-                      <div className="space-y-2">
-                        <Label className="text-glass-foreground font-medium">Options</Label>
-                        <div className="flex space-x-4">
-                          <div className="flex items-center space-x-2">
-                            <span className="text-glass-foreground">A. True</span>
-                          </div>
-                          <div className="flex items-center space-x-2">
-                            <span className="text-glass-foreground">B. False</span>
-                          </div>
-                        </div>
-                      </div>
-                    )}
+        {/* Selected Questions */}
+        <GlassCard variant="intense">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-xl font-semibold text-glass-foreground">Quiz Questions</h2>
+            <span className="text-sm text-muted-foreground">
+              {questions.length} questions · {totalPoints} points
+            </span>
+          </div>
 
-                    <div className="space-y-2">
-                      <Label className="text-glass-foreground font-medium">Correct Answer</Label>
-                      {question.type === 'multiple_choice' ? (
-                        <Select
-                          value={question.correctAnswer}
-                          onValueChange={(value) => updateQuestion(index, 'correctAnswer', value)}
-                        >
-                          <SelectTrigger className="glass border-glass-border/30 bg-glass/5 text-glass-foreground">
-                            <SelectValue placeholder="Select correct answer" />
-                          </SelectTrigger>
-                          <SelectContent className="glass border-glass-border/30 bg-glass text-glass-foreground">
-                            {question.options?.filter(option => option.trim() !== '').map((option, optionIndex) => (
-                              <SelectItem key={optionIndex} value={option}>
-                                {String.fromCharCode(65 + optionIndex)}. {option}
-                              </SelectItem>
-                            ))}
-                          </SelectContent>
-                        </Select>
-                      ) : question.type === 'true_false' ? (
-                        <Select
-                          value={question.correctAnswer}
-                          onValueChange={(value) => updateQuestion(index, 'correctAnswer', value)}
-                        >
-                          <SelectTrigger className="glass border-glass-border/30 bg-glass/5 text-glass-foreground">
-                            <SelectValue placeholder="Select correct answer" />
-                          </SelectTrigger>
-                          <SelectContent className="glass border-glass-border/30 bg-glass text-glass-foreground">
-                            <SelectItem value="True">True</SelectItem>
-                            <SelectItem value="False">False</SelectItem>
-                          </SelectContent>
-                        </Select>
-                      ) : (
-                        <Textarea
-                          value={question.correctAnswer}
-                          onChange={(e) => updateQuestion(index, 'correctAnswer', e.target.value)}
-                          placeholder="Enter the correct answer or key points..."
-                          className="glass border-glass-border/30 bg-glass/5 text-glass-foreground"
-                          rows={2}
-                        />
-                      )}
-                    </div>
-                  </div>
+          <div className="space-y-2">
+            {questions.map((question, index) => (
+              <div key={question.id} className="flex items-start justify-between glass p-3 rounded-lg">
+                <div className="flex-1">
+                  <p className="text-glass-foreground">{index + 1}. {question.question}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {banks.find(bank => bank.id === question.bankId)?.name} · {question.points} pts
+                  </p>
                 </div>
-              ))}
+                <Button
+                  variant="destructive"
+                  size="sm"
+                  onClick={() => removeQuestion(index)}
+                >
+                  <Trash2 size={14} />
+                </Button>
+              </div>
+            ))}
 
-              {questions.length === 0 && (
-                <div className="text-center py-12">
-                  <p className="text-muted-foreground">No questions added yet. Click "Add Question" to start creating your quiz.</p>
-                </div>
-              )}
-            </div>
-          </GlassCard>
-        </TabsContent>
+            {questions.length === 0 && (
+              <div className="text-center py-12">
+                <p className="text-muted-foreground">No questions added yet. Pick or draw questions from your banks to build the quiz.</p>
+              </div>
+            )}
+          </div>
+        </GlassCard>
 
         {questions.length > 0 && (
           <div className="flex justify-end">
@@ -535,4 +769,4 @@ export const SetQuiz: React.FC = () => {
       </Tabs>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,244 @@
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { GlassCard } from '@/components/ui/glass-card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { ArrowLeft, BookOpen, KeyRound, Search, Send, Users } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { db, Course, EnrollmentRequest } from '@/lib/database';
+import { getCourseDepartment, getEnrolledCount, joinCourseWithCode, requestEnrollment } from '@/lib/enrollment';
+import { toast } from '@/hooks/use-toast';
+
+interface CourseListing extends Course {
+  instructorName: string;
+  enrolledCount: number;
+  isEnrolled: boolean;
+  latestRequest?: EnrollmentRequest;
+}
+
+export const Enroll: React.FC = () => {
+  const { user } = useAuth();
+  const [courses, setCourses] = useState<CourseListing[]>([]);
+  const [joinCode, setJoinCode] = useState('');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [isJoining, setIsJoining] = useState(false);
+  const [requestingCourseId, setRequestingCourseId] = useState<number | null>(null);
+
+  useEffect(() => {
+    loadCourses();
+  }, [user]);
+
+  const loadCourses = async () => {
+    if (!user?.id) return;
+
+    try {
+      const allCourses = await db.courses.toArray();
+      const enrollments = await db.courseEnrollments.where('studentId').equals(user.id).toArray();
+      const requests = await db.enrollmentRequests.where('studentId').equals(user.id).toArray();
+
+      const listings: CourseListing[] = [];
+      for (const course of allCourses) {
+        // Students without a department can browse every course
+        if (user.department && (await getCourseDepartment(course)) !== user.department) continue;
+
+        const instructor = await db.users.get(course.instructorId);
+        const latestRequest = requests
+          .filter(request => request.courseId === course.id)
+          .sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0];
+
+        listings.push({
+          ...course,
+          instructorName: instructor ? `${instructor.firstName} ${instructor.lastName}` : 'Unknown Instructor',
+          enrolledCount: await getEnrolledCount(course.id!),
+          isEnrolled: enrollments.some(e => e.courseId === course.id),
+          latestRequest
+        });
+      }
+
+      listings.sort((a, b) => a.code.localeCompare(b.code));
+      setCourses(listings);
+    } catch (error) {
+      console.error('Error loading courses:', error);
+    }
+  };
+
+  const handleJoinWithCode = async () => {
+    if (!user?.id) return;
+
+    setIsJoining(true);
+    try {
+      const course = await joinCourseWithCode(user.id, joinCode);
+      toast({
+        title: "Enrolled",
+        description: `You have joined ${course.name}`,
+      });
+      setJoinCode('');
+      loadCourses();
+    } catch (error) {
+      console.error('Error joining course:', error);
+      toast({
+        title: "Could Not Join",
+        description: error instanceof Error ? error.message : "Failed to join course",
+        variant: "destructive"
+      });
+    } finally {
+      setIsJoining(false);
+    }
+  };
+
+  const handleRequest = async (course: CourseListing) => {
+    if (!user?.id) return;
+
+    setRequestingCourseId(course.id!);
+    try {
+      await requestEnrollment(user.id, course.id!);
+      toast({
+        title: "Request Sent",
+        description: `Your instructor will review your request to join ${course.name}`,
+      });
+      loadCourses();
+    } catch (error) {
+      console.error('Error requesting enrollment:', error);
+      toast({
+        title: "Request Failed",
+        description: error instanceof Error ? error.message : "Failed to send enrollment request",
+        variant: "destructive"
+      });
+    } finally {
+      setRequestingCourseId(null);
+    }
+  };
+
+  const renderCourseAction = (course: CourseListing) => {
+    if (course.isEnrolled) {
+      return <Badge variant="default" className="bg-success text-success-foreground">Enrolled</Badge>;
+    }
+    if (course.latestRequest?.status === 'pending') {
+      return <Badge variant="default" className="bg-warning text-warning-foreground">Pending Approval</Badge>;
+    }
+    if (course.capacity && course.enrolledCount >= course.capacity) {
+      return <Badge variant="destructive">Full</Badge>;
+    }
+
+    return (
+      <div className="flex items-center space-x-2">
+        {course.latestRequest?.status === 'rejected' && <Badge variant="outline">Declined</Badge>}
+        <Button
+          variant="primary"
+          size="sm"
+          onClick={() => handleRequest(course)}
+          disabled={requestingCourseId === course.id}
+        >
+          {requestingCourseId === course.id ? (
+            <div className="animate-spin rounded-full h-4 w-4 border-2 border-primary-foreground border-t-transparent" />
+          ) : (
+            <>
+              <Send size={14} />
+              {course.latestRequest?.status === 'rejected' ? 'Request Again' : 'Request to Join'}
+            </>
+          )}
+        </Button>
+      </div>
+    );
+  };
+
+  const filteredCourses = courses.filter(course =>
+    `${course.name} ${course.code} ${course.instructorName}`.toLowerCase().includes(searchTerm.toLowerCase())
+  );
+
+  return (
+    <div className="min-h-screen p-6">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-8">
+        <div className="flex items-center space-x-4">
+          <Link to="/dashboard">
+            <Button variant="outline" size="sm">
+              <ArrowLeft size={16} />
+              Back to Dashboard
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-3xl font-bold text-gradient">Enroll in Courses</h1>
+            <p className="text-muted-foreground mt-1">Join a course with a code or request a place</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-4xl mx-auto space-y-6">
+        <GlassCard variant="intense">
+          <div className="space-y-2">
+            <Label htmlFor="joinCode" className="text-glass-foreground font-medium flex items-center">
+              <KeyRound size={16} className="mr-2" />
+              Have a join code from your instructor?
+            </Label>
+            <div className="flex space-x-2">
+              <Input
+                id="joinCode"
+                value={joinCode}
+                onChange={(e) => setJoinCode(e.target.value.toUpperCase())}
+                placeholder="e.g., K7M2QX"
+                className="glass border-glass-border/30 bg-glass/5 text-glass-foreground font-mono"
+              />
+              <Button variant="primary" onClick={handleJoinWithCode} disabled={isJoining || !joinCode.trim()}>
+                {isJoining ? (
+                  <div className="animate-spin rounded-full h-4 w-4 border-2 border-primary-foreground border-t-transparent" />
+                ) : (
+                  'Join'
+                )}
+              </Button>
+            </div>
+          </div>
+        </GlassCard>
+
+        <GlassCard variant="intense">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-xl font-semibold text-glass-foreground flex items-center">
+              <BookOpen className="mr-2" size={20} />
+              {user?.department ? `${user.department} Courses` : 'All Courses'} ({filteredCourses.length})
+            </h2>
+            <div className="relative w-64">
+              <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+              <Input
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                placeholder="Search courses"
+                className="glass border-glass-border/30 bg-glass/5 text-glass-foreground pl-9"
+              />
+            </div>
+          </div>
+          <div className="space-y-3">
+            {filteredCourses.map((course) => (
+              <div key={course.id} className="p-4 glass rounded-lg flex items-start justify-between">
+                <div className="flex-1 mr-4">
+                  <div className="flex items-center space-x-3 mb-1">
+                    <h3 className="font-semibold text-glass-foreground">{course.name}</h3>
+                    <Badge variant="outline">{course.code}</Badge>
+                  </div>
+                  <p className="text-sm text-muted-foreground">Instructor: {course.instructorName}</p>
+                  {course.description && (
+                    <p className="text-sm text-muted-foreground mt-1">{course.description}</p>
+                  )}
+                  <p className="text-xs text-muted-foreground mt-2 flex items-center">
+                    <Users size={12} className="mr-1" />
+                    {course.capacity
+                      ? `${course.enrolledCount}/${course.capacity} seats taken`
+                      : `${course.enrolledCount} enrolled`}
+                  </p>
+                </div>
+                {renderCourseAction(course)}
+              </div>
+            ))}
+            {filteredCourses.length === 0 && (
+              <div className="text-center py-12">
+                <BookOpen size={48} className="text-muted-foreground mx-auto mb-4" />
+                <p className="text-muted-foreground">No courses available</p>
+              </div>
+            )}
+          </div>
+        </GlassCard>
+      </div>
+    </div>
+  );
+};
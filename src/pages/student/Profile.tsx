@@ -6,7 +6,7 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Textarea } from '@/components/ui/textarea';
-import { ArrowLeft, Edit, User, MessageSquare } from 'lucide-react';
+import { ArrowLeft, KeyRound, Edit, User, MessageSquare } from 'lucide-react';
 import { Link } from 'react-router-dom';
 import { db } from '@/lib/database';
 import { toast } from '@/hooks/use-toast';
@@ -130,10 +130,18 @@ export const StudentProfile: React.FC = () => {
             <p className="text-muted-foreground mt-1">View and manage your account information</p>
           </div>
         </div>
-        <Button variant="primary" onClick={handleEditRequest}>
-          <Edit size={16} />
-          Request Edit
-        </Button>
+        <div className="flex items-center space-x-3">
+          <Link to="/change-password">
+            <Button variant="outline">
+              <KeyRound size={16} />
+              Change Password
+            </Button>
+          </Link>
+          <Button variant="primary" onClick={handleEditRequest}>
+            <Edit size={16} />
+            Request Edit
+          </Button>
+        </div>
       </div>
 
       {/* Profile Card */}
@@ -9,6 +9,8 @@ import { Label } from '@/components/ui/label';
 import { ArrowLeft, BarChart3, MessageSquare, Trophy, BookOpen } from 'lucide-react';
 import { Link } from 'react-router-dom';
 import { db } from '@/lib/database';
+import { calculateAttendanceRate } from '@/lib/attendancePolicy';
+import { getBestAttempt, isScoreVisible } from '@/lib/quizAttempt';
 import { toast } from '@/hooks/use-toast';
 
 interface CourseProgress {
@@ -52,7 +54,7 @@ export const Progress: React.FC = () => {
         if (!course || !instructor) continue;
 
         // Calculate attendance rate
-        const sessions = await db.classSessions.where('courseId').equals(course.id!).toArray();
+        const sessions = await db.classSessions.where('courseId').equals(course.id!).and(session => !session.cancelledAt).toArray();
         const sessionIds = sessions.map(s => s.id!);
         
         const attendanceRecords = await db.attendanceRecords
@@ -60,16 +62,11 @@ export const Progress: React.FC = () => {
           .and(record => sessionIds.includes(record.sessionId))
           .toArray();
         
-        const presentRecords = attendanceRecords.filter(record => record.status === 'present');
-        const attendanceRate = attendanceRecords.length > 0 ? 
-          Math.round((presentRecords.length / attendanceRecords.length) * 100) : 0;
+        const attendanceRate = calculateAttendanceRate(attendanceRecords);
 
         // Get quiz data
         const quizzes = await db.quizzes.where('instructorId').equals(instructor.id!).toArray();
-        const courseQuizzes = quizzes.filter(quiz => {
-          const session = sessions.find(s => s.id === quiz.sessionId);
-          return session && session.courseId === course.id;
-        });
+        const courseQuizzes = quizzes.filter(quiz => quiz.courseId === course.id);
 
         const quizSubmissions = await db.quizSubmissions
           .where('studentId').equals(user.id)
@@ -78,10 +75,16 @@ export const Progress: React.FC = () => {
           })
           .toArray();
 
-        const completedQuizzes = quizSubmissions.filter(sub => sub.isCompleted);
-        const averageScore = completedQuizzes.length > 0 ?
-          Math.round(completedQuizzes.reduce((sum, quiz) => 
-            sum + ((quiz.totalScore || 0) / quiz.maxScore * 100), 0) / completedQuizzes.length) : 0;
+        // Best attempt per quiz, leaving out quizzes whose scores are hidden
+        const completedQuizzes = courseQuizzes.filter(quiz =>
+          quizSubmissions.some(sub => sub.quizId === quiz.id && sub.isCompleted)
+        );
+        const bestScores = completedQuizzes
+          .filter(isScoreVisible)
+          .map(quiz => getBestAttempt(quizSubmissions.filter(sub => sub.quizId === quiz.id && sub.isCompleted))!);
+        const averageScore = bestScores.length > 0 ?
+          Math.round(bestScores.reduce((sum, quiz) => 
+            sum + ((quiz.totalScore || 0) / quiz.maxScore * 100), 0) / bestScores.length) : 0;
 
         progressData.push({
           courseId: course.id!,
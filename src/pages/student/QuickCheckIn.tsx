@@ -3,19 +3,45 @@ import { useAuth } from '@/contexts/AuthContext';
 import { useLocation, useNavigate } from 'react-router-dom';
 import { GlassCard } from '@/components/ui/glass-card';
 import { Button } from '@/components/ui/button';
-import { ArrowLeft, QrCode, Camera, MapPin, CheckCircle } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { QrScanner } from '@/components/attendance/QrScanner';
+import { ArrowLeft, QrCode, Camera, MapPin, CheckCircle, Wifi } from 'lucide-react';
 import { Link } from 'react-router-dom';
-import { db } from '@/lib/database';
+import { QRCodeSVG } from 'qrcode.react';
+import { db, AttendanceRecord, ClassSession } from '@/lib/database';
+import { verifySessionQrToken, issueStudentQrToken, resolveManualEntryCode, QrTokenError } from '@/lib/qrToken';
+import { checkGeofence, formatDistance, getCurrentPosition, hasGeofence } from '@/lib/geofence';
+import { isIpInRanges } from '@/lib/ipRange';
+import { resolveClientIp } from '@/lib/clientIp';
+import { evaluateCheckIn, getAttendancePolicy } from '@/lib/attendancePolicy';
 import { toast } from '@/hooks/use-toast';
 
+// What each check-in method proves, as recorded on the attendance record
+type CheckInProof =
+  | { method: 'qr'; qrCode: string }
+  | { method: 'gps'; location: NonNullable<AttendanceRecord['location']> }
+  | { method: 'ip'; ipAddress: string };
+
+const METHOD_LABELS: Record<ClassSession['checkInMethod'], string> = {
+  qr: 'QR code',
+  gps: 'location',
+  ip: 'classroom network'
+};
+
 export const QuickCheckIn: React.FC = () => {
   const { user } = useAuth();
   const location = useLocation();
   const navigate = useNavigate();
-  const [selectedMethod, setSelectedMethod] = useState<'qr-generate' | 'qr-scan' | 'location' | null>(null);
+  const [selectedMethod, setSelectedMethod] = useState<'qr-generate' | 'qr-scan' | 'location' | 'network' | null>(null);
   const [studentQR, setStudentQR] = useState<string>('');
   const [isScanning, setIsScanning] = useState(false);
+  const [manualCode, setManualCode] = useState('');
+  const [hasCheckedIn, setHasCheckedIn] = useState(false);
   const [isCheckingLocation, setIsCheckingLocation] = useState(false);
+  const [locationMessage, setLocationMessage] = useState('');
+  const [isCheckingNetwork, setIsCheckingNetwork] = useState(false);
+  const [networkMessage, setNetworkMessage] = useState('');
   const [sessionId, setSessionId] = useState<number | null>(null);
 
   useEffect(() => {
@@ -27,89 +53,139 @@ export const QuickCheckIn: React.FC = () => {
 
   const generateStudentQR = () => {
     if (!user?.id) return;
-    
-    // Generate a unique QR token for the student
-    const qrToken = `STUDENT_${user.id}_${Date.now()}`;
-    setStudentQR(qrToken);
+    setStudentQR('');
     setSelectedMethod('qr-generate');
   };
 
+  // Keep the student's code fresh while it is on screen so the instructor never scans a stale one
+  useEffect(() => {
+    if (selectedMethod !== 'qr-generate' || !user?.id) return;
+
+    let refreshTimer: ReturnType<typeof setTimeout> | undefined;
+    let cancelled = false;
+
+    const refresh = async () => {
+      try {
+        const { token, expiresAt } = await issueStudentQrToken(user.id!);
+        if (cancelled) return;
+
+        setStudentQR(token);
+        refreshTimer = setTimeout(refresh, Math.max(new Date(expiresAt).getTime() - Date.now(), 1000));
+      } catch (error) {
+        console.error('Error generating student QR code:', error);
+        toast({
+          title: "QR Code Error",
+          description: "Failed to generate your QR code",
+          variant: "destructive"
+        });
+      }
+    };
+
+    refresh();
+
+    return () => {
+      cancelled = true;
+      if (refreshTimer) clearTimeout(refreshTimer);
+    };
+  }, [selectedMethod, user]);
+
   const startQRScan = () => {
     setSelectedMethod('qr-scan');
-    setIsScanning(true);
-    
-    // Simulate QR scanning (in a real app, this would use camera API)
-    setTimeout(() => {
-      const mockInstructorQR = `INSTRUCTOR_QR_${Date.now()}`;
-      handleQRScanResult(mockInstructorQR);
-    }, 3000);
+    setManualCode('');
   };
 
-  const handleQRScanResult = async (scannedCode: string) => {
-    setIsScanning(false);
-    
+  const handleQRScanResult = async (scannedCode: string, isManualEntry = false) => {
+    if (!user?.id || isScanning || hasCheckedIn) return;
+    setIsScanning(true);
+
     try {
-      // In a real implementation, validate the QR code against active sessions
-      // For demo purposes, we'll simulate a successful scan
-      await recordAttendance('qr', { qrCode: scannedCode });
+      // A typed code stands for the session code on screen and is checked the same way
+      const token = isManualEntry ? await resolveManualEntryCode(scannedCode, sessionId) : scannedCode;
+
+      // Verify signature, expiry and session binding before touching attendance
+      const session = await verifySessionQrToken(token, sessionId);
+
+      const enrollment = await db.courseEnrollments
+        .where('studentId').equals(user.id)
+        .and(e => e.courseId === session.courseId)
+        .first();
+
+      if (!enrollment) {
+        throw new Error('You are not enrolled in the course for this session');
+      }
+
+      await recordAttendance({ method: 'qr', qrCode: token.trim() }, session);
     } catch (error) {
       console.error('Error processing QR scan:', error);
       toast({
-        title: "Scan Failed",
-        description: "Invalid QR code or session not found",
+        title: error instanceof QrTokenError && error.code === 'expired' ? "QR Code Expired" : "Scan Failed",
+        description: error instanceof Error ? error.message : "Invalid QR code or session not found",
         variant: "destructive"
       });
+    } finally {
+      setIsScanning(false);
     }
   };
 
   const checkLocation = async () => {
     setSelectedMethod('location');
     setIsCheckingLocation(true);
+    setLocationMessage('');
 
     try {
       // Get user's current location
-      const position = await new Promise<GeolocationPosition>((resolve, reject) => {
-        navigator.geolocation.getCurrentPosition(resolve, reject, {
-          enableHighAccuracy: true,
-          timeout: 10000,
-          maximumAge: 60000
-        });
-      });
+      const position = await getCurrentPosition();
 
       const userLocation = {
         latitude: position.coords.latitude,
         longitude: position.coords.longitude
       };
 
-      // Find active sessions within location range
-      const activeSessions = await db.classSessions
-        .where('isActive').equals(true)
-        .and(session => {
-          const sessionDate = new Date(session.date);
-          const today = new Date();
-          return sessionDate.toDateString() === today.toDateString();
-        })
-        .toArray();
-
-      // Check if user is enrolled in any of these sessions
+      // Find today's active sessions for the student's courses
       const enrollments = await db.courseEnrollments.where('studentId').equals(user!.id!).toArray();
       const enrolledCourseIds = enrollments.map(e => e.courseId);
-      
-      const validSessions = activeSessions.filter(session => 
-        enrolledCourseIds.includes(session.courseId)
-      );
+
+      const today = new Date().toISOString().split('T')[0];
+      const validSessions = await db.classSessions
+        .where('date').equals(today)
+        .and(session =>
+          session.isActive &&
+          enrolledCourseIds.includes(session.courseId) &&
+          (!sessionId || session.id === sessionId)
+        )
+        .toArray();
 
       if (validSessions.length === 0) {
         throw new Error('No active sessions found for your location');
       }
 
-      // For demo purposes, assume location is valid
-      await recordAttendance('gps', { location: userLocation });
+      const zonedSessions = validSessions.filter(session => session.checkInMethod === 'gps' && hasGeofence(session.attendanceZone));
+      if (zonedSessions.length === 0) {
+        throw new Error('None of your active sessions use location check-in. Please use the method your instructor chose');
+      }
+
+      // Check against the closest classroom so the rejection reports the most useful distance
+      const results = zonedSessions
+        .map(session => ({
+          session,
+          result: checkGeofence({ ...userLocation, accuracy: position.coords.accuracy }, session.attendanceZone!)
+        }))
+        .sort((a, b) => a.result.distance - b.result.distance);
+
+      const match = results.find(r => r.result.isInside);
+      if (!match) {
+        throw new Error(results[0].result.message);
+      }
+
+      setLocationMessage(`Location verified: ${formatDistance(match.result.distance)} from the classroom`);
+      await recordAttendance({ method: 'gps', location: userLocation }, match.session);
     } catch (error) {
       console.error('Error checking location:', error);
+      const message = error instanceof Error ? error.message : "Unable to verify location";
+      setLocationMessage(message);
       toast({
         title: "Location Check Failed",
-        description: error instanceof Error ? error.message : "Unable to verify location",
+        description: message,
         variant: "destructive"
       });
     } finally {
@@ -117,28 +193,94 @@ export const QuickCheckIn: React.FC = () => {
     }
   };
 
-  const recordAttendance = async (method: 'qr' | 'gps', data: any) => {
-    if (!user?.id) return;
+  const checkNetwork = async () => {
+    setSelectedMethod('network');
+    setIsCheckingNetwork(true);
+    setNetworkMessage('');
 
     try {
-      // Find the most recent active session for the student
-      const enrollments = await db.courseEnrollments.where('studentId').equals(user.id).toArray();
+      const ipAddress = await resolveClientIp();
+
+      // Find today's active sessions for the student's courses
+      const enrollments = await db.courseEnrollments.where('studentId').equals(user!.id!).toArray();
       const enrolledCourseIds = enrollments.map(e => e.courseId);
-      
+
       const today = new Date().toISOString().split('T')[0];
-      const activeSessions = await db.classSessions
+      const validSessions = await db.classSessions
         .where('date').equals(today)
-        .and(session => session.isActive && enrolledCourseIds.includes(session.courseId))
+        .and(session =>
+          session.isActive &&
+          enrolledCourseIds.includes(session.courseId) &&
+          (!sessionId || session.id === sessionId)
+        )
         .toArray();
 
-      if (activeSessions.length === 0) {
+      if (validSessions.length === 0) {
         throw new Error('No active sessions found for today');
       }
 
-      // Use the provided sessionId or the first active session
-      const targetSession = sessionId ? 
-        activeSessions.find(s => s.id === sessionId) || activeSessions[0] : 
-        activeSessions[0];
+      const networkSessions = validSessions.filter(session => session.checkInMethod === 'ip' && session.attendanceZone?.ipRange?.length);
+      if (networkSessions.length === 0) {
+        throw new Error('None of your active sessions use network check-in. Please use the method your instructor chose');
+      }
+
+      // Without a configured lookup the address cannot be checked, so nothing is recorded
+      if (ipAddress === null) {
+        throw new Error('Network check is unavailable because no IP lookup service is configured. Ask your instructor to record your attendance');
+      }
+
+      const match = networkSessions.find(session => isIpInRanges(ipAddress, session.attendanceZone!.ipRange));
+      if (!match) {
+        throw new Error(`Your network address (${ipAddress}) is not on the classroom network. Connect to the campus Wi-Fi and try again`);
+      }
+
+      setNetworkMessage(`Network verified: ${ipAddress}`);
+      await recordAttendance({ method: 'ip', ipAddress }, match);
+    } catch (error) {
+      console.error('Error checking network:', error);
+      const message = error instanceof Error ? error.message : "Unable to verify network";
+      setNetworkMessage(message);
+      toast({
+        title: "Network Check Failed",
+        description: message,
+        variant: "destructive"
+      });
+    } finally {
+      setIsCheckingNetwork(false);
+    }
+  };
+
+  const recordAttendance = async (proof: CheckInProof, verifiedSession?: ClassSession) => {
+    if (!user?.id) return;
+
+    try {
+      let targetSession = verifiedSession;
+
+      if (!targetSession) {
+        // Find the most recent active session for the student
+        const enrollments = await db.courseEnrollments.where('studentId').equals(user.id).toArray();
+        const enrolledCourseIds = enrollments.map(e => e.courseId);
+        
+        const today = new Date().toISOString().split('T')[0];
+        const activeSessions = await db.classSessions
+          .where('date').equals(today)
+          .and(session => session.isActive && enrolledCourseIds.includes(session.courseId))
+          .toArray();
+
+        if (activeSessions.length === 0) {
+          throw new Error('No active sessions found for today');
+        }
+
+        // Use the provided sessionId or the first active session
+        targetSession = sessionId ? 
+          activeSessions.find(s => s.id === sessionId) || activeSessions[0] : 
+          activeSessions[0];
+      }
+
+      // Sessions accept only the check-in method the instructor scheduled them with
+      if (targetSession.checkInMethod !== proof.method) {
+        throw new Error(`This session only accepts ${METHOD_LABELS[targetSession.checkInMethod]} check-in`);
+      }
 
       // Check if already checked in
       const existingRecord = await db.attendanceRecords
@@ -155,23 +297,33 @@ export const QuickCheckIn: React.FC = () => {
         return;
       }
 
+      // Decide present/late from the session start, or refuse once check-in has closed
+      const checkInTime = new Date();
+      const evaluation = evaluateCheckIn(targetSession, checkInTime, await getAttendancePolicy());
+      if (evaluation.decision === 'rejected') {
+        throw new Error(evaluation.message);
+      }
+
       // Record attendance
       await db.attendanceRecords.add({
         sessionId: targetSession.id!,
         studentId: user.id,
-        status: 'present',
-        checkInTime: new Date().toISOString(),
-        checkInMethod: method,
-        location: data.location,
-        ipAddress: method === 'gps' ? undefined : '192.168.1.1',
+        status: evaluation.decision,
+        checkInTime: checkInTime.toISOString(),
+        checkInMethod: proof.method,
+        location: proof.method === 'gps' ? proof.location : undefined,
+        ipAddress: proof.method === 'ip' ? proof.ipAddress : undefined,
         isManualOverride: false,
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString()
       });
 
+      setHasCheckedIn(true);
       toast({
-        title: "Check-In Successful",
-        description: "Your attendance has been recorded",
+        title: evaluation.decision === 'late' ? "Checked In Late" : "Check-In Successful",
+        description: evaluation.decision === 'late'
+          ? `Your attendance has been recorded as late (${Math.round(evaluation.minutesAfterStart)} minutes after start)`
+          : "Your attendance has been recorded",
       });
 
       // Navigate back to dashboard after successful check-in
@@ -207,7 +359,7 @@ export const QuickCheckIn: React.FC = () => {
       </div>
 
       {!selectedMethod ? (
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 max-w-4xl mx-auto">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 max-w-6xl mx-auto">
           {/* Generate QR Code */}
           <GlassCard variant="glow" className="glass-hover cursor-pointer" onClick={generateStudentQR}>
             <div className="text-center">
@@ -258,6 +410,23 @@ export const QuickCheckIn: React.FC = () => {
               </p>
             </div>
           </GlassCard>
+
+          {/* Network Check */}
+          <GlassCard variant="glow" className="glass-hover cursor-pointer" onClick={checkNetwork}>
+            <div className="text-center">
+              <div className="flex items-center justify-center mb-4">
+                <div className="p-6 rounded-2xl bg-gradient-primary text-primary-foreground">
+                  <Wifi size={32} />
+                </div>
+              </div>
+              <h3 className="text-lg font-semibold text-glass-foreground mb-2">
+                Network Check
+              </h3>
+              <p className="text-sm text-muted-foreground">
+                Verify you are connected to the classroom network
+              </p>
+            </div>
+          </GlassCard>
         </div>
       ) : (
         <div className="max-w-2xl mx-auto">
@@ -266,26 +435,20 @@ export const QuickCheckIn: React.FC = () => {
               <div className="text-center">
                 <h2 className="text-2xl font-semibold text-glass-foreground mb-6">Your QR Code</h2>
                 <div className="bg-white p-8 rounded-2xl mx-auto w-fit mb-6">
-                  <div className="w-48 h-48 bg-gray-900 rounded-lg flex items-center justify-center">
-                    <div className="text-white text-xs text-center">
-                      <QrCode size={120} />
-                      <p className="mt-2">QR Code</p>
-                      <p className="text-xs opacity-70">{studentQR}</p>
+                  {studentQR ? (
+                    <QRCodeSVG value={studentQR} size={192} level="M" />
+                  ) : (
+                    <div className="w-48 h-48 flex items-center justify-center">
+                      <div className="animate-spin rounded-full h-12 w-12 border-2 border-primary border-t-transparent"></div>
                     </div>
-                  </div>
+                  )}
                 </div>
                 <p className="text-muted-foreground mb-6">
-                  Show this QR code to your instructor for attendance verification
+                  Show this QR code to your instructor. It refreshes automatically and your attendance is recorded once it is scanned
                 </p>
-                <div className="flex justify-center space-x-4">
-                  <Button variant="outline" onClick={() => setSelectedMethod(null)}>
-                    Back
-                  </Button>
-                  <Button variant="primary" onClick={() => recordAttendance('qr', { qrCode: studentQR })}>
-                    <CheckCircle size={16} />
-                    Confirm Check-In
-                  </Button>
-                </div>
+                <Button variant="outline" onClick={() => setSelectedMethod(null)}>
+                  Back
+                </Button>
               </div>
             </GlassCard>
           )}
@@ -294,24 +457,36 @@ export const QuickCheckIn: React.FC = () => {
             <GlassCard variant="intense" size="lg">
               <div className="text-center">
                 <h2 className="text-2xl font-semibold text-glass-foreground mb-6">Scan QR Code</h2>
-                <div className="bg-gray-900 p-8 rounded-2xl mx-auto w-fit mb-6">
-                  <div className="w-48 h-48 border-2 border-dashed border-gray-600 rounded-lg flex items-center justify-center">
-                    {isScanning ? (
-                      <div className="text-center text-white">
-                        <div className="animate-spin rounded-full h-12 w-12 border-2 border-white border-t-transparent mx-auto mb-4"></div>
-                        <p>Scanning...</p>
-                      </div>
-                    ) : (
-                      <div className="text-center text-gray-400">
-                        <Camera size={48} className="mx-auto mb-2" />
-                        <p>Camera View</p>
-                      </div>
-                    )}
+                <div className="mb-6">
+                  <QrScanner onDecode={handleQRScanResult} paused={isScanning || hasCheckedIn} />
+                  {isScanning && (
+                    <p className="text-sm text-muted-foreground mt-2">Verifying code...</p>
+                  )}
+                </div>
+                <div className="space-y-2 text-left mb-6">
+                  <Label htmlFor="manualCode" className="text-glass-foreground font-medium">
+                    Or enter the code shown under the instructor's QR code
+                  </Label>
+                  <div className="flex space-x-2">
+                    <Input
+                      id="manualCode"
+                      value={manualCode}
+                      onChange={(e) => setManualCode(e.target.value)}
+                      placeholder="ABC234"
+                      maxLength={8}
+                      autoComplete="off"
+                      className="glass border-glass-border/30 bg-glass/5 text-glass-foreground font-mono uppercase tracking-widest"
+                    />
+                    <Button
+                      variant="primary"
+                      onClick={() => handleQRScanResult(manualCode, true)}
+                      disabled={isScanning || hasCheckedIn || !manualCode.trim()}
+                    >
+                      <CheckCircle size={16} />
+                      Check In
+                    </Button>
                   </div>
                 </div>
-                <p className="text-muted-foreground mb-6">
-                  Point your camera at the instructor's QR code
-                </p>
                 <Button variant="outline" onClick={() => setSelectedMethod(null)}>
                   Back
                 </Button>
@@ -332,7 +507,7 @@ export const QuickCheckIn: React.FC = () => {
                   ) : (
                     <div className="text-center">
                       <MapPin size={64} className="text-primary mx-auto mb-4" />
-                      <p className="text-glass-foreground">Location verified successfully!</p>
+                      <p className="text-glass-foreground">{locationMessage}</p>
                     </div>
                   )}
                 </div>
@@ -345,6 +520,33 @@ export const QuickCheckIn: React.FC = () => {
               </div>
             </GlassCard>
           )}
+
+          {selectedMethod === 'network' && (
+            <GlassCard variant="intense" size="lg">
+              <div className="text-center">
+                <h2 className="text-2xl font-semibold text-glass-foreground mb-6">Network Verification</h2>
+                <div className="p-8 mb-6">
+                  {isCheckingNetwork ? (
+                    <div className="text-center">
+                      <div className="animate-spin rounded-full h-12 w-12 border-2 border-primary border-t-transparent mx-auto mb-4"></div>
+                      <p className="text-glass-foreground">Checking your network...</p>
+                    </div>
+                  ) : (
+                    <div className="text-center">
+                      <Wifi size={64} className="text-primary mx-auto mb-4" />
+                      <p className="text-glass-foreground">{networkMessage}</p>
+                    </div>
+                  )}
+                </div>
+                <p className="text-muted-foreground mb-6">
+                  We're verifying that you're connected to the classroom network
+                </p>
+                <Button variant="outline" onClick={() => setSelectedMethod(null)}>
+                  Back
+                </Button>
+              </div>
+            </GlassCard>
+          )}
         </div>
       )}
     </div>
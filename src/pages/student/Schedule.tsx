@@ -3,134 +3,142 @@ import { useAuth } from '@/contexts/AuthContext';
 import { GlassCard } from '@/components/ui/glass-card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { ArrowLeft, Calendar, Clock, MapPin, User } from 'lucide-react';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { AlertTriangle, ArrowLeft, Calendar, CalendarPlus, ChevronLeft, ChevronRight, Clock, MapPin, User } from 'lucide-react';
 import { Link } from 'react-router-dom';
-import { db } from '@/lib/database';
-
-interface ScheduleItem {
-  id: number;
-  courseName: string;
-  courseCode: string;
-  instructorName: string;
-  day: string;
-  startTime: string;
-  endTime: string;
-  location: string;
-  type: 'lecture' | 'lab' | 'tutorial';
-}
+import { formatDate } from '@/lib/sessionSeries';
+import { buildStudentCalendar } from '@/lib/icalendar';
+import { downloadFile } from '@/lib/download';
+import { toast } from '@/hooks/use-toast';
+import { getStudentTimetable, getWeekDates, getWeekStart, TimetableEntry } from '@/lib/timetable';
+
+type ScheduleView = 'week' | 'day' | 'list';
+
+const toLocalDate = (date: string) => new Date(`${date}T00:00`);
+
+const getDurationHours = (entry: TimetableEntry) => {
+  const [startHour, startMinute] = entry.session.startTime.split(':').map(Number);
+  const [endHour, endMinute] = entry.session.endTime.split(':').map(Number);
+  return (endHour * 60 + endMinute - startHour * 60 - startMinute) / 60;
+};
 
 export const Schedule: React.FC = () => {
   const { user } = useAuth();
-  const [weeklySchedule, setWeeklySchedule] = useState<{ [key: string]: ScheduleItem[] }>({});
-  const [currentWeek, setCurrentWeek] = useState(new Date());
+  const [view, setView] = useState<ScheduleView>('week');
+  const [selectedDate, setSelectedDate] = useState(new Date());
+  const [entries, setEntries] = useState<TimetableEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const weekDates = getWeekDates(getWeekStart(selectedDate));
+  const weekStart = weekDates[0];
+  const selectedDay = formatDate(selectedDate);
+  const today = formatDate(new Date());
 
   useEffect(() => {
-    generateWeeklySchedule();
-  }, [user, currentWeek]);
+    loadTimetable();
+  }, [user, weekStart]);
 
-  const generateWeeklySchedule = async () => {
+  const loadTimetable = async () => {
     if (!user?.id) return;
 
     try {
-      const enrollments = await db.courseEnrollments.where('studentId').equals(user.id).toArray();
-      const schedule: { [key: string]: ScheduleItem[] } = {
-        'Monday': [],
-        'Tuesday': [],
-        'Wednesday': [],
-        'Thursday': [],
-        'Friday': [],
-        'Saturday': [],
-        'Sunday': []
-      };
-
-      for (const enrollment of enrollments) {
-        const course = await db.courses.get(enrollment.courseId);
-        const instructor = course ? await db.users.get(course.instructorId) : null;
-        
-        if (!course || !instructor) continue;
-
-        // Generate standard university schedule for each course
-        const scheduleItems = generateCourseSchedule(course, instructor);
-        
-        scheduleItems.forEach(item => {
-          if (schedule[item.day]) {
-            schedule[item.day].push(item);
-          }
-        });
-      }
-
-      // Sort each day's schedule by time
-      Object.keys(schedule).forEach(day => {
-        schedule[day].sort((a, b) => a.startTime.localeCompare(b.startTime));
-      });
-
-      setWeeklySchedule(schedule);
+      setEntries(await getStudentTimetable(user.id, weekStart, weekDates[6]));
     } catch (error) {
-      console.error('Error generating schedule:', error);
+      console.error('Error loading schedule:', error);
+    } finally {
+      setIsLoading(false);
     }
   };
 
-  const generateCourseSchedule = (course: any, instructor: any): ScheduleItem[] => {
-    const items: ScheduleItem[] = [];
-    const courseLevel = parseInt(course.code.match(/\d+/)?.[0] || '100');
-    
-    // Generate realistic university schedule based on course level and type
-    const timeSlots = [
-      { start: '08:00', end: '09:30' },
-      { start: '10:00', end: '11:30' },
-      { start: '12:00', end: '13:30' },
-      { start: '14:00', end: '15:30' },
-      { start: '16:00', end: '17:30' }
-    ];
-
-    const rooms = ['A-101', 'B-205', 'C-312', 'Lab-1', 'Lab-2', 'Tutorial-A'];
-    
-    // Most courses have 2-3 sessions per week
-    const sessionCount = courseLevel >= 300 ? 2 : 3;
-    const days = ['Monday', 'Wednesday', 'Friday', 'Tuesday', 'Thursday'];
-    
-    for (let i = 0; i < sessionCount; i++) {
-      const timeSlot = timeSlots[Math.floor(Math.random() * timeSlots.length)];
-      const room = rooms[Math.floor(Math.random() * rooms.length)];
-      const day = days[i % days.length];
-      
-      let type: 'lecture' | 'lab' | 'tutorial' = 'lecture';
-      if (course.name.toLowerCase().includes('lab') || room.includes('Lab')) {
-        type = 'lab';
-      } else if (i === sessionCount - 1 && sessionCount > 2) {
-        type = 'tutorial';
-      }
-
-      items.push({
-        id: course.id * 100 + i,
-        courseName: course.name,
-        courseCode: course.code,
-        instructorName: `${instructor.firstName} ${instructor.lastName}`,
-        day,
-        startTime: timeSlot.start,
-        endTime: timeSlot.end,
-        location: room,
-        type
+  const exportCalendar = async () => {
+    if (!user?.id) return;
+
+    try {
+      downloadFile('my-classes.ics', await buildStudentCalendar(user.id), 'text/calendar');
+    } catch (error) {
+      console.error('Error exporting calendar:', error);
+      toast({
+        title: "Error",
+        description: "Failed to export calendar",
+        variant: "destructive"
       });
     }
-
-    return items;
   };
 
-  const getTypeColor = (type: string) => {
-    switch (type) {
-      case 'lecture':
-        return 'bg-primary text-primary-foreground';
-      case 'lab':
-        return 'bg-accent text-accent-foreground';
-      case 'tutorial':
-        return 'bg-secondary text-secondary-foreground';
-      default:
-        return 'bg-muted text-muted-foreground';
-    }
+  // Week and list views move a week at a time, the day view a day at a time
+  const move = (direction: 1 | -1) => {
+    const next = new Date(selectedDate);
+    next.setDate(next.getDate() + direction * (view === 'day' ? 1 : 7));
+    setSelectedDate(next);
   };
 
-  const daysOfWeek = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+  const getEntriesOn = (date: string) => entries.filter(entry => entry.session.date === date);
+
+  // Cancelled classes stay on the timetable but are left out of the summary
+  const heldEntries = entries.filter(entry => !entry.session.cancelledAt);
+  const clashCount = heldEntries.filter(entry => entry.clashesWith.length > 0).length;
+  const totalHours = heldEntries.reduce((sum, entry) => sum + getDurationHours(entry), 0);
+  const courseCount = new Set(heldEntries.map(entry => entry.session.courseId)).size;
+
+  const rangeLabel = view === 'day'
+    ? selectedDate.toLocaleDateString(undefined, { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' })
+    : `${toLocalDate(weekDates[0]).toLocaleDateString()} - ${toLocalDate(weekDates[6]).toLocaleDateString()}`;
+
+  const renderEntry = (entry: TimetableEntry, showDate = false) => (
+    <div
+      key={entry.session.id}
+      className={`p-3 glass rounded-lg ${entry.clashesWith.length > 0 ? 'border border-destructive/50' : ''} ${entry.session.cancelledAt ? 'opacity-60' : ''}`}
+    >
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-xs text-muted-foreground flex items-center">
+          <Clock size={12} className="mr-1" />
+          {showDate && `${toLocalDate(entry.session.date).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' })} · `}
+          {entry.session.startTime} - {entry.session.endTime}
+        </span>
+        {entry.session.cancelledAt ? (
+          <Badge variant="destructive">Cancelled</Badge>
+        ) : entry.session.date === today && <Badge variant="outline">Today</Badge>}
+      </div>
+
+      <h4 className="font-medium text-glass-foreground text-sm mb-1">
+        {entry.course?.code || 'Unknown Course'}
+      </h4>
+      <p className="text-xs text-muted-foreground mb-2">
+        {entry.session.title}
+      </p>
+
+      <div className="space-y-1">
+        <div className="flex items-center text-xs text-muted-foreground">
+          <User size={12} className="mr-1" />
+          {entry.instructorName}
+        </div>
+        {entry.session.location && (
+          <div className="flex items-center text-xs text-muted-foreground">
+            <MapPin size={12} className="mr-1" />
+            {entry.session.location}
+          </div>
+        )}
+      </div>
+
+      {entry.session.cancellationReason && (
+        <p className="text-xs text-destructive mt-2">{entry.session.cancellationReason}</p>
+      )}
+
+      {entry.clashesWith.length > 0 && (
+        <p className="flex items-start text-xs text-destructive mt-2">
+          <AlertTriangle size={12} className="mr-1 mt-0.5 shrink-0" />
+          Clashes with {entry.clashesWith.map(other => `${other.title} (${other.startTime} - ${other.endTime})`).join(', ')}
+        </p>
+      )}
+    </div>
+  );
+
+  const renderEmpty = (message: string) => (
+    <div className="text-center py-8">
+      <Calendar size={32} className="text-muted-foreground mx-auto mb-2" />
+      <p className="text-xs text-muted-foreground">{message}</p>
+    </div>
+  );
 
   return (
     <div className="min-h-screen p-6">
@@ -145,62 +153,95 @@ export const Schedule: React.FC = () => {
           </Link>
           <div>
             <h1 className="text-3xl font-bold text-gradient">My Schedule</h1>
-            <p className="text-muted-foreground mt-1">Your weekly class timetable</p>
+            <p className="text-muted-foreground mt-1">Your class timetable from scheduled sessions</p>
           </div>
         </div>
+        <Button variant="outline" onClick={exportCalendar}>
+          <CalendarPlus size={16} />
+          Add to Calendar (.ics)
+        </Button>
       </div>
 
-      {/* Weekly Schedule Grid */}
-      <div className="grid grid-cols-1 lg:grid-cols-7 gap-4">
-        {daysOfWeek.map((day) => (
-          <GlassCard key={day} variant="intense" className="min-h-[400px]">
-            <div className="text-center mb-4">
-              <h3 className="font-semibold text-glass-foreground">{day}</h3>
-              <div className="h-1 w-12 bg-gradient-primary rounded-full mx-auto mt-2"></div>
-            </div>
-            
-            <div className="space-y-3">
-              {weeklySchedule[day]?.map((item) => (
-                <div key={item.id} className="p-3 glass rounded-lg">
-                  <div className="flex items-center justify-between mb-2">
-                    <Badge className={getTypeColor(item.type)} variant="outline">
-                      {item.type.charAt(0).toUpperCase() + item.type.slice(1)}
-                    </Badge>
-                    <span className="text-xs text-muted-foreground">
-                      {item.startTime} - {item.endTime}
-                    </span>
-                  </div>
-                  
-                  <h4 className="font-medium text-glass-foreground text-sm mb-1">
-                    {item.courseCode}
-                  </h4>
-                  <p className="text-xs text-muted-foreground mb-2">
-                    {item.courseName}
+      <Tabs value={view} onValueChange={(value) => setView(value as ScheduleView)} className="space-y-6">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <TabsList className="glass">
+            <TabsTrigger value="week">Week</TabsTrigger>
+            <TabsTrigger value="day">Day</TabsTrigger>
+            <TabsTrigger value="list">List</TabsTrigger>
+          </TabsList>
+
+          <div className="flex items-center space-x-2">
+            <Button variant="outline" size="sm" onClick={() => move(-1)}>
+              <ChevronLeft size={16} />
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setSelectedDate(new Date())}>
+              Today
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => move(1)}>
+              <ChevronRight size={16} />
+            </Button>
+            <span className="text-glass-foreground font-medium ml-2">{rangeLabel}</span>
+          </div>
+        </div>
+
+        {clashCount > 0 && (
+          <GlassCard variant="intense" className="border border-destructive/50">
+            <p className="flex items-center text-destructive">
+              <AlertTriangle size={16} className="mr-2" />
+              {clashCount} session{clashCount === 1 ? '' : 's'} this week overlap with another course. Contact your instructors to resolve the clash
+            </p>
+          </GlassCard>
+        )}
+
+        <TabsContent value="week">
+          <div className="grid grid-cols-1 lg:grid-cols-7 gap-4">
+            {weekDates.map((date) => (
+              <GlassCard
+                key={date}
+                variant="intense"
+                className={`min-h-[400px] cursor-pointer ${date === today ? 'ring-1 ring-primary/50' : ''}`}
+                onClick={() => {
+                  setSelectedDate(toLocalDate(date));
+                  setView('day');
+                }}
+              >
+                <div className="text-center mb-4">
+                  <h3 className="font-semibold text-glass-foreground">
+                    {toLocalDate(date).toLocaleDateString(undefined, { weekday: 'long' })}
+                  </h3>
+                  <p className="text-xs text-muted-foreground">
+                    {toLocalDate(date).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
                   </p>
-                  
-                  <div className="space-y-1">
-                    <div className="flex items-center text-xs text-muted-foreground">
-                      <User size={12} className="mr-1" />
-                      {item.instructorName}
-                    </div>
-                    <div className="flex items-center text-xs text-muted-foreground">
-                      <MapPin size={12} className="mr-1" />
-                      {item.location}
-                    </div>
-                  </div>
+                  <div className="h-1 w-12 bg-gradient-primary rounded-full mx-auto mt-2"></div>
                 </div>
-              ))}
-              
-              {(!weeklySchedule[day] || weeklySchedule[day].length === 0) && (
-                <div className="text-center py-8">
-                  <Calendar size={32} className="text-muted-foreground mx-auto mb-2" />
-                  <p className="text-xs text-muted-foreground">No classes</p>
+
+                <div className="space-y-3">
+                  {getEntriesOn(date).map((entry) => renderEntry(entry))}
+                  {getEntriesOn(date).length === 0 && renderEmpty('No classes')}
                 </div>
-              )}
+              </GlassCard>
+            ))}
+          </div>
+        </TabsContent>
+
+        <TabsContent value="day">
+          <GlassCard variant="intense" className="max-w-2xl mx-auto">
+            <div className="space-y-3">
+              {getEntriesOn(selectedDay).map((entry) => renderEntry(entry))}
+              {getEntriesOn(selectedDay).length === 0 && renderEmpty('No classes on this day')}
             </div>
           </GlassCard>
-        ))}
-      </div>
+        </TabsContent>
+
+        <TabsContent value="list">
+          <GlassCard variant="intense" className="max-w-2xl mx-auto">
+            <div className="space-y-3">
+              {entries.map((entry) => renderEntry(entry, true))}
+              {!isLoading && entries.length === 0 && renderEmpty('No classes this week')}
+            </div>
+          </GlassCard>
+        </TabsContent>
+      </Tabs>
 
       {/* Schedule Summary */}
       <div className="mt-8">
@@ -210,35 +251,27 @@ export const Schedule: React.FC = () => {
           </h2>
           <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
             <div className="text-center p-4 glass rounded-lg">
-              <div className="text-2xl font-bold text-primary mb-1">
-                {Object.values(weeklySchedule).flat().filter(item => item.type === 'lecture').length}
-              </div>
-              <div className="text-sm text-muted-foreground">Lectures</div>
+              <div className="text-2xl font-bold text-primary mb-1">{heldEntries.length}</div>
+              <div className="text-sm text-muted-foreground">Classes</div>
             </div>
-            
+
             <div className="text-center p-4 glass rounded-lg">
-              <div className="text-2xl font-bold text-accent mb-1">
-                {Object.values(weeklySchedule).flat().filter(item => item.type === 'lab').length}
-              </div>
-              <div className="text-sm text-muted-foreground">Labs</div>
+              <div className="text-2xl font-bold text-accent mb-1">{Math.round(totalHours * 10) / 10}</div>
+              <div className="text-sm text-muted-foreground">Hours</div>
             </div>
-            
+
             <div className="text-center p-4 glass rounded-lg">
-              <div className="text-2xl font-bold text-secondary mb-1">
-                {Object.values(weeklySchedule).flat().filter(item => item.type === 'tutorial').length}
-              </div>
-              <div className="text-sm text-muted-foreground">Tutorials</div>
+              <div className="text-2xl font-bold text-secondary mb-1">{courseCount}</div>
+              <div className="text-sm text-muted-foreground">Courses</div>
             </div>
-            
+
             <div className="text-center p-4 glass rounded-lg">
-              <div className="text-2xl font-bold text-success mb-1">
-                {Object.values(weeklySchedule).flat().length}
-              </div>
-              <div className="text-sm text-muted-foreground">Total Classes</div>
+              <div className={`text-2xl font-bold mb-1 ${clashCount > 0 ? 'text-destructive' : 'text-success'}`}>{clashCount}</div>
+              <div className="text-sm text-muted-foreground">Clashes</div>
             </div>
           </div>
         </GlassCard>
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
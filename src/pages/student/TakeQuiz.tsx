@@ -0,0 +1,454 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { Link, useParams } from 'react-router-dom';
+import { GlassCard } from '@/components/ui/glass-card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { ArrowLeft, CheckCircle, ClipboardList, Clock, RotateCcw, Send, XCircle } from 'lucide-react';
+import { db, Question, Quiz, QuizSubmission } from '@/lib/database';
+import {
+  areAnswersRevealed,
+  getAttemptDeadline,
+  getAttemptQuestions,
+  getBestAttempt,
+  getCompletedAttempts,
+  getInProgressSubmission,
+  getMaxAttempts,
+  getQuestionOptions,
+  getQuizQuestions,
+  getQuizWindow,
+  hasAttemptsRemaining,
+  isScoreVisible,
+  isWithinQuizWindow,
+  QuizWindow,
+  saveQuizAnswers,
+  startQuizAttempt,
+  submitQuizAttempt
+} from '@/lib/quizAttempt';
+import { logIntegrityEvent } from '@/lib/quizIntegrity';
+import { toast } from '@/hooks/use-toast';
+
+type QuizPhase = 'loading' | 'unavailable' | 'intro' | 'in_progress' | 'submitted';
+
+export const TakeQuiz: React.FC = () => {
+  const { user } = useAuth();
+  const { id } = useParams<{ id: string }>();
+  const [phase, setPhase] = useState<QuizPhase>('loading');
+  const [quiz, setQuiz] = useState<Quiz | null>(null);
+  const [courseName, setCourseName] = useState('');
+  const [quizWindow, setQuizWindow] = useState<QuizWindow>({});
+  const [questions, setQuestions] = useState<Question[]>([]);
+  const [submission, setSubmission] = useState<QuizSubmission | null>(null);
+  const [completedAttempts, setCompletedAttempts] = useState<QuizSubmission[]>([]);
+  const [answers, setAnswers] = useState<{ [questionId: number]: string }>({});
+  const [secondsLeft, setSecondsLeft] = useState(0);
+  const [isStarting, setIsStarting] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const submittingRef = useRef(false);
+
+  useEffect(() => {
+    loadQuiz();
+  }, [user, id]);
+
+  const loadQuiz = async () => {
+    if (!user?.id || !id) return;
+
+    try {
+      const quizData = await db.quizzes.get(parseInt(id));
+      if (!quizData) {
+        setPhase('unavailable');
+        return;
+      }
+
+      const course = await db.courses.get(quizData.courseId);
+      setQuiz(quizData);
+      setCourseName(course?.name || '');
+      setQuizWindow(await getQuizWindow(quizData));
+
+      const completed = await getCompletedAttempts(quizData.id!, user.id);
+      setCompletedAttempts(completed);
+
+      const inProgress = await getInProgressSubmission(quizData.id!, user.id);
+      if (!inProgress && completed.length > 0) {
+        // Show the latest result; another attempt can be started from there if allowed
+        const latest = completed[completed.length - 1];
+        setSubmission(latest);
+        setQuestions(await getAttemptQuestions(quizData, latest));
+        setPhase('submitted');
+        return;
+      }
+
+      setSubmission(inProgress || null);
+      setQuestions(await getQuizQuestions(quizData));
+      setPhase(quizData.isActive || inProgress ? 'intro' : 'unavailable');
+    } catch (error) {
+      console.error('Error loading quiz:', error);
+      setPhase('unavailable');
+    }
+  };
+
+  const startQuiz = async () => {
+    if (!user?.id || !quiz) return;
+
+    setIsStarting(true);
+    try {
+      const attempt = await startQuizAttempt(quiz.id!, user.id);
+      setSubmission(attempt);
+      setQuestions(await getAttemptQuestions(quiz, attempt));
+
+      if (attempt.isCompleted) {
+        // The previous attempt ran out of time while the student was away
+        setCompletedAttempts(prev => [...prev, attempt]);
+        setPhase('submitted');
+        return;
+      }
+
+      setAnswers(Object.fromEntries(attempt.answers.map(a => [a.questionId, a.answer])));
+      submittingRef.current = false;
+      setPhase('in_progress');
+    } catch (error) {
+      console.error('Error starting quiz:', error);
+      toast({
+        title: "Cannot Start Quiz",
+        description: error instanceof Error ? error.message : "Failed to start quiz",
+        variant: "destructive"
+      });
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const submitQuiz = async (isTimeout = false) => {
+    if (!submission || submittingRef.current) return;
+    submittingRef.current = true;
+    setIsSubmitting(true);
+
+    try {
+      const completed = await submitQuizAttempt(submission.id!, answers);
+      setSubmission(completed);
+      setCompletedAttempts(prev => [...prev.filter(attempt => attempt.id !== completed.id), completed]);
+      setPhase('submitted');
+      toast({
+        title: isTimeout ? "Time's Up" : "Quiz Submitted",
+        description: isTimeout ? "Your answers were submitted automatically" : "Your answers have been recorded",
+      });
+    } catch (error) {
+      console.error('Error submitting quiz:', error);
+      submittingRef.current = false;
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to submit quiz",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Count down to the attempt deadline and submit automatically when it passes
+  useEffect(() => {
+    if (phase !== 'in_progress' || !submission || !quiz) return;
+
+    const deadline = getAttemptDeadline(submission, quiz);
+    const tick = () => {
+      const remaining = Math.max(0, Math.ceil((deadline - Date.now()) / 1000));
+      setSecondsLeft(remaining);
+      if (remaining === 0) submitQuiz(true);
+    };
+
+    tick();
+    const countdown = setInterval(tick, 1000);
+    return () => clearInterval(countdown);
+  }, [phase, submission, quiz, answers]);
+
+  // Record when the student leaves the tab while the attempt is running
+  useEffect(() => {
+    if (phase !== 'in_progress' || !submission) return;
+
+    const handleVisibilityChange = () => {
+      logIntegrityEvent(submission.id!, { type: document.hidden ? 'focus_lost' : 'focus_returned' }).catch(error =>
+        console.error('Error logging focus change:', error)
+      );
+    };
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, [phase, submission]);
+
+  const handlePaste = (questionId: number, e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    if (!submission) return;
+    const pasted = e.clipboardData.getData('text');
+    logIntegrityEvent(submission.id!, { type: 'paste', questionId, detail: `${pasted.length} characters` }).catch(error =>
+      console.error('Error logging paste:', error)
+    );
+  };
+
+  const updateAnswer = (questionId: number, answer: string, persist: boolean) => {
+    setAnswers(prev => ({ ...prev, [questionId]: answer }));
+    if (persist && submission) {
+      saveQuizAnswers(submission.id!, { [questionId]: answer }).catch(error =>
+        console.error('Error saving answer:', error)
+      );
+    }
+  };
+
+  const getOptions = (question: Question) =>
+    submission?.optionOrder?.[question.id!] || getQuestionOptions(question);
+
+  const formatTime = (seconds: number) =>
+    `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+
+  const answeredCount = questions.filter(q => (answers[q.id!] || '').trim() !== '').length;
+  const totalPoints = questions.reduce((sum, q) => sum + q.points, 0);
+  const maxAttempts = quiz ? getMaxAttempts(quiz) : 1;
+  const canRetake = !!quiz && quiz.isActive && hasAttemptsRemaining(quiz, completedAttempts.length) && isWithinQuizWindow(quizWindow);
+  const showScore = !!quiz && isScoreVisible(quiz);
+  // Per-question marks give answers away, so they wait until no further attempt is possible
+  const showMarks = showScore && !canRetake;
+  const showAnswers = showMarks && areAnswersRevealed(quiz, quizWindow);
+  const bestAttempt = getBestAttempt(completedAttempts);
+
+  return (
+    <div className="min-h-screen p-6">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-8">
+        <div className="flex items-center space-x-4">
+          <Link to="/dashboard">
+            <Button variant="outline" size="sm">
+              <ArrowLeft size={16} />
+              Back to Dashboard
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-3xl font-bold text-gradient">{quiz?.title || 'Quiz'}</h1>
+            {courseName && <p className="text-muted-foreground mt-1">{courseName}</p>}
+          </div>
+        </div>
+        {phase === 'in_progress' && (
+          <div className={`flex items-center text-2xl font-mono font-bold ${secondsLeft <= 60 ? 'text-destructive' : 'text-glass-foreground'}`}>
+            <Clock size={24} className="mr-2" />
+            {formatTime(secondsLeft)}
+          </div>
+        )}
+      </div>
+
+      <div className="max-w-3xl mx-auto space-y-6">
+        {phase === 'loading' && (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-2 border-primary border-t-transparent"></div>
+          </div>
+        )}
+
+        {phase === 'unavailable' && (
+          <GlassCard variant="intense" size="lg">
+            <div className="text-center">
+              <ClipboardList size={64} className="text-muted-foreground mx-auto mb-4" />
+              <p className="text-muted-foreground">This quiz is not available</p>
+            </div>
+          </GlassCard>
+        )}
+
+        {phase === 'intro' && quiz && (
+          <GlassCard variant="intense" size="lg">
+            <div className="text-center">
+              <ClipboardList size={64} className="text-primary mx-auto mb-4" />
+              <h2 className="text-2xl font-semibold text-glass-foreground mb-6">{quiz.title}</h2>
+              <div className="grid grid-cols-3 gap-4 mb-6">
+                <div className="p-3 glass rounded-lg">
+                  <div className="text-2xl font-bold text-glass-foreground">{questions.length}</div>
+                  <div className="text-xs text-muted-foreground">Questions</div>
+                </div>
+                <div className="p-3 glass rounded-lg">
+                  <div className="text-2xl font-bold text-glass-foreground">{quiz.timeLimit} min</div>
+                  <div className="text-xs text-muted-foreground">Time Limit</div>
+                </div>
+                <div className="p-3 glass rounded-lg">
+                  <div className="text-2xl font-bold text-glass-foreground">{totalPoints}</div>
+                  <div className="text-xs text-muted-foreground">Points</div>
+                </div>
+              </div>
+              <p className="text-muted-foreground mb-2">
+                {submission
+                  ? 'You have an attempt in progress. The timer kept running while you were away'
+                  : 'The timer starts as soon as you begin and your answers are submitted automatically when it runs out'}
+              </p>
+              {maxAttempts !== 1 && (
+                <p className="text-muted-foreground mb-2">
+                  {maxAttempts === 0 ? 'Unlimited attempts' : `Attempt ${completedAttempts.length + 1} of ${maxAttempts}`}
+                </p>
+              )}
+              <p className="text-xs text-muted-foreground mb-6">
+                Leaving this tab and pasting into answers are recorded for your instructor
+              </p>
+              {!submission && quizWindow.opensAt && quizWindow.opensAt > new Date() ? (
+                <p className="text-warning mb-6">Opens {quizWindow.opensAt.toLocaleString()}</p>
+              ) : !submission && quizWindow.closesAt && (
+                <p className="text-muted-foreground mb-6">
+                  {isWithinQuizWindow(quizWindow) ? 'Closes' : 'Closed'} {quizWindow.closesAt.toLocaleString()}
+                </p>
+              )}
+              <Button
+                variant="primary"
+                onClick={startQuiz}
+                disabled={isStarting || (!submission && !isWithinQuizWindow(quizWindow))}
+              >
+                {isStarting ? (
+                  <div className="animate-spin rounded-full h-4 w-4 border-2 border-primary-foreground border-t-transparent" />
+                ) : (
+                  submission ? 'Resume Quiz' : 'Start Quiz'
+                )}
+              </Button>
+            </div>
+          </GlassCard>
+        )}
+
+        {phase === 'in_progress' && (
+          <>
+            {questions.map((question, index) => (
+              <GlassCard key={question.id} variant="intense">
+                <div className="flex items-start justify-between mb-4">
+                  <h3 className="text-lg font-semibold text-glass-foreground">
+                    {index + 1}. {question.question}
+                  </h3>
+                  <Badge variant="outline">{question.points} pt{question.points === 1 ? '' : 's'}</Badge>
+                </div>
+
+                {question.type === 'short_answer' ? (
+                  <Textarea
+                    value={answers[question.id!] || ''}
+                    onChange={(e) => updateAnswer(question.id!, e.target.value, false)}
+                    onBlur={(e) => updateAnswer(question.id!, e.target.value, true)}
+                    onPaste={(e) => handlePaste(question.id!, e)}
+                    placeholder="Type your answer..."
+                    className="glass border-glass-border/30 bg-glass/5 text-glass-foreground"
+                    rows={4}
+                  />
+                ) : (
+                  <RadioGroup
+                    value={answers[question.id!] || ''}
+                    onValueChange={(value) => updateAnswer(question.id!, value, true)}
+                    className="space-y-2"
+                  >
+                    {getOptions(question).map((option, optionIndex) => (
+                      <div key={optionIndex} className="flex items-center space-x-3 p-3 glass rounded-lg">
+                        <RadioGroupItem value={option} id={`q${question.id}-o${optionIndex}`} />
+                        <Label htmlFor={`q${question.id}-o${optionIndex}`} className="text-glass-foreground cursor-pointer flex-1">
+                          {String.fromCharCode(65 + optionIndex)}. {option}
+                        </Label>
+                      </div>
+                    ))}
+                  </RadioGroup>
+                )}
+              </GlassCard>
+            ))}
+
+            <GlassCard variant="intense">
+              <div className="flex items-center justify-between">
+                <p className="text-muted-foreground">
+                  {answeredCount} of {questions.length} questions answered
+                </p>
+                <Button
+                  variant="primary"
+                  onClick={() => {
+                    if (answeredCount < questions.length && !confirm('Some questions are unanswered. Submit anyway?')) return;
+                    submitQuiz();
+                  }}
+                  disabled={isSubmitting}
+                >
+                  {isSubmitting ? (
+                    <div className="animate-spin rounded-full h-4 w-4 border-2 border-primary-foreground border-t-transparent" />
+                  ) : (
+                    <>
+                      <Send size={16} />
+                      Submit Quiz
+                    </>
+                  )}
+                </Button>
+              </div>
+            </GlassCard>
+          </>
+        )}
+
+        {phase === 'submitted' && submission && (
+          <>
+            <GlassCard variant="intense" size="lg">
+              <div className="text-center">
+                <CheckCircle size={64} className="text-success mx-auto mb-4" />
+                <h2 className="text-2xl font-semibold text-glass-foreground mb-2">Quiz Submitted</h2>
+                {maxAttempts !== 1 && (
+                  <p className="text-muted-foreground mb-2">
+                    Attempt {submission.attemptNumber || completedAttempts.length}
+                    {maxAttempts > 0 && ` of ${maxAttempts}`}
+                  </p>
+                )}
+                {showScore ? (
+                  <>
+                    <p className="text-4xl font-bold text-gradient mb-2">
+                      {submission.totalScore || 0} / {submission.maxScore}
+                    </p>
+                    {completedAttempts.length > 1 && bestAttempt && (
+                      <p className="text-muted-foreground mb-2">
+                        Best score: {bestAttempt.totalScore || 0} / {bestAttempt.maxScore}
+                      </p>
+                    )}
+                    {submission.answers.some(a => a.points === undefined) && (
+                      <p className="text-muted-foreground">
+                        Some answers are awaiting grading by your instructor, so this score may change
+                      </p>
+                    )}
+                  </>
+                ) : (
+                  <p className="text-muted-foreground">Your instructor will release scores for this quiz later</p>
+                )}
+                {canRetake && (
+                  <Button variant="primary" onClick={startQuiz} disabled={isStarting} className="mt-4">
+                    {isStarting ? (
+                      <div className="animate-spin rounded-full h-4 w-4 border-2 border-primary-foreground border-t-transparent" />
+                    ) : (
+                      <>
+                        <RotateCcw size={16} />
+                        Try Again
+                      </>
+                    )}
+                  </Button>
+                )}
+              </div>
+            </GlassCard>
+
+            {questions.map((question, index) => {
+              const answer = submission.answers.find(a => a.questionId === question.id);
+              return (
+                <GlassCard key={question.id} variant="intense">
+                  <div className="flex items-start justify-between mb-2">
+                    <h3 className="font-semibold text-glass-foreground">
+                      {index + 1}. {question.question}
+                    </h3>
+                    {showScore && answer?.points === undefined && <Badge variant="outline">Awaiting grading</Badge>}
+                    {showMarks && answer?.points !== undefined && (
+                      <Badge variant="outline">{answer.points} / {question.points}</Badge>
+                    )}
+                  </div>
+                  <div className="flex items-center space-x-2 text-sm">
+                    {showMarks && answer?.isCorrect === true && <CheckCircle size={16} className="text-success" />}
+                    {showMarks && answer?.isCorrect === false && <XCircle size={16} className="text-destructive" />}
+                    <span className="text-muted-foreground">Your answer:</span>
+                    <span className="text-glass-foreground">{answer?.answer || 'No answer'}</span>
+                  </div>
+                  {showAnswers && question.type !== 'short_answer' && answer?.isCorrect === false && (
+                    <p className="text-sm text-muted-foreground mt-1">Correct answer: {question.correctAnswer}</p>
+                  )}
+                  {answer?.feedback && (
+                    <p className="text-sm text-muted-foreground mt-1">Instructor feedback: {answer.feedback}</p>
+                  )}
+                </GlassCard>
+              );
+            })}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};